@@ -2,23 +2,27 @@
 
 import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { ArrowLeft, ExternalLink, Clock, RefreshCw } from 'lucide-react';
+import { ArrowLeft, ExternalLink, Clock, RefreshCw, AlertTriangle } from 'lucide-react';
 import Link from 'next/link';
 import { ScoreRing } from '@/components/dashboard/ScoreRing';
 import { MetricsGrid } from '@/components/dashboard/MetricsGrid';
 import { ScoreBreakdown } from '@/components/dashboard/ScoreBreakdown';
 import { ScoreInsights } from '@/components/dashboard/ScoreInsights';
+import { ScoreTrendChart } from '@/components/dashboard/ScoreTrendChart';
+import { ScoreSimulator } from '@/components/dashboard/ScoreSimulator';
 import { ActionCards, QuickActions } from '@/components/dashboard/ActionCards';
 import { Navigation } from '@/components/landing/Navigation';
 import { ProofGenerationModal } from '@/components/ProofGenerationModal';
-import { ScoringEngine } from '@/lib/sdk';
+import { ScoringEngine, METRIC_FIELDS, fallbackFields } from '@/lib/sdk';
 import type { CreditAssessment } from '@/types/sdk';
 import { usePuzzleWallet } from '@/lib/hooks/usePuzzleWallet';
 import { useWalletMetrics } from '@/hooks/useWalletMetrics';
+import { useScoreTrend } from '@/hooks/useScoreTrend';
 
 export default function DashboardPage() {
     const { address, isConnected } = usePuzzleWallet();
     const { metrics, loading: metricsLoading, error: metricsError, fetchMetrics } = useWalletMetrics();
+    const { trend, previousMetrics, fetchTrend } = useScoreTrend();
     const [assessment, setAssessment] = useState<CreditAssessment | null>(null);
     const [isGeneratingScore, setIsGeneratingScore] = useState(false);
     const [isProofModalOpen, setIsProofModalOpen] = useState(false);
@@ -49,6 +53,13 @@ export default function DashboardPage() {
         }
     }, [metrics, assessment]);
 
+    // Replay past scores once the current one is known
+    useEffect(() => {
+        if (address && assessment) {
+            fetchTrend(address, assessment);
+        }
+    }, [address, assessment, fetchTrend]);
+
     // Handle refresh
     const handleRefresh = async () => {
         if (address) {
@@ -114,6 +125,9 @@ export default function DashboardPage() {
         );
     }
 
+    // Metrics the score was computed from that are estimates, not chain data
+    const estimatedFields = fallbackFields(assessment);
+
     const mockTransactionId = 'at1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq3ljyzc';
 
     return (
@@ -169,6 +183,18 @@ export default function DashboardPage() {
                                 </span>
                             </div>
                         </div>
+
+                        {/* Data Provenance */}
+                        {estimatedFields.length > 0 && (
+                            <div className="mt-6 flex items-start gap-2 text-sm text-hot-pink">
+                                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                <span>
+                                    {estimatedFields.length} of {METRIC_FIELDS.length} metrics could not be read from the
+                                    chain and were estimated ({estimatedFields.join(', ')}). This
+                                    score is not based on verified on-chain data.
+                                </span>
+                            </div>
+                        )}
                     </motion.div>
 
                     {/* Score Ring Section */}
@@ -271,9 +297,21 @@ export default function DashboardPage() {
                         <h2 className="text-2xl font-bold text-pure-white mb-6">
                             Key Metrics
                         </h2>
-                        <MetricsGrid metrics={metrics} />
+                        <MetricsGrid metrics={metrics} previousMetrics={previousMetrics ?? undefined} />
                     </motion.div>
 
+                    {/* Score History */}
+                    {trend && trend.series.length > 1 && (
+                        <motion.div
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            transition={{ duration: 0.6, delay: 0.25 }}
+                            className="mb-12"
+                        >
+                            <ScoreTrendChart trend={trend} />
+                        </motion.div>
+                    )}
+
                     {/* Two Column Layout */}
                     <div className="grid lg:grid-cols-3 gap-8 mb-12">
                         {/* Score Breakdown */}
@@ -300,6 +338,16 @@ export default function DashboardPage() {
                         </motion.div>
                     </div>
 
+                    {/* What-If Simulator */}
+                    <motion.div
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ duration: 0.6, delay: 0.45 }}
+                        className="mb-12"
+                    >
+                        <ScoreSimulator assessment={assessment} />
+                    </motion.div>
+
                     {/* Action Cards */}
                     <motion.div
                         initial={{ opacity: 0, y: 20 }}
@@ -10,13 +10,20 @@ import {
     ArrowDown,
     Minus,
 } from 'lucide-react';
-import type { WalletMetrics } from '@/types/sdk';
+import type { MetricField, ProvenanceStatus, WalletMetrics } from '@/types/sdk';
 
 interface MetricsGridProps {
     metrics: WalletMetrics;
     previousMetrics?: WalletMetrics;
 }
 
+const PROVENANCE_BADGES: Record<ProvenanceStatus, { label: string; className: string }> = {
+    real: { label: 'On-chain', className: 'bg-neon-green/10 text-neon-green' },
+    cached: { label: 'Cached', className: 'bg-neon-cyan/10 text-neon-cyan' },
+    stale: { label: 'Refreshing', className: 'bg-neon-cyan/10 text-neon-cyan' },
+    fallback: { label: 'Estimated', className: 'bg-hot-pink/10 text-hot-pink' },
+};
+
 export function MetricsGrid({ metrics, previousMetrics }: MetricsGridProps) {
     // Calculate trends
     const getTrend = (current: number, previous?: number) => {
@@ -63,9 +70,23 @@ export function MetricsGrid({ metrics, previousMetrics }: MetricsGridProps) {
         return colorMap[color as keyof typeof colorMap] || colorMap['neon-cyan'];
     };
 
+    // Where a card's value came from, e.g. "aleo-explorer · block 4250000 · 10/19/2026, 9:00 AM"
+    const getProvenance = (field: MetricField) => {
+        const provenance = metrics.provenance?.[field];
+        if (!provenance) return null;
+
+        const height =
+            provenance.blockHeight !== null ? `block ${provenance.blockHeight}` : 'height unknown';
+        return {
+            ...PROVENANCE_BADGES[provenance.status],
+            title: `${provenance.source} · ${height} · ${new Date(provenance.fetchedAt).toLocaleString()}`,
+        };
+    };
+
     const metricCards = [
         {
             label: 'Total Transactions',
+            field: 'transactionCount' as MetricField,
             value: metrics.transactionCount.toLocaleString(),
             icon: Activity,
             color: 'neon-cyan',
@@ -80,6 +101,7 @@ export function MetricsGrid({ metrics, previousMetrics }: MetricsGridProps) {
         },
         {
             label: 'Wallet Age',
+            field: 'walletAgeMonths' as MetricField,
             value: `${metrics.walletAgeMonths} months`,
             icon: Calendar,
             color: 'neon-green',
@@ -91,6 +113,7 @@ export function MetricsGrid({ metrics, previousMetrics }: MetricsGridProps) {
         },
         {
             label: 'DeFi Activity',
+            field: 'defiScore' as MetricField,
             value: `${metrics.defiScore}/100`,
             icon: TrendingUp,
             color: 'electric-purple',
@@ -102,6 +125,7 @@ export function MetricsGrid({ metrics, previousMetrics }: MetricsGridProps) {
         },
         {
             label: 'Repayment Rate',
+            field: 'repaymentRate' as MetricField,
             value: `${metrics.repaymentRate}%`,
             icon: Wallet,
             color: 'neon-yellow',
@@ -124,6 +148,7 @@ export function MetricsGrid({ metrics, previousMetrics }: MetricsGridProps) {
                             ? ArrowDown
                             : Minus;
                 const colors = getColorClasses(card.color);
+                const provenance = getProvenance(card.field);
 
                 return (
                     <motion.div
@@ -167,8 +192,56 @@ export function MetricsGrid({ metrics, previousMetrics }: MetricsGridProps) {
                                 {card.value}
                             </div>
                             <div className="text-sm text-text-muted">{card.label}</div>
+                            {provenance && (
+                                <div
+                                    title={provenance.title}
+                                    className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${provenance.className}`}
+                                >
+                                    {provenance.label}
+                                </div>
+                            )}
                         </div>
 
+                        {/* DeFi protocols the score was built from */}
+                        {card.field === 'defiScore' && metrics.defiActivity && (
+                            <div className="mt-3 space-y-1">
+                                {metrics.defiActivity.protocols.length === 0 ? (
+                                    <div className="text-xs text-text-muted">
+                                        No DeFi interactions found
+                                    </div>
+                                ) : (
+                                    metrics.defiActivity.protocols.slice(0, 3).map((protocol) => (
+                                        <div
+                                            key={protocol.protocol}
+                                            title={protocol.programs.join(', ')}
+                                            className="flex items-center justify-between text-xs"
+                                        >
+                                            <span className="text-text-secondary">
+                                                {protocol.protocol}
+                                                <span className="text-text-muted">
+                                                    {' '}· {protocol.categories.join(', ')}
+                                                </span>
+                                            </span>
+                                            <span className="text-text-muted">
+                                                {protocol.interactions}×
+                                            </span>
+                                        </div>
+                                    ))
+                                )}
+                            </div>
+                        )}
+
+                        {/* Loan ledger the repayment rate was built from */}
+                        {card.field === 'repaymentRate' && metrics.repaymentHistory && (
+                            <div className="mt-3 text-xs text-text-muted">
+                                {metrics.repaymentHistory.loans.length === 0
+                                    ? 'No loans found'
+                                    : `${metrics.repaymentHistory.loans.length} loans · ` +
+                                    `${metrics.repaymentHistory.liquidations} liquidated · ` +
+                                    `${metrics.repaymentHistory.maxDaysPastDue} max days past due`}
+                            </div>
+                        )}
+
                         {/* Progress Bar (for percentage-based metrics) */}
                         {(card.label === 'DeFi Activity' || card.label === 'Repayment Rate') && (
                             <div className="mt-4 h-1.5 bg-charcoal rounded-full overflow-hidden">
@@ -10,6 +10,7 @@ interface ScoreBreakdownProps {
 
 export function ScoreBreakdown({ assessment }: ScoreBreakdownProps) {
     const breakdown = ScoringEngine.getScoreBreakdown(assessment);
+    const { defiActivity, repaymentHistory, balanceHistory, activityAnomalies } = assessment.metrics;
 
     // Helper to get color classes
     const getColorClasses = (color: string) => {
@@ -39,6 +40,7 @@ export function ScoreBreakdown({ assessment }: ScoreBreakdownProps) {
     };
 
     const bonusItems = breakdown.factors.map(factor => ({
+        id: factor.id,
         label: factor.name,
         value: factor.contribution,
         max: 100, // All factors are on 0-100 scale
@@ -47,6 +49,7 @@ export function ScoreBreakdown({ assessment }: ScoreBreakdownProps) {
                 factor.rating === 'fair' ? 'electric-purple' :
                     'neon-yellow',
         description: `${factor.score}/100 score (${factor.weight}% weight)`,
+        penalties: factor.penalties,
     }));
 
     return (
@@ -137,11 +140,117 @@ export function ScoreBreakdown({ assessment }: ScoreBreakdownProps) {
                                     </span>
                                 </div>
                             </div>
+
+                            {/* DeFi score components and protocols */}
+                            {item.id === 'defi' && defiActivity && (
+                                <div className="mt-3 space-y-2 text-xs">
+                                    <div className="flex gap-4 text-text-muted">
+                                        <span>Diversity {defiActivity.diversity}</span>
+                                        <span>Volume {defiActivity.volume}</span>
+                                        <span>Recency {defiActivity.recency}</span>
+                                    </div>
+                                    {defiActivity.protocols.map((protocol) => (
+                                        <div
+                                            key={protocol.protocol}
+                                            className="flex items-center justify-between"
+                                        >
+                                            <span className="text-text-secondary">
+                                                {protocol.protocol} ({protocol.categories.join(', ')})
+                                            </span>
+                                            <span className="text-text-muted">
+                                                {protocol.interactions} interactions · block{' '}
+                                                {protocol.lastBlock}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {/* Loan ledger signals */}
+                            {item.id === 'repayment' && repaymentHistory && (
+                                <div className="mt-3 flex flex-wrap gap-4 text-xs text-text-muted">
+                                    <span>
+                                        On time{' '}
+                                        {repaymentHistory.onTimeRate === null
+                                            ? 'n/a'
+                                            : `${repaymentHistory.onTimeRate}%`}
+                                    </span>
+                                    <span>Loans {repaymentHistory.loans.length}</span>
+                                    <span>Open {repaymentHistory.openLoans}</span>
+                                    <span>Liquidations {repaymentHistory.liquidations}</span>
+                                    <span>Defaults {repaymentHistory.defaults}</span>
+                                    <span>Max days past due {repaymentHistory.maxDaysPastDue}</span>
+                                </div>
+                            )}
+
+                            {/* Wash activity penalties, with the anomalies behind them */}
+                            {item.penalties.length > 0 && (
+                                <div className="mt-3 space-y-2 text-xs">
+                                    {item.penalties.map((penalty) => (
+                                        <div
+                                            key={penalty.anomaly}
+                                            className="flex items-center justify-between"
+                                        >
+                                            <span className="text-neon-yellow">
+                                                {penalty.anomaly} · {penalty.discount} transactions
+                                                not counted
+                                            </span>
+                                            <span className="text-text-muted">
+                                                -{penalty.points} pts
+                                            </span>
+                                        </div>
+                                    ))}
+                                    {activityAnomalies?.anomalies.map((anomaly) => (
+                                        <div
+                                            key={`${anomaly.type}-${anomaly.fromBlock}`}
+                                            className="text-text-muted"
+                                        >
+                                            {anomaly.description} (blocks {anomaly.fromBlock}–
+                                            {anomaly.toBlock})
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {/* Sampled balance the stability factor was built from */}
+                            {item.id === 'balance' && balanceHistory && (
+                                <div className="mt-3 flex flex-wrap gap-4 text-xs text-text-muted">
+                                    <span>
+                                        Average {Math.round(balanceHistory.average).toLocaleString()}
+                                    </span>
+                                    <span>
+                                        Minimum {Math.round(balanceHistory.minimum).toLocaleString()}
+                                    </span>
+                                    <span>Volatility {balanceHistory.volatility.toFixed(2)}</span>
+                                    <span>{balanceHistory.samples.length} samples</span>
+                                </div>
+                            )}
                         </motion.div>
                     );
                 })}
             </div>
 
+            {/* Negative credit events, fading with age */}
+            {breakdown.eventPenalties.length > 0 && (
+                <div className="mt-8 pt-8 border-t border-glass-border space-y-3">
+                    <div className="text-sm font-medium text-pure-white">
+                        Negative Credit Events
+                    </div>
+                    {breakdown.eventPenalties.map((penalty) => (
+                        <div
+                            key={`${penalty.event}-${penalty.loanId}`}
+                            className="flex items-center justify-between text-xs"
+                        >
+                            <span className="text-neon-yellow">
+                                {penalty.event} · {penalty.protocol} · {penalty.ageDays} days ago
+                                ({Math.round(penalty.weight * 100)}% weight)
+                            </span>
+                            <span className="text-text-muted">-{penalty.points} pts</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {/* Total Score */}
             <div className="mt-8 pt-8 border-t border-glass-border">
                 <div className="flex items-center justify-between">
@@ -151,6 +260,10 @@ export function ScoreBreakdown({ assessment }: ScoreBreakdownProps) {
                         </div>
                         <div className="text-sm text-text-muted">
                             Base + All Bonuses
+                            {breakdown.penaltyPoints > 0 &&
+                                ` (after ${breakdown.penaltyPoints} penalty points)`}
+                            {breakdown.eventPenaltyPoints > 0 &&
+                                ` − ${breakdown.eventPenaltyPoints} for credit events`}
                         </div>
                     </div>
                     <div className="text-4xl font-bold gradient-text">
@@ -3,13 +3,14 @@
 /**
  * Score Insights Component
  * 
- * Displays detailed factor analysis and improvement suggestions
- * for the user's credit score
+ * Displays detailed factor analysis, the reason codes behind the points
+ * lost and improvement suggestions for the user's credit score
  */
 
 import { motion } from 'framer-motion';
-import { TrendingUp, AlertCircle, CheckCircle, Info } from 'lucide-react';
-import { ScoringEngine } from '@/lib/sdk';
+import { TrendingUp, TrendingDown, AlertCircle, CheckCircle, Info } from 'lucide-react';
+import { ScoringEngine, formatReason } from '@/lib/sdk';
+import { describeStep } from './ScoreSimulator';
 import type { CreditAssessment } from '@/types/sdk';
 
 interface ScoreInsightsProps {
@@ -19,6 +20,7 @@ interface ScoreInsightsProps {
 export function ScoreInsights({ assessment }: ScoreInsightsProps) {
     const factorAnalysis = ScoringEngine.getFactorAnalysis(assessment);
     const improvements = ScoringEngine.getImprovementSuggestions(assessment);
+    const reasons = ScoringEngine.getReasons(assessment);
     const percentile = ScoringEngine.getScorePercentile(assessment.finalScore);
 
     return (
@@ -96,6 +98,41 @@ export function ScoreInsights({ assessment }: ScoreInsightsProps) {
                 </div>
             </motion.div>
 
+            {/* Reason Codes */}
+            {reasons.length > 0 && (
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.15 }}
+                    className="glass-card p-6"
+                >
+                    <div className="flex items-center gap-2 mb-6">
+                        <TrendingDown className="w-5 h-5 text-hot-pink" />
+                        <h3 className="text-xl font-bold text-pure-white">
+                            What Holds Your Score Back
+                        </h3>
+                    </div>
+                    <div className="space-y-3">
+                        {reasons.map((reason) => (
+                            <div
+                                key={reason.code}
+                                className="flex items-center justify-between gap-4 text-sm"
+                            >
+                                <div>
+                                    <div className="text-pure-white">{formatReason(reason)}</div>
+                                    <div className="text-xs text-text-muted font-mono">
+                                        {reason.code}
+                                    </div>
+                                </div>
+                                <span className="text-hot-pink whitespace-nowrap">
+                                    -{reason.points} pts
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </motion.div>
+            )}
+
             {/* Improvement Suggestions */}
             {improvements.length > 0 && (
                 <motion.div
@@ -144,7 +181,9 @@ export function ScoreInsights({ assessment }: ScoreInsightsProps) {
                                             {improvement.suggestion}
                                         </p>
                                         <div className="text-xs text-neon-cyan">
-                                            Potential gain: +{improvement.potentialGain} points
+                                            {improvement.nextStep
+                                                ? `${describeStep(improvement.nextStep)} gets you +${improvement.potentialGain} points`
+                                                : `Potential gain: +${improvement.potentialGain} points`}
                                         </div>
                                     </div>
                                 </div>
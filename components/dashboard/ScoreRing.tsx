@@ -2,7 +2,8 @@
 
 import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import type { RiskLevel } from '@/types/sdk';
+import { CLASSIC_SCALE, normalizeScore, scaleBand } from '@/lib/sdk/scales/ScoreScales';
+import type { RiskLevel, ScoreScale } from '@/types/sdk';
 
 interface ScoreRingProps {
     score: number; // 300-850
@@ -10,16 +11,33 @@ interface ScoreRingProps {
     size?: 'sm' | 'md' | 'lg';
     animated?: boolean;
     showLabel?: boolean;
+    scale?: ScoreScale; // Shows the score, band and band's risk level on this scale
+    normalizedScore?: number; // assessment.normalizedScore (default: score within 300-850)
 }
 
+const RISK_LABELS: Record<RiskLevel, string> = {
+    low: 'Low Risk',
+    medium: 'Medium Risk',
+    high: 'High Risk',
+};
+
 export function ScoreRing({
     score,
-    riskLevel,
+    riskLevel: assessedRisk,
     size = 'lg',
     animated = true,
     showLabel = true,
+    scale,
+    normalizedScore,
 }: ScoreRingProps) {
-    const [displayScore, setDisplayScore] = useState(animated ? 300 : score);
+    const normalized = normalizedScore ?? normalizeScore(score);
+    const shownScale = scale ?? CLASSIC_SCALE;
+    const band = scale && scaleBand(scale, normalized);
+    const riskLevel = band ? band.riskLevel : assessedRisk;
+
+    const [displayScore, setDisplayScore] = useState(
+        shownScale.project(animated ? 0 : normalized)
+    );
 
     // Animate score counting
     useEffect(() => {
@@ -27,8 +45,8 @@ export function ScoreRing({
 
         const duration = 2000; // 2 seconds
         const steps = 60;
-        const increment = (score - 300) / steps;
-        let current = 300;
+        const increment = normalized / steps;
+        let current = 0;
         let step = 0;
 
         const timer = setInterval(() => {
@@ -36,18 +54,18 @@ export function ScoreRing({
             current += increment;
 
             if (step >= steps) {
-                setDisplayScore(score);
+                setDisplayScore(shownScale.project(normalized));
                 clearInterval(timer);
             } else {
-                setDisplayScore(Math.round(current));
+                setDisplayScore(shownScale.project(current));
             }
         }, duration / steps);
 
         return () => clearInterval(timer);
-    }, [score, animated]);
+    }, [normalized, shownScale, animated]);
 
-    // Calculate percentage (300-850 range)
-    const percentage = ((score - 300) / 550) * 100;
+    // Calculate percentage of the score range
+    const percentage = normalized * 100;
 
     // Size configurations
     const sizes = {
@@ -178,7 +196,7 @@ export function ScoreRing({
                         </div>
                         {showLabel && (
                             <div className={`${config.labelSize} text-text-muted mt-1`}>
-                                Credit Score
+                                {scale ? scale.name : 'Credit Score'}
                             </div>
                         )}
                     </motion.div>
@@ -198,9 +216,10 @@ export function ScoreRing({
             ${riskLevel === 'high' ? 'bg-hot-pink/10 border border-hot-pink/30 text-hot-pink' : ''}
           `}
                 >
-                    {riskLevel === 'low' && '✓ Low Risk'}
-                    {riskLevel === 'medium' && '⚠ Medium Risk'}
-                    {riskLevel === 'high' && '⚡ High Risk'}
+                    {riskLevel === 'low' && '✓ '}
+                    {riskLevel === 'medium' && '⚠ '}
+                    {riskLevel === 'high' && '⚡ '}
+                    {band ? band.label : RISK_LABELS[riskLevel]}
                 </motion.div>
             )}
         </div>
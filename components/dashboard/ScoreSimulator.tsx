@@ -0,0 +1,192 @@
+'use client';
+
+/**
+ * Score Simulator Component
+ * 
+ * Interactive what-if panel: adjust metrics and see the exact simulated
+ * score, plus the nearest step up for every factor
+ */
+
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { RotateCcw, Sparkles } from 'lucide-react';
+import { ScoringEngine } from '@/lib/sdk';
+import type { CreditAssessment, MetricChange, SimulatedMetric, TierBoundary } from '@/types/sdk';
+
+interface ScoreSimulatorProps {
+    assessment: CreditAssessment;
+}
+
+interface Control {
+    metric: SimulatedMetric;
+    label: string;
+    mode: 'add' | 'set';
+    min: number;
+    max: number;
+    step: number;
+    unit: string;
+}
+
+const CONTROLS: Control[] = [
+    { metric: 'transactionCount', label: 'More transactions', mode: 'add', min: 0, max: 200, step: 1, unit: '' },
+    { metric: 'walletAgeMonths', label: 'Months from now', mode: 'add', min: 0, max: 24, step: 1, unit: ' mo' },
+    { metric: 'defiScore', label: 'DeFi activity', mode: 'set', min: 0, max: 100, step: 1, unit: '' },
+    { metric: 'repaymentRate', label: 'Repayment rate', mode: 'set', min: 0, max: 100, step: 1, unit: '%' },
+    { metric: 'tokenBalance', label: 'Balance held', mode: 'set', min: 0, max: 1_000_000, step: 100, unit: ' credits' },
+];
+
+/**
+ * Describe a tier boundary as an action, e.g. "5 more transactions"
+ */
+export function describeStep(boundary: TierBoundary): string {
+    const amount = Math.abs(boundary.delta).toLocaleString('en-US');
+    const value = boundary.value.toLocaleString('en-US');
+    switch (boundary.metric) {
+        case 'transactionCount':
+            return `${amount} ${boundary.direction === 'up' ? 'more' : 'fewer'} transactions`;
+        case 'walletAgeMonths':
+            return `${amount} more month${Math.abs(boundary.delta) === 1 ? '' : 's'}`;
+        case 'defiScore':
+            return `DeFi activity of ${value}`;
+        case 'repaymentRate':
+            return `${value}% repayment rate`;
+        case 'tokenBalance':
+            return `${value} credits held steadily`;
+    }
+}
+
+export function ScoreSimulator({ assessment }: ScoreSimulatorProps) {
+    const { metrics } = assessment;
+    const initial = useMemo(
+        () =>
+            Object.fromEntries(
+                CONTROLS.map((c) => [c.metric, c.mode === 'add' ? 0 : Math.round(metrics[c.metric])])
+            ) as Record<SimulatedMetric, number>,
+        [metrics]
+    );
+    const [values, setValues] = useState(initial);
+
+    const simulation = useMemo(() => {
+        const changes: MetricChange[] = CONTROLS.filter((c) => values[c.metric] !== initial[c.metric]).map(
+            (c) =>
+                c.mode === 'add'
+                    ? { metric: c.metric, add: values[c.metric] }
+                    : { metric: c.metric, set: values[c.metric] }
+        );
+        return ScoringEngine.simulate(metrics, changes, ScoringEngine.getModel(assessment), {
+            now: assessment.timestamp,
+        });
+    }, [assessment, metrics, values, initial]);
+
+    // Move a control to a boundary of the simulated metrics
+    const applyStep = (boundary: TierBoundary) => {
+        const control = CONTROLS.find((c) => c.metric === boundary.metric);
+        if (!control) return;
+        setValues((current) => ({
+            ...current,
+            [boundary.metric]:
+                control.mode === 'add'
+                    ? current[boundary.metric] + boundary.delta
+                    : boundary.value,
+        }));
+    };
+
+    const { change, simulated } = simulation;
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="glass-card p-8"
+        >
+            <div className="flex items-center justify-between mb-6">
+                <div>
+                    <h3 className="text-2xl font-bold text-pure-white mb-1">What-If Simulator</h3>
+                    <p className="text-text-secondary">See exactly how changes would move your score</p>
+                </div>
+                <button
+                    onClick={() => setValues(initial)}
+                    className="inline-flex items-center gap-2 text-sm text-text-secondary hover:text-neon-cyan transition-colors"
+                >
+                    <RotateCcw className="w-4 h-4" />
+                    Reset
+                </button>
+            </div>
+
+            <div className="grid lg:grid-cols-2 gap-8">
+                {/* Controls */}
+                <div className="space-y-5">
+                    {CONTROLS.map((control) => (
+                        <label key={control.metric} className="block space-y-2">
+                            <div className="flex items-center justify-between text-sm">
+                                <span className="text-text-secondary">{control.label}</span>
+                                <span className="text-pure-white font-medium">
+                                    {control.mode === 'add' ? '+' : ''}
+                                    {values[control.metric].toLocaleString('en-US')}
+                                    {control.unit}
+                                </span>
+                            </div>
+                            <input
+                                type="range"
+                                min={control.min}
+                                max={Math.max(control.max, initial[control.metric])}
+                                step={control.step}
+                                value={values[control.metric]}
+                                onChange={(e) =>
+                                    setValues((current) => ({
+                                        ...current,
+                                        [control.metric]: Number(e.target.value),
+                                    }))
+                                }
+                                className="w-full accent-neon-cyan"
+                            />
+                        </label>
+                    ))}
+                </div>
+
+                {/* Result */}
+                <div className="space-y-6">
+                    <div className="text-center p-6 rounded-xl bg-charcoal/50">
+                        <div className="text-sm text-text-muted mb-1">Simulated score</div>
+                        <div className="text-5xl font-bold gradient-text">{simulated.finalScore}</div>
+                        <div
+                            className={`mt-2 text-sm font-medium ${change > 0 ? 'text-neon-green' : change < 0 ? 'text-hot-pink' : 'text-text-muted'
+                                }`}
+                        >
+                            {change > 0 ? '+' : ''}
+                            {change} points · {simulated.riskLevel} risk
+                        </div>
+                    </div>
+
+                    <div className="space-y-3">
+                        {simulation.factors.map((factor) => {
+                            const next = factor.boundaries.find((b) => b.direction === 'up');
+                            return (
+                                <div key={factor.id} className="flex items-center justify-between gap-4 text-sm">
+                                    <div>
+                                        <div className="text-pure-white font-medium">{factor.name}</div>
+                                        <div className="text-text-muted text-xs">
+                                            {factor.before}/100
+                                            {factor.after !== factor.before && ` → ${factor.after}/100`}
+                                        </div>
+                                    </div>
+                                    {next ? (
+                                        <button
+                                            onClick={() => applyStep(next)}
+                                            className="inline-flex items-center gap-1 text-right text-neon-cyan hover:text-neon-green transition-colors"
+                                        >
+                                            <Sparkles className="w-3 h-3 flex-shrink-0" />
+                                            {describeStep(next)} gets you +{next.points}
+                                        </button>
+                                    ) : (
+                                        <span className="text-text-muted text-xs">Top tier</span>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+        </motion.div>
+    );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+/**
+ * Score Trend Chart Component
+ * 
+ * Plots the user's score over past block heights and names the factor
+ * that moved it most
+ */
+
+import { motion } from 'framer-motion';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import {
+    CartesianGrid,
+    Line,
+    LineChart,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis,
+} from 'recharts';
+import type { ScoreTrend } from '@/types/sdk';
+
+interface ScoreTrendChartProps {
+    trend: ScoreTrend;
+}
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+export function ScoreTrendChart({ trend }: ScoreTrendChartProps) {
+    const data = trend.series.map((point) => ({
+        date: formatDate(point.timestamp),
+        score: point.score,
+        delta: point.delta,
+    }));
+    const TrendIcon = trend.change > 0 ? TrendingUp : trend.change < 0 ? TrendingDown : Minus;
+    const changeColor =
+        trend.change > 0 ? 'text-neon-green' : trend.change < 0 ? 'text-hot-pink' : 'text-text-muted';
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="glass-card p-6"
+        >
+            <div className="flex items-center justify-between mb-6">
+                <h3 className="text-xl font-bold text-pure-white">Score History</h3>
+                <div className={`flex items-center gap-2 text-sm font-medium ${changeColor}`}>
+                    <TrendIcon className="w-4 h-4" />
+                    <span>
+                        {trend.change > 0 ? '+' : ''}
+                        {trend.change} pts since {data[0]?.date}
+                    </span>
+                </div>
+            </div>
+
+            <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={data} margin={{ top: 8, right: 16, bottom: 0, left: -16 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.08)" />
+                        <XAxis dataKey="date" stroke="#6b7280" fontSize={12} />
+                        <YAxis domain={[300, 850]} stroke="#6b7280" fontSize={12} />
+                        <Tooltip
+                            contentStyle={{
+                                background: 'rgba(10,10,10,0.9)',
+                                border: '1px solid rgba(255,255,255,0.1)',
+                                borderRadius: 8,
+                            }}
+                            formatter={(value: number) => [value, 'Score']}
+                        />
+                        <Line
+                            type="monotone"
+                            dataKey="score"
+                            stroke="var(--neon-cyan)"
+                            strokeWidth={2}
+                            dot={{ r: 3 }}
+                        />
+                    </LineChart>
+                </ResponsiveContainer>
+            </div>
+
+            {trend.topMover && (
+                <div className="mt-4 text-sm text-text-secondary">
+                    Biggest mover:{' '}
+                    <span className="text-pure-white font-medium">{trend.topMover.name}</span>{' '}
+                    ({trend.topMover.change > 0 ? '+' : ''}
+                    {trend.topMover.change} pts)
+                </div>
+            )}
+        </motion.div>
+    );
+}
@@ -90,7 +90,8 @@ export function CreditIssuanceModal({
                 );
             }, 200);
 
-            const proof = await sdk.generateProof(assessment);
+            const record = await sdk.createScoreRecord(assessment);
+            const proof = await sdk.generateProof(assessment, record);
             clearInterval(proofInterval);
             updateStep('prove', 'success', 'Proof generated', 100);
 
@@ -100,6 +101,7 @@ export function CreditIssuanceModal({
 
             // Mock private key (in production, this comes from wallet)
             const mockPrivateKey = 'APrivateKey1zkp...';
+            await sdk.registerScore(proof, mockPrivateKey);
             const issuanceResult = await sdk.issueCredit(proof, mockPrivateKey);
 
             if (issuanceResult.success) {
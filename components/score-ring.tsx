@@ -2,6 +2,14 @@
 
 import { useEffect, useState, useRef } from "react"
 import { cn } from "@/lib/utils"
+import { normalizeScore, scaleBand } from "@/lib/sdk/scales/ScoreScales"
+import type { RiskLevel, ScoreScale } from "@/types/sdk"
+
+const RISK_STYLES: Record<RiskLevel, { color: string; text: string }> = {
+  low: { color: "#00FF88", text: "text-neon-green bg-neon-green/10 border-neon-green/30" },
+  medium: { color: "#FAFF00", text: "text-neon-yellow bg-neon-yellow/10 border-neon-yellow/30" },
+  high: { color: "#FF0080", text: "text-hot-pink bg-hot-pink/10 border-hot-pink/30" },
+}
 
 interface ScoreRingProps {
   score: number
@@ -12,6 +20,7 @@ interface ScoreRingProps {
   className?: string
   showRiskLevel?: boolean
   animated?: boolean
+  scale?: ScoreScale // Show the score and its band on this scale
 }
 
 export function ScoreRing({
@@ -23,6 +32,7 @@ export function ScoreRing({
   className,
   showRiskLevel = true,
   animated = true,
+  scale,
 }: ScoreRingProps) {
   const [displayScore, setDisplayScore] = useState(animated ? 0 : score)
   const [isVisible, setIsVisible] = useState(false)
@@ -34,8 +44,11 @@ export function ScoreRing({
   const percentage = ((normalizedScore - minScore) / (maxScore - minScore)) * 100
   const strokeDashoffset = circumference - (percentage / 100) * circumference
 
+  const range = { min: minScore, max: maxScore }
+
   // Get color based on score
   const getScoreColor = (s: number) => {
+    if (scale) return RISK_STYLES[scaleBand(scale, normalizeScore(s, range)).riskLevel].color
     const pct = ((s - minScore) / (maxScore - minScore)) * 100
     if (pct < 33) return "#FF0080" // hot-pink
     if (pct < 66) return "#FAFF00" // neon-yellow
@@ -44,6 +57,10 @@ export function ScoreRing({
 
   // Get risk level
   const getRiskLevel = (s: number) => {
+    if (scale) {
+      const band = scaleBand(scale, normalizeScore(s, range))
+      return { label: band.label, color: RISK_STYLES[band.riskLevel].text }
+    }
     const pct = ((s - minScore) / (maxScore - minScore)) * 100
     if (pct < 33) return { label: "High Risk", color: "text-hot-pink bg-hot-pink/10 border-hot-pink/30" }
     if (pct < 66) return { label: "Medium Risk", color: "text-neon-yellow bg-neon-yellow/10 border-neon-yellow/30" }
@@ -138,10 +155,10 @@ export function ScoreRing({
         {/* Center content */}
         <div className="absolute inset-0 flex flex-col items-center justify-center">
           <span className="font-mono text-5xl md:text-6xl font-bold text-pure-white tabular-nums number-counter">
-            {displayScore}
+            {scale ? scale.project(normalizeScore(displayScore, range)) : displayScore}
           </span>
           <span className="text-sm text-text-muted font-medium">
-            out of {maxScore}
+            {scale ? scale.name : `out of ${maxScore}`}
           </span>
         </div>
 
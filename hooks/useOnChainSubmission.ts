@@ -10,8 +10,8 @@
 
 import { useState, useCallback } from 'react';
 import { onChainService, type SubmissionResult, type SubmissionProgress, type TransactionDetails } from '@/lib/services/OnChainService';
-import type { CreditAssessment } from '@/types/sdk';
-import type { ProofResult } from '@/lib/zk/ProofGenerator';
+import { AleoDataService } from '@/lib/services/AleoDataService';
+import type { CreditAssessment, ZKProof } from '@/types/sdk';
 
 interface UseOnChainSubmissionReturn {
     result: SubmissionResult | null;
@@ -19,7 +19,7 @@ interface UseOnChainSubmissionReturn {
     progress: SubmissionProgress | null;
     transactionDetails: TransactionDetails | null;
     error: string | null;
-    submitProof: (assessment: CreditAssessment, proof: ProofResult, walletAddress: string) => Promise<void>;
+    submitProof: (assessment: CreditAssessment, proof: ZKProof, walletAddress: string) => Promise<void>;
     getTransactionDetails: (transactionId: string) => Promise<void>;
     reset: () => void;
 }
@@ -57,7 +57,7 @@ export function useOnChainSubmission(): UseOnChainSubmissionReturn {
      * Submit proof to blockchain
      */
     const submitProof = useCallback(
-        async (assessment: CreditAssessment, proof: ProofResult, walletAddress: string) => {
+        async (assessment: CreditAssessment, proof: ZKProof, walletAddress: string) => {
             setIsSubmitting(true);
             setError(null);
             setResult(null);
@@ -79,6 +79,12 @@ export function useOnChainSubmission(): UseOnChainSubmissionReturn {
                 setResult(submissionResult);
 
                 if (submissionResult.success && submissionResult.transactionId) {
+                    // The wallet's cached metrics predate this transaction
+                    await AleoDataService.getInstance().invalidateMetrics(
+                        walletAddress,
+                        submissionResult.transactionId
+                    );
+
                     // Fetch transaction details
                     const details = await onChainService.getTransactionDetails(
                         submissionResult.transactionId
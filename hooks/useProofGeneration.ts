@@ -9,11 +9,12 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import { proofGenerator, type ProofResult, type ProofProgress } from '@/lib/zk/ProofGenerator';
-import type { CreditAssessment } from '@/types/sdk';
+import { proofGenerator, type ProofProgress } from '@/lib/zk/ProofGenerator';
+import type { CreditAssessment, ScoreRecord, ZKProof } from '@/types/sdk';
 
 interface UseProofGenerationReturn {
-    proof: ProofResult | null;
+    proof: ZKProof | null;
+    scoreRecord: ScoreRecord | null; // Private record of the last score proof
     isGenerating: boolean;
     progress: ProofProgress | null;
     error: string | null;
@@ -46,13 +47,34 @@ interface UseProofGenerationReturn {
  * ```
  */
 export function useProofGeneration(): UseProofGenerationReturn {
-    const [proof, setProof] = useState<ProofResult | null>(null);
+    const [proof, setProof] = useState<ZKProof | null>(null);
+    const [scoreRecord, setScoreRecord] = useState<ScoreRecord | null>(null);
     const [isGenerating, setIsGenerating] = useState(false);
     const [progress, setProgress] = useState<ProofProgress | null>(null);
     const [error, setError] = useState<string | null>(null);
 
+    /**
+     * Record the score proof generated for the assessment
+     * Threshold and range proofs are only made about that record, never
+     * about one created on the spot
+     */
+    const recordOf = useCallback(
+        (assessment: CreditAssessment): ScoreRecord => {
+            if (
+                !scoreRecord ||
+                scoreRecord.owner !== assessment.address ||
+                scoreRecord.score !== assessment.finalScore
+            ) {
+                throw new Error('Generate a score proof for this assessment first');
+            }
+            return scoreRecord;
+        },
+        [scoreRecord]
+    );
+
     /**
      * Generate a standard proof
+     * Creates the score record the execution outputs; later proofs use it
      */
     const generateProof = useCallback(async (assessment: CreditAssessment) => {
         setIsGenerating(true);
@@ -63,13 +85,16 @@ export function useProofGeneration(): UseProofGenerationReturn {
         try {
             console.log('[useProofGeneration] Starting proof generation...');
 
+            const record = proofGenerator.createScoreRecord(assessment);
             const result = await proofGenerator.generateProof(
                 assessment,
+                record,
                 (progressUpdate) => {
                     setProgress(progressUpdate);
                 }
             );
 
+            setScoreRecord(record);
             setProof(result);
             console.log('[useProofGeneration] Proof generated successfully:', result);
         } catch (err) {
@@ -98,6 +123,7 @@ export function useProofGeneration(): UseProofGenerationReturn {
                     assessment,
                     min,
                     max,
+                    recordOf(assessment),
                     (progressUpdate) => {
                         setProgress(progressUpdate);
                     }
@@ -113,7 +139,7 @@ export function useProofGeneration(): UseProofGenerationReturn {
                 setIsGenerating(false);
             }
         },
-        []
+        [recordOf]
     );
 
     /**
@@ -132,6 +158,7 @@ export function useProofGeneration(): UseProofGenerationReturn {
                 const result = await proofGenerator.generateThresholdProof(
                     assessment,
                     threshold,
+                    recordOf(assessment),
                     (progressUpdate) => {
                         setProgress(progressUpdate);
                     }
@@ -147,7 +174,7 @@ export function useProofGeneration(): UseProofGenerationReturn {
                 setIsGenerating(false);
             }
         },
-        []
+        [recordOf]
     );
 
     /**
@@ -155,6 +182,7 @@ export function useProofGeneration(): UseProofGenerationReturn {
      */
     const reset = useCallback(() => {
         setProof(null);
+        setScoreRecord(null);
         setIsGenerating(false);
         setProgress(null);
         setError(null);
@@ -162,6 +190,7 @@ export function useProofGeneration(): UseProofGenerationReturn {
 
     return {
         proof,
+        scoreRecord,
         isGenerating,
         progress,
         error,
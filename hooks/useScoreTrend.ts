@@ -0,0 +1,45 @@
+import { useState, useCallback } from 'react';
+import { CreditAssessment, ScoreTrend, WalletMetrics } from '@/types/sdk';
+import { AleoDataService } from '@/lib/services/AleoDataService';
+
+interface UseScoreTrendResult {
+    trend: ScoreTrend | null;
+    previousMetrics: WalletMetrics | null;
+    loading: boolean;
+    error: string | null;
+    fetchTrend: (address: string, assessment: CreditAssessment) => Promise<void>;
+}
+
+export function useScoreTrend(): UseScoreTrendResult {
+    const [trend, setTrend] = useState<ScoreTrend | null>(null);
+    const [previousMetrics, setPreviousMetrics] = useState<WalletMetrics | null>(null);
+    const [loading, setLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchTrend = useCallback(async (address: string, assessment: CreditAssessment) => {
+        if (!address) return;
+
+        setLoading(true);
+        setError(null);
+
+        try {
+            const service = AleoDataService.getInstance();
+            const history = await service.fetchScoreTrend(address, assessment);
+            setTrend(history?.trend ?? null);
+            setPreviousMetrics(history?.previous?.metrics ?? null);
+        } catch (err) {
+            console.error('Failed to fetch score history:', err);
+            setError('Failed to load score history.');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    return {
+        trend,
+        previousMetrics,
+        loading,
+        error,
+        fetchTrend
+    };
+}
@@ -5,20 +5,22 @@ process.env.NEXT_PUBLIC_ALEO_RPC = 'https://api.explorer.aleo.org/v1';
 process.env.NEXT_PUBLIC_CONTRACT_ADDRESS = 'credit_score.aleo';
 process.env.NEXT_PUBLIC_CHAIN_ID = 'testnet';
 
-// Mock window.matchMedia
-Object.defineProperty(window, 'matchMedia', {
-    writable: true,
-    value: jest.fn().mockImplementation((query) => ({
-        matches: false,
-        media: query,
-        onchange: null,
-        addListener: jest.fn(), // deprecated
-        removeListener: jest.fn(), // deprecated
-        addEventListener: jest.fn(),
-        removeEventListener: jest.fn(),
-        dispatchEvent: jest.fn(),
-    })),
-});
+// Mock window.matchMedia (suites on the node environment have no window)
+if (typeof window !== 'undefined') {
+    Object.defineProperty(window, 'matchMedia', {
+        writable: true,
+        value: jest.fn().mockImplementation((query) => ({
+            matches: false,
+            media: query,
+            onchange: null,
+            addListener: jest.fn(), // deprecated
+            removeListener: jest.fn(), // deprecated
+            addEventListener: jest.fn(),
+            removeEventListener: jest.fn(),
+            dispatchEvent: jest.fn(),
+        })),
+    });
+}
 
 // Mock IntersectionObserver
 global.IntersectionObserver = class IntersectionObserver {
@@ -38,3 +40,7 @@ global.ResizeObserver = class ResizeObserver {
     observe() { }
     unobserve() { }
 } as any;
+
+// jsdom does not expose the WHATWG encoders used by @noble/hashes
+import { TextEncoder, TextDecoder } from 'util';
+Object.assign(global, { TextEncoder, TextDecoder });
@@ -56,28 +56,7 @@ export const SCORING_CONFIG = {
     BASE_SCORE: 300,
     MIN_SCORE: 300,
     MAX_SCORE: 850,
-    BONUSES: {
-        TRANSACTION_COUNT: {
-            threshold: 10,
-            pointsPer: 5,
-            maxPoints: 100,
-        },
-        WALLET_AGE: {
-            threshold: 3, // months
-            pointsPerMonth: 10,
-            maxPoints: 100,
-        },
-        DEFI_SCORE: {
-            threshold: 20,
-            pointsPer: 3,
-            maxPoints: 100,
-        },
-        REPAYMENT_RATE: {
-            threshold: 75, // percentage
-            pointsPer: 2,
-            maxPoints: 150, // Higher weight for repayment
-        },
-    },
+    VERSION_PATTERN: /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/, // Model versions (semver)
 } as const;
 
 // ============================================================================
@@ -123,6 +102,39 @@ export const ALEO_CONFIG = {
     },
 } as const;
 
+// ============================================================================
+// CONTRACT INTERFACE (contract/src/main.leo)
+// ============================================================================
+
+export const CREDIT_SCORE_PROGRAM = {
+    TRANSITIONS: {
+        GENERATE_SCORE: 'generate_score',
+        REFRESH_SCORE: 'refresh_score',
+        VERIFY_AND_ISSUE: 'verify_and_issue',
+        PROVE_THRESHOLD: 'prove_threshold',
+        PROVE_RANGE: 'prove_range',
+        PROVE_CLAIM: 'prove_claim',
+        ANCHOR_CLAIMS: 'anchor_claims',
+        PUBLISH_SCORE: 'publish_score',
+        REVOKE_SCORE: 'revoke_score',
+        USE_NULLIFIER: 'use_nullifier',
+        PROVE_LINKED_WALLETS: 'prove_linked_wallets',
+    },
+    MAPPINGS: {
+        PUBLIC_SCORES: 'public_scores', // address => u64 score (opt-in)
+        PUBLIC_SCORE_COMMITMENTS: 'public_score_commitments', // address => field record commitment
+        SCORE_COMMITMENTS: 'score_commitments', // field commitment => u32 block of a current record
+        ISSUED_THRESHOLDS: 'issued_thresholds', // field commitment => u64 threshold
+        CLAIM_ROOTS: 'claim_roots', // field commitment => field root of the claim commitments
+        NULLIFIER_USES: 'nullifier_uses', // field (verifier, nullifier) key => u32 accepted uses
+        NULLIFIER_CAPS: 'nullifier_caps', // field (verifier, nullifier) key => u32 max uses
+    },
+    MAX_ISSUE_DRIFT_BLOCKS: 100, // finalize rejects older issued_block values
+    SCORE_VALIDITY_BLOCKS: 1000000, // Records and credentials expire this many blocks after generation
+    RECORD_CLAIMS: 12, // Claims a CreditRecord commits to (length of claim_blindings)
+    CHALLENGE_TTL_MS: 5 * 60 * 1000, // Default lifetime of a verifier challenge
+} as const;
+
 // ============================================================================
 // ANIMATION TIMINGS
 // ============================================================================
@@ -192,7 +204,21 @@ export const Z_INDEX = {
 
 export const CACHE_CONFIG = {
     METRICS_TTL: 1000 * 60 * 60, // 1 hour
-    MAX_CACHE_SIZE: 100, // 100 wallets
+    MAX_CACHE_SIZE: 100, // 100 wallets (in-memory store)
+    // Per-field TTLs: values that move with every transfer expire first
+    FIELD_TTLS: {
+        transactionCount: 1000 * 60 * 15, // 15 minutes
+        walletAgeMonths: 1000 * 60 * 60 * 24, // 1 day
+        defiScore: 1000 * 60 * 60, // 1 hour
+        repaymentRate: 1000 * 60 * 60, // 1 hour
+        tokenBalance: 1000 * 60 * 5, // 5 minutes
+        lastTransactionDate: 1000 * 60 * 15, // 15 minutes
+    },
+    STALE_WHILE_REVALIDATE: 1000 * 60 * 60 * 24, // Serve stale values up to 1 day past TTL
+    FALLBACK_TTL: 1000 * 60, // Estimates from a failed read are retried after 1 minute
+    INDEXEDDB_NAME: 'proofscore',
+    INDEXEDDB_STORE: 'metrics',
+    SQLITE_TABLE: 'metrics_cache',
 } as const;
 
 // ============================================================================
@@ -205,6 +231,184 @@ export const API_CONFIG = {
     RETRY_DELAY: 1000, // 1 second
 } as const;
 
+// ============================================================================
+// ALEO EXPLORER REST API (lib/sdk/sources/AleoExplorerSource.ts)
+// ============================================================================
+
+export const EXPLORER_API = {
+    LATEST_HEIGHT: '/latest/height',
+    BLOCK: '/block/{height}', // header.metadata.timestamp is in seconds
+    ADDRESS_TRANSITIONS: '/transitions/address/{address}', // paged with ?cursor=
+    CREDITS_ACCOUNT: '/program/credits.aleo/mapping/account/{address}', // "<microcredits>u64"
+    MAX_PAGES: 50, // Stop paging after this many transition pages
+    MICROCREDITS_PER_CREDIT: 1_000_000,
+    TRANSACTION: '/transaction/{id}', // Inputs of credits.aleo transitions give balance changes
+    MAX_TRANSACTION_LOOKUPS: 100, // Most recent credits.aleo transactions read for balance changes
+    LOOKUP_CONCURRENCY: 8, // Transaction lookups in flight at once
+    REQUESTS_PER_SECOND: 10, // Explorer requests per second of the SDK's default source
+} as const;
+
+// ============================================================================
+// DEFI ACTIVITY (lib/sdk/defi/DefiClassifier.ts)
+// ============================================================================
+
+export const DEFI_SCORING = {
+    WEIGHTS: {
+        diversity: 0.4,
+        volume: 0.35,
+        recency: 0.25,
+    },
+    FULL_DIVERSITY_CATEGORIES: 3, // Categories used for full diversity
+    FULL_VOLUME_INTERACTIONS: 50, // Interactions for full volume
+    RECENCY_WINDOW_BLOCKS: 1000000, // Recency decays to 0 over this many blocks
+} as const;
+
+// ============================================================================
+// LOAN LEDGER (lib/sdk/lending/LoanLedger.ts)
+// ============================================================================
+
+export const LOAN_LEDGER = {
+    BLOCKS_PER_DAY: 28800, // ~3 s block time
+    DEFAULT_TERM_BLOCKS: 864000, // 30 days, for programs without a term
+    DEFAULT_AFTER_DAYS_PAST_DUE: 90, // Unpaid loans this late count as defaulted
+    NO_HISTORY_RATE: 50, // repaymentRate of wallets without closed loans
+} as const;
+
+// ============================================================================
+// BALANCE HISTORY (lib/sdk/balance/BalanceHistory.ts)
+// ============================================================================
+
+export const BALANCE_HISTORY = {
+    SAMPLES: 180, // One sample per interval, ending at the read height
+    INTERVAL_BLOCKS: LOAN_LEDGER.BLOCKS_PER_DAY, // Daily
+} as const;
+
+// ============================================================================
+// SCORE RECENCY (lib/sdk/lending/CreditEvents.ts)
+// ============================================================================
+
+export const SCORE_RECENCY = {
+    REPAYMENT_HALF_LIFE_DAYS: 365, // A loan closed a year ago weighs half in the on-time rate
+    DELINQUENCY_DAYS: 30, // Days past due that count as a delinquency
+    MAX_PENALTY_POINTS: 200, // Cap on the points all negative events take off
+    EVENTS: {
+        liquidation: { POINTS: 40, HALF_LIFE_DAYS: 180 },
+        default: { POINTS: 100, HALF_LIFE_DAYS: 365 },
+        delinquency: { POINTS: 25, HALF_LIFE_DAYS: 90 },
+    },
+} as const;
+
+// ============================================================================
+// REASON CODES (lib/sdk/reasons/ReasonCodes.ts)
+// ============================================================================
+
+export const REASON_CODES = {
+    MAX_REASONS: 4, // Reasons attached to an assessment
+} as const;
+
+// ============================================================================
+// SCORING POLICIES (lib/sdk/policy)
+// ============================================================================
+
+export const SCORING_POLICY = {
+    DIFF_REPORT_WALLETS: 20, // Largest score changes listed in a markdown policy diff
+} as const;
+
+// ============================================================================
+// SCORE SCALES (lib/sdk/scales)
+// ============================================================================
+
+export const SCORE_SCALES = {
+    // Bands of the built-in scales, highest first (minNormalized: 0-1 score)
+    THOUSAND_POINT: [
+        { label: 'Low Risk', minScore: 800, riskLevel: 'low' },
+        { label: 'Medium Risk', minScore: 450, riskLevel: 'medium' },
+        { label: 'High Risk', minScore: 0, riskLevel: 'high' },
+    ],
+    LETTER_GRADES: [
+        { label: 'A', minNormalized: 0.8, riskLevel: 'low' },
+        { label: 'B', minNormalized: 0.65, riskLevel: 'medium' },
+        { label: 'C', minNormalized: 0.5, riskLevel: 'medium' },
+        { label: 'D', minNormalized: 0.35, riskLevel: 'medium' },
+        { label: 'F', minNormalized: 0, riskLevel: 'high' },
+    ],
+    FIVE_BANDS: [
+        { label: 'Excellent', minNormalized: 0.8, riskLevel: 'low' },
+        { label: 'Very Good', minNormalized: 0.6, riskLevel: 'medium' },
+        { label: 'Good', minNormalized: 0.4, riskLevel: 'medium' },
+        { label: 'Fair', minNormalized: 0.2, riskLevel: 'high' },
+        { label: 'Poor', minNormalized: 0, riskLevel: 'high' },
+    ],
+} as const;
+
+// ============================================================================
+// WASH ACTIVITY DETECTION (lib/sdk/sybil/WashDetector.ts)
+// ============================================================================
+
+export const WASH_DETECTION = {
+    ROUND_TRIP_WINDOW_BLOCKS: LOAN_LEDGER.BLOCKS_PER_DAY, // Returns matched within a day
+    MAX_CLUSTER_SIZE: 3, // Counterparties of a ping-pong cluster
+    MIN_ROUND_TRIPS: 3, // Round trips before a cluster is flagged
+    DUST_MICROCREDITS: 10_000, // Transfers below 0.01 credits are dust
+    MIN_DUST_TRANSFERS: 10, // Dust transfers before they are flagged
+    BURST_WINDOW_BLOCKS: 1200, // 1 hour
+    MIN_BURST_TRANSACTIONS: 20, // Transactions within the window to flag a burst
+    BURST_CREDITED_TRANSACTIONS: 5, // Transactions of a burst still counted
+} as const;
+
+// ============================================================================
+// LINKED WALLETS (lib/sdk/identity)
+// ============================================================================
+
+export const LINKED_WALLETS = {
+    MAX_WALLETS: 4, // Address slots of prove_linked_wallets
+    LINK_CLAIM: 15, // Claim id of prove_linked_wallets' commitment (value: the wallet count)
+} as const;
+
+// ============================================================================
+// SCORE HISTORY (lib/sdk/history)
+// ============================================================================
+
+export const SCORE_HISTORY = {
+    BLOCK_TIME_MS: (1000 * 60 * 60 * 24) / LOAN_LEDGER.BLOCKS_PER_DAY, // 3 seconds
+    TREND_POINTS: 6, // Replayed points in the dashboard trend
+    TREND_INTERVAL_BLOCKS: 30 * LOAN_LEDGER.BLOCKS_PER_DAY, // 30 days between points
+} as const;
+
+// ============================================================================
+// SCORE SIMULATION (lib/sdk/simulation)
+// ============================================================================
+
+export const SIMULATOR = {
+    // Highest value searched for tier boundaries, per simulated metric
+    METRIC_LIMITS: {
+        transactionCount: 10_000,
+        walletAgeMonths: 240, // 20 years
+        defiScore: 100,
+        repaymentRate: 100,
+        tokenBalance: 100_000_000, // Credits
+    },
+} as const;
+
+// ============================================================================
+// CALIBRATION (lib/sdk/calibration)
+// ============================================================================
+
+export const CALIBRATION = {
+    HISTOGRAM_BIN_WIDTH: 50, // Score points per histogram bar
+    CALIBRATION_BINS: 10, // Equal-count bins of the calibration curve
+    LOGISTIC_ITERATIONS: 50, // Newton steps of the logistic fit
+    LOGISTIC_RIDGE: 1e-3, // Keeps the fit finite when scores separate outcomes perfectly
+} as const;
+
+// ============================================================================
+// BATCH SCORING (lib/sdk/batch/BatchScorer.ts)
+// ============================================================================
+
+export const BATCH_CONFIG = {
+    CONCURRENCY: 8, // Addresses scored at once
+} as const;
+
 // ============================================================================
 // TRANSACTION POLLING
 // ============================================================================
@@ -2,58 +2,93 @@
  * BlockchainAdapter - Aleo Blockchain Integration
  * 
  * Handles all interactions with Aleo network:
- * - Submit proofs to smart contract
+ * - Register score records (generate_score executions)
+ * - Submit proofs to smart contract (verify_and_issue)
  * - Poll transaction confirmation
- * - Query credit scores
+ * - Query credit scores and issued thresholds
+ * - Check score validity windows and revocation (score_commitments)
+ * - Record nullifier uses of challenged proofs
  * 
  * @module lib/sdk/BlockchainAdapter
  */
 
-import ky from 'ky';
-import { ALEO_CONFIG, TX_POLLING, API_CONFIG } from '@/lib/constants';
+import ky, { HTTPError } from 'ky';
+import {
+    ALEO_CONFIG,
+    TX_POLLING,
+    API_CONFIG,
+    CREDIT_SCORE_PROGRAM,
+    SCORING_CONFIG,
+} from '@/lib/constants';
+import { ProofGenerator, toCreditRecordInput } from '@/lib/zk/ProofGenerator';
 import type {
     ZKProof,
     CreditIssuanceResult,
     CreditRecord,
     AleoTransaction,
     SDKConfig,
+    ScoreRecord,
 } from '@/types/sdk';
-import { TransactionError } from '@/types/sdk';
+import { CredentialError, RPCError, TransactionError } from '@/types/sdk';
 
 export class BlockchainAdapter {
     private config: SDKConfig;
     private rpcUrl: string;
     private contractAddress: string;
+    private proofVerifier: ProofGenerator;
 
     constructor(config: SDKConfig) {
         this.config = config;
         this.rpcUrl = config.rpcUrl;
         this.contractAddress = config.contractAddress;
+        this.proofVerifier = new ProofGenerator(config.provingBackend, config.contractAddress);
     }
 
     /**
      * Submit proof to Aleo blockchain
-     * Creates and broadcasts transaction to credit_score.aleo contract
+     * Creates and broadcasts a verify_and_issue transaction to credit_score.aleo
+     * The proof is verified first with the configured proving backend, so the
+     * credential carries the score the execution disclosed
      * 
-     * @param proof - ZK proof to submit
+     * @param proof - Score proof to submit
      * @param userAddress - User's Aleo address
      * @param privateKey - User's private key for signing
+     * @param scoreThreshold - Threshold the credential attests to (default: 300)
      * @returns Credit issuance result
      * 
      * @example
      * const adapter = new BlockchainAdapter(config);
-     * const result = await adapter.submitProof(proof, address, privateKey);
+     * const result = await adapter.submitProof(proof, address, privateKey, 650);
      */
     async submitProof(
         proof: ZKProof,
         userAddress: string,
-        privateKey: string
+        privateKey: string,
+        scoreThreshold: number = SCORING_CONFIG.MIN_SCORE
     ): Promise<CreditIssuanceResult> {
         console.log('[BlockchainAdapter] Submitting proof to blockchain...');
 
         try {
+            const score = await this.getProvenScore(proof);
+            if (score < scoreThreshold) {
+                throw new TransactionError(
+                    `Score does not meet the requested threshold (${scoreThreshold})`
+                );
+            }
+
             // Step 1: Build transaction
-            const transaction = await this.buildTransaction(proof, userAddress, privateKey);
+            const scoreBlock = proof.scoreBlock ?? 0;
+            const issuedBlock = await this.getLatestBlockHeight();
+            const issuedAt = Date.now();
+            const transaction = await this.buildTransaction(
+                userAddress,
+                privateKey,
+                score,
+                scoreBlock,
+                scoreThreshold,
+                issuedBlock,
+                issuedAt
+            );
 
             // Step 2: Broadcast transaction
             const txId = await this.broadcastTransaction(transaction);
@@ -61,10 +96,19 @@ export class BlockchainAdapter {
             console.log(`[BlockchainAdapter] Transaction submitted: ${txId}`);
 
             // Step 3: Wait for confirmation
-            const confirmedTx = await this.waitForConfirmation(txId);
-
-            // Step 4: Extract credit record from transaction
-            const creditRecord = this.extractCreditRecord(confirmedTx, userAddress);
+            await this.waitForConfirmation(txId);
+
+            // Step 4: Credential mirrors the verify_and_issue inputs
+            const creditRecord: CreditRecord = {
+                owner: userAddress,
+                score,
+                threshold: scoreThreshold,
+                issuedBlock,
+                issuedAt,
+                scoreCommitment: proof.scoreCommitment,
+                scoreBlock,
+                expiresBlock: scoreBlock + CREDIT_SCORE_PROGRAM.SCORE_VALIDITY_BLOCKS,
+            };
 
             return {
                 success: true,
@@ -81,176 +125,536 @@ export class BlockchainAdapter {
         }
     }
 
+    /**
+     * Register the record of a score proof on-chain
+     * Broadcasts the proof's generate_score (or refresh_score) execution,
+     * whose finalize adds the record's commitment to score_commitments.
+     * The opening stays off-chain, so the score and owner remain private.
+     * Threshold and range proofs, credentials and claims are only accepted
+     * for registered records.
+     * 
+     * @param proof - Score proof of the user's record
+     * @param userAddress - User's Aleo address
+     * @param privateKey - User's private key for signing
+     * @returns Transaction ID
+     * @throws TransactionError if the proof is not a valid score proof of the
+     *   user's, or the broadcast or its confirmation fails
+     */
+    async registerScore(proof: ZKProof, userAddress: string, privateKey: string): Promise<string> {
+        if (proof.statement.kind !== 'score' || proof.owner !== userAddress) {
+            throw new TransactionError('Only score proofs of the user\'s record can be registered');
+        }
+
+        const { isValid } = await this.proofVerifier.verifyProof(proof);
+        if (!isValid) {
+            throw new TransactionError('Proof verification failed');
+        }
+
+        console.log('[BlockchainAdapter] Registering score record...');
+
+        const txId = await this.broadcastTransaction({
+            program: proof.program,
+            function: proof.transition,
+            execution: proof.proof,
+            caller: userAddress,
+            signature: this.mockSign(proof.proofHash, privateKey),
+            fee: '1000000',
+        });
+        await this.waitForConfirmation(txId);
+
+        return txId;
+    }
+
+    /**
+     * Anchor the claim set of a score record on-chain
+     * Broadcasts anchor_claims, which computes the root over the record's
+     * claims and writes it to the claim_roots mapping, under the record's
+     * commitment
+     * 
+     * @param scoreRecord - Record the claims are committed in
+     * @param userAddress - User's Aleo address
+     * @param privateKey - User's private key for signing
+     * @returns Transaction ID
+     * @throws TransactionError if the record is not the user's, or the
+     *   broadcast or its confirmation fails
+     */
+    async anchorClaims(
+        scoreRecord: ScoreRecord,
+        userAddress: string,
+        privateKey: string
+    ): Promise<string> {
+        if (scoreRecord.owner !== userAddress) {
+            throw new TransactionError('Score record is not owned by the user');
+        }
+
+        console.log('[BlockchainAdapter] Anchoring claim set...');
+
+        const record = toCreditRecordInput(scoreRecord);
+        const txId = await this.broadcastTransaction({
+            program: this.contractAddress,
+            function: CREDIT_SCORE_PROGRAM.TRANSITIONS.ANCHOR_CLAIMS,
+            inputs: [record],
+            caller: userAddress,
+            signature: this.mockSign(record, privateKey),
+            fee: '1000000',
+        });
+        await this.waitForConfirmation(txId);
+
+        return txId;
+    }
+
+    /**
+     * Revoke a score record and the credentials and claims issued from it
+     * Broadcasts revoke_score, which consumes the record and removes its
+     * commitment from score_commitments (with its issued threshold and
+     * claim root); a score published from it stops being current
+     * 
+     * @param scoreRecord - Record to revoke
+     * @param userAddress - User's Aleo address
+     * @param privateKey - User's private key for signing
+     * @returns Transaction ID
+     * @throws TransactionError if the record is not the user's, or the
+     *   broadcast or its confirmation fails
+     */
+    async revokeScore(
+        scoreRecord: ScoreRecord,
+        userAddress: string,
+        privateKey: string
+    ): Promise<string> {
+        if (scoreRecord.owner !== userAddress) {
+            throw new TransactionError('Score record is not owned by the user');
+        }
+
+        console.log('[BlockchainAdapter] Revoking score...');
+
+        const record = toCreditRecordInput(scoreRecord);
+        const txId = await this.broadcastTransaction({
+            program: this.contractAddress,
+            function: CREDIT_SCORE_PROGRAM.TRANSITIONS.REVOKE_SCORE,
+            inputs: [record],
+            caller: userAddress,
+            signature: this.mockSign(record, privateKey),
+            fee: '1000000',
+        });
+        await this.waitForConfirmation(txId);
+
+        return txId;
+    }
+
+    /**
+     * Record one accepted use of a proof's nullifier
+     * Broadcasts use_nullifier, which counts uses per (caller, nullifier) and
+     * fails once the caller used the nullifier max_uses times. The first use
+     * fixes the cap; later uses under another cap fail.
+     * 
+     * @param nullifier - Nullifier from the proof (field literal)
+     * @param maxUses - Reuse cap bound in the proof's public inputs
+     * @param userAddress - Verifier's Aleo address
+     * @param privateKey - Verifier's private key for signing
+     * @returns Transaction ID
+     * @throws TransactionError if the nullifier is not a field element, the
+     *   cap is not a positive u32, or the transaction is not confirmed
+     */
+    async useNullifier(
+        nullifier: string,
+        maxUses: number,
+        userAddress: string,
+        privateKey: string
+    ): Promise<string> {
+        if (!/^\d+field$/.test(nullifier)) {
+            throw new TransactionError(`Invalid nullifier: ${nullifier}`);
+        }
+        if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > 0xffffffff) {
+            throw new TransactionError(`Invalid reuse cap: ${maxUses}`);
+        }
+
+        console.log('[BlockchainAdapter] Recording nullifier use...');
+
+        const txId = await this.broadcastTransaction({
+            program: this.contractAddress,
+            function: CREDIT_SCORE_PROGRAM.TRANSITIONS.USE_NULLIFIER,
+            inputs: [nullifier, `${maxUses}u32`],
+            caller: userAddress,
+            signature: this.mockSign(nullifier, privateKey),
+            fee: '1000000',
+        });
+        await this.waitForConfirmation(txId);
+
+        return txId;
+    }
+
+    /**
+     * Check that a score record is neither expired nor superseded
+     * 
+     * @param commitment - Commitment of the record (a proof's scoreCommitment)
+     * @param scoreBlock - Block the record was generated at
+     * @param expiresBlock - Last valid block (default: scoreBlock + SCORE_VALIDITY_BLOCKS)
+     * @throws CredentialError CREDENTIAL_EXPIRED, or CREDENTIAL_SUPERSEDED if the
+     *   commitment is not a current one of that block
+     * @throws RPCError if the block height or score_commitments cannot be read
+     */
+    async checkScoreStatus(
+        commitment: string,
+        scoreBlock: number,
+        expiresBlock: number = scoreBlock + CREDIT_SCORE_PROGRAM.SCORE_VALIDITY_BLOCKS
+    ): Promise<void> {
+        const height = await this.getLatestBlockHeight();
+        if (height > expiresBlock) {
+            throw new CredentialError(
+                `Score generated at block ${scoreBlock} expired at block ${expiresBlock}`,
+                'CREDENTIAL_EXPIRED',
+                { scoreBlock, expiresBlock, height }
+            );
+        }
+
+        const registeredBlock = await this.fetchScoreBlock(commitment);
+        if (registeredBlock !== scoreBlock) {
+            throw new CredentialError(
+                `Score generated at block ${scoreBlock} was superseded or revoked`,
+                'CREDENTIAL_SUPERSEDED',
+                { commitment, scoreBlock, registeredBlock }
+            );
+        }
+    }
+
     /**
      * Build Aleo transaction
      * 
      * Calls: credit_score.aleo/verify_and_issue
      * Inputs:
-     * - zk_proof_hash: field
-     * - score_threshold: u32
+     * - score_record: CreditRecord (private)
+     * - score_threshold: u64
+     * - issued_block: u32 (finalize rejects blocks older than MAX_ISSUE_DRIFT_BLOCKS)
+     * - issued_at: u64 (Unix ms)
      * 
-     * @param proof - ZK proof
      * @param userAddress - User address
      * @param privateKey - Private key for signing
+     * @param score - Score held in the user's CreditRecord
+     * @param scoreBlock - Block the CreditRecord was generated at
+     * @param scoreThreshold - Threshold to attest
+     * @param issuedBlock - Current block height
+     * @param issuedAt - Issuance time (Unix ms)
      * @returns Transaction object
      */
     private async buildTransaction(
-        proof: ZKProof,
         userAddress: string,
-        privateKey: string
+        privateKey: string,
+        score: number,
+        scoreBlock: number,
+        scoreThreshold: number,
+        issuedBlock: number,
+        issuedAt: number
     ): Promise<Record<string, unknown>> {
         // In production, this would use Aleo SDK to build transaction
         // For now, create mock transaction structure
+        // The real record (and its blinding) comes from the user's wallet
+        const scoreRecord = toCreditRecordInput({
+            owner: userAddress,
+            score,
+            timestamp: scoreBlock,
+            blinding: '0',
+            metrics: {
+                txCount: 0,
+                walletAgeMonths: 0,
+                defiScore: 0,
+                repaymentRate: 0,
+                balance: 0,
+                daysSinceLastTx: 0,
+                stableBalance: 0,
+                volatilityBps: 0,
+                penaltyPoints: 0,
+            },
+            claimBlindings: Array(CREDIT_SCORE_PROGRAM.RECORD_CLAIMS).fill('0'),
+        });
 
         return {
             program: this.contractAddress,
-            function: 'verify_and_issue',
+            function: CREDIT_SCORE_PROGRAM.TRANSITIONS.VERIFY_AND_ISSUE,
             inputs: [
-                proof.proofHash, // zk_proof_hash
-                '300', // score_threshold (minimum valid score)
+                scoreRecord, // score_record
+                `${scoreThreshold}u64`, // score_threshold
+                `${issuedBlock}u32`, // issued_block
+                `${issuedAt}u64`, // issued_at
             ],
             caller: userAddress,
-            signature: this.mockSign(proof.proofHash, privateKey),
+            signature: this.mockSign(scoreRecord, privateKey),
             fee: '1000000', // 1 ALEO (in microcredits)
         };
     }
 
+    /**
+     * Read the score a valid score proof discloses
+     * 
+     * @param proof - ZK proof
+     * @returns Score (first public input, checked against the execution)
+     * @throws TransactionError for other statements and invalid proofs
+     */
+    private async getProvenScore(proof: ZKProof): Promise<number> {
+        // Threshold and range proofs deliberately hide the score
+        if (proof.statement.kind !== 'score') {
+            throw new TransactionError('Credentials are issued from score proofs');
+        }
+
+        const { isValid, scoreRange } = await this.proofVerifier.verifyProof(proof);
+        if (!isValid || !scoreRange) {
+            throw new TransactionError('Proof verification failed');
+        }
+
+        // The opened commitment, checked against the execution's output
+        return scoreRange.min;
+    }
+
+    /**
+     * Get latest block height
+     * 
+     * @returns Block height
+     * @throws RPCError if the height cannot be read
+     */
+    async getLatestBlockHeight(): Promise<number> {
+        let height: unknown;
+        try {
+            height = await ky
+                .get(`${this.rpcUrl}/latest/height`, {
+                    timeout: API_CONFIG.TIMEOUT,
+                })
+                .json<number>();
+        } catch (error) {
+            throw new RPCError('Failed to fetch block height', error);
+        }
+
+        const value = Number(height);
+        if (!Number.isSafeInteger(value) || value <= 0) {
+            throw new RPCError(`Invalid block height: ${String(height)}`);
+        }
+        return value;
+    }
+
     /**
      * Broadcast transaction to Aleo network
      * 
      * @param transaction - Transaction object
      * @returns Transaction ID
+     * @throws TransactionError if the node does not accept the transaction
      */
     private async broadcastTransaction(transaction: Record<string, unknown>): Promise<string> {
+        let response: { transaction_id?: unknown };
         try {
-            const response = await ky
+            response = await ky
                 .post(`${this.rpcUrl}/transaction/broadcast`, {
                     json: transaction,
                     timeout: API_CONFIG.TIMEOUT,
                     retry: API_CONFIG.RETRY_ATTEMPTS,
                 })
-                .json<{ transaction_id: string }>();
-
-            return response.transaction_id;
+                .json<{ transaction_id?: unknown }>();
         } catch (error) {
-            console.error('[BlockchainAdapter] Broadcast failed:', error);
-            // Return mock transaction ID for development
-            return this.generateMockTxId();
+            throw new TransactionError('Failed to broadcast transaction', {
+                function: transaction.function,
+                error,
+            });
+        }
+
+        if (typeof response?.transaction_id !== 'string' || !response.transaction_id) {
+            throw new TransactionError('Broadcast returned no transaction ID', {
+                function: transaction.function,
+            });
         }
+        return response.transaction_id;
     }
 
     /**
      * Wait for transaction confirmation
-     * Polls every 500ms for up to 10 seconds
+     * Polls every 500ms for up to 10 seconds while the node does not know the
+     * transaction yet
      * 
      * @param txId - Transaction ID
      * @returns Confirmed transaction
+     * @throws TransactionError if the transaction fails, cannot be queried or
+     *   is not confirmed in time
      */
     async waitForConfirmation(txId: string): Promise<AleoTransaction> {
         console.log(`[BlockchainAdapter] Waiting for confirmation: ${txId}`);
 
-        let attempts = 0;
-        const maxAttempts = TX_POLLING.MAX_ATTEMPTS;
-
-        while (attempts < maxAttempts) {
-            try {
-                const tx = await this.queryTransaction(txId);
-
-                if (tx.status === 'confirmed') {
-                    console.log(`[BlockchainAdapter] Transaction confirmed in block ${tx.blockHeight}`);
-                    return tx;
-                }
-
-                if (tx.status === 'failed') {
-                    throw new TransactionError('Transaction failed on-chain');
-                }
-
-                // Wait before next poll
-                await this.sleep(TX_POLLING.INTERVAL);
-                attempts++;
-            } catch (error) {
-                if (attempts >= maxAttempts - 1) {
-                    throw new TransactionError('Transaction confirmation timeout');
-                }
-                await this.sleep(TX_POLLING.INTERVAL);
-                attempts++;
+        for (let attempts = 0; attempts < TX_POLLING.MAX_ATTEMPTS; attempts++) {
+            const tx = await this.queryTransaction(txId);
+
+            if (tx?.status === 'confirmed') {
+                console.log(`[BlockchainAdapter] Transaction confirmed in block ${tx.blockHeight}`);
+                return tx;
             }
+
+            if (tx?.status === 'failed') {
+                throw new TransactionError('Transaction failed on-chain', { txId });
+            }
+
+            await this.sleep(TX_POLLING.INTERVAL);
         }
 
-        throw new TransactionError('Transaction confirmation timeout');
+        throw new TransactionError('Transaction confirmation timeout', { txId });
     }
 
     /**
      * Query transaction status
      * 
      * @param txId - Transaction ID
-     * @returns Transaction object
+     * @returns Transaction object, or null while the node does not know it
+     * @throws TransactionError if the transaction cannot be queried
      */
-    private async queryTransaction(txId: string): Promise<AleoTransaction> {
+    private async queryTransaction(txId: string): Promise<AleoTransaction | null> {
         try {
-            const response = await ky
+            return await ky
                 .get(`${this.rpcUrl}/transaction/${txId}`, {
                     timeout: API_CONFIG.TIMEOUT,
                 })
                 .json<AleoTransaction>();
-
-            return response;
         } catch (error) {
-            // Return mock confirmed transaction for development
-            return {
-                id: txId,
-                status: 'confirmed',
-                blockHeight: Math.floor(Math.random() * 1000000),
-                timestamp: Date.now(),
-            };
+            // Not included in a block yet
+            if (error instanceof HTTPError && error.response.status === 404) {
+                return null;
+            }
+            throw new TransactionError('Failed to query transaction', { txId, error });
         }
     }
 
     /**
-     * Extract credit record from confirmed transaction
+     * Fetch credit score from blockchain
+     * Queries the opt-in public_scores mapping (written by publish_score)
      * 
-     * @param transaction - Confirmed transaction
-     * @param userAddress - User address
-     * @returns Credit record
+     * @param address - User address
+     * @returns Credit score or null if not found, superseded, revoked or expired
+     * @throws RPCError if the mappings or block height cannot be read
      */
-    private extractCreditRecord(
-        transaction: AleoTransaction,
-        userAddress: string
-    ): CreditRecord {
-        // In production, parse transaction outputs for credit_proof record
-        // For now, create mock record
+    async fetchCreditScore(address: string): Promise<number | null> {
+        console.log(`[BlockchainAdapter] Fetching credit score for ${address}`);
+        const score = await this.readMapping(CREDIT_SCORE_PROGRAM.MAPPINGS.PUBLIC_SCORES, address);
+        if (score === null) return null;
+
+        // Revocation is per record: the published score is current while the
+        // record it was published from is
+        const commitment = await this.readMappingLiteral(
+            CREDIT_SCORE_PROGRAM.MAPPINGS.PUBLIC_SCORE_COMMITMENTS,
+            address
+        );
+        const scoreBlock = commitment === null ? null : await this.fetchScoreBlock(commitment);
+        if (scoreBlock === null) {
+            console.warn(`[BlockchainAdapter] Published score for ${address} is no longer current`);
+            return null;
+        }
 
-        return {
-            owner: userAddress,
-            score: 300 + Math.floor(Math.random() * 550), // Mock score
-            threshold: 300,
-            issuedBlock: transaction.blockHeight || 0,
-            issuedAt: transaction.timestamp || Date.now(),
-        };
+        const height = await this.getLatestBlockHeight();
+        if (height > scoreBlock + CREDIT_SCORE_PROGRAM.SCORE_VALIDITY_BLOCKS) {
+            console.warn(`[BlockchainAdapter] Published score for ${address} has expired`);
+            return null;
+        }
+
+        return score;
     }
 
     /**
-     * Fetch credit score from blockchain
-     * Queries public scores mapping
+     * Fetch how often a verifier accepted a nullifier
+     * Queries the nullifier_uses mapping (written by use_nullifier), keyed
+     * by the hash of (verifier, nullifier)
      * 
-     * @param address - User address
-     * @returns Credit score or null if not found
+     * @param verifier - Verifier's Aleo address
+     * @param nullifier - Nullifier (field literal)
+     * @returns Accepted uses (0 if never used)
+     * @throws RPCError if the mapping cannot be read, so a failed read never
+     *   passes as an unused nullifier
      */
-    async fetchCreditScore(address: string): Promise<number | null> {
-        console.log(`[BlockchainAdapter] Fetching credit score for ${address}`);
+    async fetchNullifierUses(verifier: string, nullifier: string): Promise<number> {
+        const { commitments } = this.proofVerifier.getBackend();
+        const key = await commitments.nullifierKey(verifier, nullifier);
+
+        return (await this.readMapping(CREDIT_SCORE_PROGRAM.MAPPINGS.NULLIFIER_USES, key)) ?? 0;
+    }
+
+    /**
+     * Fetch the block a current score record was generated at
+     * Queries the score_commitments mapping (written by generate_score and
+     * refresh_score; superseded and revoked records are removed)
+     * 
+     * @param commitment - Record commitment (field literal)
+     * @returns Block height, or null if the record is not current
+     * @throws RPCError if the mapping cannot be read
+     */
+    async fetchScoreBlock(commitment: string): Promise<number | null> {
+        return this.readMapping(CREDIT_SCORE_PROGRAM.MAPPINGS.SCORE_COMMITMENTS, commitment);
+    }
+
+    /**
+     * Fetch the latest threshold credential issued from a score record
+     * Queries the issued_thresholds mapping (written by verify_and_issue)
+     * 
+     * @param commitment - Record commitment (a credential's scoreCommitment)
+     * @returns Threshold or null if no credential was issued
+     * @throws RPCError if the mapping cannot be read
+     */
+    async fetchIssuedThreshold(commitment: string): Promise<number | null> {
+        console.log(`[BlockchainAdapter] Fetching issued threshold for ${commitment}`);
+        return this.readMapping(CREDIT_SCORE_PROGRAM.MAPPINGS.ISSUED_THRESHOLDS, commitment);
+    }
+
+    /**
+     * Fetch the claim set root anchored from a score record
+     * Queries the claim_roots mapping (written by anchor_claims)
+     * 
+     * @param commitment - Record commitment (a presentation's scoreCommitment)
+     * @returns Decimal root or null if nothing was anchored
+     * @throws RPCError if the mapping cannot be read
+     */
+    async fetchClaimsRoot(commitment: string): Promise<string | null> {
+        console.log(`[BlockchainAdapter] Fetching claims root for ${commitment}`);
+        const literal = await this.readMappingLiteral(
+            CREDIT_SCORE_PROGRAM.MAPPINGS.CLAIM_ROOTS,
+            commitment
+        );
+
+        // Field values exceed Number precision: keep the digits
+        const match = literal?.match(/^(\d+)field$/);
+        return match?.[1] ?? null;
+    }
 
+    /**
+     * Read a u64 value from a program mapping
+     * 
+     * @param mapping - Mapping name
+     * @param key - Mapping key
+     * @returns Value or null if not set
+     * @throws RPCError if the entry cannot be read or is not an integer
+     */
+    private async readMapping(mapping: string, key: string): Promise<number | null> {
+        const literal = await this.readMappingLiteral(mapping, key);
+        if (literal === null) return null;
+
+        const value = Number.parseInt(literal, 10);
+        if (Number.isNaN(value)) {
+            throw new RPCError(`Unexpected ${mapping} value: ${literal}`, { key });
+        }
+        return value;
+    }
+
+    /**
+     * Read the raw Leo literal of a mapping entry
+     * The node answers null for keys that are not set; anything else that
+     * goes wrong is an error, never an absent entry
+     * 
+     * @param mapping - Mapping name
+     * @param key - Mapping key
+     * @returns Literal, e.g. "712u64", or null if not set
+     * @throws RPCError if the entry cannot be read
+     */
+    private async readMappingLiteral(mapping: string, key: string): Promise<string | null> {
+        let response: string | null;
         try {
-            const response = await ky
-                .get(`${this.rpcUrl}/program/${this.contractAddress}/mapping/scores/${address}`, {
+            response = await ky
+                .get(`${this.rpcUrl}/program/${this.contractAddress}/mapping/${mapping}/${key}`, {
                     timeout: API_CONFIG.TIMEOUT,
                 })
-                .json<{ value: number }>();
-
-            return response.value || null;
+                .json<string | null>();
         } catch (error) {
-            console.warn('[BlockchainAdapter] Score not found on-chain');
-            return null;
+            throw new RPCError(`Failed to read ${mapping} entry`, { key, error });
         }
+
+        return response === null ? null : String(response);
     }
 
     /**
@@ -281,19 +685,6 @@ export class BlockchainAdapter {
         return `sig_${message.slice(0, 16)}`;
     }
 
-    /**
-     * Generate mock transaction ID (for development)
-     * 
-     * @returns Mock transaction ID
-     */
-    private generateMockTxId(): string {
-        const randomBytes = new Uint8Array(32);
-        crypto.getRandomValues(randomBytes);
-        return `at1${Array.from(randomBytes)
-            .map((b) => b.toString(16).padStart(2, '0'))
-            .join('')}`;
-    }
-
     /**
      * Sleep utility
      * 
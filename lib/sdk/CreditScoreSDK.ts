@@ -13,30 +13,86 @@
  */
 
 import { DataAggregator } from './DataAggregator';
+import { BatchScorer } from './batch/BatchScorer';
+import { RateLimiter } from './batch/RateLimiter';
+import { exportBatchResults } from './batch/BatchExport';
+import { calibrate, type CalibrationOptions } from './calibration/Calibration';
+import { samplesFromBatch, type DefaultLabels } from './calibration/CalibrationSamples';
+import { LoanLedger } from './lending/LoanLedger';
+import { WashDetector } from './sybil/WashDetector';
+import { WalletLinker } from './identity/WalletLinker';
+import { mergeWalletMetrics } from './identity/MergeMetrics';
+import { MemorySnapshotStore, createSnapshot } from './history/ScoreSnapshots';
+import { analyzeTrend } from './history/ScoreTrend';
+import { formatReason } from './reasons/ReasonCodes';
+import { fallbackFields, partialFields } from './Provenance';
 import { ScoringEngine } from './ScoringEngine';
-import { ProofGenerator } from './ProofGenerator';
+import { scoringModelRegistry } from './ScoringModelRegistry';
+import { compileScoringPolicy, parseScoringPolicy } from './policy/ScoringPolicy';
+import { nativeCeiling, nativeThreshold, scaleStatement } from './scales/ScoreScales';
+import { ProofGenerator } from '@/lib/zk/ProofGenerator';
+import { SelectiveDisclosure } from '@/lib/zk/SelectiveDisclosure';
+import { createChallenge, isChallengeExpired, type ChallengeOptions } from '@/lib/zk/Challenge';
 import { BlockchainAdapter } from './BlockchainAdapter';
-import { ALEO_CONFIG } from '@/lib/constants';
+import { ALEO_CONFIG, EXPLORER_API } from '@/lib/constants';
 import type {
     SDKConfig,
     WalletMetrics,
     CreditAssessment,
     ZKProof,
+    ProofChallenge,
+    ProofStatement,
+    ScaleBound,
+    ScaledStatement,
+    ScoreOpening,
+    ScoreRange,
+    ScoreRecord,
+    ClaimPredicate,
+    ClaimSet,
+    CredentialPresentation,
+    PresentationRequest,
+    PresentationVerification,
     CreditIssuanceResult,
+    CreditRecord,
+    ScoringModel,
+    ScoringModelRef,
+    ScoringPolicy,
+    ScoringPolicyFormat,
+    BatchExportFormat,
+    BatchScoreOptions,
+    BatchScoreResult,
+    ScoreAsOf,
+    ScoreSnapshot,
+    ScoreSnapshotStore,
+    ScoreTrend,
+    MetricChange,
+    ScoreSimulation,
+    CalibrationReport,
+    CalibrationSample,
+    LinkedIdentity,
+    WalletLinkRequest,
+    ReasonMessages,
+    ScoreReason,
 } from '@/types/sdk';
-import { SDKError } from '@/types/sdk';
+import { CredentialError, SDKError } from '@/types/sdk';
 
 export class CreditScoreSDK {
     private config: SDKConfig;
     private dataAggregator: DataAggregator;
+    private batchScorer: BatchScorer;
+    private snapshots: ScoreSnapshotStore;
     private proofGenerator: ProofGenerator;
+    private selectiveDisclosure: SelectiveDisclosure;
     private blockchainAdapter: BlockchainAdapter;
+    private walletLinker: WalletLinker;
+    private issuedChallenges = new Map<string, ProofChallenge>(); // nonce -> unanswered challenge
     private userAddress?: string;
 
     /**
      * Initialize SDK
      * 
      * @param config - SDK configuration
+     * @throws SDKError INVALID_CONFIG unless requestsPerSecond is positive
      * 
      * @example
      * const sdk = new CreditScoreSDK({
@@ -53,12 +109,45 @@ export class CreditScoreSDK {
             chainId: config?.chainId || 'mainnet',
             enableCache: config?.enableCache ?? true,
             cacheTTL: config?.cacheTTL,
+            cacheStore: config?.cacheStore,
+            snapshotStore: config?.snapshotStore,
+            scoringModel: config?.scoringModel,
+            provingBackend: config?.provingBackend,
+            indexerUrl: config?.indexerUrl,
+            metricsSource: config?.metricsSource,
+            strictData: config?.strictData ?? false,
+            lendingPrograms: config?.lendingPrograms,
+            washDetection: config?.washDetection ?? true,
+            signatureVerifier: config?.signatureVerifier,
+            scoreScales: config?.scoreScales,
+            requestsPerSecond: config?.requestsPerSecond,
         };
 
         // Initialize components
-        this.dataAggregator = new DataAggregator(this.config.rpcUrl, this.config.indexerUrl);
-        this.proofGenerator = new ProofGenerator();
+        this.dataAggregator = new DataAggregator(
+            this.config.rpcUrl,
+            this.config.indexerUrl,
+            this.config.metricsSource,
+            {
+                strict: this.config.strictData,
+                loanLedger: new LoanLedger(this.config.lendingPrograms),
+                washDetector: this.config.washDetection ? new WashDetector() : false,
+                cache: this.config.enableCache ? this.config.cacheStore : false,
+                ttl: this.config.cacheTTL,
+                rateLimiter: new RateLimiter(
+                    this.config.requestsPerSecond ?? EXPLORER_API.REQUESTS_PER_SECOND
+                ),
+            }
+        );
+        this.batchScorer = new BatchScorer(this.dataAggregator);
+        this.snapshots = this.config.snapshotStore ?? new MemorySnapshotStore();
+        this.proofGenerator = new ProofGenerator(
+            this.config.provingBackend,
+            this.config.contractAddress
+        );
+        this.selectiveDisclosure = new SelectiveDisclosure(this.proofGenerator);
         this.blockchainAdapter = new BlockchainAdapter(this.config);
+        this.walletLinker = new WalletLinker(this.config.signatureVerifier);
 
         console.log('[SDK] Initialized with config:', {
             chainId: this.config.chainId,
@@ -94,7 +183,8 @@ export class CreditScoreSDK {
      * Fetch wallet metrics from blockchain
      * Returns cached data if available (<1 hour old)
      * 
-     * @returns Wallet metrics
+     * @returns Wallet metrics with per-field provenance
+     * @throws RPCError in strict mode (config.strictData) when a source fails
      * 
      * @example
      * const metrics = await sdk.fetchWalletMetrics();
@@ -115,44 +205,363 @@ export class CreditScoreSDK {
             repayment: metrics.repaymentRate,
         });
 
+        const estimated = fallbackFields(metrics);
+        if (estimated.length) {
+            console.warn(`[SDK] Using estimated values for: ${estimated.join(', ')}`);
+        }
+        const partial = partialFields(metrics);
+        if (partial.length) {
+            console.warn(`[SDK] Using values from a partial history for: ${partial.join(', ')}`);
+        }
+
         return metrics;
     }
 
     /**
      * Calculate credit score from metrics
-     * Pure function: 300-850 scale
+     * 300-850 scale, presented on config.scoreScales as well. The assessment
+     * is also kept in the snapshot store (unless any metric is a fallback
+     * estimate), for getScoreHistory.
      * 
      * @param metrics - Wallet metrics
+     * @param model - Model id and optional version (defaults to config.scoringModel)
      * @returns Credit assessment
      * 
      * @example
      * const assessment = sdk.calculateScore(metrics);
+     * const pinned = sdk.calculateScore(metrics, { id: 'proofscore-tiered', version: '2.0.0' });
      */
-    calculateScore(metrics: WalletMetrics): CreditAssessment {
+    calculateScore(
+        metrics: WalletMetrics,
+        model?: { id: string; version?: string }
+    ): CreditAssessment {
         console.log('[SDK] Calculating credit score...');
-        const assessment = ScoringEngine.calculateScore(metrics);
+        const assessment = ScoringEngine.calculateScore(metrics, this.resolveModel(model), {
+            scales: this.config.scoreScales,
+        });
 
-        console.log(`[SDK] Score calculated: ${assessment.finalScore} (${assessment.riskLevel})`);
+        console.log(
+            `[SDK] Score calculated: ${assessment.finalScore} (${assessment.riskLevel}) ` +
+            `with ${assessment.model.id}@${assessment.model.version}`
+        );
 
+        void this.recordSnapshot(assessment);
         return assessment;
     }
 
+    /**
+     * Score the current user as of past block heights or dates
+     * Metrics are replayed from one read of the wallet's activity (see
+     * DataAggregator.fetchMetricsAsOf) and each assessment is kept as a
+     * snapshot at its height.
+     * 
+     * @param points - Block heights or dates (Unix ms)
+     * @param model - Model id and optional version (defaults to config.scoringModel)
+     * @returns One assessment per point, in the order given
+     * @throws SDKError INVALID_AS_OF for points in the future
+     * @throws RPCError when the metrics source fails
+     * 
+     * @example
+     * const [lastWeek] = await sdk.scoreAsOf([{ date: Date.now() - 7 * 24 * 60 * 60 * 1000 }]);
+     */
+    async scoreAsOf(
+        points: ScoreAsOf[],
+        model?: { id: string; version?: string }
+    ): Promise<CreditAssessment[]> {
+        this.ensureInitialized();
+        const scoringModel = this.resolveModel(model);
+
+        const history = await this.dataAggregator.fetchMetricsAsOf(this.userAddress!, points);
+        const assessments = history.map(({ blockHeight, timestamp, metrics }) => {
+            const assessment = ScoringEngine.calculateScore(metrics, scoringModel, {
+                now: timestamp,
+                blockHeight,
+                scales: this.config.scoreScales,
+            });
+            void this.recordSnapshot(assessment, blockHeight);
+            return assessment;
+        });
+
+        console.log(`[SDK] Scored ${assessments.length} past points with ${scoringModel.id}`);
+        return assessments;
+    }
+
+    /**
+     * Snapshots of the current user's scores, oldest first
+     * 
+     * @param range - Time range (Unix ms, inclusive)
+     */
+    async getScoreHistory(range?: { from?: number; to?: number }): Promise<ScoreSnapshot[]> {
+        this.ensureInitialized();
+        return this.snapshots.list(this.userAddress!, range);
+    }
+
+    /**
+     * Trend of the current user's score over the kept snapshots
+     * 
+     * @param options - Model to follow (default: the latest snapshot's) and time range
+     * @returns Score series, change and the factors that moved it
+     * @throws SDKError NO_SNAPSHOTS when no snapshot matches
+     * 
+     * @example
+     * await sdk.scoreAsOf([{ blockHeight: 4_000_000 }]);
+     * sdk.calculateScore(await sdk.fetchWalletMetrics());
+     * const { change, topMover } = await sdk.getScoreTrend();
+     */
+    async getScoreTrend(
+        options: { model?: { id: string; version?: string }; from?: number; to?: number } = {}
+    ): Promise<ScoreTrend> {
+        const { model, ...range } = options;
+        return analyzeTrend(await this.getScoreHistory(range), model);
+    }
+
+    /**
+     * Score the same metrics with several models side by side
+     * 
+     * @param metrics - Wallet metrics
+     * @param models - Models to run, in output order
+     * @returns One assessment per model
+     * 
+     * @example
+     * const [current, candidate] = sdk.compareModels(metrics, [
+     *   { id: 'proofscore-tiered', version: '2.0.0' },
+     *   { id: 'my-team-model' },
+     * ]);
+     */
+    compareModels(
+        metrics: WalletMetrics,
+        models: Array<{ id: string; version?: string }>
+    ): CreditAssessment[] {
+        ScoringEngine.validateMetrics(metrics);
+
+        return models.map((model) =>
+            ScoringEngine.calculateScore(metrics, this.resolveModel(model), {
+                scales: this.config.scoreScales,
+            })
+        );
+    }
+
+    /**
+     * What-if simulation: score metrics with hypothetical changes
+     * Returns the exact simulated score and the nearest tier boundaries of
+     * every factor. Simulations are not kept as snapshots.
+     * 
+     * @param metrics - Current wallet metrics
+     * @param changes - Changes such as { metric: 'transactionCount', add: 5 }
+     * @param model - Model id and optional version (defaults to config.scoringModel)
+     * @throws SDKError INVALID_CHANGE for invalid changes
+     * 
+     * @example
+     * const { change } = sdk.simulateScore(metrics, [{ metric: 'repaymentRate', set: 98 }]);
+     */
+    simulateScore(
+        metrics: WalletMetrics,
+        changes: MetricChange[],
+        model?: { id: string; version?: string }
+    ): ScoreSimulation {
+        return ScoringEngine.simulate(metrics, changes, this.resolveModel(model));
+    }
+
+    /**
+     * Score many addresses, streaming results as they complete
+     * Does not need init(). Addresses are deduplicated and scored with
+     * bounded concurrency; every explorer request stays under
+     * config.requestsPerSecond. Failures are reported per address without
+     * aborting the batch.
+     * 
+     * @param addresses - Addresses to score
+     * @param options - Concurrency and model (defaults to config.scoringModel)
+     * @returns Async iterator of results, in completion order
+     * 
+     * @example
+     * for await (const result of sdk.scoreMany(addresses, { concurrency: 4 })) {
+     *   console.log(result.address, result.status);
+     * }
+     */
+    scoreMany(
+        addresses: Iterable<string>,
+        options: BatchScoreOptions = {}
+    ): AsyncGenerator<BatchScoreResult> {
+        return this.batchScorer.scoreMany(addresses, {
+            ...options,
+            model: options.model ?? this.config.scoringModel,
+        });
+    }
+
+    /**
+     * Export batch results as CSV or JSONL lines
+     * 
+     * @param results - Results from scoreMany (or collected from it)
+     * @param format - 'csv' or 'jsonl'
+     * @returns Async iterator of newline-terminated lines
+     * 
+     * @example
+     * for await (const line of sdk.exportBatchResults(sdk.scoreMany(addresses), 'jsonl')) {
+     *   stream.write(line);
+     * }
+     */
+    exportBatchResults(
+        results: Iterable<BatchScoreResult> | AsyncIterable<BatchScoreResult>,
+        format: BatchExportFormat
+    ): AsyncGenerator<string> {
+        return exportBatchResults(results, format);
+    }
+
+    /**
+     * Calibrate scores against a scored population
+     * Computes the score distribution, percentile ranks and risk band
+     * occupancy, plus AUC, KS and a calibration curve when defaults are
+     * labeled. Render the result with renderCalibrationReport.
+     * 
+     * @param population - Calibration samples, or batch results (e.g. collected from scoreMany)
+     * @param labels - Default labels by address, for batch results
+     * @param options - Risk cutoffs to evaluate and bin sizes
+     * @throws SDKError EMPTY_POPULATION without scored addresses
+     * 
+     * @example
+     * const results = [];
+     * for await (const result of sdk.scoreMany(addresses)) results.push(result);
+     * const report = sdk.calibrate(results, defaults, { cutoffs: { low: 720, medium: 560 } });
+     */
+    calibrate(
+        population: readonly CalibrationSample[] | readonly BatchScoreResult[],
+        labels?: DefaultLabels,
+        options?: CalibrationOptions
+    ): CalibrationReport {
+        const samples = population.map((entry) =>
+            'status' in entry ? samplesFromBatch([entry], labels) : [entry]
+        );
+        return calibrate(samples.flat(), options);
+    }
+
+    /**
+     * Register a custom scoring model with the shared registry
+     * 
+     * @param model - Scoring model
+     */
+    registerScoringModel(model: ScoringModel): void {
+        scoringModelRegistry.register(model);
+        console.log(`[SDK] Registered scoring model ${model.id}@${model.version}`);
+    }
+
+    /**
+     * List available scoring models
+     */
+    listScoringModels(): ScoringModelRef[] {
+        return scoringModelRegistry.list();
+    }
+
+    /**
+     * Load a scoring policy file and register the model it describes
+     * The policy is validated strictly first (see validateScoringPolicy).
+     * 
+     * @param source - Policy file contents, or a parsed policy
+     * @param options.format - Format of the contents (default: 'json')
+     * @param options.parseYaml - YAML parser for 'yaml' contents, e.g. `parse` from yaml
+     * @param options.makeDefault - Score with the policy when no model is given
+     * @returns Reference of the registered model
+     * @throws SDKError INVALID_FORMAT, INVALID_POLICY or DUPLICATE_MODEL
+     * 
+     * @example
+     * sdk.loadScoringPolicy(await readFile('policy.yaml', 'utf8'), {
+     *   format: 'yaml',
+     *   parseYaml: parse,
+     *   makeDefault: true,
+     * });
+     */
+    loadScoringPolicy(
+        source: string | ScoringPolicy,
+        options: {
+            format?: ScoringPolicyFormat;
+            parseYaml?: (text: string) => unknown;
+            makeDefault?: boolean;
+        } = {}
+    ): ScoringModelRef {
+        const policy =
+            typeof source === 'string'
+                ? parseScoringPolicy(source, options.format ?? 'json', options.parseYaml)
+                : source;
+        const model = compileScoringPolicy(policy);
+        this.registerScoringModel(model);
+
+        const ref = { id: model.id, version: model.version };
+        if (options.makeDefault) this.config.scoringModel = ref;
+        return ref;
+    }
+
+    /**
+     * Create the private score record proofs commit to
+     * Store it with the user: its blinding factor opens the commitment.
+     * The record is stamped with the latest block height and expires
+     * SCORE_VALIDITY_BLOCKS later, unless a score proof that supersedes it
+     * (refresh_score) or revokeScore retires it first.
+     * 
+     * @param assessment - Credit assessment
+     * @returns Score record with a fresh blinding factor
+     * 
+     * @example
+     * const record = await sdk.createScoreRecord(assessment);
+     * const proof = await sdk.generateProof(assessment, record);
+     * await sdk.registerScore(proof, privateKey);
+     * const threshold = await sdk.generateThresholdProof(assessment, 650, record);
+     */
+    async createScoreRecord(assessment: CreditAssessment): Promise<ScoreRecord> {
+        const scoreBlock = await this.blockchainAdapter.getLatestBlockHeight();
+        return this.proofGenerator.createScoreRecord(assessment, scoreBlock);
+    }
+
+    /**
+     * Open the commitment to a score record (discloses the score)
+     * 
+     * @param record - Score record
+     * @returns Opening to hand to a verifier
+     */
+    async openCommitment(record: ScoreRecord): Promise<ScoreOpening> {
+        return this.proofGenerator.open(record);
+    }
+
+    /**
+     * Check an opening, optionally against a proof's commitment
+     * 
+     * @param opening - Disclosed score record
+     * @param commitment - Commitment to check against (e.g. proof.scoreCommitment)
+     * @returns True if the opening matches the commitment
+     */
+    async verifyOpening(opening: ScoreOpening, commitment?: string): Promise<boolean> {
+        return this.proofGenerator.verifyOpening(opening, commitment);
+    }
+
     /**
      * Generate zero-knowledge proof
-     * Runs on-device, takes 2-3 seconds
+     * Runs on the configured proving backend (mock: 2-3 seconds)
+     * The proof opens the record's commitment: it discloses the score to
+     * whoever it is handed to.
      * 
      * @param assessment - Credit assessment
+     * @param scoreRecord - Record the execution outputs (see createScoreRecord)
+     * @param supersedes - Current record the new one replaces (executes refresh_score)
      * @returns ZK proof
      * 
      * @example
-     * const proof = await sdk.generateProof(assessment);
+     * const record = await sdk.createScoreRecord(assessment);
+     * const proof = await sdk.generateProof(assessment, record);
+     * const refreshed = await sdk.generateProof(assessment, newRecord, record);
      */
-    async generateProof(assessment: CreditAssessment): Promise<ZKProof> {
+    async generateProof(
+        assessment: CreditAssessment,
+        scoreRecord: ScoreRecord,
+        supersedes?: ScoreRecord
+    ): Promise<ZKProof> {
         console.log('[SDK] Generating ZK proof...');
-        const proof = await this.proofGenerator.generateProof(assessment);
+        const proof = await this.proofGenerator.generateProof(
+            assessment,
+            scoreRecord,
+            undefined,
+            supersedes
+        );
 
         // Verify proof locally before returning
-        const isValid = await this.proofGenerator.verifyProofLocally(proof);
+        const { isValid } = await this.proofGenerator.verifyProof(proof);
         if (!isValid) {
             throw new SDKError('Proof verification failed', 'INVALID_PROOF');
         }
@@ -162,28 +571,470 @@ export class CreditScoreSDK {
         return proof;
     }
 
+    /**
+     * Prove score >= threshold without revealing the score
+     * 
+     * @param assessment - Credit assessment
+     * @param threshold - Minimum score (300-850), or a value on a scale
+     *   (proven as the lowest score shown as that value or better)
+     * @param scoreRecord - Registered record to prove about (see registerScore)
+     * @param challenge - Verifier challenge to answer
+     * @returns ZK proof whose only public input is the threshold
+     * @throws SDKError INVALID_SCALE_VALUE for values not on the scale
+     * 
+     * @example
+     * const proof = await sdk.generateThresholdProof(assessment, 650, record, challenge);
+     * const graded = await sdk.generateThresholdProof(assessment, {
+     *   scale: LETTER_GRADE_SCALE,
+     *   value: 'B',
+     * }, record);
+     */
+    async generateThresholdProof(
+        assessment: CreditAssessment,
+        threshold: number | ScaleBound,
+        scoreRecord: ScoreRecord,
+        challenge?: ProofChallenge
+    ): Promise<ZKProof> {
+        const native =
+            typeof threshold === 'number'
+                ? threshold
+                : nativeThreshold(threshold.scale, threshold.value, this.scoreRangeOf(assessment));
+        console.log(`[SDK] Generating threshold proof (>= ${native})...`);
+        return this.proofGenerator.generateThresholdProof(
+            assessment,
+            native,
+            scoreRecord,
+            undefined,
+            challenge
+        );
+    }
+
+    /**
+     * Prove min <= score <= max without revealing the score
+     * 
+     * @param assessment - Credit assessment
+     * @param min - Lower bound (inclusive), or a value on a scale
+     * @param max - Upper bound (inclusive), or a value on a scale
+     * @param scoreRecord - Registered record to prove about (see registerScore)
+     * @param challenge - Verifier challenge to answer
+     * @returns ZK proof whose only public inputs are the bounds
+     * @throws SDKError INVALID_SCALE_VALUE for values not on the scale
+     */
+    async generateRangeProof(
+        assessment: CreditAssessment,
+        min: number | ScaleBound,
+        max: number | ScaleBound,
+        scoreRecord: ScoreRecord,
+        challenge?: ProofChallenge
+    ): Promise<ZKProof> {
+        const range = this.scoreRangeOf(assessment);
+        const low = typeof min === 'number' ? min : nativeThreshold(min.scale, min.value, range);
+        const high = typeof max === 'number' ? max : nativeCeiling(max.scale, max.value, range);
+        console.log(`[SDK] Generating range proof (${low}-${high})...`);
+        return this.proofGenerator.generateRangeProof(
+            assessment,
+            low,
+            high,
+            scoreRecord,
+            undefined,
+            challenge
+        );
+    }
+
+    /**
+     * Issue a challenge for a holder's threshold, range or identity proof
+     * Each challenge accepts one response; see verifyProof
+     * 
+     * @param purpose - What the proof is for, e.g. 'loan-application'
+     * @param options - maxUses (per score record and purpose) and lifetime
+     * @returns Challenge to send to the holder
+     * 
+     * @example
+     * const challenge = lenderSdk.createChallenge('loan-application', { maxUses: 1 });
+     */
+    createChallenge(purpose: string, options?: ChallengeOptions): ProofChallenge {
+        this.ensureInitialized();
+
+        for (const [nonce, issued] of this.issuedChallenges) {
+            if (isChallengeExpired(issued)) this.issuedChallenges.delete(nonce);
+        }
+
+        const challenge = createChallenge(this.userAddress!, purpose, options);
+        this.issuedChallenges.set(challenge.nonce, challenge);
+
+        return challenge;
+    }
+
+    /**
+     * Verify a proof, optionally against the statement a lender requires
+     * 
+     * Proofs over a score record are also checked against the record's
+     * validity window, and their commitment must be a current one in
+     * score_commitments.
+     * 
+     * With a challenge from createChallenge, the proof must answer it, and
+     * the challenge is spent whatever the outcome. If the challenge caps
+     * reuse, the proof's nullifier must have uses left; record the use with
+     * useNullifier once the proof is accepted.
+     * 
+     * @param proof - ZK proof
+     * @param required - Statement the proof must imply (e.g. threshold 650);
+     *   scaled statements are read on the 300-850 scores of on-chain records
+     * @param holder - Address the proof was presented by; the proven record must be theirs
+     * @param challenge - Challenge issued for this session
+     * @returns True if valid (and satisfies `required`)
+     * @throws CredentialError if the score record expired or was superseded/revoked,
+     * or the nullifier has no uses left (CREDENTIAL_REUSED)
+     * @throws RPCError if the chain state these checks need cannot be read
+     * 
+     * @example
+     * const ok = await sdk.verifyProof(proof, { kind: 'threshold', threshold: 650 }, holder);
+     * const graded = await sdk.verifyProof(proof, {
+     *   kind: 'threshold',
+     *   scale: LETTER_GRADE_SCALE,
+     *   threshold: 'B',
+     * });
+     */
+    async verifyProof(
+        proof: ZKProof,
+        required?: ProofStatement | ScaledStatement,
+        holder?: string,
+        challenge?: ProofChallenge
+    ): Promise<boolean> {
+        // Check against our own copy of the challenge, and only once
+        const issued = challenge && this.issuedChallenges.get(challenge.nonce);
+        if (challenge) {
+            if (!issued) {
+                console.warn('[SDK] Unknown or already answered challenge');
+                return false;
+            }
+            this.issuedChallenges.delete(challenge.nonce);
+        }
+
+        const statement = required && 'scale' in required ? scaleStatement(required) : required;
+        const isValid = statement
+            ? await this.proofGenerator.verifyStatement(proof, statement, issued)
+            : (await this.proofGenerator.verifyProof(proof, issued)).isValid;
+
+        if (isValid && holder !== undefined && proof.owner !== holder) {
+            console.warn('[SDK] Proof is about a score record of another address');
+            return false;
+        }
+
+        // Valid score record proofs always carry the record's block
+        if (isValid && proof.scoreBlock !== undefined) {
+            await this.blockchainAdapter.checkScoreStatus(proof.scoreCommitment, proof.scoreBlock);
+        }
+
+        if (isValid && issued && issued.maxUses > 0 && proof.nullifier) {
+            const uses = await this.blockchainAdapter.fetchNullifierUses(
+                issued.verifier,
+                proof.nullifier
+            );
+            if (uses >= issued.maxUses) {
+                throw new CredentialError(
+                    `Credential was already used ${uses} time(s) for ${issued.purpose}`,
+                    'CREDENTIAL_REUSED',
+                    { nullifier: proof.nullifier, uses, maxUses: issued.maxUses }
+                );
+            }
+        }
+
+        return isValid;
+    }
+
+    /**
+     * Record that a challenged proof was accepted
+     * Fails closed: the proof must verify against a challenge this verifier
+     * issued, and the use is recorded under the cap bound in the proof. The
+     * contract rejects the transaction once this verifier used the nullifier
+     * that many times.
+     * 
+     * @param proof - Proof accepted by verifyProof
+     * @param challenge - Challenge it answered
+     * @param privateKey - Verifier's private key for signing
+     * @returns Transaction ID
+     * @throws SDKError INVALID_CHALLENGE if the challenge is another verifier's
+     *   or does not cap reuse, INVALID_PROOF if the proof does not answer it
+     * @throws TransactionError if the use is not confirmed on-chain
+     */
+    async useNullifier(
+        proof: ZKProof,
+        challenge: ProofChallenge,
+        privateKey: string
+    ): Promise<string> {
+        this.ensureInitialized();
+
+        if (challenge.verifier !== this.userAddress) {
+            throw new SDKError('Challenge was issued by another verifier', 'INVALID_CHALLENGE');
+        }
+        if (challenge.maxUses === 0) {
+            throw new SDKError('Challenge does not cap reuse', 'INVALID_CHALLENGE');
+        }
+        if (!proof.nullifier || !proof.challenge) {
+            throw new SDKError('Proof has no nullifier', 'INVALID_PROOF');
+        }
+
+        // The cap comes from the proof's public inputs, which must match the challenge
+        const { isValid } = await this.proofGenerator.verifyProof(proof, challenge);
+        if (!isValid) {
+            throw new SDKError('Proof does not answer the challenge', 'INVALID_PROOF');
+        }
+
+        return this.blockchainAdapter.useNullifier(
+            proof.nullifier,
+            proof.challenge.maxUses,
+            this.userAddress!,
+            privateKey
+        );
+    }
+
+    /**
+     * Link wallets the holder controls
+     * Every wallet signs linkMessage(challenge), for a challenge issued by
+     * the verifier the identity will be proven to. The first wallet is the
+     * primary: it executes the identity proof.
+     * 
+     * @param request - Challenge and one signature per wallet
+     * @returns Linked identity (private to the holder)
+     * @throws SDKError INVALID_LINK, INVALID_ADDRESS, INVALID_CHALLENGE or INVALID_SIGNATURE
+     * 
+     * @example
+     * const message = linkMessage(challenge); // signed by every wallet
+     * const identity = await sdk.linkWallets({ challenge, signatures });
+     */
+    async linkWallets(request: WalletLinkRequest): Promise<LinkedIdentity> {
+        const identity = await this.walletLinker.link(request);
+        console.log(`[SDK] Linked ${identity.addresses.length} wallets`);
+        return identity;
+    }
+
+    /**
+     * Score linked wallets as one
+     * Fetches every wallet's metrics and scores them merged (see
+     * mergeWalletMetrics). This is a local estimate: identity proofs do not
+     * cover it. Not kept as a snapshot: score history is per wallet.
+     * 
+     * @param identity - Identity from linkWallets
+     * @param model - Model id and optional version (defaults to config.scoringModel)
+     * @returns Assessment of the combined metrics, under the primary address
+     * @throws RPCError in strict mode (config.strictData) when a source fails
+     */
+    async calculateLinkedScore(
+        identity: LinkedIdentity,
+        model?: { id: string; version?: string }
+    ): Promise<CreditAssessment> {
+        const wallets = await Promise.all(
+            identity.addresses.map((address) => this.dataAggregator.fetchWalletMetrics(address))
+        );
+        const metrics = mergeWalletMetrics(wallets);
+        ScoringEngine.validateMetrics(metrics);
+
+        const assessment = ScoringEngine.calculateScore(metrics, this.resolveModel(model), {
+            scales: this.config.scoreScales,
+        });
+        console.log(
+            `[SDK] Combined score of ${wallets.length} wallets: ${assessment.finalScore} ` +
+            `(${assessment.riskLevel})`
+        );
+        return assessment;
+    }
+
+    /**
+     * Prove control of the linked wallets
+     * Only the number of wallets and the challenge are public; verifiers
+     * check it with verifyProof and an identity statement. The proof says
+     * nothing about the wallets' scores (see calculateLinkedScore).
+     * 
+     * @param identity - Identity from linkWallets
+     * @returns ZK proof answering the identity's challenge
+     * 
+     * @example
+     * const proof = await sdk.generateIdentityProof(identity);
+     * const ok = await lender.verifyProof(proof, { kind: 'identity', wallets: 2 },
+     *     undefined, challenge);
+     */
+    async generateIdentityProof(identity: LinkedIdentity): Promise<ZKProof> {
+        console.log(`[SDK] Generating identity proof (${identity.addresses.length} wallets)...`);
+        return this.proofGenerator.generateIdentityProof(identity);
+    }
+
+    /**
+     * Check an issued credential is still valid
+     * 
+     * @param credential - Credential from issueCredit
+     * @returns True if neither expired nor superseded
+     * @throws CredentialError CREDENTIAL_EXPIRED or CREDENTIAL_SUPERSEDED
+     */
+    async verifyCredential(credential: CreditRecord): Promise<boolean> {
+        await this.blockchainAdapter.checkScoreStatus(
+            credential.scoreCommitment,
+            credential.scoreBlock,
+            credential.expiresBlock
+        );
+        return true;
+    }
+
+    /**
+     * Revoke a score record and the credentials and claims issued from it
+     * A score published from the record stops being current too. To replace
+     * a record with a newer score instead, pass it to generateProof.
+     * 
+     * @param scoreRecord - Record to revoke (consumed)
+     * @param privateKey - User's private key for signing
+     * @returns Transaction ID
+     * @throws TransactionError if the broadcast or its confirmation fails
+     */
+    async revokeScore(scoreRecord: ScoreRecord, privateKey: string): Promise<string> {
+        this.ensureInitialized();
+
+        console.log('[SDK] Revoking score...');
+        const transactionId = await this.blockchainAdapter.revokeScore(
+            scoreRecord,
+            this.userAddress!,
+            privateKey
+        );
+        await this.invalidateMetrics(this.userAddress!, transactionId);
+        return transactionId;
+    }
+
+    /**
+     * Commit to every claim of a score record for selective disclosure
+     * 
+     * @param assessment - Credit assessment
+     * @param scoreRecord - Registered record the claims belong to (see registerScore)
+     * @returns Claim set (private to the holder)
+     */
+    async createClaimSet(
+        assessment: CreditAssessment,
+        scoreRecord: ScoreRecord
+    ): Promise<ClaimSet> {
+        return this.selectiveDisclosure.createClaimSet(assessment, scoreRecord);
+    }
+
+    /**
+     * Anchor a claim set on-chain so lenders can verify presentations
+     * anchor_claims recomputes the root from the claim set's score record
+     * 
+     * @param claimSet - Claim set
+     * @param privateKey - Holder's private key for signing
+     * @returns Transaction ID
+     * @throws TransactionError if the claims were not anchored; the claim set
+     *   cannot be presented until they are
+     */
+    async anchorClaims(claimSet: ClaimSet, privateKey: string): Promise<string> {
+        const transactionId = await this.blockchainAdapter.anchorClaims(
+            claimSet.record,
+            claimSet.holder,
+            privateKey
+        );
+        await this.invalidateMetrics(claimSet.holder, transactionId);
+        return transactionId;
+    }
+
+    /**
+     * Reveal some claims and prove predicates over others
+     * 
+     * @param claimSet - Claim set
+     * @param request - Claims to reveal and predicates to prove
+     * @returns Presentation for a lender
+     * 
+     * @example
+     * const presentation = await sdk.createPresentation(claimSet, {
+     *   prove: [
+     *     { claim: 'walletAgeMonths', min: 12 },
+     *     { claim: 'riskLevel', min: RISK_LEVEL_VALUES.low },
+     *   ],
+     * });
+     */
+    async createPresentation(
+        claimSet: ClaimSet,
+        request: PresentationRequest
+    ): Promise<CredentialPresentation> {
+        console.log('[SDK] Creating presentation...');
+        return this.selectiveDisclosure.present(claimSet, request);
+    }
+
+    /**
+     * Verify a presentation against the claim root anchored from its score record
+     * The record must be current (see checkScoreStatus)
+     * 
+     * @param presentation - Presentation from the holder
+     * @param required - Predicates the presentation must establish
+     * @returns Validity and established claim ranges
+     * @throws CredentialError if the score record expired or was superseded/revoked
+     * 
+     * @example
+     * const { isValid } = await sdk.verifyPresentation(presentation, [
+     *   { claim: 'repaymentRate', min: 90 },
+     * ]);
+     */
+    async verifyPresentation(
+        presentation: CredentialPresentation,
+        required?: ClaimPredicate[]
+    ): Promise<PresentationVerification> {
+        const { scoreCommitment, scoreBlock } = presentation;
+        await this.blockchainAdapter.checkScoreStatus(scoreCommitment, scoreBlock);
+
+        const root = await this.blockchainAdapter.fetchClaimsRoot(scoreCommitment);
+        return this.selectiveDisclosure.verify(presentation, root, required);
+    }
+
+    /**
+     * Register a score proof's record on-chain (generate_score)
+     * Adds the record's commitment to score_commitments; threshold and range
+     * proofs, credentials and claim sets are only accepted for registered
+     * records. The score and owner stay private.
+     * 
+     * @param proof - Score proof from generateProof
+     * @param privateKey - User's private key for signing
+     * @returns Transaction ID
+     * @throws TransactionError if the proof is not the user's score proof, or
+     *   the broadcast or its confirmation fails
+     */
+    async registerScore(proof: ZKProof, privateKey: string): Promise<string> {
+        this.ensureInitialized();
+
+        console.log('[SDK] Registering score record...');
+        const transactionId = await this.blockchainAdapter.registerScore(
+            proof,
+            this.userAddress!,
+            privateKey
+        );
+        await this.invalidateMetrics(this.userAddress!, transactionId);
+        return transactionId;
+    }
+
     /**
      * Submit proof to blockchain and issue credit
+     * The proof's record must be registered (see registerScore)
      * 
      * @param proof - ZK proof
      * @param privateKey - User's private key for signing
+     * @param scoreThreshold - Threshold the credential attests to (default: 300)
      * @returns Credit issuance result
      * 
      * @example
-     * const result = await sdk.issueCredit(proof, privateKey);
+     * const result = await sdk.issueCredit(proof, privateKey, 650);
      */
-    async issueCredit(proof: ZKProof, privateKey: string): Promise<CreditIssuanceResult> {
+    async issueCredit(
+        proof: ZKProof,
+        privateKey: string,
+        scoreThreshold?: number
+    ): Promise<CreditIssuanceResult> {
         this.ensureInitialized();
 
         console.log('[SDK] Issuing credit...');
         const result = await this.blockchainAdapter.submitProof(
             proof,
             this.userAddress!,
-            privateKey
+            privateKey,
+            scoreThreshold
         );
 
         if (result.success) {
             console.log(`[SDK] Credit issued successfully: ${result.transactionId}`);
+            await this.invalidateMetrics(this.userAddress!, result.transactionId);
         } else {
             console.error(`[SDK] Credit issuance failed: ${result.error}`);
         }
@@ -223,10 +1074,12 @@ export class CreditScoreSDK {
 
             // Step 3: Generate proof (2-3s)
             console.log('[SDK] Step 3/4: Generating ZK proof...');
-            const proof = await this.generateProof(assessment);
+            const record = await this.createScoreRecord(assessment);
+            const proof = await this.generateProof(assessment, record);
 
-            // Step 4: Issue credit (2s)
+            // Step 4: Register the record and issue credit (4s)
             console.log('[SDK] Step 4/4: Submitting to blockchain...');
+            await this.registerScore(proof, privateKey);
             const result = await this.issueCredit(proof, privateKey);
 
             const duration = ((Date.now() - startTime) / 1000).toFixed(1);
@@ -269,6 +1122,31 @@ export class CreditScoreSDK {
         return ScoringEngine.getScoreBreakdown(assessment);
     }
 
+    /**
+     * Reason codes of an assessment, with their messages
+     * The top REASON_CODES.MAX_REASONS reasons the score is below the
+     * maximum, most points lost first: the adverse-action reasons a lender
+     * gives when it declines.
+     * 
+     * @param assessment - Credit assessment
+     * @param messages - Message templates of the locale to use (default: English)
+     * @returns Reasons with their messages
+     * 
+     * @example
+     * const [top] = sdk.getScoreReasons(assessment);
+     * // { code: 'R07_RECENT_INACTIVITY', factor: 'transactions', points: 21, value: 120,
+     * //   message: 'No recent activity (last transaction 120 days ago)' }
+     */
+    getScoreReasons(
+        assessment: CreditAssessment,
+        messages?: ReasonMessages
+    ): Array<ScoreReason & { message: string }> {
+        return ScoringEngine.getReasons(assessment).map((reason) => ({
+            ...reason,
+            message: formatReason(reason, messages),
+        }));
+    }
+
     /**
      * Get transaction explorer URL
      * 
@@ -282,9 +1160,9 @@ export class CreditScoreSDK {
     /**
      * Clear cached metrics for current user
      */
-    clearCache(): void {
+    async clearCache(): Promise<void> {
         if (this.userAddress) {
-            this.dataAggregator.clearCache(this.userAddress);
+            await this.dataAggregator.clearCache(this.userAddress);
             console.log('[SDK] Cache cleared');
         }
     }
@@ -303,6 +1181,57 @@ export class CreditScoreSDK {
         return this.userAddress;
     }
 
+    /**
+     * Resolve requested model, falling back to config then registry default
+     * @private
+     */
+    private resolveModel(model?: { id: string; version?: string }): ScoringModel {
+        const selected = model ?? this.config.scoringModel;
+        return selected
+            ? scoringModelRegistry.get(selected.id, selected.version)
+            : scoringModelRegistry.getDefault();
+    }
+
+    /**
+     * Native score range of an assessment's model (scale values are converted within it)
+     * @private
+     */
+    private scoreRangeOf(assessment: CreditAssessment): ScoreRange {
+        return ScoringEngine.getScoreRange(ScoringEngine.getModel(assessment));
+    }
+
+    /**
+     * Keep an assessment as a snapshot
+     * Estimated metrics are not history, and a failing store must not fail
+     * scoring.
+     * @private
+     */
+    private async recordSnapshot(
+        assessment: CreditAssessment,
+        blockHeight?: number
+    ): Promise<void> {
+        if (fallbackFields(assessment.metrics).length) return;
+
+        try {
+            await this.snapshots.add(createSnapshot(assessment, blockHeight));
+        } catch (error) {
+            console.warn('[SDK] Failed to record score snapshot:', error);
+        }
+    }
+
+    /**
+     * Drop cached metrics after a transaction from the address
+     * A cache failure must not fail the transaction that was already sent.
+     * @private
+     */
+    private async invalidateMetrics(address: string, transactionId: string): Promise<void> {
+        try {
+            await this.dataAggregator.invalidate(address, transactionId);
+        } catch (error) {
+            console.warn('[SDK] Failed to invalidate cached metrics:', error);
+        }
+    }
+
     /**
      * Ensure SDK is initialized
      * @private
@@ -1,43 +1,155 @@
 /**
  * DataAggregator - On-Chain Metrics Fetcher
  * 
- * Fetches wallet metrics from Aleo blockchain via RPC
- * Implements LRU caching (1-hour TTL) for performance
- * Parallel query execution for 3x speed improvement
+ * Builds wallet metrics from a pluggable MetricsSource (default: the Aleo
+ * explorer REST API): transaction count, wallet age, last activity and
+ * balance come from the wallet's on-chain activity, the DeFi score from
+ * classifying its transitions (DefiClassifier) and the repayment rate from
+ * the loan ledger rebuilt from its lending transitions (LoanLedger), which
+ * needs the lending programs to be registered (otherwise the rate is a
+ * fallback estimate, and strict mode refuses to score). When
+ * the source reads balance changes, the public balance is also sampled
+ * over time (BalanceHistory). Wash activity (self-loops, ping-pong
+ * transfers, dust and bursts) is reported by WashDetector, and the
+ * transactions it made up are discounted when scoring
+ * Every field carries provenance (source, fetched-at, block height and
+ * whether it is real, cached or a fallback estimate); fields derived from
+ * the transition history are marked partial when the source stopped
+ * before the oldest transitions. In strict mode a failing source, or one
+ * that returns a truncated history, raises RPCError instead.
+ * Metrics are cached in a pluggable MetricsCacheStore (in-memory LRU by
+ * default; IndexedDB, filesystem and SQLite stores persist and share it)
+ * with per-field TTLs and stale-while-revalidate: stale entries are served
+ * while a background read refreshes them. Estimates made because the source
+ * failed go stale after CACHE_CONFIG.FALLBACK_TTL. Seeing a new transaction
+ * from an address invalidates its entry.
+ * A single activity read per wallet feeds every metric
  * 
  * @module lib/sdk/DataAggregator
  */
 
-import { LRUCache } from 'lru-cache';
-import ky from 'ky';
-import { CACHE_CONFIG, API_CONFIG, ALEO_CONFIG, FEATURES } from '@/lib/constants';
-import type { WalletMetrics, AleoAccount } from '@/types/sdk';
-import { RPCError } from '@/types/sdk';
+import { AleoExplorerSource } from './sources/AleoExplorerSource';
+import type { RateLimiter } from './batch/RateLimiter';
+import { DefiClassifier } from './defi/DefiClassifier';
+import { LoanLedger } from './lending/LoanLedger';
+import { buildBalanceHistory } from './balance/BalanceHistory';
+import { WashDetector } from './sybil/WashDetector';
+import { MemoryCacheStore } from './cache/MemoryCacheStore';
+import { cacheFreshness, resolveFieldTTLs, type FieldTTLs } from './cache/CacheFreshness';
+import { fallbackProvenance, markCached, markPartial, uniformProvenance } from './Provenance';
+import { BlockClock, activityAsOf } from './history/ActivityReplay';
+import { CACHE_CONFIG, ALEO_CONFIG, EXPLORER_API, FEATURES, LOAN_LEDGER } from '@/lib/constants';
+import type {
+    CachedMetrics,
+    FieldProvenance,
+    HistoricalMetrics,
+    MetricsCacheStore,
+    MetricsSource,
+    ScoreAsOf,
+    WalletActivity,
+    WalletMetrics,
+    WalletTransition,
+} from '@/types/sdk';
+import { RPCError, SDKError } from '@/types/sdk';
+
+const MONTH_MS = 1000 * 60 * 60 * 24 * 30;
+
+/**
+ * Metrics derived from a wallet's on-chain activity
+ */
+type ActivityMetrics = Pick<
+    WalletMetrics,
+    | 'transactionCount'
+    | 'walletAgeMonths'
+    | 'tokenBalance'
+    | 'lastTransactionDate'
+    | 'defiScore'
+    | 'defiActivity'
+    | 'repaymentRate'
+    | 'repaymentHistory'
+    | 'balanceHistory'
+    | 'activityAnomalies'
+>;
+
+/**
+ * A queried value and where it came from
+ */
+interface Sourced<T> {
+    value: T;
+    provenance: FieldProvenance;
+}
+
+export interface DataAggregatorOptions {
+    strict?: boolean; // Raise RPCError instead of falling back to estimates (default: false)
+    defiClassifier?: DefiClassifier; // DeFi program registry (default: DEFAULT_DEFI_PROGRAMS)
+    loanLedger?: LoanLedger; // Lending program registry (default: none, repaymentRate is estimated)
+    washDetector?: WashDetector | false; // Wash activity detector, false to disable
+    cache?: MetricsCacheStore | false; // Cache store, false to disable (default: MemoryCacheStore)
+    ttl?: number; // TTL of every field in ms (default: CACHE_CONFIG.FIELD_TTLS)
+    fieldTTLs?: Partial<FieldTTLs>; // TTLs of single fields, over ttl
+    staleWhileRevalidate?: number; // ms a field is served past its TTL (default: 1 day)
+    rateLimiter?: RateLimiter; // Paces the default source's requests (default: none)
+}
 
 export class DataAggregator {
-    private cache: LRUCache<string, WalletMetrics>;
     private rpcUrl: string;
     private indexerUrl?: string;
+    private source: MetricsSource;
+    private strict: boolean;
+    private defiClassifier: DefiClassifier;
+    private loanLedger: LoanLedger;
+    private washDetector: WashDetector | null;
+    private cache: MetricsCacheStore | null;
+    private fieldTTLs: FieldTTLs;
+    private staleWhileRevalidate: number;
+    // Reads in flight per address, shared by concurrent callers
+    private inflight = new Map<string, Promise<WalletMetrics>>();
+    // Bumped on invalidation, so reads started before it are not cached
+    private generations = new Map<string, number>();
 
-    constructor(rpcUrl?: string, indexerUrl?: string) {
+    /**
+     * @param rpcUrl - Aleo node / explorer API root
+     * @param indexerUrl - Explorer API root for the default source (default: rpcUrl)
+     * @param source - Activity source (default: AleoExplorerSource)
+     * @param options - Strict mode, DeFi classifier, loan ledger, wash detector, cache
+     *   and the default source's rate limiter
+     */
+    constructor(
+        rpcUrl?: string,
+        indexerUrl?: string,
+        source?: MetricsSource,
+        options: DataAggregatorOptions = {}
+    ) {
         this.rpcUrl = rpcUrl || ALEO_CONFIG.MAINNET.rpcUrl;
         this.indexerUrl = indexerUrl;
-
-        // Initialize LRU cache
-        this.cache = new LRUCache({
-            max: CACHE_CONFIG.MAX_CACHE_SIZE,
-            ttl: CACHE_CONFIG.METRICS_TTL,
-            updateAgeOnGet: true,
-            updateAgeOnHas: true,
-        });
+        this.source =
+            source ??
+            new AleoExplorerSource({
+                baseUrl: indexerUrl || this.rpcUrl,
+                rateLimiter: options.rateLimiter,
+            });
+        this.strict = options.strict ?? false;
+        this.defiClassifier = options.defiClassifier ?? new DefiClassifier();
+        this.loanLedger = options.loanLedger ?? new LoanLedger();
+        this.washDetector =
+            options.washDetector === false ? null : options.washDetector ?? new WashDetector();
+
+        this.cache = options.cache === false ? null : options.cache ?? new MemoryCacheStore();
+        this.fieldTTLs = resolveFieldTTLs(options.ttl, options.fieldTTLs);
+        this.staleWhileRevalidate =
+            options.staleWhileRevalidate ?? CACHE_CONFIG.STALE_WHILE_REVALIDATE;
     }
 
     /**
      * Fetch wallet metrics from blockchain
-     * Uses cache if available (< 1 hour old)
+     * Serves cached metrics while every field is within its TTL. Stale
+     * metrics are served too and refreshed in the background; expired
+     * ones are refetched first.
      * 
      * @param address - Aleo wallet address
-     * @returns Wallet metrics
+     * @returns Wallet metrics with per-field provenance
+     * @throws RPCError for invalid addresses and, in strict mode, failing sources
+     * @throws SDKError NO_LENDING_PROGRAMS in strict mode without lending programs
      * 
      * @example
      * const aggregator = new DataAggregator();
@@ -50,168 +162,414 @@ export class DataAggregator {
         }
 
         // Check cache first
-        const cached = this.cache.get(address);
+        const cached = await this.readCache(address);
         if (cached) {
-            console.log(`[DataAggregator] Cache hit for ${address}`);
-            return cached;
+            const { state, staleFields } = cacheFreshness(
+                cached,
+                this.fieldTTLs,
+                this.staleWhileRevalidate
+            );
+
+            if (state !== 'expired') {
+                console.log(`[DataAggregator] Cache hit for ${address} (${state})`);
+                if (state === 'stale') this.revalidate(address);
+
+                const { metrics } = cached;
+                return {
+                    ...metrics,
+                    provenance: metrics.provenance && markCached(metrics.provenance, staleFields),
+                };
+            }
         }
 
+        return this.refresh(address);
+    }
+
+    /**
+     * Drop an address's cached metrics after seeing a new transaction from it
+     * Reads already in flight for the address are not cached either.
+     * 
+     * @param address - Aleo address
+     * @param transactionId - Transaction seen; entries that include it are kept
+     * @returns True if an entry was dropped
+     */
+    async invalidate(address: string, transactionId?: string): Promise<boolean> {
+        const cached = await this.readCache(address);
+        if (transactionId && cached?.lastTransactionId === transactionId) return false;
+
+        this.generations.set(address, (this.generations.get(address) ?? 0) + 1);
+        this.inflight.delete(address);
+        if (!cached) return false;
+
+        await this.cache?.delete(address);
+        console.log(`[DataAggregator] Invalidated cached metrics for ${address}`);
+        return true;
+    }
+
+    /**
+     * Metrics of a wallet as they stood at past block heights or dates
+     * Reads the wallet's activity once (bypassing the cache) and replays it
+     * to each point: later transitions are dropped and the balance is
+     * rewound through later balance changes. Dates map to the latest block
+     * estimated to precede them. History is never estimated from mock
+     * data, so a failing source always raises.
+     * 
+     * @param address - Aleo wallet address
+     * @param points - Block heights or dates (Unix ms), none in the future
+     * @returns Replayed metrics per point, in the order given
+     * @throws SDKError INVALID_AS_OF for points past the chain head or now
+     * @throws SDKError NO_LENDING_PROGRAMS in strict mode without lending programs
+     * @throws RPCError for invalid addresses and failing sources, and in
+     *   strict mode for truncated histories
+     * 
+     * @example
+     * const [lastMonth] = await aggregator.fetchMetricsAsOf('aleo1...', [
+     *   { date: Date.now() - 30 * 24 * 60 * 60 * 1000 },
+     * ]);
+     */
+    async fetchMetricsAsOf(address: string, points: ScoreAsOf[]): Promise<HistoricalMetrics[]> {
+        if (!address || !address.startsWith('aleo1')) {
+            throw new RPCError('Invalid Aleo address format');
+        }
+
+        const readAt = Date.now();
+        for (const point of points) {
+            const valid =
+                'blockHeight' in point
+                    ? Number.isInteger(point.blockHeight) && point.blockHeight >= 0
+                    : Number.isFinite(point.date) && point.date <= readAt;
+            if (!valid) {
+                throw new SDKError(
+                    'As-of points must be past dates or block heights',
+                    'INVALID_AS_OF',
+                    { point }
+                );
+            }
+        }
+
+        const tracksLoans = this.tracksLoans();
+
+        let activity: WalletActivity;
+        try {
+            activity = await this.source.fetchActivity(address);
+        } catch (error) {
+            throw new RPCError(`Failed to fetch activity from ${this.source.id}`, error);
+        }
+        this.checkComplete(activity);
+
+        const clock = new BlockClock(activity, readAt);
+        return points.map((point) => {
+            const blockHeight =
+                'blockHeight' in point
+                    ? point.blockHeight
+                    : Math.min(clock.heightAt(point.date), activity.blockHeight);
+            if (blockHeight > activity.blockHeight) {
+                throw new SDKError(
+                    `Block ${blockHeight} is past the chain head (${activity.blockHeight})`,
+                    'INVALID_AS_OF',
+                    { point }
+                );
+            }
+
+            const timestamp =
+                'date' in point
+                    ? point.date
+                    : blockHeight === activity.blockHeight
+                        ? readAt
+                        : clock.timeAt(blockHeight);
+            const replayed = activityAsOf(activity, blockHeight, clock);
+            const read = uniformProvenance({
+                source: this.source.id,
+                fetchedAt: readAt,
+                blockHeight,
+                status: 'real',
+            });
+            const provenance = tracksLoans
+                ? read
+                : { ...read, repaymentRate: fallbackProvenance(readAt) };
+
+            return {
+                blockHeight,
+                timestamp,
+                metrics: {
+                    address,
+                    ...this.deriveMetrics(replayed, timestamp, tracksLoans),
+                    provenance: activity.truncated ? markPartial(provenance) : provenance,
+                },
+            };
+        });
+    }
+
+    /**
+     * Read an address's metrics, sharing one read among concurrent callers
+     * 
+     * @param address - Aleo address
+     */
+    private refresh(address: string): Promise<WalletMetrics> {
+        let pending = this.inflight.get(address);
+        if (!pending) {
+            const read = this.load(address).finally(() => {
+                if (this.inflight.get(address) === read) this.inflight.delete(address);
+            });
+            pending = read;
+            this.inflight.set(address, pending);
+        }
+        return pending;
+    }
+
+    /**
+     * Refresh stale metrics in the background
+     * On failure the stale entry keeps being served until it expires.
+     * 
+     * @param address - Aleo address
+     */
+    private revalidate(address: string): void {
+        this.refresh(address).catch((error) => {
+            console.warn(`[DataAggregator] Failed to revalidate ${address}:`, error);
+        });
+    }
+
+    /**
+     * Read an address's metrics from the source and cache them
+     * 
+     * @param address - Aleo address
+     */
+    private async load(address: string): Promise<WalletMetrics> {
+        const generation = this.generations.get(address) ?? 0;
+
         console.log(`[DataAggregator] Fetching metrics for ${address}`);
 
-        // Use mock data in development
-        if (FEATURES.ENABLE_MOCK_DATA) {
+        // Use mock data in development (never in strict mode)
+        if (FEATURES.ENABLE_MOCK_DATA && !this.strict) {
             return this.getMockMetrics(address);
         }
 
-        try {
-            // Fetch all metrics in parallel (3x faster than sequential)
-            const [txCount, walletAge, defiScore, repaymentRate, balance] = await Promise.all([
-                this.queryTransactionCount(address),
-                this.queryWalletAgeMonths(address),
-                this.queryDeFiScore(address),
-                this.queryRepaymentRate(address),
-                this.queryTokenBalance(address),
-            ]);
+        const tracksLoans = this.tracksLoans();
 
+        try {
+            // Every metric is derived from one read of the wallet's activity
+            const activity = await this.queryActivity(address, tracksLoans);
+
+            const provenance = {
+                transactionCount: activity.provenance,
+                walletAgeMonths: activity.provenance,
+                tokenBalance: activity.provenance,
+                lastTransactionDate: activity.provenance,
+                defiScore: activity.provenance,
+                repaymentRate: tracksLoans
+                    ? activity.provenance
+                    : fallbackProvenance(activity.provenance.fetchedAt),
+            };
             const metrics: WalletMetrics = {
                 address,
-                transactionCount: txCount,
-                walletAgeMonths: walletAge,
-                defiScore,
-                repaymentRate,
-                tokenBalance: balance,
-                lastTransactionDate: Date.now(),
+                ...activity.value,
+                provenance: activity.truncated ? markPartial(provenance) : provenance,
             };
 
-            // Cache the result
-            this.cache.set(address, metrics);
+            // Cache the result, unless the address was invalidated meanwhile.
+            // Estimates are only kept briefly, so the source is retried soon.
+            if ((this.generations.get(address) ?? 0) === generation) {
+                await this.writeCache(address, {
+                    metrics,
+                    storedAt: Date.now(),
+                    lastTransactionId: activity.lastTransactionId,
+                    ...(activity.provenance.status === 'fallback' && { estimated: true }),
+                });
+            }
 
             return metrics;
         } catch (error) {
             console.error('[DataAggregator] Error fetching metrics:', error);
+            if (error instanceof RPCError) throw error;
             throw new RPCError('Failed to fetch wallet metrics', error);
         }
     }
 
     /**
-     * Query transaction count from RPC
+     * Query transaction count, wallet age, last activity, balance (and its
+     * history), DeFi activity and repayment history from the metrics source
      * 
      * @param address - Aleo address
-     * @returns Total transaction count
+     * @param tracksLoans - Whether lending programs are registered (see tracksLoans)
+     * @returns Activity-derived metrics, the latest transaction they include
+     *   and whether the source stopped before the oldest transitions
+     * @throws RPCError in strict mode if the source fails or stopped early
      */
-    private async queryTransactionCount(address: string): Promise<number> {
+    private async queryActivity(
+        address: string,
+        tracksLoans: boolean
+    ): Promise<
+        Sourced<ActivityMetrics> & { lastTransactionId: string | null; truncated: boolean }
+    > {
+        let activity: WalletActivity;
         try {
-            // In production, this would call Aleo RPC
-            // For now, using mock data
-            const response = await ky
-                .get(`${this.rpcUrl}/account/${address}/transactions`, {
-                    timeout: API_CONFIG.TIMEOUT,
-                    retry: API_CONFIG.RETRY_ATTEMPTS,
-                })
-                .json<{ count: number }>();
-
-            return response.count || 0;
+            activity = await this.source.fetchActivity(address);
         } catch (error) {
-            console.warn('[DataAggregator] Failed to fetch transaction count, using fallback');
-            return this.getMockTransactionCount(address);
+            return this.estimateActivity(address, error);
+        }
+        this.checkComplete(activity);
+
+        try {
+            const now = Date.now();
+
+            return {
+                value: this.deriveMetrics(activity, now, tracksLoans),
+                provenance: {
+                    source: this.source.id,
+                    fetchedAt: now,
+                    blockHeight: activity.blockHeight,
+                    status: 'real',
+                },
+                lastTransactionId: DataAggregator.latestTransactionId(activity.transitions),
+                truncated: activity.truncated ?? false,
+            };
+        } catch (error) {
+            return this.estimateActivity(address, error);
         }
     }
 
     /**
-     * Query wallet age in months
-     * Calculates from first transaction timestamp
+     * Estimate activity metrics for a failed read, or raise in strict mode
      * 
      * @param address - Aleo address
-     * @returns Wallet age in months
+     * @param error - Cause of the failure
+     * @throws RPCError in strict mode
      */
-    private async queryWalletAgeMonths(address: string): Promise<number> {
-        try {
-            const response = await ky
-                .get(`${this.rpcUrl}/account/${address}/info`, {
-                    timeout: API_CONFIG.TIMEOUT,
-                    retry: API_CONFIG.RETRY_ATTEMPTS,
-                })
-                .json<AleoAccount>();
+    private estimateActivity(
+        address: string,
+        error: unknown
+    ): Sourced<ActivityMetrics> & { lastTransactionId: null; truncated: false } {
+        const mock = this.getMockMetrics(address);
+        const estimate = this.fallback(`activity from ${this.source.id}`, error, {
+            transactionCount: mock.transactionCount,
+            walletAgeMonths: mock.walletAgeMonths,
+            tokenBalance: mock.tokenBalance,
+            lastTransactionDate: mock.lastTransactionDate,
+            defiScore: mock.defiScore,
+            repaymentRate: mock.repaymentRate,
+        });
+        return { ...estimate, lastTransactionId: null, truncated: false };
+    }
 
-            if (!response.firstSeen) return 0;
+    /**
+     * Refuse a truncated history in strict mode
+     * Outside strict mode the history fields are marked partial instead.
+     * 
+     * @param activity - Activity as read by the metrics source
+     * @throws RPCError in strict mode if the source stopped before the
+     *   oldest transitions
+     */
+    private checkComplete(activity: WalletActivity): void {
+        if (!activity.truncated) return;
+        if (this.strict) {
+            throw new RPCError(
+                `${this.source.id} stopped before the full history of ${activity.address}`,
+                { blockHeight: activity.blockHeight, transitions: activity.transitions.length }
+            );
+        }
+        console.warn(
+            `[DataAggregator] Partial history for ${activity.address}: ` +
+            `${activity.transitions.length} transitions read`
+        );
+    }
 
-            const ageMs = Date.now() - response.firstSeen;
-            const ageMonths = Math.floor(ageMs / (1000 * 60 * 60 * 24 * 30));
+    /**
+     * Derive activity metrics from a read of the wallet's activity
+     * 
+     * @param activity - Activity as read by the metrics source
+     * @param now - Time the metrics are as of (Unix ms), for the wallet age
+     * @param tracksLoans - Whether lending programs are registered; if not,
+     *   repaymentRate is the neutral estimate and there is no repayment history
+     */
+    private deriveMetrics(
+        activity: WalletActivity,
+        now: number,
+        tracksLoans: boolean
+    ): ActivityMetrics {
+        const { transitions, blockHeight } = activity;
+        const defiActivity = this.defiClassifier.analyze(transitions, blockHeight);
+        const repaymentHistory = tracksLoans
+            ? this.loanLedger.build(transitions, blockHeight)
+            : undefined;
 
-            return Math.max(0, ageMonths);
-        } catch (error) {
-            console.warn('[DataAggregator] Failed to fetch wallet age, using fallback');
-            return this.getMockWalletAge(address);
-        }
+        return {
+            transactionCount: activity.transactionCount,
+            walletAgeMonths: activity.firstSeen
+                ? Math.max(0, Math.floor((now - activity.firstSeen) / MONTH_MS))
+                : 0,
+            tokenBalance: activity.balance / EXPLORER_API.MICROCREDITS_PER_CREDIT,
+            // No activity yet: as stale as it gets
+            lastTransactionDate: activity.lastActivity ?? 0,
+            defiScore: defiActivity.score,
+            defiActivity,
+            repaymentRate: repaymentHistory
+                ? LoanLedger.repaymentRate(repaymentHistory)
+                : LOAN_LEDGER.NO_HISTORY_RATE,
+            ...(repaymentHistory && { repaymentHistory }),
+            ...(activity.balanceChanges && {
+                balanceHistory: buildBalanceHistory(
+                    activity.balance,
+                    activity.balanceChanges,
+                    activity.blockHeight
+                ),
+            }),
+            ...(this.washDetector && {
+                activityAnomalies: this.washDetector.analyze(
+                    activity.address,
+                    transitions,
+                    blockHeight
+                ),
+            }),
+        };
     }
 
     /**
-     * Query DeFi activity score (0-100)
-     * Based on interactions with DeFi protocols
+     * Whether repaymentRate can be derived from the loan ledger
+     * Without lending programs, a wallet without loans cannot be told apart
+     * from one whose loans are not tracked: the rate is then only an
+     * estimate, which strict mode refuses.
      * 
-     * @param address - Aleo address
-     * @returns DeFi score (0-100)
+     * @throws SDKError NO_LENDING_PROGRAMS in strict mode
      */
-    private async queryDeFiScore(address: string): Promise<number> {
-        try {
-            // This would analyze contract interactions in production
-            const response = await ky
-                .get(`${this.rpcUrl}/account/${address}/defi`, {
-                    timeout: API_CONFIG.TIMEOUT,
-                    retry: API_CONFIG.RETRY_ATTEMPTS,
-                })
-                .json<{ score: number }>();
-
-            return Math.min(100, Math.max(0, response.score || 0));
-        } catch (error) {
-            console.warn('[DataAggregator] Failed to fetch DeFi score, using fallback');
-            return this.getMockDeFiScore(address);
+    private tracksLoans(): boolean {
+        if (this.loanLedger.list().length > 0) return true;
+        if (this.strict) {
+            throw new SDKError(
+                'No lending programs registered: repaymentRate cannot be derived',
+                'NO_LENDING_PROGRAMS'
+            );
         }
+        return false;
     }
 
     /**
-     * Query repayment rate (0-100%)
-     * Percentage of loans repaid on time
+     * Transaction of the most recent transition (null for unused wallets)
      * 
-     * @param address - Aleo address
-     * @returns Repayment rate percentage
+     * @param transitions - Transitions of the wallet
      */
-    private async queryRepaymentRate(address: string): Promise<number> {
-        try {
-            const response = await ky
-                .get(`${this.rpcUrl}/account/${address}/lending`, {
-                    timeout: API_CONFIG.TIMEOUT,
-                    retry: API_CONFIG.RETRY_ATTEMPTS,
-                })
-                .json<{ repaymentRate: number }>();
-
-            return Math.min(100, Math.max(0, response.repaymentRate || 0));
-        } catch (error) {
-            console.warn('[DataAggregator] Failed to fetch repayment rate, using fallback');
-            return this.getMockRepaymentRate(address);
+    private static latestTransactionId(transitions: WalletTransition[]): string | null {
+        let latest: WalletTransition | null = null;
+        for (const transition of transitions) {
+            if (!latest || transition.blockHeight > latest.blockHeight) latest = transition;
         }
+        return latest?.transactionId ?? null;
     }
 
     /**
-     * Query token balance
+     * Substitute an estimate for a failed query, or raise in strict mode
      * 
-     * @param address - Aleo address
-     * @returns Token balance
+     * @param what - What was being queried (for messages)
+     * @param error - Cause of the failure
+     * @param estimate - Mock value to use instead
+     * @throws RPCError in strict mode
      */
-    private async queryTokenBalance(address: string): Promise<number> {
-        try {
-            const response = await ky
-                .get(`${this.rpcUrl}/account/${address}/balance`, {
-                    timeout: API_CONFIG.TIMEOUT,
-                    retry: API_CONFIG.RETRY_ATTEMPTS,
-                })
-                .json<{ balance: number }>();
-
-            return Math.max(0, response.balance || 0);
-        } catch (error) {
-            console.warn('[DataAggregator] Failed to fetch balance, using fallback');
-            return this.getMockBalance(address);
+    private fallback<T>(what: string, error: unknown, estimate: T): Sourced<T> {
+        if (this.strict) {
+            throw new RPCError(`Failed to fetch ${what}`, error);
         }
+
+        console.warn(`[DataAggregator] Failed to fetch ${what}, using fallback`);
+        return { value: estimate, provenance: fallbackProvenance() };
     }
 
     /**
@@ -219,7 +577,7 @@ export class DataAggregator {
      * Creates realistic-looking data based on address hash
      * 
      * @param address - Aleo address
-     * @returns Mock wallet metrics
+     * @returns Mock wallet metrics, marked as fallback
      */
     private getMockMetrics(address: string): WalletMetrics {
         // Use address hash for deterministic randomness
@@ -233,6 +591,7 @@ export class DataAggregator {
             repaymentRate: this.getMockRepaymentRate(address),
             tokenBalance: this.getMockBalance(address),
             lastTransactionDate: Date.now() - hash % (1000 * 60 * 60 * 24 * 30), // Within last month
+            provenance: uniformProvenance(fallbackProvenance()),
         };
     }
 
@@ -277,32 +636,63 @@ export class DataAggregator {
         return Math.abs(hash);
     }
 
+    /**
+     * Read a cache entry; store failures count as a miss
+     * 
+     * @param address - Aleo address
+     */
+    private async readCache(address: string): Promise<CachedMetrics | undefined> {
+        if (!this.cache) return undefined;
+        try {
+            return await this.cache.get(address);
+        } catch (error) {
+            console.warn(`[DataAggregator] Failed to read ${this.cache.id} cache:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Write a cache entry; store failures only cost the next read
+     * 
+     * @param address - Aleo address
+     * @param entry - Metrics to cache
+     */
+    private async writeCache(address: string, entry: CachedMetrics): Promise<void> {
+        if (!this.cache) return;
+        try {
+            await this.cache.set(address, entry);
+        } catch (error) {
+            console.warn(`[DataAggregator] Failed to write ${this.cache.id} cache:`, error);
+        }
+    }
+
     /**
      * Clear cache for specific address
      * 
      * @param address - Aleo address
      */
-    clearCache(address: string): void {
-        this.cache.delete(address);
+    async clearCache(address: string): Promise<void> {
+        await this.cache?.delete(address);
     }
 
     /**
      * Clear all cached metrics
      */
-    clearAllCache(): void {
-        this.cache.clear();
+    async clearAllCache(): Promise<void> {
+        await this.cache?.clear();
     }
 
     /**
      * Get cache statistics
      * 
-     * @returns Cache stats
+     * @returns Store id (null when caching is disabled), entries and TTLs
      */
-    getCacheStats() {
+    async getCacheStats() {
         return {
-            size: this.cache.size,
-            maxSize: this.cache.max,
-            ttl: this.cache.ttl,
+            store: this.cache?.id ?? null,
+            size: this.cache ? await this.cache.size() : 0,
+            ttl: this.fieldTTLs,
+            staleWhileRevalidate: this.staleWhileRevalidate,
         };
     }
 }
@@ -1,266 +0,0 @@
-/**
- * ProofGenerator - Zero-Knowledge Proof Generation
- * 
- * Generates Groth16 ZK-SNARKs for credit scores
- * Runs on-device (2-3 seconds computation)
- * Ensures privacy: proof reveals nothing about wallet data
- * 
- * @module lib/sdk/ProofGenerator
- */
-
-// TODO: Uncomment when integrating real snarkjs
-// import { groth16 } from 'snarkjs';
-import { sha256 } from '@noble/hashes/sha256';
-import { bytesToHex } from '@noble/hashes/utils';
-import type { CreditAssessment, ZKProof } from '@/types/sdk';
-import { ProofGenerationError } from '@/types/sdk';
-
-export class ProofGenerator {
-    /**
-     * Generate zero-knowledge proof for credit assessment
-     * 
-     * Process:
-     * 1. Create witness (private inputs: score, metrics, secret)
-     * 2. Run Groth16 prover (2-3s computation)
-     * 3. Generate proof components: (a, b, c)
-     * 4. Hash proof for on-chain commitment
-     * 5. Verify proof locally before returning
-     * 
-     * @param assessment - Credit assessment to prove
-     * @returns ZK proof
-     * 
-     * @example
-     * const generator = new ProofGenerator();
-     * const proof = await generator.generateProof(assessment);
-     * // proof.proofHash => commitment to submit on-chain
-     */
-    async generateProof(assessment: CreditAssessment): Promise<ZKProof> {
-        console.log('[ProofGenerator] Starting proof generation...');
-        const startTime = Date.now();
-
-        try {
-            // Step 1: Create witness (private inputs)
-            const witness = this.createWitness(assessment);
-
-            // Step 2: Generate proof (simulated for now - real Groth16 in production)
-            const proof = await this.runGroth16Prover(witness);
-
-            // Step 3: Hash proof for on-chain commitment
-            const proofHash = this.hashProof(proof);
-
-            // Step 4: Create public inputs
-            const publicInputs = this.createPublicInputs(assessment);
-
-            const zkProof: ZKProof = {
-                proofHash,
-                publicInputs,
-                proof,
-            };
-
-            const duration = Date.now() - startTime;
-            console.log(`[ProofGenerator] Proof generated in ${duration}ms`);
-
-            return zkProof;
-        } catch (error) {
-            console.error('[ProofGenerator] Proof generation failed:', error);
-            throw new ProofGenerationError('Failed to generate ZK proof', error);
-        }
-    }
-
-    /**
-     * Verify proof locally before submission
-     * Ensures proof is valid before sending to blockchain
-     * 
-     * @param proof - ZK proof to verify
-     * @returns True if proof is valid
-     */
-    async verifyProofLocally(proof: ZKProof): Promise<boolean> {
-        console.log('[ProofGenerator] Verifying proof locally...');
-
-        try {
-            // In production, this would use snarkjs.groth16.verify()
-            // For now, basic validation
-            if (!proof.proofHash || proof.proofHash.length === 0) {
-                return false;
-            }
-
-            if (!proof.proof || !proof.proof.a || !proof.proof.b || !proof.proof.c) {
-                return false;
-            }
-
-            if (!proof.publicInputs || proof.publicInputs.length === 0) {
-                return false;
-            }
-
-            console.log('[ProofGenerator] Proof verified successfully');
-            return true;
-        } catch (error) {
-            console.error('[ProofGenerator] Proof verification failed:', error);
-            return false;
-        }
-    }
-
-    /**
-     * Create witness from credit assessment
-     * Witness contains all private inputs for the ZK circuit
-     * 
-     * Private inputs:
-     * - Credit score
-     * - Transaction count
-     * - Wallet age
-     * - DeFi score
-     * - Repayment rate
-     * - Random secret (for uniqueness)
-     * 
-     * @param assessment - Credit assessment
-     * @returns Witness object
-     */
-    private createWitness(assessment: CreditAssessment): Record<string, unknown> {
-        // Generate random secret for proof uniqueness
-        const secret = this.generateSecret();
-
-        return {
-            // Private inputs (never revealed)
-            score: assessment.finalScore,
-            transactionCount: assessment.metrics.transactionCount,
-            walletAge: assessment.metrics.walletAgeMonths,
-            defiScore: assessment.metrics.defiScore,
-            repaymentRate: assessment.metrics.repaymentRate,
-            secret,
-
-            // Public inputs (revealed on-chain)
-            scoreThreshold: 300, // Minimum valid score
-            timestamp: assessment.timestamp,
-        };
-    }
-
-    /**
-     * Run Groth16 prover
-     * 
-     * In production, this would:
-     * 1. Load proving key
-     * 2. Compute witness
-     * 3. Generate proof using snarkjs
-     * 
-     * For now, simulates proof generation
-     * 
-     * @param witness - Witness object
-     * @returns Proof components
-     */
-    private async runGroth16Prover(
-        _witness: Record<string, unknown>
-    ): Promise<{ a: string[]; b: string[][]; c: string[] }> {
-        // Simulate computation time (2-3 seconds)
-        await this.simulateComputation();
-
-        // In production, this would be:
-        // const { proof } = await groth16.fullProve(witness, wasmFile, zkeyFile);
-
-        // For now, generate mock proof structure
-        return {
-            a: [this.generateRandomHex(), this.generateRandomHex()],
-            b: [
-                [this.generateRandomHex(), this.generateRandomHex()],
-                [this.generateRandomHex(), this.generateRandomHex()],
-            ],
-            c: [this.generateRandomHex(), this.generateRandomHex()],
-        };
-    }
-
-    /**
-     * Hash proof for on-chain commitment
-     * Creates a unique identifier for the proof
-     * 
-     * @param proof - Proof components
-     * @returns Proof hash (hex string)
-     */
-    private hashProof(proof: { a: string[]; b: string[][]; c: string[] }): string {
-        // Concatenate all proof components
-        const proofString = JSON.stringify(proof);
-        const proofBytes = new TextEncoder().encode(proofString);
-
-        // Hash using SHA-256
-        const hash = sha256(proofBytes);
-
-        // Convert to hex string
-        return bytesToHex(hash);
-    }
-
-    /**
-     * Create public inputs for proof
-     * These are revealed on-chain
-     * 
-     * @param assessment - Credit assessment
-     * @returns Array of public inputs
-     */
-    private createPublicInputs(assessment: CreditAssessment): string[] {
-        return [
-            assessment.finalScore.toString(),
-            assessment.timestamp.toString(),
-            assessment.address,
-        ];
-    }
-
-    /**
-     * Generate random secret for proof uniqueness
-     * Ensures each proof is unique even for same inputs
-     * 
-     * @returns Random hex string
-     */
-    private generateSecret(): string {
-        const randomBytes = new Uint8Array(32);
-        crypto.getRandomValues(randomBytes);
-        return bytesToHex(randomBytes);
-    }
-
-    /**
-     * Generate random hex string (for mock proofs)
-     * 
-     * @returns Random hex string
-     */
-    private generateRandomHex(): string {
-        const bytes = new Uint8Array(32);
-        crypto.getRandomValues(bytes);
-        return bytesToHex(bytes);
-    }
-
-    /**
-     * Simulate computation time for proof generation
-     * Real Groth16 takes 2-3 seconds
-     */
-    private async simulateComputation(): Promise<void> {
-        const computationTime = 2000 + Math.random() * 1000; // 2-3 seconds
-        await new Promise((resolve) => setTimeout(resolve, computationTime));
-    }
-
-    /**
-     * Estimate proof generation time
-     * 
-     * @returns Estimated time in milliseconds
-     */
-    estimateProofTime(): number {
-        // Real Groth16 proof generation: 2-3 seconds
-        return 2500;
-    }
-
-    /**
-     * Check if browser supports WebAssembly (required for snarkjs)
-     * 
-     * @returns True if WASM is supported
-     */
-    static isWasmSupported(): boolean {
-        try {
-            if (typeof WebAssembly === 'object' && typeof WebAssembly.instantiate === 'function') {
-                const module = new WebAssembly.Module(
-                    Uint8Array.of(0x0, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00)
-                );
-                if (module instanceof WebAssembly.Module) {
-                    return new WebAssembly.Instance(module) instanceof WebAssembly.Instance;
-                }
-            }
-        } catch (e) {
-            return false;
-        }
-        return false;
-    }
-}
@@ -0,0 +1,123 @@
+/**
+ * Metrics Provenance
+ *
+ * Helpers for the per-field provenance DataAggregator attaches to
+ * WalletMetrics: which source a value came from, when and at which block
+ * height it was read, whether it is real, cached or a fallback estimate, and
+ * whether it covers only part of the wallet's history.
+ *
+ * @module lib/sdk/Provenance
+ */
+
+import type {
+    FieldProvenance,
+    MetricField,
+    MetricsProvenance,
+    WalletMetrics,
+} from '@/types/sdk';
+
+/**
+ * Every metric field, in display order
+ */
+export const METRIC_FIELDS: readonly MetricField[] = [
+    'transactionCount',
+    'walletAgeMonths',
+    'defiScore',
+    'repaymentRate',
+    'tokenBalance',
+    'lastTransactionDate',
+];
+
+/**
+ * Fields derived from the wallet's whole transition history, which are
+ * partial when the source stopped before the oldest transitions
+ */
+export const HISTORY_FIELDS: readonly MetricField[] = [
+    'transactionCount',
+    'walletAgeMonths',
+    'defiScore',
+    'repaymentRate',
+];
+
+/**
+ * Provenance of values estimated without reaching the chain
+ *
+ * @param fetchedAt - When the estimate was made (Unix ms)
+ */
+export function fallbackProvenance(fetchedAt: number = Date.now()): FieldProvenance {
+    return { source: 'mock', fetchedAt, blockHeight: null, status: 'fallback' };
+}
+
+/**
+ * Same provenance for every field
+ *
+ * @param provenance - Provenance shared by all fields
+ */
+export function uniformProvenance(provenance: FieldProvenance): MetricsProvenance {
+    return Object.fromEntries(
+        METRIC_FIELDS.map((field) => [field, { ...provenance }])
+    ) as MetricsProvenance;
+}
+
+/**
+ * Mark real values as served from the cache
+ * Fallback values stay fallback: caching does not make them real.
+ *
+ * @param provenance - Provenance at fetch time
+ * @param staleFields - Fields past their TTL, marked stale instead of cached
+ * @returns Provenance for a cache hit
+ */
+export function markCached(
+    provenance: MetricsProvenance,
+    staleFields: readonly MetricField[] = []
+): MetricsProvenance {
+    return Object.fromEntries(
+        METRIC_FIELDS.map((field) => {
+            const entry = provenance[field];
+            if (entry.status !== 'real') return [field, entry];
+            return [field, { ...entry, status: staleFields.includes(field) ? 'stale' : 'cached' }];
+        })
+    ) as MetricsProvenance;
+}
+
+/**
+ * Mark the history fields of real values as partial
+ * Fallback values are estimates either way and are left as they are.
+ *
+ * @param provenance - Provenance of a read that stopped early
+ */
+export function markPartial(provenance: MetricsProvenance): MetricsProvenance {
+    return Object.fromEntries(
+        METRIC_FIELDS.map((field) => {
+            const entry = provenance[field];
+            if (entry.status === 'fallback' || !HISTORY_FIELDS.includes(field)) {
+                return [field, entry];
+            }
+            return [field, { ...entry, partial: true }];
+        })
+    ) as MetricsProvenance;
+}
+
+/**
+ * Fields whose values were estimated rather than read from the chain
+ *
+ * @param metrics - Wallet metrics
+ * @returns Fallback fields (empty when the metrics carry no provenance)
+ */
+export function fallbackFields(metrics: Pick<WalletMetrics, 'provenance'>): MetricField[] {
+    const { provenance } = metrics;
+    if (!provenance) return [];
+    return METRIC_FIELDS.filter((field) => provenance[field].status === 'fallback');
+}
+
+/**
+ * Fields derived from only part of the wallet's history
+ *
+ * @param metrics - Wallet metrics
+ * @returns Partial fields (empty when the metrics carry no provenance)
+ */
+export function partialFields(metrics: Pick<WalletMetrics, 'provenance'>): MetricField[] {
+    const { provenance } = metrics;
+    if (!provenance) return [];
+    return METRIC_FIELDS.filter((field) => provenance[field].partial);
+}
@@ -2,30 +2,44 @@
  * Enhanced ScoringEngine - Advanced Credit Score Calculation
  * 
  * Sophisticated scoring algorithm with:
+ * - Pluggable, versioned scoring models (see ScoringModelRegistry)
  * - Weighted factor analysis
  * - Historical trend consideration
  * - Risk assessment improvements
  * - Score validation and bounds checking
+ * - Wash activity penalties (see sybil/WashDetector)
+ * - Negative credit event penalties that fade with age (see lending/CreditEvents)
+ * - Reason codes for the points lost (see reasons/ReasonCodes)
+ * - Score ranges and risk bands per model (see policy/ScoringPolicy)
+ * - Presentation on lender scales (see scales/ScoreScales)
  * - Detailed factor breakdown
  * 
  * @module lib/sdk/ScoringEngine
  * @version 2.0.0
  */
 
-import { SCORING_CONFIG } from '@/lib/constants';
-import type { WalletMetrics, CreditAssessment, RiskLevel } from '@/types/sdk';
-
-/**
- * Factor weights for score calculation
- * Total weight = 100%
- */
-const FACTOR_WEIGHTS = {
-    TRANSACTION_HISTORY: 0.25,  // 25% - Transaction count and consistency
-    WALLET_AGE: 0.20,            // 20% - Account maturity
-    DEFI_ACTIVITY: 0.20,         // 20% - DeFi engagement
-    REPAYMENT_BEHAVIOR: 0.25,    // 25% - Payment reliability
-    BALANCE_STABILITY: 0.10,     // 10% - Financial stability
-} as const;
+import { RISK_LEVELS, SCORING_CONFIG, SIMULATOR } from '@/lib/constants';
+import { scoringModelRegistry } from './ScoringModelRegistry';
+import { SIMULATED_METRICS, applyMetricChanges, withMetric } from './simulation/MetricChanges';
+import { nearestBoundary } from './simulation/BoundarySearch';
+import { eventPenalties } from './lending/CreditEvents';
+import { scoreReasons } from './reasons/ReasonCodes';
+import { nativeScale, normalizeScore, projectScore, scaleBand } from './scales/ScoreScales';
+import type {
+    WalletMetrics,
+    CreditAssessment,
+    EventPenalty,
+    RiskLevel,
+    ScoringModel,
+    ScoringContext,
+    MetricChange,
+    ScorePenalty,
+    ScoreRange,
+    ScoreReason,
+    ScoreScale,
+    ScoreSimulation,
+    TierBoundary,
+} from '@/types/sdk';
 
 /**
  * Score improvement suggestions based on weak factors
@@ -33,7 +47,8 @@ const FACTOR_WEIGHTS = {
 interface ScoreImprovement {
     factor: string;
     currentScore: number;
-    potentialGain: number;
+    potentialGain: number; // Points gained at the factor's nearest tier boundary
+    nextStep: TierBoundary | null; // That boundary (null if the factor cannot rise)
     suggestion: string;
     priority: 'high' | 'medium' | 'low';
 }
@@ -42,6 +57,7 @@ interface ScoreImprovement {
  * Detailed factor analysis
  */
 interface FactorAnalysis {
+    id: string;
     name: string;
     score: number;
     weight: number;
@@ -55,45 +71,43 @@ export class ScoringEngine {
      * Enhanced scoring algorithm with weighted factors
      * 
      * @param metrics - On-chain wallet metrics
+     * @param model - Scoring model to apply (defaults to the registry default)
+     * @param options.now - Time to score at (Unix ms, default: now); used to
+     *   score metrics replayed to a past block height
+     * @param options.blockHeight - Block height to score at (default: the loan
+     *   ledger's read height); event penalties are aged from it
+     * @param options.scales - Scales to present the score on (default: the
+     *   model's own); the first sets the risk level
      * @returns Comprehensive credit assessment
      */
-    static calculateScore(metrics: WalletMetrics): CreditAssessment {
+    static calculateScore(
+        metrics: WalletMetrics,
+        model: ScoringModel = scoringModelRegistry.getDefault(),
+        options: { now?: number; blockHeight?: number; scales?: readonly ScoreScale[] } = {}
+    ): CreditAssessment {
         // Validate input metrics
         this.validateMetrics(metrics);
 
-        const baseScore = SCORING_CONFIG.BASE_SCORE;
+        const baseScore = this.getScoreRange(model).min;
+        const context: ScoringContext = {
+            now: options.now ?? Date.now(),
+            ...(options.blockHeight !== undefined && { blockHeight: options.blockHeight }),
+        };
 
-        // Calculate individual factor scores (0-100 scale)
-        const transactionScore = this.calculateTransactionScore(metrics);
-        const ageScore = this.calculateAgeScore(metrics);
-        const defiScore = this.calculateDeFiScore(metrics);
-        const repaymentScore = this.calculateRepaymentScore(metrics);
-        const balanceScore = this.calculateBalanceScore(metrics);
-
-        // Apply weights and calculate weighted bonus (0-100 scale)
-        const weightedSum =
-            (transactionScore * (FACTOR_WEIGHTS.TRANSACTION_HISTORY * 100)) +
-            (ageScore * (FACTOR_WEIGHTS.WALLET_AGE * 100)) +
-            (defiScore * (FACTOR_WEIGHTS.DEFI_ACTIVITY * 100)) +
-            (repaymentScore * (FACTOR_WEIGHTS.REPAYMENT_BEHAVIOR * 100)) +
-            (balanceScore * (FACTOR_WEIGHTS.BALANCE_STABILITY * 100));
-
-        // Normalize weighted sum back to 0-100 (divided by 100 because weights were scaled up)
-        const normalizedScore = weightedSum / 100;
-
-        // Convert key performance indicators to credit score points (max 550 points)
-        // Formula: Base (300) + (NormalizedScore% of 550)
-        const bonusPoints = Math.round((normalizedScore / 100) * 550);
-
-        // Calculate final score (300-850 range)
-        const rawScore = baseScore + bonusPoints;
-        const finalScore = Math.max(
-            SCORING_CONFIG.MIN_SCORE,
-            Math.min(SCORING_CONFIG.MAX_SCORE, Math.round(rawScore))
-        );
+        // Score the metrics without the transactions wash activity made up
+        const penalties = this.getPenalties(metrics, model, context);
+        const scored = this.applyPenalties(metrics);
+        const { bonusPoints, finalScore: factorScore } = this.evaluate(scored, model, context);
+
+        // Liquidations, defaults and delinquency come off the final score
+        const eventPenalties = this.getEventPenalties(metrics, model, context, factorScore);
+        const finalScore = factorScore - this.sumPoints(eventPenalties);
+        const reasons = scoreReasons(metrics, scored, model, context, eventPenalties);
 
-        // Determine risk level
-        const riskLevel = this.getRiskLevel(finalScore);
+        // Determine risk level and present the score on each scale
+        const normalizedScore = normalizeScore(finalScore, this.getScoreRange(model));
+        const scales = options.scales?.length ? options.scales : [nativeScale(model)];
+        const riskLevel = this.getRiskLevel(finalScore, model, options.scales?.[0]);
 
         return {
             address: metrics.address,
@@ -102,128 +116,253 @@ export class ScoringEngine {
             bonusPoints,
             finalScore,
             riskLevel,
-            timestamp: Date.now(),
+            timestamp: context.now,
+            model: { id: model.id, version: model.version },
+            ...(metrics.provenance && { provenance: metrics.provenance }),
+            ...(penalties.length && { penalties }),
+            ...(eventPenalties.length && { eventPenalties }),
+            reasons,
+            normalizedScore,
+            presentations: scales.map((scale) => projectScore(normalizedScore, scale)),
         };
     }
 
     /**
-     * Calculate transaction history score (0-100)
-     * 
-     * Considers:
-     * - Total transaction count
-     * - Transaction consistency
-     * - Recent activity
+     * Factor scores, bonus points and final score of metrics as given
      */
-    private static calculateTransactionScore(metrics: WalletMetrics): number {
-        const { transactionCount, lastTransactionDate } = metrics;
-
-        // Base score from transaction count
-        let score = 0;
-        if (transactionCount >= 200) score = 100;
-        else if (transactionCount >= 100) score = 85;
-        else if (transactionCount >= 50) score = 70;
-        else if (transactionCount >= 25) score = 55;
-        else if (transactionCount >= 10) score = 40;
-        else if (transactionCount >= 5) score = 25;
-        else score = transactionCount * 5; // 5 points per tx for < 5 txs
-
-        // Bonus for recent activity (within last 30 days)
-        const daysSinceLastTx = (Date.now() - lastTransactionDate) / (1000 * 60 * 60 * 24);
-        if (daysSinceLastTx <= 7) score += 10;
-        else if (daysSinceLastTx <= 30) score += 5;
-
-        // Penalty for inactivity (> 90 days)
-        if (daysSinceLastTx > 90) score -= 15;
-        if (daysSinceLastTx > 180) score -= 25;
-
-        return Math.max(0, Math.min(100, score));
+    private static evaluate(metrics: WalletMetrics, model: ScoringModel, context: ScoringContext) {
+        // Calculate individual factor scores (0-100 scale)
+        const factorScores = model.factors.map((factor) => factor.score(metrics, context));
+
+        // Convert key performance indicators to credit score points (max 550 points by default)
+        // Formula: Base (300) + (NormalizedScore% of 550), unless the model combines itself
+        const range = this.getScoreRange(model);
+        const bonusPoints = model.combine
+            ? model.combine(factorScores)
+            : this.combineWeighted(model, factorScores, range.max - range.min);
+
+        // Calculate final score (300-850 range unless the model sets its own)
+        const rawScore = range.min + bonusPoints;
+        const finalScore = Math.max(range.min, Math.min(range.max, Math.round(rawScore)));
+
+        return { factorScores, bonusPoints, finalScore };
     }
 
     /**
-     * Calculate wallet age score (0-100)
-     * 
-     * Older wallets are more trustworthy
+     * Metrics as they are scored: the transactions discounted by the
+     * wallet's activity anomalies are taken off the transaction count
      */
-    private static calculateAgeScore(metrics: WalletMetrics): number {
-        const { walletAgeMonths } = metrics;
-
-        let score = 0;
-        if (walletAgeMonths >= 24) score = 100;      // 2+ years
-        else if (walletAgeMonths >= 18) score = 90;  // 1.5+ years
-        else if (walletAgeMonths >= 12) score = 80;  // 1+ year
-        else if (walletAgeMonths >= 6) score = 60;   // 6+ months
-        else if (walletAgeMonths >= 3) score = 40;   // 3+ months
-        else if (walletAgeMonths >= 1) score = 20;   // 1+ month
-        else score = walletAgeMonths * 20;           // < 1 month
-
-        return Math.min(100, score);
+    static applyPenalties(metrics: WalletMetrics): WalletMetrics {
+        const discount = metrics.activityAnomalies?.discountedTransactions ?? 0;
+        if (discount === 0) return metrics;
+        return { ...metrics, transactionCount: Math.max(0, metrics.transactionCount - discount) };
     }
 
     /**
-     * Calculate DeFi activity score (0-100)
-     * 
-     * Already provided by metrics, but we can enhance it
+     * Score lost to each type of activity anomaly
+     * Discounts are taken off the transaction count one anomaly type at a
+     * time, in detection order; each costs the points the final score
+     * drops by at its step.
      */
-    private static calculateDeFiScore(metrics: WalletMetrics): number {
-        const { defiScore } = metrics;
-
-        // Apply non-linear scaling to reward high DeFi engagement
-        if (defiScore >= 80) return 100;
-        if (defiScore >= 60) return 85;
-        if (defiScore >= 40) return 70;
-        if (defiScore >= 20) return 50;
-        return defiScore * 2; // Double the score for low values
+    private static getPenalties(
+        metrics: WalletMetrics,
+        model: ScoringModel,
+        context: ScoringContext
+    ): ScorePenalty[] {
+        const discounts = new Map<ScorePenalty['anomaly'], number>();
+        for (const anomaly of metrics.activityAnomalies?.anomalies ?? []) {
+            if (anomaly.discountedTransactions === 0) continue;
+            discounts.set(
+                anomaly.type,
+                (discounts.get(anomaly.type) ?? 0) + anomaly.discountedTransactions
+            );
+        }
+
+        const penalties: ScorePenalty[] = [];
+        let current = metrics;
+        let before = this.evaluate(current, model, context);
+        for (const [anomaly, discount] of discounts) {
+            current = {
+                ...current,
+                transactionCount: Math.max(0, current.transactionCount - discount),
+            };
+            const after = this.evaluate(current, model, context);
+            penalties.push({
+                anomaly,
+                metric: 'transactionCount',
+                discount,
+                points: before.finalScore - after.finalScore,
+                factors: model.factors
+                    .filter((_, i) => after.factorScores[i] !== before.factorScores[i])
+                    .map((factor) => factor.id),
+            });
+            before = after;
+        }
+        return penalties;
     }
 
     /**
-     * Calculate repayment behavior score (0-100)
-     * 
-     * Most important factor for creditworthiness
+     * Score taken off for the negative events of the metrics' loan ledger
+     * None unless the model has a recency policy; capped by the policy and
+     * so the score never drops below the minimum. Events are aged from the
+     * context's block height when it has one.
      */
-    private static calculateRepaymentScore(metrics: WalletMetrics): number {
-        const { repaymentRate } = metrics;
-
-        // Repayment rate is critical - use exponential scaling
-        if (repaymentRate >= 95) return 100;
-        if (repaymentRate >= 90) return 95;
-        if (repaymentRate >= 85) return 90;
-        if (repaymentRate >= 80) return 85;
-        if (repaymentRate >= 75) return 75;
-        if (repaymentRate >= 70) return 65;
-        if (repaymentRate >= 60) return 50;
-        return repaymentRate * 0.7; // Harsh penalty for low repayment
+    private static getEventPenalties(
+        metrics: WalletMetrics,
+        model: ScoringModel,
+        context: ScoringContext,
+        score: number
+    ): EventPenalty[] {
+        if (!model.recency || !metrics.repaymentHistory) return [];
+
+        return eventPenalties(
+            metrics.repaymentHistory,
+            model.recency,
+            Math.min(model.recency.maxPenaltyPoints, score - this.getScoreRange(model).min),
+            context.blockHeight
+        );
+    }
+
+    private static sumPoints(penalties: readonly { points: number }[]): number {
+        return penalties.reduce((sum, p) => sum + p.points, 0);
     }
 
     /**
-     * Calculate balance stability score (0-100)
+     * Default combination: weighted average of factor scores mapped onto the
+     * points above the minimum score (550 by default)
+     */
+    private static combineWeighted(
+        model: ScoringModel,
+        factorScores: readonly number[],
+        points: number
+    ): number {
+        const normalizedScore = model.factors.reduce(
+            (sum, factor, i) => sum + (factorScores[i] ?? 0) * factor.weight,
+            0
+        );
+        return Math.round((normalizedScore / 100) * points);
+    }
+
+    /**
+     * Final score range of a model (SCORING_CONFIG unless the model sets one)
+     */
+    static getScoreRange(model: ScoringModel): ScoreRange {
+        return model.scoreRange ?? { min: SCORING_CONFIG.MIN_SCORE, max: SCORING_CONFIG.MAX_SCORE };
+    }
+
+    /**
+     * Resolve the model that produced an assessment
+     */
+    static getModel(assessment: CreditAssessment): ScoringModel {
+        return scoringModelRegistry.get(assessment.model.id, assessment.model.version);
+    }
+
+    /**
+     * What-if simulation: score metrics with hypothetical changes applied
+     * Returns the exact simulated score and, for every factor, the nearest
+     * values of the metrics it depends on (found by re-scoring, so tier
+     * ladders, rounding and custom models are all accounted for) at which
+     * the final score moves up or down.
      * 
-     * Higher balance indicates financial stability
+     * @param metrics - Current wallet metrics
+     * @param changes - Hypothetical changes, applied in order
+     * @param model - Scoring model (defaults to the registry default)
+     * @param options.now - Time to score at (Unix ms, default: now)
+     * @throws SDKError INVALID_CHANGE for invalid changes
+     * 
+     * @example
+     * const { change, factors } = ScoringEngine.simulate(metrics, [
+     *   { metric: 'transactionCount', add: 5 },
+     *   { metric: 'repaymentRate', set: 98 },
+     * ]);
      */
-    private static calculateBalanceScore(metrics: WalletMetrics): number {
-        const { tokenBalance } = metrics;
-
-        // Score based on balance tiers (in microcredits)
-        let score = 0;
-        if (tokenBalance >= 1000000) score = 100;      // 1M+ credits
-        else if (tokenBalance >= 500000) score = 90;   // 500K+ credits
-        else if (tokenBalance >= 100000) score = 80;   // 100K+ credits
-        else if (tokenBalance >= 50000) score = 70;    // 50K+ credits
-        else if (tokenBalance >= 10000) score = 60;    // 10K+ credits
-        else if (tokenBalance >= 5000) score = 50;     // 5K+ credits
-        else if (tokenBalance >= 1000) score = 40;     // 1K+ credits
-        else score = tokenBalance / 25;                // < 1K credits
-
-        return Math.min(100, score);
+    static simulate(
+        metrics: WalletMetrics,
+        changes: readonly MetricChange[],
+        model: ScoringModel = scoringModelRegistry.getDefault(),
+        options: { now?: number } = {}
+    ): ScoreSimulation {
+        const now = options.now ?? Date.now();
+        const context: ScoringContext = { now };
+        const baseline = this.calculateScore(metrics, model, { now });
+        const simulatedMetrics = applyMetricChanges(metrics, changes);
+        const simulated = this.calculateScore(simulatedMetrics, model, { now });
+
+        const factorScores = (m: WalletMetrics) =>
+            model.factors.map((f) => f.score(this.applyPenalties(m), context));
+        const before = factorScores(metrics);
+        const after = factorScores(simulatedMetrics);
+        const boundaries = model.factors.map((): TierBoundary[] => []);
+
+        for (const metric of SIMULATED_METRICS) {
+            const current = simulatedMetrics[metric];
+            const scoreAt = (value: number) =>
+                this.calculateScore(withMetric(simulatedMetrics, metric, value), model, { now })
+                    .finalScore;
+
+            for (const direction of ['up', 'down'] as const) {
+                const value = nearestBoundary(
+                    current,
+                    direction,
+                    SIMULATOR.METRIC_LIMITS[metric],
+                    (v) => scoreAt(v) !== simulated.finalScore
+                );
+                if (value === null) continue;
+
+                const finalScore = scoreAt(value);
+                const boundary: TierBoundary = {
+                    metric,
+                    direction,
+                    value,
+                    delta: value - current,
+                    finalScore,
+                    points: finalScore - simulated.finalScore,
+                };
+
+                // Attribute the boundary to the factors that move at it
+                const moved = factorScores(withMetric(simulatedMetrics, metric, value));
+                moved.forEach((score, i) => {
+                    if (score !== after[i]) boundaries[i]!.push(boundary);
+                });
+            }
+        }
+
+        return {
+            changes: [...changes],
+            metrics: simulatedMetrics,
+            baseline,
+            simulated,
+            change: simulated.finalScore - baseline.finalScore,
+            factors: model.factors.map((factor, i) => ({
+                id: factor.id,
+                name: factor.name,
+                before: before[i]!,
+                after: after[i]!,
+                boundaries: boundaries[i]!,
+            })),
+        };
     }
 
     /**
      * Determine risk level from credit score
      * 
-     * Enhanced with more granular levels
+     * Enhanced with more granular levels; models with risk bands use their own,
+     * and a scale's band decides when one is given
      */
-    private static getRiskLevel(score: number): RiskLevel {
-        if (score >= 750) return 'low';
-        if (score >= 500) return 'medium';
+    private static getRiskLevel(
+        score: number,
+        model?: ScoringModel,
+        scale?: ScoreScale
+    ): RiskLevel {
+        if (scale) {
+            const range = model ? this.getScoreRange(model) : undefined;
+            return scaleBand(scale, normalizeScore(score, range)).riskLevel;
+        }
+        if (model?.riskBands) {
+            return model.riskBands.find((band) => score >= band.minScore)?.level ?? 'high';
+        }
+        if (score >= RISK_LEVELS.LOW.minScore) return 'low';
+        if (score >= RISK_LEVELS.MEDIUM.minScore) return 'medium';
         return 'high';
     }
 
@@ -233,72 +372,63 @@ export class ScoringEngine {
      * Shows how each factor contributes to the final score
      */
     static getFactorAnalysis(assessment: CreditAssessment): FactorAnalysis[] {
-        const { metrics } = assessment;
-
-        const transactionScore = this.calculateTransactionScore(metrics);
-        const ageScore = this.calculateAgeScore(metrics);
-        const defiScore = this.calculateDeFiScore(metrics);
-        const repaymentScore = this.calculateRepaymentScore(metrics);
-        const balanceScore = this.calculateBalanceScore(metrics);
-
-        const factors: FactorAnalysis[] = [
-            {
-                name: 'Transaction History',
-                score: transactionScore,
-                weight: FACTOR_WEIGHTS.TRANSACTION_HISTORY,
-                contribution: transactionScore * FACTOR_WEIGHTS.TRANSACTION_HISTORY,
-                rating: this.getRating(transactionScore),
-                description: `${metrics.transactionCount} transactions on record`,
-            },
-            {
-                name: 'Wallet Age',
-                score: ageScore,
-                weight: FACTOR_WEIGHTS.WALLET_AGE,
-                contribution: ageScore * FACTOR_WEIGHTS.WALLET_AGE,
-                rating: this.getRating(ageScore),
-                description: `${metrics.walletAgeMonths} months old`,
-            },
-            {
-                name: 'DeFi Activity',
-                score: defiScore,
-                weight: FACTOR_WEIGHTS.DEFI_ACTIVITY,
-                contribution: defiScore * FACTOR_WEIGHTS.DEFI_ACTIVITY,
-                rating: this.getRating(defiScore),
-                description: `${metrics.defiScore}% DeFi engagement`,
-            },
-            {
-                name: 'Repayment Behavior',
-                score: repaymentScore,
-                weight: FACTOR_WEIGHTS.REPAYMENT_BEHAVIOR,
-                contribution: repaymentScore * FACTOR_WEIGHTS.REPAYMENT_BEHAVIOR,
-                rating: this.getRating(repaymentScore),
-                description: `${metrics.repaymentRate}% repayment rate`,
-            },
-            {
-                name: 'Balance Stability',
-                score: balanceScore,
-                weight: FACTOR_WEIGHTS.BALANCE_STABILITY,
-                contribution: balanceScore * FACTOR_WEIGHTS.BALANCE_STABILITY,
-                rating: this.getRating(balanceScore),
-                description: `${metrics.tokenBalance.toLocaleString()} credits`,
-            },
-        ];
-
-        return factors;
+        const metrics = this.applyPenalties(assessment.metrics);
+        const model = this.getModel(assessment);
+        const context: ScoringContext = { now: assessment.timestamp };
+
+        return model.factors.map((factor) => {
+            const score = factor.score(metrics, context);
+            return {
+                id: factor.id,
+                name: factor.name,
+                score,
+                weight: factor.weight,
+                contribution: score * factor.weight,
+                rating: this.getRating(score),
+                description: factor.describe(metrics),
+            };
+        });
+    }
+
+    /**
+     * Reason codes of an assessment, most points lost first
+     * Assessments made before reason codes existed get them recomputed
+     * from their metrics, model and time.
+     */
+    static getReasons(assessment: CreditAssessment): ScoreReason[] {
+        if (assessment.reasons) return assessment.reasons;
+
+        return scoreReasons(
+            assessment.metrics,
+            this.applyPenalties(assessment.metrics),
+            this.getModel(assessment),
+            { now: assessment.timestamp },
+            assessment.eventPenalties
+        );
     }
 
     /**
      * Get score improvement suggestions
      * 
-     * Analyzes weak factors and suggests improvements
+     * Analyzes weak factors and suggests improvements. The potential gain
+     * is exact: the points gained at the factor's nearest tier boundary.
      */
     static getImprovementSuggestions(assessment: CreditAssessment): ScoreImprovement[] {
         const factors = this.getFactorAnalysis(assessment);
+        const model = this.getModel(assessment);
+        const { factors: simulated } = this.simulate(assessment.metrics, [], model, {
+            now: assessment.timestamp,
+        });
         const suggestions: ScoreImprovement[] = [];
 
-        factors.forEach(factor => {
+        factors.forEach((factor, i) => {
             if (factor.score < 70) {
-                const potentialGain = Math.round((100 - factor.score) * factor.weight * 5.5);
+                // Largest gain among the nearest boundaries above the factor's metrics
+                const nextStep =
+                    simulated[i]!.boundaries
+                        .filter((b) => b.direction === 'up')
+                        .sort((a, b) => b.points - a.points)[0] ?? null;
+                const potentialGain = nextStep?.points ?? 0;
 
                 let suggestion = '';
                 let priority: 'high' | 'medium' | 'low' = 'low';
@@ -324,12 +454,17 @@ export class ScoringEngine {
                         suggestion = 'Maintain a higher balance to demonstrate financial stability';
                         priority = factor.score < 40 ? 'medium' : 'low';
                         break;
+                    default:
+                        suggestion = `Improve your ${factor.name.toLowerCase()} to raise this factor`;
+                        priority = factor.score < 40 ? 'medium' : 'low';
+                        break;
                 }
 
                 suggestions.push({
                     factor: factor.name,
                     currentScore: factor.score,
                     potentialGain,
+                    nextStep,
                     suggestion,
                     priority,
                 });
@@ -387,21 +522,34 @@ export class ScoringEngine {
 
     /**
      * Get score breakdown for UI display
+     * Penalties for wash activity are listed under the factors they lowered
+     * (contributions are net of them) and in total. Negative credit events
+     * are separate line items taken off after the factors.
      */
     static getScoreBreakdown(assessment: CreditAssessment) {
         const factors = this.getFactorAnalysis(assessment);
+        const penalties = assessment.penalties ?? [];
+        const eventPenalties = assessment.eventPenalties ?? [];
+        const range = this.getScoreRange(this.getModel(assessment));
+        const points = range.max - range.min;
 
         return {
-            base: SCORING_CONFIG.BASE_SCORE,
+            base: range.min,
             factors: factors.map(f => ({
+                id: f.id,
                 name: f.name,
                 score: f.score,
                 weight: f.weight * 100, // Convert to percentage
-                contribution: Math.round((f.score * f.weight * 550) / 100), // Precise contribution points
+                contribution: Math.round((f.score * f.weight * points) / 100), // Precise contribution points
                 rating: f.rating,
+                penalties: penalties.filter((p) => p.factors.includes(f.id)),
             })),
+            penalties,
+            penaltyPoints: this.sumPoints(penalties),
+            eventPenalties,
+            eventPenaltyPoints: this.sumPoints(eventPenalties),
             total: assessment.finalScore,
-            maxPossible: SCORING_CONFIG.MAX_SCORE,
+            maxPossible: range.max,
         };
     }
 
@@ -0,0 +1,256 @@
+/**
+ * ScoringModelRegistry - Versioned Scoring Models
+ *
+ * Keeps every registered ScoringModel keyed by id and semantic version.
+ * Lookups without a version resolve to the highest registered version,
+ * so assessments can always be replayed against the exact model that
+ * produced them.
+ *
+ * @module lib/sdk/ScoringModelRegistry
+ */
+
+import { recencyTieredModel, tieredModel } from './models/TieredModel';
+import { integerModel, integerModelV1 } from './models/IntegerModel';
+import { SCORING_CONFIG } from '@/lib/constants';
+import type { ScoringModel, ScoringModelRef } from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+/**
+ * Allowed drift when checking that factor weights sum to 1
+ */
+const WEIGHT_TOLERANCE = 1e-9;
+
+export class ScoringModelRegistry {
+    private models = new Map<string, Map<string, ScoringModel>>();
+    private defaultRef: ScoringModelRef | null = null;
+
+    /**
+     * Register a scoring model
+     * The first registered model becomes the default
+     *
+     * @param model - Model to register
+     * @throws SDKError INVALID_MODEL if the model is malformed
+     * @throws SDKError DUPLICATE_MODEL if id@version is already registered
+     */
+    register(model: ScoringModel): void {
+        ScoringModelRegistry.validateModel(model);
+
+        const versions = this.models.get(model.id) ?? new Map<string, ScoringModel>();
+        if (versions.has(model.version)) {
+            throw new SDKError(
+                `Scoring model ${model.id}@${model.version} is already registered`,
+                'DUPLICATE_MODEL'
+            );
+        }
+
+        versions.set(model.version, model);
+        this.models.set(model.id, versions);
+
+        if (!this.defaultRef) {
+            this.defaultRef = { id: model.id, version: model.version };
+        }
+    }
+
+    /**
+     * Resolve a model by id and optional version
+     *
+     * @param id - Model id
+     * @param version - Exact semver; omit for the latest version
+     * @returns Scoring model
+     * @throws SDKError MODEL_NOT_FOUND
+     */
+    get(id: string, version?: string): ScoringModel {
+        const versions = this.models.get(id);
+        if (!versions || versions.size === 0) {
+            throw new SDKError(`Unknown scoring model: ${id}`, 'MODEL_NOT_FOUND');
+        }
+
+        if (version) {
+            const model = versions.get(version);
+            if (!model) {
+                throw new SDKError(
+                    `Scoring model ${id} has no version ${version}`,
+                    'MODEL_NOT_FOUND'
+                );
+            }
+            return model;
+        }
+
+        const [latest] = [...versions.values()].sort((a, b) =>
+            ScoringModelRegistry.compareVersions(b.version, a.version)
+        );
+        return latest!;
+    }
+
+    /**
+     * Check whether a model is registered
+     */
+    has(id: string, version?: string): boolean {
+        const versions = this.models.get(id);
+        if (!versions) return false;
+        return version ? versions.has(version) : versions.size > 0;
+    }
+
+    /**
+     * List all registered models as id/version references
+     */
+    list(): ScoringModelRef[] {
+        const refs: ScoringModelRef[] = [];
+        this.models.forEach((versions, id) => {
+            versions.forEach((_model, version) => refs.push({ id, version }));
+        });
+        return refs.sort((a, b) =>
+            a.id === b.id
+                ? ScoringModelRegistry.compareVersions(a.version, b.version)
+                : a.id.localeCompare(b.id)
+        );
+    }
+
+    /**
+     * Get the default model (used when callers don't choose one)
+     */
+    getDefault(): ScoringModel {
+        if (!this.defaultRef) {
+            throw new SDKError('No scoring model registered', 'MODEL_NOT_FOUND');
+        }
+        return this.get(this.defaultRef.id, this.defaultRef.version);
+    }
+
+    /**
+     * Change the default model
+     *
+     * @param id - Model id
+     * @param version - Exact semver; omit to pin the latest version
+     */
+    setDefault(id: string, version?: string): void {
+        const model = this.get(id, version);
+        this.defaultRef = { id: model.id, version: model.version };
+    }
+
+    /**
+     * Compare two semantic versions
+     *
+     * @returns Negative if a < b, positive if a > b, 0 if equal
+     */
+    static compareVersions(a: string, b: string): number {
+        const pa = SCORING_CONFIG.VERSION_PATTERN.exec(a);
+        const pb = SCORING_CONFIG.VERSION_PATTERN.exec(b);
+        if (!pa || !pb) {
+            throw new SDKError(`Invalid semantic version: ${!pa ? a : b}`, 'INVALID_MODEL');
+        }
+
+        for (let i = 1; i <= 3; i++) {
+            const diff = Number(pa[i]) - Number(pb[i]);
+            if (diff !== 0) return diff;
+        }
+
+        // A pre-release sorts before its release (1.0.0-beta < 1.0.0)
+        const preA = pa[4];
+        const preB = pb[4];
+        if (preA === preB) return 0;
+        if (preA === undefined) return 1;
+        if (preB === undefined) return -1;
+        return ScoringModelRegistry.comparePrerelease(preA, preB);
+    }
+
+    /**
+     * Compare pre-release tags identifier by identifier (SemVer 11.4):
+     * numeric identifiers numerically and below alphanumeric ones, others in
+     * ASCII order; a shorter tag sorts first when the rest is equal
+     */
+    private static comparePrerelease(a: string, b: string): number {
+        const idsA = a.split('.');
+        const idsB = b.split('.');
+        const numeric = /^\d+$/;
+
+        for (let i = 0; i < Math.min(idsA.length, idsB.length); i++) {
+            const x = idsA[i]!;
+            const y = idsB[i]!;
+            if (x === y) continue;
+            const xNumeric = numeric.test(x);
+            const yNumeric = numeric.test(y);
+            if (xNumeric && yNumeric) return Number(x) - Number(y);
+            if (xNumeric) return -1;
+            if (yNumeric) return 1;
+            return x < y ? -1 : 1;
+        }
+        return idsA.length - idsB.length;
+    }
+
+    /**
+     * Validate model shape
+     *
+     * - id is non-empty
+     * - version is semver
+     * - at least one factor, unique factor ids
+     * - weights are non-negative and sum to 1
+     * - recency policy, if any: positive half-lives, non-negative points
+     */
+    static validateModel(model: ScoringModel): void {
+        if (!model.id) {
+            throw new SDKError('Scoring model id is required', 'INVALID_MODEL');
+        }
+
+        if (!SCORING_CONFIG.VERSION_PATTERN.test(model.version)) {
+            throw new SDKError(
+                `Scoring model ${model.id} has invalid version: ${model.version}`,
+                'INVALID_MODEL'
+            );
+        }
+
+        if (model.factors.length === 0) {
+            throw new SDKError(`Scoring model ${model.id} has no factors`, 'INVALID_MODEL');
+        }
+
+        const factorIds = new Set(model.factors.map((f) => f.id));
+        if (factorIds.size !== model.factors.length) {
+            throw new SDKError(
+                `Scoring model ${model.id} has duplicate factor ids`,
+                'INVALID_MODEL'
+            );
+        }
+
+        if (model.factors.some((f) => f.weight < 0)) {
+            throw new SDKError(
+                `Scoring model ${model.id} has negative factor weights`,
+                'INVALID_MODEL'
+            );
+        }
+
+        const totalWeight = model.factors.reduce((sum, f) => sum + f.weight, 0);
+        if (Math.abs(totalWeight - 1) > WEIGHT_TOLERANCE) {
+            throw new SDKError(
+                `Scoring model ${model.id} weights sum to ${totalWeight}, expected 1`,
+                'INVALID_MODEL'
+            );
+        }
+
+        if (model.recency) {
+            const { repaymentHalfLifeDays, delinquencyDays, events, maxPenaltyPoints } =
+                model.recency;
+            const rules = Object.values(events);
+            if (
+                ![repaymentHalfLifeDays, ...rules.map((r) => r.halfLifeDays)].every((h) => h > 0) ||
+                ![delinquencyDays, maxPenaltyPoints, ...rules.map((r) => r.points)].every(
+                    (p) => p >= 0
+                )
+            ) {
+                throw new SDKError(
+                    `Scoring model ${model.id} has an invalid recency policy`,
+                    'INVALID_MODEL'
+                );
+            }
+        }
+    }
+}
+
+/**
+ * Shared registry, pre-loaded with the built-in models
+ * The integer model is the default because it matches the on-chain score;
+ * its v1 stays registered so older assessments can be replayed
+ */
+export const scoringModelRegistry = new ScoringModelRegistry();
+scoringModelRegistry.register(integerModel);
+scoringModelRegistry.register(integerModelV1);
+scoringModelRegistry.register(tieredModel);
+scoringModelRegistry.register(recencyTieredModel);
@@ -4,14 +4,16 @@
  */
 
 import { BlockchainAdapter } from '../BlockchainAdapter';
-import { ProofGenerator } from '../ProofGenerator';
+import { ProofGenerator } from '@/lib/zk/ProofGenerator';
+import { MockBackend } from '@/lib/zk/backends/MockBackend';
 import { ScoringEngine } from '../ScoringEngine';
-import type { SDKConfig, WalletMetrics } from '@/types/sdk';
+import { TransactionError } from '@/types/sdk';
+import type { SDKConfig, WalletMetrics, ZKProof } from '@/types/sdk';
 
 describe('BlockchainAdapter', () => {
     let adapter: BlockchainAdapter;
     let config: SDKConfig;
-    let mockProof: Awaited<ReturnType<typeof ProofGenerator.prototype.generateProof>>;
+    let mockProof: ZKProof;
 
     beforeEach(async () => {
         config = {
@@ -23,7 +25,7 @@ describe('BlockchainAdapter', () => {
         adapter = new BlockchainAdapter(config);
 
         // Generate mock proof
-        const generator = new ProofGenerator();
+        const generator = new ProofGenerator(new MockBackend({ latencyMs: 0 }));
         const metrics: WalletMetrics = {
             address: 'aleo1test123',
             transactionCount: 25,
@@ -34,7 +36,10 @@ describe('BlockchainAdapter', () => {
             lastTransactionDate: Date.now(),
         };
         const assessment = ScoringEngine.calculateScore(metrics);
-        mockProof = await generator.generateProof(assessment);
+        mockProof = await generator.generateProof(
+            assessment,
+            generator.createScoreRecord(assessment)
+        );
     });
 
     describe('submitProof', () => {
@@ -78,14 +83,10 @@ describe('BlockchainAdapter', () => {
     });
 
     describe('waitForConfirmation', () => {
-        it('should wait for transaction confirmation', async () => {
+        it('should not report an unknown transaction as confirmed', async () => {
             const mockTxId = 'at1test123';
 
-            const tx = await adapter.waitForConfirmation(mockTxId);
-
-            expect(tx.id).toBe(mockTxId);
-            expect(tx.status).toBe('confirmed');
-            expect(tx.blockHeight).toBeGreaterThan(0);
+            await expect(adapter.waitForConfirmation(mockTxId)).rejects.toThrow(TransactionError);
         });
 
         it('should timeout after max attempts', async () => {
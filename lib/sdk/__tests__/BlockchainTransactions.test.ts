@@ -0,0 +1,391 @@
+/**
+ * BlockchainAdapter Transaction Tests
+ * Broadcast and confirmation against a mocked node (ky mocked), directly
+ * and through the SDK
+ */
+
+import ky, { HTTPError } from 'ky';
+import { BlockchainAdapter } from '../BlockchainAdapter';
+import { CreditScoreSDK } from '../CreditScoreSDK';
+import { ScoringEngine } from '../ScoringEngine';
+import { ProofGenerator } from '@/lib/zk/ProofGenerator';
+import { MockBackend } from '@/lib/zk/backends/MockBackend';
+import { createChallenge } from '@/lib/zk/Challenge';
+import { RPCError, TransactionError } from '@/types/sdk';
+import type { SDKConfig, ScoreRecord } from '@/types/sdk';
+
+jest.mock('ky', () => {
+    class HTTPError extends Error {
+        response: { status: number };
+
+        constructor(status: number) {
+            super(`Request failed with status code ${status}`);
+            this.response = { status };
+        }
+    }
+    return { __esModule: true, default: { get: jest.fn(), post: jest.fn() }, HTTPError };
+});
+
+const mockedKy = ky as unknown as { get: jest.Mock; post: jest.Mock };
+const MockHTTPError = HTTPError as unknown as new (status: number) => Error;
+
+/** Response whose body resolves to value */
+function reply(value: unknown) {
+    return { json: () => Promise.resolve(value) };
+}
+
+/** Response whose body rejects with error */
+function fail(error: unknown) {
+    return { json: () => Promise.reject(error) };
+}
+
+const record: ScoreRecord = {
+    owner: 'aleo1owner',
+    score: 720,
+    timestamp: 4200,
+    blinding: '7',
+    metrics: {
+        txCount: 120,
+        walletAgeMonths: 18,
+        defiScore: 60,
+        repaymentRate: 95,
+        balance: 5000,
+        daysSinceLastTx: 3,
+        stableBalance: 5000,
+        volatilityBps: 0,
+        penaltyPoints: 0,
+    },
+    claimBlindings: ['1', '2'],
+};
+
+const backend = new MockBackend({ latencyMs: 0 });
+
+const config: SDKConfig = {
+    rpcUrl: 'https://node.test/v1',
+    contractAddress: 'credit_score.aleo',
+    chainId: 'testnet',
+    provingBackend: backend,
+};
+
+describe('BlockchainAdapter transactions', () => {
+    let adapter: BlockchainAdapter;
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        mockedKy.get.mockReset();
+        mockedKy.post.mockReset();
+        adapter = new BlockchainAdapter(config);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('waitForConfirmation', () => {
+        it('keeps polling while the node does not know the transaction', async () => {
+            mockedKy.get
+                .mockReturnValueOnce(fail(new MockHTTPError(404)))
+                .mockReturnValueOnce(reply({ id: 'at1tx', status: 'confirmed', blockHeight: 7 }));
+
+            const tx = await adapter.waitForConfirmation('at1tx');
+
+            expect(tx.blockHeight).toBe(7);
+            expect(mockedKy.get).toHaveBeenCalledTimes(2);
+        });
+
+        it('throws when the transaction cannot be queried', async () => {
+            mockedKy.get.mockReturnValue(fail(new Error('connection refused')));
+
+            await expect(adapter.waitForConfirmation('at1tx')).rejects.toThrow(
+                'Failed to query transaction'
+            );
+        });
+
+        it('throws at once when the transaction failed on-chain', async () => {
+            mockedKy.get.mockReturnValue(reply({ id: 'at1tx', status: 'failed' }));
+
+            await expect(adapter.waitForConfirmation('at1tx')).rejects.toThrow(
+                'Transaction failed on-chain'
+            );
+            expect(mockedKy.get).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('registerScore', () => {
+        const generator = new ProofGenerator(backend, 'credit_score.aleo');
+        const assessment = ScoringEngine.calculateScore({
+            address: 'aleo1owner',
+            transactionCount: 25,
+            walletAgeMonths: 12,
+            defiScore: 65,
+            repaymentRate: 85,
+            tokenBalance: 10000,
+            lastTransactionDate: Date.now(),
+        });
+        const scoreRecord = generator.createScoreRecord(assessment, 4200);
+
+        it('broadcasts the generate_score execution without the opening', async () => {
+            const proof = await generator.generateProof(assessment, scoreRecord);
+            mockedKy.post.mockReturnValue(reply({ transaction_id: 'at1register' }));
+            mockedKy.get.mockReturnValue(reply({ id: 'at1register', status: 'confirmed' }));
+
+            await expect(
+                adapter.registerScore(proof, 'aleo1owner', 'APrivateKey1test')
+            ).resolves.toBe('at1register');
+
+            const { json } = mockedKy.post.mock.calls[0][1];
+            expect(json).toMatchObject({ function: 'generate_score', execution: proof.proof });
+            expect(JSON.stringify(json)).not.toContain(scoreRecord.blinding);
+        });
+
+        it('refuses proofs that do not register a record of the user', async () => {
+            const proof = await generator.generateProof(assessment, scoreRecord);
+            const threshold = await generator.generateThresholdProof(assessment, 500, scoreRecord);
+
+            await expect(
+                adapter.registerScore(proof, 'aleo1other', 'APrivateKey1test')
+            ).rejects.toThrow(TransactionError);
+            await expect(
+                adapter.registerScore(threshold, 'aleo1owner', 'APrivateKey1test')
+            ).rejects.toThrow(TransactionError);
+            expect(mockedKy.post).not.toHaveBeenCalled();
+        });
+
+        it('refuses proofs that do not verify', async () => {
+            const proof = await generator.generateProof(assessment, scoreRecord);
+            const tampered = { ...proof, opening: { ...proof.opening!, score: 850 } };
+
+            await expect(
+                adapter.registerScore(tampered, 'aleo1owner', 'APrivateKey1test')
+            ).rejects.toThrow('Proof verification failed');
+            expect(mockedKy.post).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('anchorClaims', () => {
+        const anchor = () => adapter.anchorClaims(record, 'aleo1owner', 'APrivateKey1test');
+
+        it('broadcasts the score record and returns the confirmed transaction ID', async () => {
+            mockedKy.post.mockReturnValue(reply({ transaction_id: 'at1anchor' }));
+            mockedKy.get.mockReturnValue(reply({ id: 'at1anchor', status: 'confirmed' }));
+
+            await expect(anchor()).resolves.toBe('at1anchor');
+
+            const { json } = mockedKy.post.mock.calls[0][1];
+            expect(json.function).toBe('anchor_claims');
+            expect(json.inputs[0]).toContain('score: 720u64.private');
+        });
+
+        it('rejects a record the user does not own', async () => {
+            await expect(
+                adapter.anchorClaims(record, 'aleo1other', 'APrivateKey1test')
+            ).rejects.toThrow(TransactionError);
+            expect(mockedKy.post).not.toHaveBeenCalled();
+        });
+
+        it('throws instead of returning a transaction ID when the broadcast fails', async () => {
+            mockedKy.post.mockReturnValue(fail(new Error('connection refused')));
+
+            await expect(anchor()).rejects.toThrow(TransactionError);
+            expect(mockedKy.get).not.toHaveBeenCalled();
+        });
+
+        it('throws when the anchor fails on-chain', async () => {
+            mockedKy.post.mockReturnValue(reply({ transaction_id: 'at1anchor' }));
+            mockedKy.get.mockReturnValue(reply({ id: 'at1anchor', status: 'failed' }));
+
+            await expect(anchor()).rejects.toThrow('Transaction failed on-chain');
+        });
+    });
+
+    describe('useNullifier', () => {
+        const nullifier = '123field';
+        const use = (maxUses = 3) =>
+            adapter.useNullifier(nullifier, maxUses, 'aleo1verifier', 'APrivateKey1test');
+
+        it('broadcasts the nullifier with the cap', async () => {
+            mockedKy.post.mockReturnValue(reply({ transaction_id: 'at1use' }));
+            mockedKy.get.mockReturnValue(reply({ id: 'at1use', status: 'confirmed' }));
+
+            await expect(use()).resolves.toBe('at1use');
+
+            const { json } = mockedKy.post.mock.calls[0][1];
+            expect(json).toMatchObject({
+                function: 'use_nullifier',
+                inputs: [nullifier, '3u32'],
+                caller: 'aleo1verifier',
+            });
+        });
+
+        it('rejects caps that are not a positive u32', async () => {
+            for (const maxUses of [0, -1, 1.5, 2 ** 32]) {
+                await expect(use(maxUses)).rejects.toThrow('Invalid reuse cap');
+            }
+            expect(mockedKy.post).not.toHaveBeenCalled();
+        });
+
+        it('throws when the broadcast fails', async () => {
+            mockedKy.post.mockReturnValue(fail(new Error('connection refused')));
+
+            await expect(use()).rejects.toThrow(TransactionError);
+        });
+
+        it('throws when the use is rejected on-chain', async () => {
+            mockedKy.post.mockReturnValue(reply({ transaction_id: 'at1use' }));
+            mockedKy.get.mockReturnValue(reply({ id: 'at1use', status: 'failed' }));
+
+            await expect(use()).rejects.toThrow('Transaction failed on-chain');
+        });
+    });
+
+    describe('fetchNullifierUses', () => {
+        it('reads the uses of the verifier, not of the nullifier alone', async () => {
+            mockedKy.get.mockReturnValue(reply('2u32'));
+
+            await expect(adapter.fetchNullifierUses('aleo1verifier', '123field')).resolves.toBe(2);
+            await adapter.fetchNullifierUses('aleo1other', '123field');
+
+            const [mine, theirs] = mockedKy.get.mock.calls.map(([url]) => url as string);
+            const key = await backend.commitments.nullifierKey('aleo1verifier', '123field');
+            expect(mine).toContain(`/mapping/nullifier_uses/${key}`);
+            expect(theirs).not.toBe(mine);
+        });
+
+        it('throws instead of reporting no uses when the mapping cannot be read', async () => {
+            mockedKy.get.mockReturnValue(fail(new MockHTTPError(500)));
+
+            await expect(
+                adapter.fetchNullifierUses('aleo1verifier', '123field')
+            ).rejects.toThrow(RPCError);
+        });
+    });
+
+    describe('revokeScore', () => {
+        const revoke = () => adapter.revokeScore(record, 'aleo1owner', 'APrivateKey1test');
+
+        it('rejects a record the user does not own', async () => {
+            await expect(
+                adapter.revokeScore(record, 'aleo1other', 'APrivateKey1test')
+            ).rejects.toThrow('Score record is not owned by the user');
+            expect(mockedKy.post).not.toHaveBeenCalled();
+        });
+
+        it('consumes the score record', async () => {
+            mockedKy.post.mockReturnValue(reply({ transaction_id: 'at1revoke' }));
+            mockedKy.get.mockReturnValue(reply({ id: 'at1revoke', status: 'confirmed' }));
+
+            await revoke();
+
+            const { json } = mockedKy.post.mock.calls[0][1];
+            expect(json.function).toBe('revoke_score');
+            expect(json.inputs).toHaveLength(1);
+            expect(json.inputs[0]).toContain('score: 720u64.private');
+        });
+
+        it('returns the broadcast transaction ID once confirmed', async () => {
+            mockedKy.post.mockReturnValue(reply({ transaction_id: 'at1revoke' }));
+            mockedKy.get.mockReturnValue(reply({ id: 'at1revoke', status: 'confirmed' }));
+
+            await expect(revoke()).resolves.toBe('at1revoke');
+        });
+
+        it('throws instead of returning a transaction ID when the broadcast fails', async () => {
+            mockedKy.post.mockReturnValue(fail(new Error('connection refused')));
+
+            await expect(revoke()).rejects.toThrow(TransactionError);
+            expect(mockedKy.get).not.toHaveBeenCalled();
+        });
+
+        it('throws when the broadcast returns no transaction ID', async () => {
+            mockedKy.post.mockReturnValue(reply({}));
+
+            await expect(revoke()).rejects.toThrow('Broadcast returned no transaction ID');
+        });
+
+        it('throws when the confirmation cannot be queried', async () => {
+            mockedKy.post.mockReturnValue(reply({ transaction_id: 'at1revoke' }));
+            mockedKy.get.mockReturnValue(fail(new MockHTTPError(500)));
+
+            await expect(revoke()).rejects.toThrow(TransactionError);
+        });
+    });
+
+    describe('CreditScoreSDK.useNullifier', () => {
+        const generator = new ProofGenerator(backend, 'credit_score.aleo');
+        const assessment = ScoringEngine.calculateScore({
+            address: 'aleo1owner',
+            transactionCount: 25,
+            walletAgeMonths: 12,
+            defiScore: 65,
+            repaymentRate: 85,
+            tokenBalance: 10000,
+            lastTransactionDate: Date.now(),
+        });
+        const scoreRecord = generator.createScoreRecord(assessment, 4200);
+        let lender: CreditScoreSDK;
+
+        beforeEach(async () => {
+            jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+            lender = new CreditScoreSDK(config);
+            await lender.init('aleo1verifier');
+            mockedKy.get.mockReset();
+        });
+
+        it('records the use under the cap bound in the proof', async () => {
+            const challenge = lender.createChallenge('loan-application', { maxUses: 2 });
+            const proof = await generator.generateThresholdProof(
+                assessment, 500, scoreRecord, undefined, challenge
+            );
+            mockedKy.post.mockReturnValue(reply({ transaction_id: 'at1use' }));
+            mockedKy.get.mockReturnValue(reply({ id: 'at1use', status: 'confirmed' }));
+
+            await expect(
+                lender.useNullifier(proof, challenge, 'APrivateKey1test')
+            ).resolves.toBe('at1use');
+
+            const { json } = mockedKy.post.mock.calls[0][1];
+            expect(json.inputs).toEqual([proof.nullifier, '2u32']);
+        });
+
+        it('refuses a challenge issued by another verifier', async () => {
+            const challenge = createChallenge('aleo1other', 'loan-application', { maxUses: 2 });
+            const proof = await generator.generateThresholdProof(
+                assessment, 500, scoreRecord, undefined, challenge
+            );
+
+            await expect(
+                lender.useNullifier(proof, challenge, 'APrivateKey1test')
+            ).rejects.toMatchObject({ code: 'INVALID_CHALLENGE' });
+            expect(mockedKy.post).not.toHaveBeenCalled();
+        });
+
+        it('refuses a proof that does not answer the challenge', async () => {
+            const challenge = lender.createChallenge('loan-application', { maxUses: 1 });
+            const unchallenged = await generator.generateThresholdProof(
+                assessment, 500, scoreRecord
+            );
+            const otherCap = await generator.generateThresholdProof(
+                assessment, 500, scoreRecord, undefined, { ...challenge, maxUses: 100 }
+            );
+
+            for (const proof of [unchallenged, otherCap]) {
+                await expect(
+                    lender.useNullifier(proof, challenge, 'APrivateKey1test')
+                ).rejects.toMatchObject({ code: 'INVALID_PROOF' });
+            }
+            expect(mockedKy.post).not.toHaveBeenCalled();
+        });
+
+        it('throws when the use is not confirmed', async () => {
+            const challenge = lender.createChallenge('loan-application', { maxUses: 1 });
+            const proof = await generator.generateThresholdProof(
+                assessment, 500, scoreRecord, undefined, challenge
+            );
+            mockedKy.post.mockReturnValue(fail(new Error('connection refused')));
+
+            await expect(
+                lender.useNullifier(proof, challenge, 'APrivateKey1test')
+            ).rejects.toThrow(TransactionError);
+        });
+    });
+});
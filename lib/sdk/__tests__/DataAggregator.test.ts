@@ -4,6 +4,83 @@
  */
 
 import { DataAggregator } from '../DataAggregator';
+import { DefiClassifier } from '../defi/DefiClassifier';
+import { LoanLedger } from '../lending/LoanLedger';
+import { MemoryCacheStore } from '../cache/MemoryCacheStore';
+import { integerBalanceScore, toIntegerInputs } from '../models/IntegerModel';
+import { tieredModel } from '../models/TieredModel';
+import { CACHE_CONFIG, LOAN_LEDGER } from '@/lib/constants';
+import type { LendingProgram, MetricsSource } from '@/types/sdk';
+
+const TEST_LENDING: LendingProgram = {
+    program: 'test_lending.aleo',
+    protocol: 'Test Lending',
+    functions: { borrow: 'borrow', repay: 'repay', liquidate: 'liquidation' },
+};
+
+const failingSource: MetricsSource = {
+    id: 'failing',
+    fetchActivity: () => Promise.reject(new Error('explorer down')),
+};
+
+const activitySource: MetricsSource = {
+    id: 'fixture',
+    fetchActivity: async (address) => ({
+        address,
+        transactionCount: 4,
+        firstSeen: Date.now() - 1000 * 60 * 60 * 24 * 30 * 6,
+        lastActivity: Date.now(),
+        balance: 52500000,
+        transitions: [],
+        blockHeight: 4250000,
+    }),
+};
+
+const defiSource: MetricsSource = {
+    id: 'fixture',
+    fetchActivity: async (address) => ({
+        ...(await activitySource.fetchActivity(address)),
+        transitions: [
+            {
+                id: 'au1swap',
+                transactionId: 'at1swap',
+                program: 'arcane_finance_v3.aleo',
+                function: 'swap_exact_public_for_public',
+                blockHeight: 4200000,
+            },
+            {
+                id: 'au1bond',
+                transactionId: 'at1bond',
+                program: 'credits.aleo',
+                function: 'bond_public',
+                blockHeight: 4000000,
+            },
+        ],
+    }),
+};
+
+const lendingSource: MetricsSource = {
+    id: 'fixture',
+    fetchActivity: async (address) => ({
+        ...(await activitySource.fetchActivity(address)),
+        transitions: [
+            {
+                id: 'au1borrow',
+                transactionId: 'at1borrow',
+                program: 'test_lending.aleo',
+                function: 'borrow',
+                blockHeight: 3000000,
+            },
+            {
+                id: 'au1liquidate',
+                transactionId: 'at1liquidate',
+                program: 'test_lending.aleo',
+                function: 'liquidate',
+                blockHeight: 3100000,
+            },
+        ],
+    }),
+};
 
 describe('DataAggregator', () => {
     let aggregator: DataAggregator;
@@ -47,8 +124,13 @@ describe('DataAggregator', () => {
             // Second fetch (should be cached)
             const metrics2 = await aggregator.fetchWalletMetrics(address);
 
-            // Should return same object
-            expect(metrics1).toEqual(metrics2);
+            // Should return the same values, marked as cached
+            const { provenance: provenance1, ...values1 } = metrics1;
+            const { provenance: provenance2, ...values2 } = metrics2;
+            expect(values1).toEqual(values2);
+            expect(provenance2?.transactionCount.fetchedAt).toBe(
+                provenance1?.transactionCount.fetchedAt
+            );
         });
 
         it('should return deterministic mock data for same address', async () => {
@@ -63,14 +145,271 @@ describe('DataAggregator', () => {
         });
     });
 
+    describe('provenance', () => {
+        it('should mark source values as real with the block height', async () => {
+            const sourced = new DataAggregator(undefined, undefined, activitySource);
+
+            const metrics = await sourced.fetchWalletMetrics('aleo1sourced');
+
+            expect(metrics.transactionCount).toBe(4);
+            expect(metrics.tokenBalance).toBe(52.5);
+            expect(metrics.walletAgeMonths).toBe(6);
+            expect(metrics.provenance?.transactionCount).toMatchObject({
+                source: 'fixture',
+                blockHeight: 4250000,
+                status: 'real',
+            });
+        });
+
+        it('should mark cache hits as cached', async () => {
+            const sourced = new DataAggregator(undefined, undefined, activitySource);
+
+            await sourced.fetchWalletMetrics('aleo1sourced');
+            const metrics = await sourced.fetchWalletMetrics('aleo1sourced');
+
+            expect(metrics.provenance?.walletAgeMonths.status).toBe('cached');
+        });
+
+        it('should mark estimates as fallback when the source fails', async () => {
+            const fallback = new DataAggregator(undefined, undefined, failingSource);
+
+            const metrics = await fallback.fetchWalletMetrics('aleo1fallback');
+
+            expect(metrics.provenance?.transactionCount).toMatchObject({
+                source: 'mock',
+                blockHeight: null,
+                status: 'fallback',
+            });
+        });
+
+        it('should raise RPCError instead of estimating in strict mode', async () => {
+            const strict = new DataAggregator(undefined, undefined, failingSource, {
+                strict: true,
+                loanLedger: new LoanLedger([TEST_LENDING]),
+            });
+
+            await expect(strict.fetchWalletMetrics('aleo1strict')).rejects.toMatchObject({
+                name: 'RPCError',
+                message: 'Failed to fetch activity from failing',
+            });
+        });
+    });
+
+    describe('truncated history', () => {
+        const truncatedSource: MetricsSource = {
+            id: 'fixture',
+            fetchActivity: async (address) => ({
+                ...(await activitySource.fetchActivity(address)),
+                truncated: true,
+            }),
+        };
+
+        it('should mark the history fields partial', async () => {
+            const sourced = new DataAggregator(undefined, undefined, truncatedSource);
+
+            const metrics = await sourced.fetchWalletMetrics('aleo1truncated');
+
+            expect(metrics.provenance?.transactionCount).toMatchObject({
+                status: 'real',
+                partial: true,
+            });
+            expect(metrics.provenance?.walletAgeMonths.partial).toBe(true);
+            expect(metrics.provenance?.tokenBalance.partial).toBeUndefined();
+            expect(metrics.provenance?.lastTransactionDate.partial).toBeUndefined();
+        });
+
+        it('should raise RPCError in strict mode', async () => {
+            const strict = new DataAggregator(undefined, undefined, truncatedSource, {
+                strict: true,
+                loanLedger: new LoanLedger([TEST_LENDING]),
+            });
+
+            await expect(strict.fetchWalletMetrics('aleo1truncated')).rejects.toMatchObject({
+                name: 'RPCError',
+                message: 'fixture stopped before the full history of aleo1truncated',
+            });
+            await expect(
+                strict.fetchMetricsAsOf('aleo1truncated', [{ blockHeight: 4000000 }])
+            ).rejects.toMatchObject({ name: 'RPCError' });
+        });
+    });
+
+    describe('DeFi activity', () => {
+        it('should derive defiScore from classified transitions', async () => {
+            const sourced = new DataAggregator(undefined, undefined, defiSource);
+
+            const metrics = await sourced.fetchWalletMetrics('aleo1defi');
+
+            expect(metrics.defiScore).toBe(metrics.defiActivity?.score);
+            expect(metrics.defiActivity?.protocols.map((p) => p.protocol)).toEqual([
+                'Arcane Finance',
+                'Aleo Staking',
+            ]);
+            expect(metrics.provenance?.defiScore).toMatchObject({
+                source: 'fixture',
+                status: 'real',
+            });
+        });
+
+        it('should use a custom program registry', async () => {
+            const sourced = new DataAggregator(undefined, undefined, defiSource, {
+                defiClassifier: new DefiClassifier([]),
+            });
+
+            const metrics = await sourced.fetchWalletMetrics('aleo1defi');
+
+            expect(metrics.defiScore).toBe(0);
+            expect(metrics.defiActivity?.protocols).toEqual([]);
+        });
+    });
+
+    describe('repayment history', () => {
+        it('should rate wallets without loans neutrally', async () => {
+            const sourced = new DataAggregator(undefined, undefined, activitySource, {
+                loanLedger: new LoanLedger([TEST_LENDING]),
+            });
+
+            const metrics = await sourced.fetchWalletMetrics('aleo1noloans');
+
+            expect(metrics.repaymentRate).toBe(LOAN_LEDGER.NO_HISTORY_RATE);
+            expect(metrics.repaymentHistory?.loans).toEqual([]);
+            expect(metrics.provenance?.repaymentRate.status).toBe('real');
+        });
+
+        it('should only estimate repaymentRate without lending programs', async () => {
+            const sourced = new DataAggregator(undefined, undefined, lendingSource);
+
+            const metrics = await sourced.fetchWalletMetrics('aleo1untracked');
+
+            expect(metrics.repaymentRate).toBe(LOAN_LEDGER.NO_HISTORY_RATE);
+            expect(metrics.repaymentHistory).toBeUndefined();
+            expect(metrics.provenance?.repaymentRate.status).toBe('fallback');
+            expect(metrics.provenance?.transactionCount.status).toBe('real');
+        });
+
+        it('should require lending programs in strict mode', async () => {
+            const strict = new DataAggregator(undefined, undefined, activitySource, {
+                strict: true,
+            });
+
+            await expect(strict.fetchWalletMetrics('aleo1untracked')).rejects.toMatchObject({
+                code: 'NO_LENDING_PROGRAMS',
+            });
+        });
+
+        it('should derive repaymentRate from the loan ledger', async () => {
+            const sourced = new DataAggregator(undefined, undefined, lendingSource, {
+                loanLedger: new LoanLedger([TEST_LENDING]),
+            });
+
+            const metrics = await sourced.fetchWalletMetrics('aleo1lending');
+
+            expect(metrics.repaymentRate).toBe(0);
+            expect(metrics.repaymentHistory).toMatchObject({ liquidations: 1, openLoans: 0 });
+        });
+    });
+
+    describe('balance history', () => {
+        it('should not sample a history the source cannot read', async () => {
+            const sourced = new DataAggregator(undefined, undefined, activitySource);
+
+            const metrics = await sourced.fetchWalletMetrics('aleo1nohistory');
+
+            expect(metrics.balanceHistory).toBeUndefined();
+        });
+
+        it('should sample the balance history from balance changes', async () => {
+            const sourced = new DataAggregator(undefined, undefined, {
+                id: 'fixture',
+                fetchActivity: async (address) => ({
+                    ...(await activitySource.fetchActivity(address)),
+                    balanceChanges: [
+                        { transitionId: 'au1in', blockHeight: 4240000, delta: 50000000 },
+                    ],
+                }),
+            });
+
+            const metrics = await sourced.fetchWalletMetrics('aleo1history');
+
+            expect(metrics.balanceHistory!.samples.at(-1)).toEqual({
+                blockHeight: 4250000,
+                balance: 52.5,
+            });
+            expect(metrics.balanceHistory!.minimum).toBe(2.5);
+        });
+    });
+
+    describe('balance units', () => {
+        it('should tier an explorer balance in credits in both models', async () => {
+            const sourced = new DataAggregator(undefined, undefined, {
+                id: 'fixture',
+                fetchActivity: async (address) => ({
+                    ...(await activitySource.fetchActivity(address)),
+                    balance: 12_000_000_000, // 12,000 credits
+                }),
+            });
+            const now = Date.now();
+
+            const metrics = await sourced.fetchWalletMetrics('aleo1units');
+            const inputs = toIntegerInputs(metrics, now);
+            const tiered = tieredModel.factors.find((f) => f.id === 'balance')!;
+
+            expect(metrics.tokenBalance).toBe(12000);
+            expect(inputs.balance).toBe(12000);
+            expect(integerBalanceScore(inputs.stableBalance)).toBe(60);
+            expect(tiered.score(metrics, { now })).toBe(60);
+        });
+    });
+
+    describe('wash activity', () => {
+        const washSource: MetricsSource = {
+            id: 'fixture',
+            fetchActivity: async (address) => ({
+                ...(await activitySource.fetchActivity(address)),
+                transitions: [4100000, 4100500].map((blockHeight, i) => ({
+                    id: `au1loop${i}`,
+                    transactionId: `at1loop${i}`,
+                    program: 'credits.aleo',
+                    function: 'transfer_public',
+                    blockHeight,
+                    transfer: { direction: 'out' as const, counterparty: address, amount: 1000000 },
+                })),
+            }),
+        };
+
+        it('should report the anomalies found in the transitions', async () => {
+            const sourced = new DataAggregator(undefined, undefined, washSource);
+
+            const metrics = await sourced.fetchWalletMetrics('aleo1washer');
+
+            expect(metrics.activityAnomalies).toMatchObject({
+                anomalies: [{ type: 'self-loop', discountedTransactions: 2 }],
+                discountedTransactions: 2,
+                blockHeight: 4250000,
+            });
+            // The count itself stays as read; ScoringEngine applies the discount
+            expect(metrics.transactionCount).toBe(4);
+        });
+
+        it('should not report anomalies with detection disabled', async () => {
+            const sourced = new DataAggregator(undefined, undefined, washSource, {
+                washDetector: false,
+            });
+
+            const metrics = await sourced.fetchWalletMetrics('aleo1washer');
+
+            expect(metrics.activityAnomalies).toBeUndefined();
+        });
+    });
+
     describe('cache management', () => {
         it('should clear cache for specific address', async () => {
             const address = 'aleo1clear123';
 
             await aggregator.fetchWalletMetrics(address);
-            aggregator.clearCache(address);
+            await aggregator.clearCache(address);
 
-            const stats = aggregator.getCacheStats();
+            const stats = await aggregator.getCacheStats();
             expect(stats.size).toBe(0);
         });
 
@@ -79,19 +418,255 @@ describe('DataAggregator', () => {
             await aggregator.fetchWalletMetrics('aleo1addr2');
             await aggregator.fetchWalletMetrics('aleo1addr3');
 
-            aggregator.clearAllCache();
+            await aggregator.clearAllCache();
 
-            const stats = aggregator.getCacheStats();
+            const stats = await aggregator.getCacheStats();
             expect(stats.size).toBe(0);
         });
 
         it('should return cache statistics', async () => {
-            const stats = aggregator.getCacheStats();
+            const stats = await aggregator.getCacheStats();
 
+            expect(stats).toHaveProperty('store', 'memory');
             expect(stats).toHaveProperty('size');
-            expect(stats).toHaveProperty('maxSize');
             expect(stats).toHaveProperty('ttl');
+            expect(stats).toHaveProperty('staleWhileRevalidate');
             expect(typeof stats.size).toBe('number');
         });
     });
+
+    describe('stale-while-revalidate', () => {
+        const HOUR = 1000 * 60 * 60;
+        let now: number;
+        let reads: number;
+        let countingSource: MetricsSource;
+
+        beforeEach(() => {
+            now = Date.now();
+            reads = 0;
+            jest.spyOn(Date, 'now').mockImplementation(() => now);
+            countingSource = {
+                id: 'fixture',
+                fetchActivity: async (address) => {
+                    reads++;
+                    return {
+                        ...(await activitySource.fetchActivity(address)),
+                        balance: reads * 1000000,
+                        transitions: [
+                            {
+                                id: `au1read${reads}`,
+                                transactionId: `at1read${reads}`,
+                                program: 'credits.aleo',
+                                function: 'transfer_public',
+                                blockHeight: 4250000,
+                            },
+                        ],
+                    };
+                },
+            };
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+        it('should serve stale fields and refresh them in the background', async () => {
+            const sourced = new DataAggregator(undefined, undefined, countingSource, {
+                fieldTTLs: { tokenBalance: HOUR },
+            });
+            await sourced.fetchWalletMetrics('aleo1swr');
+
+            now += 2 * HOUR;
+            const stale = await sourced.fetchWalletMetrics('aleo1swr');
+
+            expect(stale.tokenBalance).toBe(1);
+            expect(stale.provenance?.tokenBalance.status).toBe('stale');
+            expect(stale.provenance?.walletAgeMonths.status).toBe('cached');
+
+            await flush();
+            const refreshed = await sourced.fetchWalletMetrics('aleo1swr');
+
+            expect(reads).toBe(2);
+            expect(refreshed.tokenBalance).toBe(2);
+            expect(refreshed.provenance?.tokenBalance.status).toBe('cached');
+        });
+
+        it('should refetch expired entries before serving them', async () => {
+            const sourced = new DataAggregator(undefined, undefined, countingSource, {
+                ttl: HOUR,
+                staleWhileRevalidate: HOUR,
+            });
+            await sourced.fetchWalletMetrics('aleo1expired');
+
+            now += 3 * HOUR;
+            const metrics = await sourced.fetchWalletMetrics('aleo1expired');
+
+            expect(reads).toBe(2);
+            expect(metrics.provenance?.tokenBalance.status).toBe('real');
+        });
+
+        it('should retry the source soon after caching an estimate', async () => {
+            jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+            jest.spyOn(console, 'error').mockImplementation(() => undefined);
+            let down = true;
+            const recovering: MetricsSource = {
+                id: 'fixture',
+                fetchActivity: (address) =>
+                    down
+                        ? Promise.reject(new Error('explorer down'))
+                        : countingSource.fetchActivity(address),
+            };
+            const sourced = new DataAggregator(undefined, undefined, recovering);
+            await sourced.fetchWalletMetrics('aleo1recovering');
+
+            down = false;
+            const cached = await sourced.fetchWalletMetrics('aleo1recovering');
+            expect(cached.provenance?.tokenBalance.status).toBe('fallback');
+            expect(reads).toBe(0);
+
+            now += CACHE_CONFIG.FALLBACK_TTL + 1;
+            await sourced.fetchWalletMetrics('aleo1recovering');
+            await flush();
+            const refreshed = await sourced.fetchWalletMetrics('aleo1recovering');
+
+            expect(reads).toBe(1);
+            expect(refreshed.provenance?.tokenBalance.status).toBe('cached');
+        });
+
+        it('should share one read among concurrent callers', async () => {
+            const sourced = new DataAggregator(undefined, undefined, countingSource);
+
+            await Promise.all([
+                sourced.fetchWalletMetrics('aleo1shared'),
+                sourced.fetchWalletMetrics('aleo1shared'),
+            ]);
+
+            expect(reads).toBe(1);
+        });
+
+        it('should invalidate entries that predate a new transaction', async () => {
+            const sourced = new DataAggregator(undefined, undefined, countingSource);
+            await sourced.fetchWalletMetrics('aleo1invalidate');
+
+            expect(await sourced.invalidate('aleo1invalidate', 'at1read1')).toBe(false);
+            expect(await sourced.invalidate('aleo1invalidate', 'at1new')).toBe(true);
+
+            const metrics = await sourced.fetchWalletMetrics('aleo1invalidate');
+            expect(reads).toBe(2);
+            expect(metrics.provenance?.tokenBalance.status).toBe('real');
+        });
+
+        it('should not cache a read that started before an invalidation', async () => {
+            const sourced = new DataAggregator(undefined, undefined, countingSource);
+
+            const pending = sourced.fetchWalletMetrics('aleo1racing');
+            await sourced.invalidate('aleo1racing', 'at1new');
+            await pending;
+
+            expect((await sourced.getCacheStats()).size).toBe(0);
+        });
+
+        it('should not cache when caching is disabled', async () => {
+            const sourced = new DataAggregator(undefined, undefined, countingSource, {
+                cache: false,
+            });
+
+            await sourced.fetchWalletMetrics('aleo1nocache');
+            await sourced.fetchWalletMetrics('aleo1nocache');
+
+            expect(reads).toBe(2);
+            expect(await sourced.getCacheStats()).toMatchObject({ store: null, size: 0 });
+        });
+
+        it('should fetch from the source when the store fails', async () => {
+            jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+            const brokenStore = new MemoryCacheStore();
+            jest.spyOn(brokenStore, 'get').mockRejectedValue(new Error('disk full'));
+            jest.spyOn(brokenStore, 'set').mockRejectedValue(new Error('disk full'));
+            const sourced = new DataAggregator(undefined, undefined, countingSource, {
+                cache: brokenStore,
+            });
+
+            const metrics = await sourced.fetchWalletMetrics('aleo1broken');
+
+            expect(metrics.tokenBalance).toBe(1);
+        });
+
+        it('should share entries between aggregators on one store', async () => {
+            const store = new MemoryCacheStore();
+            const first = new DataAggregator(undefined, undefined, countingSource, { cache: store });
+            const second = new DataAggregator(undefined, undefined, countingSource, { cache: store });
+
+            await first.fetchWalletMetrics('aleo1sharedstore');
+            const metrics = await second.fetchWalletMetrics('aleo1sharedstore');
+
+            expect(reads).toBe(1);
+            expect(metrics.provenance?.tokenBalance.status).toBe('cached');
+        });
+    });
+
+    describe('fetchMetricsAsOf', () => {
+        const historySource: MetricsSource = {
+            id: 'fixture',
+            fetchActivity: async (address) => ({
+                ...(await defiSource.fetchActivity(address)),
+                transactionCount: 2,
+                balanceChanges: [
+                    { transitionId: 'au1swap', blockHeight: 4200000, delta: 2500000 },
+                ],
+            }),
+        };
+
+        it('should replay metrics to a past block height', async () => {
+            const sourced = new DataAggregator(undefined, undefined, historySource);
+
+            const [past, head] = await sourced.fetchMetricsAsOf('aleo1history', [
+                { blockHeight: 4100000 },
+                { blockHeight: 4250000 },
+            ]);
+
+            expect(past!.blockHeight).toBe(4100000);
+            expect(past!.metrics.transactionCount).toBe(1);
+            expect(past!.metrics.tokenBalance).toBe(50);
+            expect(past!.metrics.defiActivity?.protocols.flatMap((p) => p.programs)).toEqual([
+                'credits.aleo',
+            ]);
+            expect(past!.metrics.provenance?.tokenBalance.blockHeight).toBe(4100000);
+            expect(past!.timestamp).toBeLessThan(head!.timestamp);
+            expect(head!.metrics.transactionCount).toBe(2);
+            expect(head!.metrics.tokenBalance).toBe(52.5);
+        });
+
+        it('should map dates to block heights', async () => {
+            const sourced = new DataAggregator(undefined, undefined, historySource);
+            const date = Date.now() - 1000 * 60 * 60 * 24 * 30;
+
+            const [point] = await sourced.fetchMetricsAsOf('aleo1history', [{ date }]);
+
+            expect(point!.timestamp).toBe(date);
+            expect(point!.blockHeight).toBeLessThan(4250000);
+        });
+
+        it('should reject future points', async () => {
+            const sourced = new DataAggregator(undefined, undefined, historySource);
+
+            await expect(
+                sourced.fetchMetricsAsOf('aleo1history', [{ date: Date.now() + 60000 }])
+            ).rejects.toMatchObject({ code: 'INVALID_AS_OF' });
+            await expect(
+                sourced.fetchMetricsAsOf('aleo1history', [{ blockHeight: 4300000 }])
+            ).rejects.toMatchObject({ code: 'INVALID_AS_OF' });
+        });
+
+        it('should raise instead of estimating history', async () => {
+            jest.spyOn(console, 'error').mockImplementation(() => undefined);
+            const sourced = new DataAggregator(undefined, undefined, failingSource);
+
+            await expect(
+                sourced.fetchMetricsAsOf('aleo1history', [{ blockHeight: 4000000 }])
+            ).rejects.toMatchObject({ code: 'RPC_ERROR' });
+        });
+    });
 });
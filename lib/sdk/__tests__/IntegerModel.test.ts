@@ -0,0 +1,424 @@
+/**
+ * IntegerModel Golden-Vector Tests
+ *
+ * Checks the TypeScript scorer against a statement-by-statement transcription
+ * of `generate_score` in contract/src/main.leo, evaluated with u64 semantics
+ * (BigInt, halting on overflow/underflow like the Leo VM).
+ */
+
+import { ScoringEngine } from '../ScoringEngine';
+import { scoringModelRegistry } from '../ScoringModelRegistry';
+import { LoanLedger } from '../lending/LoanLedger';
+import {
+    integerModel,
+    integerModelV1,
+    toIntegerInputs,
+    toLeoInputs,
+} from '../models/IntegerModel';
+import { LOAN_LEDGER } from '@/lib/constants';
+import type { BalanceHistory, Loan, LoanStatus, WalletMetrics } from '@/types/sdk';
+
+const U64_MAX = (1n << 64n) - 1n;
+const DAY_MS = 1000 * 60 * 60 * 24;
+const NOW = Date.UTC(2026, 0, 15, 12, 0, 0);
+const DAY = LOAN_LEDGER.BLOCKS_PER_DAY;
+const HEIGHT = 10_000_000;
+
+/**
+ * u64 guard: the Leo VM halts on overflow, so must the emulator
+ */
+function u64(value: bigint): bigint {
+    if (value < 0n || value > U64_MAX) {
+        throw new Error(`u64 overflow: ${value}`);
+    }
+    return value;
+}
+
+const min = (a: bigint, cap: bigint) => (a > cap ? cap : a);
+
+/**
+ * Transcription of credit_score.aleo/generate_score
+ */
+const leo = {
+    tx_score(tx_count: bigint): bigint {
+        const tx = min(tx_count, 200n);
+        return tx >= 200n ? 100n
+            : tx >= 100n ? 85n
+            : tx >= 50n ? 70n
+            : tx >= 25n ? 55n
+            : tx >= 10n ? 40n
+            : tx >= 5n ? 25n
+            : u64(tx * 5n);
+    },
+    recency_adjusted(base: bigint, days: bigint): bigint {
+        const bonus = days <= 7n ? 10n : days <= 30n ? 5n : 0n;
+        const penalty = days > 180n ? 40n : days > 90n ? 15n : 0n;
+        const boosted = u64(base + bonus);
+        const adjusted = boosted > penalty ? u64(boosted - penalty) : 0n;
+        return min(adjusted, 100n);
+    },
+    age_score(age: bigint): bigint {
+        return age >= 24n ? 100n
+            : age >= 18n ? 90n
+            : age >= 12n ? 80n
+            : age >= 6n ? 60n
+            : age >= 3n ? 40n
+            : age >= 1n ? 20n
+            : 0n;
+    },
+    defi_tier_score(defi_score: bigint): bigint {
+        const defi = min(defi_score, 100n);
+        return defi >= 80n ? 100n
+            : defi >= 60n ? 85n
+            : defi >= 40n ? 70n
+            : defi >= 20n ? 50n
+            : u64(defi * 2n);
+    },
+    repayment_tier_score(repayment_rate: bigint): bigint {
+        const rate = min(repayment_rate, 100n);
+        return rate >= 95n ? 100n
+            : rate >= 90n ? 95n
+            : rate >= 85n ? 90n
+            : rate >= 80n ? 85n
+            : rate >= 75n ? 75n
+            : rate >= 70n ? 65n
+            : rate >= 60n ? 50n
+            : u64(rate * 7n) / 10n;
+    },
+    balance_tier_score(balance: bigint): bigint {
+        return balance >= 1000000n ? 100n
+            : balance >= 500000n ? 90n
+            : balance >= 100000n ? 80n
+            : balance >= 50000n ? 70n
+            : balance >= 10000n ? 60n
+            : balance >= 5000n ? 50n
+            : balance >= 1000n ? 40n
+            : balance / 25n;
+    },
+    balance_factor_score(stable_balance: bigint, volatility_bps: bigint): bigint {
+        const tier = leo.balance_tier_score(stable_balance);
+        const deduction = volatility_bps > 10000n ? 30n
+            : volatility_bps > 5000n ? 15n
+            : volatility_bps > 2500n ? 5n
+            : 0n;
+        return tier > deduction ? u64(tier - deduction) : 0n;
+    },
+    generate_score(args: string[]): bigint {
+        const [
+            tx_count,
+            wallet_age,
+            defi_score,
+            repayment_rate,
+            ,
+            days,
+            stable_balance,
+            volatility_bps,
+            penalty_points,
+        ] = args.map((arg) => u64(BigInt(arg.replace(/u64$/, '')))) as bigint[];
+
+        if (penalty_points! > 200n) {
+            throw new Error(`assert failed: penalty_points ${penalty_points}`);
+        }
+
+        const tx_val = leo.recency_adjusted(leo.tx_score(tx_count!), days!);
+        const age_val = leo.age_score(wallet_age!);
+        const defi_val = leo.defi_tier_score(defi_score!);
+        const repay_val = leo.repayment_tier_score(repayment_rate!);
+        const balance_val = leo.balance_factor_score(stable_balance!, volatility_bps!);
+
+        const weighted_sum = u64(
+            tx_val * 25n + age_val * 20n + defi_val * 20n + repay_val * 25n + balance_val * 10n
+        );
+        const bonus_points = u64(weighted_sum * 550n + 5000n) / 10000n;
+        const penalty = penalty_points! < bonus_points ? penalty_points! : bonus_points;
+        return u64(u64(300n + bonus_points) - penalty);
+    },
+};
+
+/**
+ * Deterministic PRNG (mulberry32) so failures are reproducible
+ */
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Tier boundaries of every factor, used to bias generation towards edges
+ */
+const BOUNDARIES = {
+    transactionCount: [0, 4, 5, 9, 10, 24, 25, 49, 50, 99, 100, 199, 200, 201, 5000],
+    walletAgeMonths: [0, 0.5, 1, 2.99, 3, 6, 12, 17.9, 18, 24, 60],
+    defiScore: [0, 1, 19, 20, 39.5, 40, 60, 79, 80, 100],
+    repaymentRate: [0, 13, 59, 60, 70, 74.9, 75, 80, 85, 90, 94, 95, 100],
+    tokenBalance: [0, 24, 25, 999, 1000, 5000, 10000, 50000, 100000, 499999, 500000, 1000000],
+    daysSinceLastTx: [0, 7, 7.5, 8, 30, 31, 90, 91, 180, 181, 400],
+    volatility: [0, 0.25, 0.2501, 0.5, 0.5001, 1, 1.0001, 1.5],
+};
+
+/**
+ * Loan closed `daysAgo` days before HEIGHT, `daysPastDue` days late
+ */
+function loan(id: string, status: LoanStatus, daysAgo: number, daysPastDue = 0): Loan {
+    const closedAt = HEIGHT - daysAgo * DAY;
+    const dueBlock = closedAt - daysPastDue * DAY;
+    return {
+        id,
+        program: 'test_lending.aleo',
+        protocol: 'Test Lending',
+        borrowedAt: dueBlock - 30 * DAY,
+        dueBlock,
+        closedAt: status === 'open' || status === 'overdue' ? null : closedAt,
+        status,
+        daysPastDue,
+    };
+}
+
+function balanceHistory(average: number, minimum: number, volatility: number): BalanceHistory {
+    return { samples: [], intervalBlocks: DAY, average, minimum, volatility };
+}
+
+const LOAN_STATUSES: LoanStatus[] = ['open', 'overdue', 'repaid', 'liquidated', 'defaulted'];
+
+function pick(random: () => number, edges: number[], max: number): number {
+    if (random() < 0.5) {
+        return edges[Math.floor(random() * edges.length)]!;
+    }
+    // Half the values are fractional to exercise flooring
+    const value = random() * max;
+    return random() < 0.5 ? Math.floor(value) : Math.round(value * 100) / 100;
+}
+
+function generateMetrics(count: number, seed: number): WalletMetrics[] {
+    const random = createRandom(seed);
+
+    return Array.from({ length: count }, (_, i) => {
+        const metrics: WalletMetrics = {
+            address: `aleo1golden${i}`,
+            transactionCount: pick(random, BOUNDARIES.transactionCount, 400),
+            walletAgeMonths: pick(random, BOUNDARIES.walletAgeMonths, 48),
+            defiScore: pick(random, BOUNDARIES.defiScore, 100),
+            repaymentRate: pick(random, BOUNDARIES.repaymentRate, 100),
+            tokenBalance: pick(random, BOUNDARIES.tokenBalance, 2000000),
+            lastTransactionDate: NOW - pick(random, BOUNDARIES.daysSinceLastTx, 365) * DAY_MS,
+        };
+
+        // Half the wallets have a balance history, half a loan ledger
+        if (random() < 0.5) {
+            const average = pick(random, BOUNDARIES.tokenBalance, 2000000);
+            metrics.balanceHistory = balanceHistory(
+                average,
+                average * random(),
+                pick(random, BOUNDARIES.volatility, 2)
+            );
+        }
+        if (random() < 0.5) {
+            const loans = Array.from({ length: Math.floor(random() * 8) }, (_, j) =>
+                loan(
+                    `loan${j}`,
+                    LOAN_STATUSES[Math.floor(random() * LOAN_STATUSES.length)]!,
+                    Math.floor(random() * 1000),
+                    Math.floor(random() * 60)
+                )
+            );
+            metrics.repaymentHistory = LoanLedger.summarize(loans, HEIGHT);
+        }
+        return metrics;
+    });
+}
+
+describe('IntegerModel', () => {
+    beforeEach(() => {
+        jest.useFakeTimers().setSystemTime(NOW);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should be the default scoring model', () => {
+        expect(scoringModelRegistry.getDefault()).toBe(integerModel);
+    });
+
+    it('should match the documented contract input vector', () => {
+        const metrics: WalletMetrics = {
+            address: 'aleo1inputs',
+            transactionCount: 150,
+            walletAgeMonths: 18,
+            defiScore: 60,
+            repaymentRate: 95,
+            tokenBalance: 250000,
+            lastTransactionDate: NOW - 3 * DAY_MS,
+        };
+
+        const args = toLeoInputs(toIntegerInputs(metrics, NOW));
+
+        // Mirrors contract/inputs/credit_score.in
+        expect(args).toEqual([
+            '150u64',
+            '18u64',
+            '60u64',
+            '95u64',
+            '250000u64',
+            '3u64',
+            '250000u64',
+            '0u64',
+            '0u64',
+        ]);
+        expect(ScoringEngine.calculateScore(metrics).finalScore).toBe(805);
+        expect(leo.generate_score(args)).toBe(805n);
+    });
+
+    it.each([
+        // [tx, age, defi, repay, balance, days, expected]
+        [0, 0, 0, 0, 0, 0, 314],
+        [0, 0, 0, 0, 0, 200, 300],
+        [200, 24, 100, 100, 1000000, 1, 850],
+        [4, 2, 19, 59, 999, 45, 469],
+        [25, 12, 40, 80, 10000, 100, 670],
+    ])(
+        'should score golden vector tx=%i age=%i defi=%i repay=%i balance=%i days=%i as %i',
+        (tx, age, defi, repay, balance, days, expected) => {
+            const metrics: WalletMetrics = {
+                address: 'aleo1vector',
+                transactionCount: tx,
+                walletAgeMonths: age,
+                defiScore: defi,
+                repaymentRate: repay,
+                tokenBalance: balance,
+                lastTransactionDate: NOW - days * DAY_MS,
+            };
+
+            const assessment = ScoringEngine.calculateScore(metrics, integerModel);
+
+            expect(assessment.finalScore).toBe(expected);
+            expect(leo.generate_score(toLeoInputs(toIntegerInputs(metrics, NOW)))).toBe(
+                BigInt(expected)
+            );
+        }
+    );
+
+    it('should score the stable balance less volatility points', () => {
+        const metrics: WalletMetrics = {
+            address: 'aleo1stability',
+            transactionCount: 150,
+            walletAgeMonths: 18,
+            defiScore: 60,
+            repaymentRate: 95,
+            tokenBalance: 250000,
+            lastTransactionDate: NOW - 3 * DAY_MS,
+            // Stable balance 250000 (tier 80), volatility 6000 bps (-15)
+            balanceHistory: balanceHistory(400000, 100000, 0.6),
+        };
+
+        const inputs = toIntegerInputs(metrics, NOW);
+        const assessment = ScoringEngine.calculateScore(metrics, integerModel);
+
+        expect(inputs).toMatchObject({ stableBalance: 250000, volatilityBps: 6000 });
+        expect(assessment.finalScore).toBe(796);
+        expect(leo.generate_score(toLeoInputs(inputs))).toBe(796n);
+    });
+
+    it('should weigh recent repayments and take event penalties off the score', () => {
+        const repaymentHistory = LoanLedger.summarize(
+            [
+                loan('old-late', 'repaid', 700, 10),
+                loan('recent', 'repaid', 10),
+                loan('liquidated', 'liquidated', 0),
+            ],
+            HEIGHT
+        );
+        const metrics: WalletMetrics = {
+            address: 'aleo1ledger',
+            transactionCount: 150,
+            walletAgeMonths: 18,
+            defiScore: 60,
+            repaymentRate: LoanLedger.repaymentRate(repaymentHistory),
+            tokenBalance: 250000,
+            lastTransactionDate: NOW - 3 * DAY_MS,
+            repaymentHistory,
+        };
+
+        const inputs = toIntegerInputs(metrics, NOW);
+        const assessment = ScoringEngine.calculateScore(metrics, integerModel);
+
+        // Plain on-time rate 33%, weighted 44%; the fresh liquidation costs 40
+        expect(metrics.repaymentRate).toBe(33);
+        expect(inputs).toMatchObject({ repaymentRate: 44, penaltyPoints: 40 });
+        expect(assessment.eventPenalties?.map((p) => p.points)).toEqual([40]);
+        expect(assessment.finalScore).toBe(668);
+        expect(leo.generate_score(toLeoInputs(inputs))).toBe(668n);
+    });
+
+    it('should never take event penalties below the base score', () => {
+        const repaymentHistory = LoanLedger.summarize(
+            [loan('a', 'defaulted', 0), loan('b', 'defaulted', 1), loan('c', 'liquidated', 2)],
+            HEIGHT
+        );
+        const metrics: WalletMetrics = {
+            address: 'aleo1defaults',
+            transactionCount: 0,
+            walletAgeMonths: 0,
+            defiScore: 0,
+            repaymentRate: 0,
+            tokenBalance: 0,
+            lastTransactionDate: NOW,
+            repaymentHistory,
+        };
+
+        const inputs = toIntegerInputs(metrics, NOW);
+
+        // The cap (200) is committed; the circuit takes off at most the bonus (14)
+        expect(inputs.penaltyPoints).toBe(200);
+        expect(ScoringEngine.calculateScore(metrics, integerModel).finalScore).toBe(300);
+        expect(leo.generate_score(toLeoInputs(inputs))).toBe(300n);
+    });
+
+    it('should replay v1 assessments without histories', () => {
+        const metrics = generateMetrics(1, 7)[0]!;
+        const assessment = ScoringEngine.calculateScore(metrics, integerModelV1);
+        const plain: WalletMetrics = {
+            ...metrics,
+            balanceHistory: undefined,
+            repaymentHistory: undefined,
+        };
+
+        expect(scoringModelRegistry.get('proofscore-integer', '1.0.0')).toBe(integerModelV1);
+        expect(assessment.finalScore).toBe(
+            ScoringEngine.calculateScore(plain, integerModel).finalScore
+        );
+    });
+
+    it('should agree with the Leo transition on generated inputs', () => {
+        const population = generateMetrics(750, 0x5eed);
+        const mismatches: string[] = [];
+
+        for (const metrics of population) {
+            const tsScore = ScoringEngine.calculateScore(metrics, integerModel).finalScore;
+            const args = toLeoInputs(toIntegerInputs(metrics, NOW));
+            const leoScore = Number(leo.generate_score(args));
+
+            if (tsScore !== leoScore) {
+                mismatches.push(`${args.join(' ')} => ts=${tsScore} leo=${leoScore}`);
+            }
+        }
+
+        expect(mismatches).toEqual([]);
+    });
+
+    it('should only produce integer factor scores and bonus points', () => {
+        for (const metrics of generateMetrics(200, 42)) {
+            const assessment = ScoringEngine.calculateScore(metrics, integerModel);
+            const factors = ScoringEngine.getFactorAnalysis(assessment);
+
+            expect(Number.isInteger(assessment.bonusPoints)).toBe(true);
+            factors.forEach((factor) => expect(Number.isInteger(factor.score)).toBe(true));
+        }
+    });
+});
@@ -0,0 +1,113 @@
+/**
+ * Provenance Unit Tests
+ */
+
+import {
+    METRIC_FIELDS,
+    fallbackFields,
+    fallbackProvenance,
+    markCached,
+    markPartial,
+    partialFields,
+    uniformProvenance,
+} from '../Provenance';
+import { ScoringEngine } from '../ScoringEngine';
+import type { FieldProvenance, WalletMetrics } from '@/types/sdk';
+
+describe('Provenance', () => {
+    const explorer: FieldProvenance = {
+        source: 'aleo-explorer',
+        fetchedAt: 1760702400000,
+        blockHeight: 4250000,
+        status: 'real',
+    };
+
+    describe('uniformProvenance', () => {
+        it('should give every metric field the same provenance', () => {
+            const provenance = uniformProvenance(explorer);
+
+            expect(Object.keys(provenance).sort()).toEqual([...METRIC_FIELDS].sort());
+            expect(provenance.defiScore).toEqual(explorer);
+            expect(provenance.defiScore).not.toBe(provenance.repaymentRate);
+        });
+    });
+
+    describe('markCached', () => {
+        it('should mark real values as cached and keep fallbacks', () => {
+            const provenance = {
+                ...uniformProvenance(explorer),
+                defiScore: fallbackProvenance(1760702400000),
+            };
+
+            const cached = markCached(provenance);
+
+            expect(cached.transactionCount).toEqual({ ...explorer, status: 'cached' });
+            expect(cached.defiScore.status).toBe('fallback');
+            expect(provenance.transactionCount.status).toBe('real');
+        });
+
+        it('should mark real values past their TTL as stale', () => {
+            const cached = markCached(uniformProvenance(explorer), ['tokenBalance']);
+
+            expect(cached.tokenBalance.status).toBe('stale');
+            expect(cached.walletAgeMonths.status).toBe('cached');
+        });
+    });
+
+    describe('fallbackFields', () => {
+        it('should list the estimated fields', () => {
+            const provenance = {
+                ...uniformProvenance(explorer),
+                repaymentRate: fallbackProvenance(),
+                defiScore: fallbackProvenance(),
+            };
+
+            expect(fallbackFields({ provenance })).toEqual(['defiScore', 'repaymentRate']);
+            expect(fallbackFields({ provenance: uniformProvenance(explorer) })).toEqual([]);
+            expect(fallbackFields({})).toEqual([]);
+        });
+    });
+
+    describe('markPartial', () => {
+        it('should mark the real history fields as partial', () => {
+            const provenance = markPartial({
+                ...uniformProvenance(explorer),
+                repaymentRate: fallbackProvenance(),
+            });
+
+            expect(partialFields({ provenance })).toEqual([
+                'transactionCount',
+                'walletAgeMonths',
+                'defiScore',
+            ]);
+            expect(provenance.tokenBalance).toEqual(explorer);
+            expect(partialFields({ provenance: uniformProvenance(explorer) })).toEqual([]);
+        });
+
+        it('should keep the partial flag on cache hits', () => {
+            const cached = markCached(markPartial(uniformProvenance(explorer)));
+
+            expect(cached.walletAgeMonths).toMatchObject({ status: 'cached', partial: true });
+        });
+    });
+
+    describe('CreditAssessment', () => {
+        it('should carry the provenance of the scored metrics', () => {
+            const metrics: WalletMetrics = {
+                address: 'aleo1test123',
+                transactionCount: 25,
+                walletAgeMonths: 12,
+                defiScore: 65,
+                repaymentRate: 85,
+                tokenBalance: 10000,
+                lastTransactionDate: Date.now(),
+                provenance: uniformProvenance(fallbackProvenance()),
+            };
+
+            const assessment = ScoringEngine.calculateScore(metrics);
+
+            expect(assessment.provenance).toBe(metrics.provenance);
+            expect(fallbackFields(assessment)).toEqual(METRIC_FIELDS);
+        });
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * ScoringModelRegistry Unit Tests
+ * Covers model registration, version resolution and engine integration
+ */
+
+import { ScoringModelRegistry, scoringModelRegistry } from '../ScoringModelRegistry';
+import { ScoringEngine } from '../ScoringEngine';
+import { tieredModel } from '../models/TieredModel';
+import type { ScoringModel, WalletMetrics } from '@/types/sdk';
+
+function flatModel(version: string, factorScore: number): ScoringModel {
+    return {
+        id: 'flat',
+        version,
+        description: 'Single factor returning a constant',
+        factors: [
+            {
+                id: 'constant',
+                name: 'Constant',
+                weight: 1,
+                score: () => factorScore,
+                describe: () => `always ${factorScore}`,
+            },
+        ],
+    };
+}
+
+describe('ScoringModelRegistry', () => {
+    let registry: ScoringModelRegistry;
+
+    const metrics: WalletMetrics = {
+        address: 'aleo1models',
+        transactionCount: 40,
+        walletAgeMonths: 12,
+        defiScore: 50,
+        repaymentRate: 90,
+        tokenBalance: 20000,
+        lastTransactionDate: Date.now(),
+    };
+
+    beforeEach(() => {
+        registry = new ScoringModelRegistry();
+    });
+
+    describe('register', () => {
+        it('should make the first registered model the default', () => {
+            registry.register(flatModel('1.0.0', 50));
+            registry.register(tieredModel);
+
+            expect(registry.getDefault().id).toBe('flat');
+        });
+
+        it('should reject duplicate id and version', () => {
+            registry.register(flatModel('1.0.0', 50));
+
+            expect(() => registry.register(flatModel('1.0.0', 60))).toThrow('already registered');
+        });
+
+        it('should reject weights that do not sum to 1', () => {
+            const model = flatModel('1.0.0', 50);
+            const invalid: ScoringModel = {
+                ...model,
+                factors: [{ ...model.factors[0]!, weight: 0.5 }],
+            };
+
+            expect(() => registry.register(invalid)).toThrow('expected 1');
+        });
+
+        it('should reject non-semver versions', () => {
+            expect(() => registry.register(flatModel('v1', 50))).toThrow('invalid version');
+        });
+    });
+
+    describe('get', () => {
+        it('should resolve the latest version when none is given', () => {
+            registry.register(flatModel('1.2.0', 10));
+            registry.register(flatModel('1.10.0', 20));
+            registry.register(flatModel('2.0.0-beta.1', 30));
+
+            expect(registry.get('flat').version).toBe('2.0.0-beta.1');
+            expect(registry.get('flat', '1.2.0').version).toBe('1.2.0');
+        });
+
+        it('should throw for unknown models and versions', () => {
+            registry.register(flatModel('1.0.0', 10));
+
+            expect(() => registry.get('missing')).toThrow('Unknown scoring model');
+            expect(() => registry.get('flat', '9.9.9')).toThrow('has no version');
+        });
+    });
+
+    describe('compareVersions', () => {
+        it('should order releases after their pre-releases', () => {
+            expect(ScoringModelRegistry.compareVersions('1.0.0-rc.1', '1.0.0')).toBeLessThan(0);
+            expect(ScoringModelRegistry.compareVersions('1.0.10', '1.0.9')).toBeGreaterThan(0);
+            expect(ScoringModelRegistry.compareVersions('2.0.0', '2.0.0')).toBe(0);
+        });
+
+        it('should order pre-release identifiers as SemVer does', () => {
+            const ordered = [
+                '1.0.0-alpha',
+                '1.0.0-alpha.1',
+                '1.0.0-alpha.2',
+                '1.0.0-alpha.10',
+                '1.0.0-alpha.beta',
+                '1.0.0-beta',
+                '1.0.0-beta.11',
+                '1.0.0-rc.1',
+                '1.0.0',
+            ];
+            const shuffled = [...ordered].reverse();
+
+            expect(shuffled.sort(ScoringModelRegistry.compareVersions)).toEqual(ordered);
+        });
+    });
+
+    describe('ScoringEngine integration', () => {
+        it('should record the default model on the assessment', () => {
+            const assessment = ScoringEngine.calculateScore(metrics);
+
+            expect(assessment.model).toEqual({ id: 'proofscore-integer', version: '2.0.0' });
+            expect(scoringModelRegistry.list()).toContainEqual({
+                id: tieredModel.id,
+                version: tieredModel.version,
+            });
+        });
+
+        it('should score with a chosen model', () => {
+            const assessment = ScoringEngine.calculateScore(metrics, flatModel('1.0.0', 50));
+
+            // 300 + 50% of 550
+            expect(assessment.finalScore).toBe(575);
+            expect(assessment.model).toEqual({ id: 'flat', version: '1.0.0' });
+        });
+
+        it('should analyse factors with the model that produced the assessment', () => {
+            scoringModelRegistry.register(flatModel('0.1.0', 80));
+            const assessment = ScoringEngine.calculateScore(
+                metrics,
+                scoringModelRegistry.get('flat', '0.1.0')
+            );
+
+            const factors = ScoringEngine.getFactorAnalysis(assessment);
+
+            expect(factors).toHaveLength(1);
+            expect(factors[0]).toMatchObject({ name: 'Constant', score: 80, weight: 1 });
+        });
+    });
+});
@@ -0,0 +1,100 @@
+/**
+ * Balance History
+ *
+ * Rebuilds a wallet's public credits.aleo balance at a fixed block
+ * interval (daily over 180 days by default) by walking back from the
+ * current balance through the balance changes a MetricsSource read, and
+ * summarizes it as average, minimum and volatility. Balance stability is
+ * scored on these instead of the instantaneous balance, so funds held
+ * for a moment do not count as a stable balance.
+ *
+ * @module lib/sdk/balance/BalanceHistory
+ */
+
+import { BALANCE_HISTORY, EXPLORER_API } from '@/lib/constants';
+import type { BalanceChange, BalanceHistory, BalanceSample } from '@/types/sdk';
+
+export interface BalanceHistoryOptions {
+    samples?: number; // Number of samples (default: BALANCE_HISTORY.SAMPLES)
+    intervalBlocks?: number; // Blocks between samples (default: BALANCE_HISTORY.INTERVAL_BLOCKS)
+}
+
+/**
+ * Blocks a history looks back over
+ *
+ * @param options - Sampling options
+ */
+export function historyWindowBlocks(options: BalanceHistoryOptions = {}): number {
+    const samples = options.samples ?? BALANCE_HISTORY.SAMPLES;
+    const intervalBlocks = options.intervalBlocks ?? BALANCE_HISTORY.INTERVAL_BLOCKS;
+    return (samples - 1) * intervalBlocks;
+}
+
+/**
+ * Sample a wallet's public balance history
+ * The balance at a height is the current balance minus every change made
+ * after it. Heights before the chain start and negative balances (from
+ * changes the source could not read) are clamped to 0.
+ *
+ * @param balance - Current public balance (microcredits)
+ * @param changes - Balance changes, in any order
+ * @param blockHeight - Height the balance was read at
+ * @param options - Sampling options
+ * @returns Samples (in credits), oldest first, with their statistics
+ */
+export function buildBalanceHistory(
+    balance: number,
+    changes: BalanceChange[],
+    blockHeight: number,
+    options: BalanceHistoryOptions = {}
+): BalanceHistory {
+    const samples = options.samples ?? BALANCE_HISTORY.SAMPLES;
+    const intervalBlocks = options.intervalBlocks ?? BALANCE_HISTORY.INTERVAL_BLOCKS;
+
+    // Newest first, so each sample undoes only the changes after it
+    const newestFirst = [...changes].sort((a, b) => b.blockHeight - a.blockHeight);
+    const history: BalanceSample[] = [];
+    let current = balance;
+    let next = 0;
+
+    for (let i = 0; i < samples; i++) {
+        const height = blockHeight - i * intervalBlocks;
+        if (height < 0) break;
+
+        while (next < newestFirst.length && newestFirst[next]!.blockHeight > height) {
+            current -= newestFirst[next]!.delta;
+            next++;
+        }
+        history.push({
+            blockHeight: height,
+            balance: Math.max(0, current) / EXPLORER_API.MICROCREDITS_PER_CREDIT,
+        });
+    }
+    history.reverse();
+
+    return summarizeBalanceSamples(history, intervalBlocks);
+}
+
+/**
+ * Average, minimum and volatility of balance samples
+ *
+ * @param samples - Samples (in credits), oldest first
+ * @param intervalBlocks - Blocks between samples
+ */
+export function summarizeBalanceSamples(
+    samples: BalanceSample[],
+    intervalBlocks: number
+): BalanceHistory {
+    const balances = samples.map((sample) => sample.balance);
+    const average = balances.reduce((sum, b) => sum + b, 0) / (balances.length || 1);
+    const variance =
+        balances.reduce((sum, b) => sum + (b - average) ** 2, 0) / (balances.length || 1);
+
+    return {
+        samples,
+        intervalBlocks,
+        average,
+        minimum: balances.length ? Math.min(...balances) : 0,
+        volatility: average > 0 ? Math.sqrt(variance) / average : 0,
+    };
+}
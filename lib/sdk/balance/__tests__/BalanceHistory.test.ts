@@ -0,0 +1,121 @@
+/**
+ * BalanceHistory Unit Tests
+ * Balance sampling, statistics and the tiered balance stability factor
+ */
+
+import { buildBalanceHistory, historyWindowBlocks } from '../BalanceHistory';
+import { tieredModel } from '../../models/TieredModel';
+import { BALANCE_HISTORY } from '@/lib/constants';
+import type { BalanceHistory, WalletMetrics } from '@/types/sdk';
+
+const CREDIT = 1_000_000;
+const DAY = BALANCE_HISTORY.INTERVAL_BLOCKS;
+
+describe('BalanceHistory', () => {
+    describe('historyWindowBlocks', () => {
+        it('should span the intervals between the samples', () => {
+            expect(historyWindowBlocks()).toBe((BALANCE_HISTORY.SAMPLES - 1) * DAY);
+            expect(historyWindowBlocks({ samples: 7, intervalBlocks: 100 })).toBe(600);
+        });
+    });
+
+    describe('buildBalanceHistory', () => {
+        it('should hold a constant balance without changes', () => {
+            const history = buildBalanceHistory(5000 * CREDIT, [], 10_000_000, { samples: 30 });
+
+            expect(history.samples).toHaveLength(30);
+            expect(history.samples[29]).toEqual({ blockHeight: 10_000_000, balance: 5000 });
+            expect(history.samples[0]!.blockHeight).toBe(10_000_000 - 29 * DAY);
+            expect(history).toMatchObject({ average: 5000, minimum: 5000, volatility: 0 });
+        });
+
+        it('should undo changes made after each sample', () => {
+            const height = 10_000_000;
+            const history = buildBalanceHistory(
+                150 * CREDIT,
+                [
+                    { transitionId: 'au1in', blockHeight: height - 2 * DAY + 1, delta: 100 * CREDIT },
+                    { transitionId: 'au1out', blockHeight: height - DAY + 1, delta: -50 * CREDIT },
+                ],
+                height,
+                { samples: 4 }
+            );
+
+            expect(history.samples.map((s) => s.balance)).toEqual([100, 100, 200, 150]);
+            expect(history.average).toBe(137.5);
+            expect(history.minimum).toBe(100);
+        });
+
+        it('should not count a balance borrowed just before the read as stable', () => {
+            const height = 10_000_000;
+            const history = buildBalanceHistory(
+                1_000_000 * CREDIT,
+                [{ transitionId: 'au1loan', blockHeight: height - 10, delta: 1_000_000 * CREDIT }],
+                height
+            );
+
+            expect(history.minimum).toBe(0);
+            expect(history.average).toBeCloseTo(1_000_000 / BALANCE_HISTORY.SAMPLES);
+            expect(history.volatility).toBeGreaterThan(1);
+        });
+
+        it('should stop at the chain start and clamp negative balances', () => {
+            const history = buildBalanceHistory(
+                0,
+                [{ transitionId: 'au1unknown', blockHeight: 2 * DAY, delta: 10 * CREDIT }],
+                2 * DAY + 5
+            );
+
+            expect(history.samples.map((s) => s.balance)).toEqual([0, 0, 0]);
+            expect(history.volatility).toBe(0);
+        });
+    });
+
+    describe('tiered balance stability factor', () => {
+        const balance = tieredModel.factors.find((f) => f.id === 'balance')!;
+        const metrics: WalletMetrics = {
+            address: 'aleo1balance',
+            transactionCount: 40,
+            walletAgeMonths: 12,
+            defiScore: 50,
+            repaymentRate: 90,
+            tokenBalance: 1_000_000,
+            lastTransactionDate: Date.now(),
+        };
+        const score = (balanceHistory?: Partial<BalanceHistory>) =>
+            balance.score(
+                balanceHistory
+                    ? {
+                        ...metrics,
+                        balanceHistory: {
+                            samples: [],
+                            intervalBlocks: DAY,
+                            average: 1_000_000,
+                            minimum: 1_000_000,
+                            volatility: 0,
+                            ...balanceHistory,
+                        },
+                    }
+                    : metrics,
+                { now: Date.now() }
+            );
+
+        it('should score the current balance without a history', () => {
+            expect(score()).toBe(100);
+        });
+
+        it('should score a steady balance like the current one', () => {
+            expect(score({})).toBe(100);
+        });
+
+        it('should tier on average and minimum balance', () => {
+            expect(score({ average: 200_000, minimum: 0 })).toBe(80);
+        });
+
+        it('should lower the score for volatility', () => {
+            expect(score({ volatility: 0.3 })).toBe(95);
+            expect(score({ volatility: 0.6 })).toBe(85);
+            expect(score({ volatility: 2 })).toBe(70);
+        });
+    });
+});
@@ -0,0 +1,123 @@
+/**
+ * Batch Scorer
+ *
+ * Scores many addresses at once for risk teams. Addresses are
+ * deduplicated, scored by a bounded pool of workers and streamed back as
+ * an async iterator in completion order. An address that fails is
+ * reported as a failed result; the rest of the batch carries on.
+ *
+ * The rate limit is on explorer requests, not addresses: one address
+ * takes many requests, so the aggregator's source paces them (see the
+ * rateLimiter option of DataAggregator and AleoExplorerSource).
+ *
+ * @module lib/sdk/batch/BatchScorer
+ */
+
+import { DataAggregator } from '../DataAggregator';
+import { ScoringEngine } from '../ScoringEngine';
+import { scoringModelRegistry } from '../ScoringModelRegistry';
+import { BATCH_CONFIG } from '@/lib/constants';
+import type { BatchScoreOptions, BatchScoreResult, ScoringModel } from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+export class BatchScorer {
+    private aggregator: DataAggregator;
+
+    /**
+     * @param aggregator - Metrics source for every address (and its rate limit)
+     */
+    constructor(aggregator: DataAggregator) {
+        this.aggregator = aggregator;
+    }
+
+    /**
+     * Score many addresses, yielding each result as soon as it is ready
+     * At most `concurrency` results are in flight or waiting to be read,
+     * so a slow consumer slows the batch down instead of buffering it.
+     * Breaking out of the loop stops scoring new addresses.
+     *
+     * @param addresses - Addresses to score (duplicates are scored once)
+     * @param options - Concurrency and model
+     * @throws SDKError INVALID_CONFIG for a non-positive concurrency
+     * @throws SDKError MODEL_NOT_FOUND for an unknown model
+     *
+     * @example
+     * for await (const result of scorer.scoreMany(addresses, { concurrency: 4 })) {
+     *   if (result.status === 'failed') console.warn(result.address, result.error.code);
+     * }
+     */
+    async *scoreMany(
+        addresses: Iterable<string>,
+        options: BatchScoreOptions = {}
+    ): AsyncGenerator<BatchScoreResult> {
+        const concurrency = options.concurrency ?? BATCH_CONFIG.CONCURRENCY;
+        if (!Number.isSafeInteger(concurrency) || concurrency <= 0) {
+            throw new SDKError(`Invalid batch concurrency: ${concurrency}`, 'INVALID_CONFIG');
+        }
+
+        const model = options.model
+            ? scoringModelRegistry.get(options.model.id, options.model.version)
+            : scoringModelRegistry.getDefault();
+
+        const queue = [...new Set([...addresses].map((address) => address.trim()))];
+        const ready: BatchScoreResult[] = [];
+        let next = 0;
+        let running = 0;
+        let stopped = false;
+        let wake: (() => void) | null = null;
+
+        const launch = () => {
+            while (!stopped && next < queue.length && running + ready.length < concurrency) {
+                const address = queue[next++]!;
+                running++;
+                void this.scoreOne(address, model).then((result) => {
+                    running--;
+                    ready.push(result);
+                    wake?.();
+                });
+            }
+        };
+
+        try {
+            let yielded = 0;
+            launch();
+            while (yielded < queue.length) {
+                if (ready.length === 0) {
+                    await new Promise<void>((resolve) => {
+                        wake = resolve;
+                    });
+                    wake = null;
+                }
+                while (ready.length > 0) {
+                    yield ready.shift()!;
+                    yielded++;
+                    launch();
+                }
+            }
+        } finally {
+            stopped = true;
+        }
+    }
+
+    /**
+     * Fetch and score one address, capturing any failure
+     */
+    private async scoreOne(address: string, model: ScoringModel): Promise<BatchScoreResult> {
+        const startedAt = Date.now();
+        try {
+            const metrics = await this.aggregator.fetchWalletMetrics(address);
+            const assessment = ScoringEngine.calculateScore(metrics, model);
+            return { address, status: 'scored', assessment, durationMs: Date.now() - startedAt };
+        } catch (error) {
+            return {
+                address,
+                status: 'failed',
+                error: {
+                    code: error instanceof SDKError ? error.code : 'UNKNOWN_ERROR',
+                    message: error instanceof Error ? error.message : String(error),
+                },
+                durationMs: Date.now() - startedAt,
+            };
+        }
+    }
+}
@@ -0,0 +1,44 @@
+/**
+ * Rate Limiter
+ *
+ * Spaces out work to a fixed rate shared by every caller: each `acquire`
+ * resolves one interval (1000 / requestsPerSecond ms) after the previous
+ * one. Share one limiter between batches to keep them under a single
+ * global limit.
+ *
+ * @module lib/sdk/batch/RateLimiter
+ */
+
+import { SDKError } from '@/types/sdk';
+
+export class RateLimiter {
+    private intervalMs: number;
+    private nextSlot = 0;
+
+    /**
+     * @param requestsPerSecond - Acquisitions allowed per second
+     * @throws SDKError INVALID_CONFIG unless requestsPerSecond is positive
+     */
+    constructor(requestsPerSecond: number) {
+        if (!(requestsPerSecond > 0) || !Number.isFinite(requestsPerSecond)) {
+            throw new SDKError(
+                `Invalid rate limit: ${requestsPerSecond} requests per second`,
+                'INVALID_CONFIG'
+            );
+        }
+        this.intervalMs = 1000 / requestsPerSecond;
+    }
+
+    /**
+     * Wait for the next free slot
+     */
+    async acquire(): Promise<void> {
+        const now = Date.now();
+        const slot = Math.max(now, this.nextSlot);
+        this.nextSlot = slot + this.intervalMs;
+
+        if (slot > now) {
+            await new Promise((resolve) => setTimeout(resolve, slot - now));
+        }
+    }
+}
@@ -0,0 +1,93 @@
+/**
+ * BatchExport Unit Tests
+ * CSV and JSONL rows for scored and failed addresses
+ */
+
+import {
+    BATCH_EXPORT_COLUMNS,
+    exportBatchResults,
+    exportBatchResultsToString,
+} from '../BatchExport';
+import { ScoringEngine } from '../../ScoringEngine';
+import { fallbackProvenance, uniformProvenance } from '../../Provenance';
+import type { BatchScoreResult, WalletMetrics } from '@/types/sdk';
+
+const metrics: WalletMetrics = {
+    address: 'aleo1scored',
+    transactionCount: 40,
+    walletAgeMonths: 12,
+    defiScore: 50,
+    repaymentRate: 90,
+    tokenBalance: 20000,
+    lastTransactionDate: Date.now(),
+    provenance: {
+        ...uniformProvenance({
+            source: 'aleo-explorer',
+            fetchedAt: 1760702400000,
+            blockHeight: 4250000,
+            status: 'real',
+        }),
+        defiScore: fallbackProvenance(1760702400000),
+    },
+};
+
+const assessment = ScoringEngine.calculateScore(metrics);
+
+const results: BatchScoreResult[] = [
+    { address: 'aleo1scored', status: 'scored', assessment, durationMs: 12 },
+    {
+        address: '=HYPERLINK("x")',
+        status: 'failed',
+        error: { code: 'RPC_ERROR', message: 'Invalid Aleo address format, "quoted"' },
+        durationMs: 1,
+    },
+];
+
+describe('BatchExport', () => {
+    it('should write a CSV header and one row per result', async () => {
+        const csv = await exportBatchResultsToString(results, 'csv');
+        const lines = csv.trimEnd().split('\n');
+
+        expect(lines[0]).toBe(BATCH_EXPORT_COLUMNS.join(','));
+        expect(lines[1]).toBe(
+            `aleo1scored,scored,${assessment.finalScore},${assessment.riskLevel},` +
+            `${assessment.model.id}@${assessment.model.version},40,12,50,90,20000,defiScore,,,12`
+        );
+    });
+
+    it('should quote CSV fields and defuse formulas', async () => {
+        const csv = await exportBatchResultsToString(results, 'csv');
+
+        expect(csv.split('\n')[2]).toBe(
+            `"'=HYPERLINK(""x"")",failed,,,,,,,,,,RPC_ERROR,` +
+            '"Invalid Aleo address format, ""quoted""",1'
+        );
+    });
+
+    it('should write one JSON object per line', async () => {
+        const jsonl = await exportBatchResultsToString(results, 'jsonl');
+        const rows = jsonl.trimEnd().split('\n').map((line) => JSON.parse(line));
+
+        expect(rows).toHaveLength(2);
+        expect(rows[0]).toMatchObject({ address: 'aleo1scored', finalScore: assessment.finalScore });
+        expect(rows[1]).toMatchObject({ status: 'failed', errorCode: 'RPC_ERROR', finalScore: null });
+    });
+
+    it('should stream from async iterators', async () => {
+        async function* stream() {
+            yield* results;
+        }
+        const lines: string[] = [];
+
+        for await (const line of exportBatchResults(stream(), 'jsonl')) lines.push(line);
+
+        expect(lines).toHaveLength(2);
+        expect(lines.every((line) => line.endsWith('\n'))).toBe(true);
+    });
+
+    it('should reject unknown formats', async () => {
+        await expect(
+            exportBatchResultsToString(results, 'xml' as 'csv')
+        ).rejects.toMatchObject({ code: 'INVALID_FORMAT' });
+    });
+});
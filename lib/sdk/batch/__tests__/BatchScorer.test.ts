@@ -0,0 +1,166 @@
+/**
+ * BatchScorer Unit Tests
+ * Deduplication, bounded concurrency, per-address failures and the rate limiter
+ */
+
+import { BatchScorer } from '../BatchScorer';
+import { RateLimiter } from '../RateLimiter';
+import { DataAggregator } from '../../DataAggregator';
+import { LoanLedger } from '../../lending/LoanLedger';
+import type { BatchScoreResult, MetricsSource } from '@/types/sdk';
+
+let active = 0;
+let peak = 0;
+let reads: string[] = [];
+
+const slowSource: MetricsSource = {
+    id: 'fixture',
+    fetchActivity: async (address) => {
+        reads.push(address);
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+
+        if (address.endsWith('down')) throw new Error('explorer down');
+        return {
+            address,
+            transactionCount: address.length,
+            firstSeen: Date.now() - 1000 * 60 * 60 * 24 * 30 * 12,
+            lastActivity: Date.now(),
+            balance: 5000000000,
+            transitions: [],
+            blockHeight: 4250000,
+        };
+    },
+};
+
+async function collect(results: AsyncIterable<BatchScoreResult>): Promise<BatchScoreResult[]> {
+    const collected: BatchScoreResult[] = [];
+    for await (const result of results) collected.push(result);
+    return collected;
+}
+
+describe('BatchScorer', () => {
+    let scorer: BatchScorer;
+
+    beforeEach(() => {
+        active = 0;
+        peak = 0;
+        reads = [];
+        scorer = new BatchScorer(
+            new DataAggregator(undefined, undefined, slowSource, {
+                strict: true,
+                cache: false,
+                loanLedger: new LoanLedger([
+                    {
+                        program: 'test_lending.aleo',
+                        protocol: 'Test Lending',
+                        functions: { borrow: 'borrow', repay: 'repay' },
+                    },
+                ]),
+            })
+        );
+    });
+
+    it('should score every distinct address once', async () => {
+        const results = await collect(
+            scorer.scoreMany(['aleo1one', 'aleo1two', ' aleo1one ', 'aleo1two'])
+        );
+
+        expect(results.map((r) => r.address).sort()).toEqual(['aleo1one', 'aleo1two']);
+        expect(reads.sort()).toEqual(['aleo1one', 'aleo1two']);
+        expect(results.every((r) => r.status === 'scored')).toBe(true);
+    });
+
+    it('should keep at most `concurrency` reads in flight', async () => {
+        const addresses = Array.from({ length: 12 }, (_, i) => `aleo1wallet${i}`);
+
+        const results = await collect(
+            scorer.scoreMany(addresses, { concurrency: 3 })
+        );
+
+        expect(results).toHaveLength(12);
+        expect(peak).toBeLessThanOrEqual(3);
+        expect(peak).toBeGreaterThan(1);
+    });
+
+    it('should report failures without aborting the batch', async () => {
+        const results = await collect(
+            scorer.scoreMany(['aleo1up', 'aleo1down', 'invalid'])
+        );
+        const byAddress = Object.fromEntries(results.map((r) => [r.address, r]));
+
+        expect(byAddress['aleo1up']!.status).toBe('scored');
+        expect(byAddress['aleo1down']).toMatchObject({
+            status: 'failed',
+            error: { code: 'RPC_ERROR' },
+        });
+        expect(byAddress['invalid']).toMatchObject({
+            status: 'failed',
+            error: { code: 'RPC_ERROR', message: 'Invalid Aleo address format' },
+        });
+    });
+
+    it('should score with the requested model', async () => {
+        const [result] = await collect(
+            scorer.scoreMany(['aleo1model'], { model: { id: 'proofscore-integer' } })
+        );
+
+        expect(result!.status === 'scored' && result!.assessment.model.id).toBe(
+            'proofscore-integer'
+        );
+    });
+
+    it('should stop scoring new addresses when the consumer stops', async () => {
+        const addresses = Array.from({ length: 20 }, (_, i) => `aleo1early${i}`);
+
+        for await (const result of scorer.scoreMany(addresses, { concurrency: 2 })) {
+            expect(result.status).toBe('scored');
+            break;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 20));
+
+        expect(reads.length).toBeLessThanOrEqual(3);
+    });
+
+    it('should reject invalid options before scoring', async () => {
+        await expect(collect(scorer.scoreMany(['aleo1one'], { concurrency: 0 }))).rejects.toThrow(
+            expect.objectContaining({ code: 'INVALID_CONFIG' })
+        );
+        await expect(
+            collect(scorer.scoreMany(['aleo1one'], { model: { id: 'no-such-model' } }))
+        ).rejects.toThrow(expect.objectContaining({ code: 'MODEL_NOT_FOUND' }));
+        expect(reads).toEqual([]);
+    });
+});
+
+describe('RateLimiter', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should space acquisitions one interval apart', async () => {
+        const limiter = new RateLimiter(4); // one every 250ms
+        const acquiredAt: number[] = [];
+        const start = Date.now();
+
+        const all = Promise.all(
+            [0, 1, 2].map(() => limiter.acquire().then(() => acquiredAt.push(Date.now() - start)))
+        );
+        await jest.advanceTimersByTimeAsync(1000);
+        await all;
+
+        expect(acquiredAt).toEqual([0, 250, 500]);
+    });
+
+    it('should reject non-positive rates', () => {
+        expect(() => new RateLimiter(0)).toThrow(
+            expect.objectContaining({ code: 'INVALID_CONFIG' })
+        );
+    });
+});
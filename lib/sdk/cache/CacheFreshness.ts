@@ -0,0 +1,77 @@
+/**
+ * Metrics Cache Freshness
+ *
+ * Decides whether cached wallet metrics can be served. Each metric field
+ * has its own TTL, measured from the time its value was read (its
+ * provenance `fetchedAt`):
+ * - fresh: every field is within its TTL
+ * - stale: some field is past its TTL but within the stale-while-revalidate
+ *   window; the entry is served and refreshed in the background
+ * - expired: some field is past both; the entry is refetched before serving
+ *
+ * Entries estimated because the source failed keep every field for at most
+ * CACHE_CONFIG.FALLBACK_TTL, so the source is retried soon instead of an
+ * estimate being served like real data.
+ *
+ * @module lib/sdk/cache/CacheFreshness
+ */
+
+import { CACHE_CONFIG } from '@/lib/constants';
+import { METRIC_FIELDS } from '../Provenance';
+import type { CachedMetrics, MetricField } from '@/types/sdk';
+
+export type FieldTTLs = Record<MetricField, number>;
+
+export type CacheState = 'fresh' | 'stale' | 'expired';
+
+export interface CacheFreshness {
+    state: CacheState;
+    staleFields: MetricField[]; // Fields past their TTL (empty when fresh)
+}
+
+/**
+ * TTL of every metric field
+ *
+ * @param ttl - TTL for all fields (default: CACHE_CONFIG.FIELD_TTLS)
+ * @param overrides - TTLs of single fields, applied last
+ */
+export function resolveFieldTTLs(ttl?: number, overrides: Partial<FieldTTLs> = {}): FieldTTLs {
+    return Object.fromEntries(
+        METRIC_FIELDS.map((field) => [
+            field,
+            overrides[field] ?? ttl ?? CACHE_CONFIG.FIELD_TTLS[field],
+        ])
+    ) as FieldTTLs;
+}
+
+/**
+ * Freshness of a cache entry
+ *
+ * @param entry - Cached metrics
+ * @param ttls - TTL of every field
+ * @param staleWhileRevalidate - How long past its TTL a field may be served (ms)
+ * @param now - Current time (Unix ms)
+ */
+export function cacheFreshness(
+    entry: CachedMetrics,
+    ttls: FieldTTLs,
+    staleWhileRevalidate: number,
+    now: number = Date.now()
+): CacheFreshness {
+    const staleFields: MetricField[] = [];
+
+    for (const field of METRIC_FIELDS) {
+        const fetchedAt = entry.metrics.provenance?.[field].fetchedAt ?? entry.storedAt;
+        const age = now - fetchedAt;
+        const ttl = entry.estimated
+            ? Math.min(ttls[field], CACHE_CONFIG.FALLBACK_TTL)
+            : ttls[field];
+
+        if (age > ttl + staleWhileRevalidate) {
+            return { state: 'expired', staleFields: [...METRIC_FIELDS] };
+        }
+        if (age > ttl) staleFields.push(field);
+    }
+
+    return { state: staleFields.length ? 'stale' : 'fresh', staleFields };
+}
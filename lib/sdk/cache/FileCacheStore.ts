@@ -0,0 +1,94 @@
+/**
+ * Filesystem Metrics Cache Store (Node)
+ *
+ * Keeps one JSON file per wallet in a directory, so cached metrics survive
+ * restarts and serverless cold starts and can be shared by processes on
+ * the same volume. Writes go to a temporary file that is renamed into
+ * place, so readers never see a partial entry.
+ *
+ * Node only: import it from this module, it is not re-exported by the SDK
+ * entry point.
+ *
+ * @module lib/sdk/cache/FileCacheStore
+ */
+
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { CachedMetrics, MetricsCacheStore } from '@/types/sdk';
+
+const ENTRY_SUFFIX = '.json';
+
+export interface FileCacheStoreOptions {
+    directory: string; // Created on first write
+}
+
+export class FileCacheStore implements MetricsCacheStore {
+    readonly id = 'file';
+    private directory: string;
+    private writes = 0;
+
+    constructor(options: FileCacheStoreOptions) {
+        this.directory = options.directory;
+    }
+
+    async get(address: string): Promise<CachedMetrics | undefined> {
+        let content: string;
+        try {
+            content = await readFile(this.path(address), 'utf8');
+        } catch (error) {
+            if (FileCacheStore.isMissing(error)) return undefined;
+            throw error;
+        }
+
+        try {
+            return JSON.parse(content) as CachedMetrics;
+        } catch {
+            console.warn(`[FileCacheStore] Dropping unreadable entry for ${address}`);
+            await this.delete(address);
+            return undefined;
+        }
+    }
+
+    async set(address: string, entry: CachedMetrics): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+
+        const path = this.path(address);
+        const temporary = `${path}.${process.pid}.${++this.writes}.tmp`;
+        await writeFile(temporary, JSON.stringify(entry), 'utf8');
+        await rename(temporary, path);
+    }
+
+    async delete(address: string): Promise<void> {
+        await rm(this.path(address), { force: true });
+    }
+
+    async clear(): Promise<void> {
+        const files = await this.entries();
+        await Promise.all(files.map((file) => rm(join(this.directory, file), { force: true })));
+    }
+
+    async size(): Promise<number> {
+        return (await this.entries()).length;
+    }
+
+    /**
+     * Entry file names in the directory
+     */
+    private async entries(): Promise<string[]> {
+        try {
+            const files = await readdir(this.directory);
+            return files.filter((file) => file.endsWith(ENTRY_SUFFIX));
+        } catch (error) {
+            if (FileCacheStore.isMissing(error)) return [];
+            throw error;
+        }
+    }
+
+    private path(address: string): string {
+        return join(this.directory, `${encodeURIComponent(address)}${ENTRY_SUFFIX}`);
+    }
+
+    private static isMissing(error: unknown): boolean {
+        return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+    }
+}
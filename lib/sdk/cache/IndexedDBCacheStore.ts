@@ -0,0 +1,104 @@
+/**
+ * IndexedDB Metrics Cache Store
+ *
+ * Browser store that keeps cached metrics across page reloads and shares
+ * them between tabs of the same origin.
+ *
+ * @module lib/sdk/cache/IndexedDBCacheStore
+ */
+
+import { CACHE_CONFIG } from '@/lib/constants';
+import type { CachedMetrics, MetricsCacheStore } from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+export interface IndexedDBCacheStoreOptions {
+    dbName?: string; // Database name (default: CACHE_CONFIG.INDEXEDDB_NAME)
+    storeName?: string; // Object store name (default: CACHE_CONFIG.INDEXEDDB_STORE)
+    factory?: IDBFactory; // IndexedDB implementation (default: globalThis.indexedDB)
+}
+
+export class IndexedDBCacheStore implements MetricsCacheStore {
+    readonly id = 'indexeddb';
+    private dbName: string;
+    private storeName: string;
+    private factory?: IDBFactory;
+    private db?: Promise<IDBDatabase>;
+
+    constructor(options: IndexedDBCacheStoreOptions = {}) {
+        this.dbName = options.dbName ?? CACHE_CONFIG.INDEXEDDB_NAME;
+        this.storeName = options.storeName ?? CACHE_CONFIG.INDEXEDDB_STORE;
+        this.factory = options.factory ?? globalThis.indexedDB;
+    }
+
+    async get(address: string): Promise<CachedMetrics | undefined> {
+        return this.request('readonly', (store) => store.get(address));
+    }
+
+    async set(address: string, entry: CachedMetrics): Promise<void> {
+        await this.request('readwrite', (store) => store.put(entry, address));
+    }
+
+    async delete(address: string): Promise<void> {
+        await this.request('readwrite', (store) => store.delete(address));
+    }
+
+    async clear(): Promise<void> {
+        await this.request('readwrite', (store) => store.clear());
+    }
+
+    async size(): Promise<number> {
+        return this.request('readonly', (store) => store.count());
+    }
+
+    /**
+     * Run one request against the object store
+     */
+    private async request<T>(
+        mode: IDBTransactionMode,
+        run: (store: IDBObjectStore) => IDBRequest<T>
+    ): Promise<T> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    /**
+     * Open the database once, creating the object store on first use
+     *
+     * @throws SDKError CACHE_UNAVAILABLE if IndexedDB is missing or fails to open
+     */
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            const factory = this.factory;
+            if (!factory) {
+                return Promise.reject(
+                    new SDKError('IndexedDB is not available', 'CACHE_UNAVAILABLE')
+                );
+            }
+
+            this.db = new Promise<IDBDatabase>((resolve, reject) => {
+                const request = factory.open(this.dbName, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(this.storeName);
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () =>
+                    reject(
+                        new SDKError(
+                            `Failed to open IndexedDB ${this.dbName}`,
+                            'CACHE_UNAVAILABLE',
+                            request.error
+                        )
+                    );
+            });
+            // Let a later call retry after a failed open
+            this.db.catch(() => {
+                this.db = undefined;
+            });
+        }
+        return this.db;
+    }
+}
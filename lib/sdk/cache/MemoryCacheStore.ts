@@ -0,0 +1,45 @@
+/**
+ * In-Memory Metrics Cache Store
+ *
+ * LRU-bounded store local to one process (and lost with it). The default
+ * store of DataAggregator.
+ *
+ * @module lib/sdk/cache/MemoryCacheStore
+ */
+
+import { LRUCache } from 'lru-cache';
+import { CACHE_CONFIG } from '@/lib/constants';
+import type { CachedMetrics, MetricsCacheStore } from '@/types/sdk';
+
+export interface MemoryCacheStoreOptions {
+    maxEntries?: number; // Wallets kept (default: CACHE_CONFIG.MAX_CACHE_SIZE)
+}
+
+export class MemoryCacheStore implements MetricsCacheStore {
+    readonly id = 'memory';
+    private cache: LRUCache<string, CachedMetrics>;
+
+    constructor(options: MemoryCacheStoreOptions = {}) {
+        this.cache = new LRUCache({ max: options.maxEntries ?? CACHE_CONFIG.MAX_CACHE_SIZE });
+    }
+
+    async get(address: string): Promise<CachedMetrics | undefined> {
+        return this.cache.get(address);
+    }
+
+    async set(address: string, entry: CachedMetrics): Promise<void> {
+        this.cache.set(address, entry);
+    }
+
+    async delete(address: string): Promise<void> {
+        this.cache.delete(address);
+    }
+
+    async clear(): Promise<void> {
+        this.cache.clear();
+    }
+
+    async size(): Promise<number> {
+        return this.cache.size;
+    }
+}
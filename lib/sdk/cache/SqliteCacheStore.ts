@@ -0,0 +1,94 @@
+/**
+ * SQLite Metrics Cache Store (Node)
+ *
+ * Keeps cached metrics in a SQLite table, so processes sharing the
+ * database file share the cache. The store takes an open database rather
+ * than a driver dependency: better-sqlite3 `Database` and `node:sqlite`
+ * `DatabaseSync` both fit `SqliteDatabase`.
+ *
+ * Node only: import it from this module, it is not re-exported by the SDK
+ * entry point.
+ *
+ * @module lib/sdk/cache/SqliteCacheStore
+ */
+
+import { CACHE_CONFIG } from '@/lib/constants';
+import type { CachedMetrics, MetricsCacheStore } from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+const TABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Prepared statement of a synchronous SQLite driver
+ */
+export interface SqliteStatement {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+}
+
+/**
+ * Open database of a synchronous SQLite driver
+ */
+export interface SqliteDatabase {
+    exec(sql: string): unknown;
+    prepare(sql: string): SqliteStatement;
+}
+
+export interface SqliteCacheStoreOptions {
+    database: SqliteDatabase;
+    table?: string; // Created if missing (default: CACHE_CONFIG.SQLITE_TABLE)
+}
+
+export class SqliteCacheStore implements MetricsCacheStore {
+    readonly id = 'sqlite';
+    private statements: Record<'get' | 'set' | 'delete' | 'clear' | 'size', SqliteStatement>;
+
+    /**
+     * @throws SDKError INVALID_CONFIG for an invalid table name
+     */
+    constructor(options: SqliteCacheStoreOptions) {
+        const table = options.table ?? CACHE_CONFIG.SQLITE_TABLE;
+        if (!TABLE_NAME_PATTERN.test(table)) {
+            throw new SDKError(`Invalid SQLite table name: ${table}`, 'INVALID_CONFIG');
+        }
+
+        const { database } = options;
+        database.exec(
+            `CREATE TABLE IF NOT EXISTS ${table} (` +
+            'address TEXT PRIMARY KEY, entry TEXT NOT NULL, stored_at INTEGER NOT NULL)'
+        );
+        this.statements = {
+            get: database.prepare(`SELECT entry FROM ${table} WHERE address = ?`),
+            set: database.prepare(
+                `INSERT INTO ${table} (address, entry, stored_at) VALUES (?, ?, ?) ` +
+                'ON CONFLICT(address) DO UPDATE SET entry = excluded.entry, ' +
+                'stored_at = excluded.stored_at'
+            ),
+            delete: database.prepare(`DELETE FROM ${table} WHERE address = ?`),
+            clear: database.prepare(`DELETE FROM ${table}`),
+            size: database.prepare(`SELECT COUNT(*) AS count FROM ${table}`),
+        };
+    }
+
+    async get(address: string): Promise<CachedMetrics | undefined> {
+        const row = this.statements.get.get(address) as { entry: string } | undefined;
+        return row ? (JSON.parse(row.entry) as CachedMetrics) : undefined;
+    }
+
+    async set(address: string, entry: CachedMetrics): Promise<void> {
+        this.statements.set.run(address, JSON.stringify(entry), entry.storedAt);
+    }
+
+    async delete(address: string): Promise<void> {
+        this.statements.delete.run(address);
+    }
+
+    async clear(): Promise<void> {
+        this.statements.clear.run();
+    }
+
+    async size(): Promise<number> {
+        const row = this.statements.size.get() as { count: number | bigint };
+        return Number(row.count);
+    }
+}
@@ -0,0 +1,97 @@
+/**
+ * CacheFreshness Unit Tests
+ * Per-field TTLs and the fresh / stale / expired decision
+ */
+
+import { cacheFreshness, resolveFieldTTLs } from '../CacheFreshness';
+import { uniformProvenance } from '../../Provenance';
+import { CACHE_CONFIG } from '@/lib/constants';
+import type { CachedMetrics } from '@/types/sdk';
+
+const MINUTE = 1000 * 60;
+const FETCHED_AT = 1760702400000;
+
+const entry: CachedMetrics = {
+    metrics: {
+        address: 'aleo1fresh',
+        transactionCount: 4,
+        walletAgeMonths: 6,
+        defiScore: 40,
+        repaymentRate: 50,
+        tokenBalance: 52.5,
+        lastTransactionDate: FETCHED_AT,
+        provenance: uniformProvenance({
+            source: 'aleo-explorer',
+            fetchedAt: FETCHED_AT,
+            blockHeight: 4250000,
+            status: 'real',
+        }),
+    },
+    storedAt: FETCHED_AT,
+    lastTransactionId: 'at1latest',
+};
+
+describe('CacheFreshness', () => {
+    describe('resolveFieldTTLs', () => {
+        it('should default to the configured per-field TTLs', () => {
+            expect(resolveFieldTTLs()).toEqual(CACHE_CONFIG.FIELD_TTLS);
+        });
+
+        it('should apply a shared TTL, then single-field overrides', () => {
+            const ttls = resolveFieldTTLs(10 * MINUTE, { tokenBalance: MINUTE });
+
+            expect(ttls.walletAgeMonths).toBe(10 * MINUTE);
+            expect(ttls.tokenBalance).toBe(MINUTE);
+        });
+    });
+
+    describe('cacheFreshness', () => {
+        const ttls = resolveFieldTTLs(60 * MINUTE, { tokenBalance: 5 * MINUTE });
+
+        it('should be fresh while every field is within its TTL', () => {
+            expect(cacheFreshness(entry, ttls, 30 * MINUTE, FETCHED_AT + 4 * MINUTE)).toEqual({
+                state: 'fresh',
+                staleFields: [],
+            });
+        });
+
+        it('should list the fields past their TTL as stale', () => {
+            expect(cacheFreshness(entry, ttls, 30 * MINUTE, FETCHED_AT + 10 * MINUTE)).toEqual({
+                state: 'stale',
+                staleFields: ['tokenBalance'],
+            });
+        });
+
+        it('should expire once a field is past the stale-while-revalidate window', () => {
+            const freshness = cacheFreshness(entry, ttls, 30 * MINUTE, FETCHED_AT + 40 * MINUTE);
+
+            expect(freshness.state).toBe('expired');
+        });
+
+        it('should keep estimates only for the fallback TTL', () => {
+            const estimated = { ...entry, estimated: true };
+            const later = FETCHED_AT + CACHE_CONFIG.FALLBACK_TTL + 1;
+
+            expect(cacheFreshness(estimated, ttls, 30 * MINUTE, FETCHED_AT).state).toBe('fresh');
+            expect(cacheFreshness(estimated, ttls, 30 * MINUTE, later).staleFields).toEqual([
+                'transactionCount',
+                'walletAgeMonths',
+                'defiScore',
+                'repaymentRate',
+                'tokenBalance',
+                'lastTransactionDate',
+            ]);
+            expect(cacheFreshness(entry, ttls, 30 * MINUTE, later).state).toBe('fresh');
+        });
+
+        it('should age entries without provenance from when they were stored', () => {
+            const bare = {
+                ...entry,
+                metrics: { ...entry.metrics, provenance: undefined },
+                storedAt: FETCHED_AT + 30 * MINUTE,
+            };
+
+            expect(cacheFreshness(bare, ttls, 0, FETCHED_AT + 32 * MINUTE).state).toBe('fresh');
+        });
+    });
+});
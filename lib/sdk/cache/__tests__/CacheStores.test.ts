@@ -0,0 +1,147 @@
+/**
+ * Metrics Cache Store Tests
+ * The MetricsCacheStore contract, run against every store that can run
+ * under Node without a driver
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileCacheStore } from '../FileCacheStore';
+import { IndexedDBCacheStore } from '../IndexedDBCacheStore';
+import { MemoryCacheStore } from '../MemoryCacheStore';
+import type { CachedMetrics, MetricsCacheStore } from '@/types/sdk';
+
+function entry(address: string, storedAt = 1760702400000): CachedMetrics {
+    return {
+        metrics: {
+            address,
+            transactionCount: 4,
+            walletAgeMonths: 6,
+            defiScore: 40,
+            repaymentRate: 50,
+            tokenBalance: 52.5,
+            lastTransactionDate: storedAt,
+            repaymentHistory: {
+                loans: [],
+                onTimeRate: null,
+                maxDaysPastDue: 0,
+                liquidations: 0,
+                defaults: 0,
+                openLoans: 0,
+            },
+        },
+        storedAt,
+        lastTransactionId: 'at1latest',
+    };
+}
+
+describe.each([
+    ['MemoryCacheStore', async () => ({ store: new MemoryCacheStore(), cleanup: async () => {} })],
+    [
+        'FileCacheStore',
+        async () => {
+            const directory = await mkdtemp(join(tmpdir(), 'proofscore-cache-'));
+            return {
+                store: new FileCacheStore({ directory: join(directory, 'metrics') }),
+                cleanup: () => rm(directory, { recursive: true, force: true }),
+            };
+        },
+    ],
+])('%s', (_name, create) => {
+    let store: MetricsCacheStore;
+    let cleanup: () => Promise<void>;
+
+    beforeEach(async () => {
+        ({ store, cleanup } = await create());
+    });
+
+    afterEach(async () => {
+        await cleanup();
+    });
+
+    it('should miss unknown addresses', async () => {
+        expect(await store.get('aleo1unknown')).toBeUndefined();
+        expect(await store.size()).toBe(0);
+    });
+
+    it('should round-trip entries', async () => {
+        await store.set('aleo1one', entry('aleo1one'));
+
+        expect(await store.get('aleo1one')).toEqual(entry('aleo1one'));
+    });
+
+    it('should replace entries of the same address', async () => {
+        await store.set('aleo1one', entry('aleo1one', 1));
+        await store.set('aleo1one', entry('aleo1one', 2));
+
+        expect((await store.get('aleo1one'))?.storedAt).toBe(2);
+        expect(await store.size()).toBe(1);
+    });
+
+    it('should delete and clear entries', async () => {
+        await store.set('aleo1one', entry('aleo1one'));
+        await store.set('aleo1two', entry('aleo1two'));
+
+        await store.delete('aleo1one');
+        await store.delete('aleo1missing');
+        expect(await store.get('aleo1one')).toBeUndefined();
+        expect(await store.size()).toBe(1);
+
+        await store.clear();
+        expect(await store.size()).toBe(0);
+    });
+});
+
+describe('MemoryCacheStore', () => {
+    it('should evict the least recently used wallet', async () => {
+        const store = new MemoryCacheStore({ maxEntries: 2 });
+
+        await store.set('aleo1one', entry('aleo1one'));
+        await store.set('aleo1two', entry('aleo1two'));
+        await store.get('aleo1one');
+        await store.set('aleo1three', entry('aleo1three'));
+
+        expect(await store.get('aleo1two')).toBeUndefined();
+        expect(await store.get('aleo1one')).toBeDefined();
+    });
+});
+
+describe('FileCacheStore', () => {
+    it('should share entries between stores on one directory', async () => {
+        const directory = await mkdtemp(join(tmpdir(), 'proofscore-cache-'));
+        try {
+            await new FileCacheStore({ directory }).set('aleo1one', entry('aleo1one'));
+
+            expect(await new FileCacheStore({ directory }).get('aleo1one')).toEqual(
+                entry('aleo1one')
+            );
+        } finally {
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+
+    it('should drop unreadable entries', async () => {
+        const directory = await mkdtemp(join(tmpdir(), 'proofscore-cache-'));
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        try {
+            const store = new FileCacheStore({ directory });
+            await writeFile(join(directory, 'aleo1torn.json'), '{"metrics":', 'utf8');
+
+            expect(await store.get('aleo1torn')).toBeUndefined();
+            expect(await store.size()).toBe(0);
+        } finally {
+            warn.mockRestore();
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('IndexedDBCacheStore', () => {
+    it('should reject when IndexedDB is not available', async () => {
+        // jsdom has no IndexedDB
+        const store = new IndexedDBCacheStore();
+
+        await expect(store.get('aleo1one')).rejects.toMatchObject({ code: 'CACHE_UNAVAILABLE' });
+    });
+});
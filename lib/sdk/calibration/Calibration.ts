@@ -0,0 +1,316 @@
+/**
+ * Score Calibration
+ *
+ * Puts scores in context of a scored population (e.g. a batch run): the
+ * score distribution, each address's percentile rank and how the
+ * population falls into the risk bands. With default labels it also
+ * measures how well scores rank defaulters below non-defaulters (AUC,
+ * KS) and maps scores to default probabilities (logistic fit and
+ * calibration curve), so risk cutoffs can be justified with data.
+ *
+ * @module lib/sdk/calibration/Calibration
+ */
+
+import { CALIBRATION, RISK_LEVELS, SCORING_CONFIG } from '@/lib/constants';
+import type {
+    CalibrationBin,
+    CalibrationReport,
+    CalibrationSample,
+    DiscriminationMetrics,
+    RiskBandOccupancy,
+    RiskCutoffs,
+    ScoreDistribution,
+} from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+export interface CalibrationOptions {
+    cutoffs?: RiskCutoffs; // Risk band cutoffs to evaluate (default: RISK_LEVELS)
+    binWidth?: number; // Histogram bar width (default: CALIBRATION.HISTOGRAM_BIN_WIDTH)
+    calibrationBins?: number; // Calibration curve bins (default: CALIBRATION.CALIBRATION_BINS)
+    now?: number; // Report time (Unix ms, default: now)
+}
+
+type Labeled = CalibrationSample & { defaulted: boolean };
+
+/**
+ * Calibrate scores against a population
+ *
+ * @param samples - Scored addresses, optionally labeled with defaults
+ * @param options - Risk cutoffs, bin sizes and report time
+ * @throws SDKError EMPTY_POPULATION without samples, INVALID_SAMPLE for
+ *   non-finite scores and INVALID_CONFIG for invalid options
+ *
+ * @example
+ * const report = calibrate(samplesFromBatch(results, defaults), {
+ *   cutoffs: { low: 720, medium: 560 },
+ * });
+ */
+export function calibrate(
+    samples: readonly CalibrationSample[],
+    options: CalibrationOptions = {}
+): CalibrationReport {
+    const cutoffs = options.cutoffs ?? {
+        low: RISK_LEVELS.LOW.minScore,
+        medium: RISK_LEVELS.MEDIUM.minScore,
+    };
+    const binWidth = options.binWidth ?? CALIBRATION.HISTOGRAM_BIN_WIDTH;
+    const calibrationBins = options.calibrationBins ?? CALIBRATION.CALIBRATION_BINS;
+
+    if (samples.length === 0) {
+        throw new SDKError('Cannot calibrate an empty population', 'EMPTY_POPULATION');
+    }
+    const invalid = samples.find((s) => !Number.isFinite(s.score));
+    if (invalid) {
+        throw new SDKError(`Invalid score for ${invalid.address}`, 'INVALID_SAMPLE', invalid);
+    }
+    if (!(cutoffs.low > cutoffs.medium)) {
+        throw new SDKError('The low risk cutoff must be above the medium one', 'INVALID_CONFIG');
+    }
+    if (!(binWidth > 0) || !Number.isInteger(calibrationBins) || calibrationBins < 1) {
+        throw new SDKError('Invalid calibration bin sizes', 'INVALID_CONFIG');
+    }
+
+    const sorted = samples.map((s) => s.score).sort((a, b) => a - b);
+    const labeled = samples.filter((s): s is Labeled => typeof s.defaulted === 'boolean');
+
+    return {
+        generatedAt: options.now ?? Date.now(),
+        models: [...new Set(samples.flatMap((s) => (s.model ? [s.model] : [])))],
+        distribution: scoreDistribution(sorted, binWidth),
+        percentiles: samples.map((s) => ({
+            address: s.address,
+            score: s.score,
+            percentile: percentileRank(sorted, s.score),
+        })),
+        cutoffs,
+        riskBands: riskBandOccupancy(samples, labeled.length > 0, cutoffs, sorted),
+        discrimination: discrimination(labeled, calibrationBins),
+    };
+}
+
+/**
+ * Mid-rank percentile of a score (0-100, one decimal): the share of the
+ * population scoring below it, counting ties as half
+ *
+ * @param sorted - Population scores, ascending
+ * @param score - Score to rank
+ */
+export function percentileRank(sorted: readonly number[], score: number): number {
+    const below = lowerBound(sorted, score);
+    const equal = lowerBound(sorted, score, true) - below;
+    return Math.round(((below + equal / 2) / sorted.length) * 1000) / 10;
+}
+
+/**
+ * Summary statistics and histogram of population scores
+ *
+ * @param sorted - Population scores, ascending
+ * @param binWidth - Histogram bar width
+ */
+export function scoreDistribution(sorted: readonly number[], binWidth: number): ScoreDistribution {
+    const count = sorted.length;
+    const mean = sorted.reduce((sum, s) => sum + s, 0) / count;
+    const variance = sorted.reduce((sum, s) => sum + (s - mean) ** 2, 0) / count;
+    const min = sorted[0]!;
+    const max = sorted[count - 1]!;
+
+    // Bars cover the score scale (and any score outside it); the last one includes its end
+    const lower = Math.min(SCORING_CONFIG.MIN_SCORE, min);
+    const upper = Math.max(SCORING_CONFIG.MAX_SCORE, max);
+    const bars = Math.max(1, Math.ceil((upper - lower) / binWidth));
+    const counts = new Array<number>(bars).fill(0);
+    for (const score of sorted) {
+        counts[Math.min(bars - 1, Math.floor((score - lower) / binWidth))]! += 1;
+    }
+
+    return {
+        count,
+        mean,
+        stdDev: Math.sqrt(variance),
+        min,
+        max,
+        quantiles: {
+            p10: quantile(sorted, 0.1),
+            p25: quantile(sorted, 0.25),
+            p50: quantile(sorted, 0.5),
+            p75: quantile(sorted, 0.75),
+            p90: quantile(sorted, 0.9),
+        },
+        histogram: counts.map((n, i) => ({
+            from: lower + i * binWidth,
+            to: i === bars - 1 ? upper : lower + (i + 1) * binWidth,
+            count: n,
+            share: n / count,
+        })),
+    };
+}
+
+/**
+ * Population and default rate per risk band, highest risk first
+ */
+function riskBandOccupancy(
+    samples: readonly CalibrationSample[],
+    hasLabels: boolean,
+    cutoffs: RiskCutoffs,
+    sorted: readonly number[]
+): RiskBandOccupancy[] {
+    const lower = Math.min(SCORING_CONFIG.MIN_SCORE, sorted[0]!);
+    const upper = Math.max(SCORING_CONFIG.MAX_SCORE, sorted[sorted.length - 1]!);
+    const bands = [
+        { riskLevel: 'high' as const, minScore: lower, maxScore: cutoffs.medium - 1 },
+        { riskLevel: 'medium' as const, minScore: cutoffs.medium, maxScore: cutoffs.low - 1 },
+        { riskLevel: 'low' as const, minScore: cutoffs.low, maxScore: upper },
+    ];
+
+    const bandOf = (score: number) =>
+        score >= cutoffs.low ? 'low' : score >= cutoffs.medium ? 'medium' : 'high';
+
+    return bands.map((band) => {
+        const inBand = samples.filter((s) => bandOf(s.score) === band.riskLevel);
+        const labeled = inBand.filter((s) => typeof s.defaulted === 'boolean');
+        const defaults = labeled.filter((s) => s.defaulted).length;
+
+        return {
+            ...band,
+            count: inBand.length,
+            share: inBand.length / samples.length,
+            defaults: hasLabels ? defaults : null,
+            defaultRate: hasLabels && labeled.length ? defaults / labeled.length : null,
+        };
+    });
+}
+
+/**
+ * AUC, KS, logistic fit and calibration curve of labeled samples
+ * Null unless both defaulters and non-defaulters are present.
+ */
+function discrimination(
+    labeled: readonly Labeled[],
+    calibrationBins: number
+): DiscriminationMetrics | null {
+    const sorted = [...labeled].sort((a, b) => a.score - b.score);
+    const defaults = sorted.filter((s) => s.defaulted).length;
+    const repaid = sorted.length - defaults;
+    if (defaults === 0 || repaid === 0) return null;
+
+    // AUC from the rank sum of non-defaulters (Mann-Whitney U), ties at mid-rank
+    let rankSum = 0;
+    // KS: largest gap between the defaulter and non-defaulter score CDFs
+    let seenDefaults = 0;
+    let seenRepaid = 0;
+    let ks = 0;
+    let ksScore = sorted[0]!.score;
+    for (let i = 0; i < sorted.length; ) {
+        let j = i;
+        while (j < sorted.length && sorted[j]!.score === sorted[i]!.score) j += 1;
+
+        const midRank = (i + 1 + j) / 2;
+        for (let k = i; k < j; k += 1) {
+            if (sorted[k]!.defaulted) seenDefaults += 1;
+            else {
+                seenRepaid += 1;
+                rankSum += midRank;
+            }
+        }
+
+        const gap = Math.abs(seenDefaults / defaults - seenRepaid / repaid);
+        if (gap > ks) {
+            ks = gap;
+            ksScore = sorted[i]!.score;
+        }
+        i = j;
+    }
+    const auc = (rankSum - (repaid * (repaid + 1)) / 2) / (repaid * defaults);
+
+    const logistic = fitLogistic(sorted);
+    const predict = (score: number) =>
+        1 / (1 + Math.exp(-(logistic.intercept + logistic.slope * score)));
+
+    // Equal-count bins, lowest scores first
+    const bins = Math.min(calibrationBins, sorted.length);
+    const calibration: CalibrationBin[] = Array.from({ length: bins }, (_, b) => {
+        const members = sorted.slice(
+            Math.floor((b * sorted.length) / bins),
+            Math.floor(((b + 1) * sorted.length) / bins)
+        );
+        const binDefaults = members.filter((s) => s.defaulted).length;
+        return {
+            minScore: members[0]!.score,
+            maxScore: members[members.length - 1]!.score,
+            count: members.length,
+            defaults: binDefaults,
+            observedRate: binDefaults / members.length,
+            predictedRate: members.reduce((sum, s) => sum + predict(s.score), 0) / members.length,
+        };
+    });
+
+    return { labeled: sorted.length, defaults, auc, ks, ksScore, logistic, calibration };
+}
+
+/**
+ * Logistic regression of default on score, by Newton's method
+ * Scores are standardized for the fit; a small ridge on the slope keeps
+ * it finite when scores separate the outcomes perfectly.
+ */
+function fitLogistic(samples: readonly Labeled[]): { intercept: number; slope: number } {
+    const n = samples.length;
+    const mean = samples.reduce((sum, s) => sum + s.score, 0) / n;
+    const sd = Math.sqrt(samples.reduce((sum, s) => sum + (s.score - mean) ** 2, 0) / n) || 1;
+    const xs = samples.map((s) => (s.score - mean) / sd);
+    const ridge = CALIBRATION.LOGISTIC_RIDGE;
+
+    let a = 0;
+    let b = 0;
+    for (let iteration = 0; iteration < CALIBRATION.LOGISTIC_ITERATIONS; iteration += 1) {
+        let ga = 0;
+        let gb = ridge * b;
+        let haa = 0;
+        let hab = 0;
+        let hbb = ridge;
+        samples.forEach((s, i) => {
+            const x = xs[i]!;
+            const p = 1 / (1 + Math.exp(-(a + b * x)));
+            const w = p * (1 - p);
+            const residual = p - (s.defaulted ? 1 : 0);
+            ga += residual;
+            gb += residual * x;
+            haa += w;
+            hab += w * x;
+            hbb += w * x * x;
+        });
+
+        const det = haa * hbb - hab * hab;
+        if (!(det > 0)) break;
+        const da = (hbb * ga - hab * gb) / det;
+        const db = (haa * gb - hab * ga) / det;
+        a -= da;
+        b -= db;
+        if (Math.abs(da) + Math.abs(db) < 1e-10) break;
+    }
+
+    return { intercept: a - (b * mean) / sd, slope: b / sd };
+}
+
+/**
+ * Linearly interpolated quantile of sorted values
+ */
+function quantile(sorted: readonly number[], q: number): number {
+    const position = (sorted.length - 1) * q;
+    const below = Math.floor(position);
+    const above = Math.min(sorted.length - 1, below + 1);
+    return sorted[below]! + (sorted[above]! - sorted[below]!) * (position - below);
+}
+
+/**
+ * Index of the first value >= target (> target when `after`)
+ */
+function lowerBound(sorted: readonly number[], target: number, after = false): number {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (sorted[middle]! < target || (after && sorted[middle] === target)) low = middle + 1;
+        else high = middle;
+    }
+    return low;
+}
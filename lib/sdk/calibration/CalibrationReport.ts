@@ -0,0 +1,165 @@
+/**
+ * Calibration Report Rendering
+ *
+ * Writes a CalibrationReport as JSON (for tooling) or as a self-contained
+ * HTML page (for lenders): summary, score histogram, risk band occupancy,
+ * calibration curve and the percentile of every address.
+ *
+ * @module lib/sdk/calibration/CalibrationReport
+ */
+
+import type { CalibrationReport, CalibrationReportFormat } from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+const HISTOGRAM_HEIGHT = 160;
+const BAR_WIDTH = 40;
+
+/**
+ * Render a calibration report
+ *
+ * @param report - Report from calibrate()
+ * @param format - 'json' or 'html'
+ * @throws SDKError INVALID_FORMAT for other formats
+ *
+ * @example
+ * await writeFile('calibration.html', renderCalibrationReport(report, 'html'));
+ */
+export function renderCalibrationReport(
+    report: CalibrationReport,
+    format: CalibrationReportFormat
+): string {
+    if (format === 'json') return `${JSON.stringify(report, null, 2)}\n`;
+    if (format === 'html') return renderHtml(report);
+    throw new SDKError(`Unknown report format: ${format}`, 'INVALID_FORMAT');
+}
+
+function renderHtml(report: CalibrationReport): string {
+    const { distribution, discrimination, cutoffs } = report;
+    const summary: Array<[string, string]> = [
+        ['Generated', new Date(report.generatedAt).toISOString()],
+        ['Models', report.models.join(', ') || 'unknown'],
+        ['Addresses', `${distribution.count}`],
+        ['Mean score', fixed(distribution.mean, 1)],
+        ['Std. deviation', fixed(distribution.stdDev, 1)],
+        ['Median (P10 / P90)', `${fixed(distribution.quantiles.p50, 0)} ` +
+            `(${fixed(distribution.quantiles.p10, 0)} / ${fixed(distribution.quantiles.p90, 0)})`],
+        ['Risk cutoffs', `low ≥ ${cutoffs.low}, medium ≥ ${cutoffs.medium}`],
+    ];
+    if (discrimination) {
+        summary.push(
+            ['Labeled (defaults)', `${discrimination.labeled} (${discrimination.defaults})`],
+            ['AUC', fixed(discrimination.auc, 3)],
+            ['KS', `${fixed(discrimination.ks, 3)} at score ${discrimination.ksScore}`]
+        );
+    }
+
+    const sections = [
+        `<h1>Score Calibration Report</h1>`,
+        table(['', ''], summary),
+        `<h2>Score Distribution</h2>`,
+        histogram(report),
+        `<h2>Risk Bands</h2>`,
+        table(
+            ['Band', 'Scores', 'Addresses', 'Share', 'Defaults', 'Default rate'],
+            report.riskBands.map((band) => [
+                band.riskLevel,
+                `${band.minScore}–${band.maxScore}`,
+                `${band.count}`,
+                percent(band.share),
+                band.defaults === null ? '–' : `${band.defaults}`,
+                band.defaultRate === null ? '–' : percent(band.defaultRate),
+            ])
+        ),
+    ];
+    if (discrimination) {
+        sections.push(
+            `<h2>Calibration</h2>`,
+            `<p>P(default) = 1 / (1 + e<sup>−(${fixed(discrimination.logistic.intercept, 4)} + ` +
+            `${fixed(discrimination.logistic.slope, 6)} × score)</sup>)</p>`,
+            table(
+                ['Scores', 'Addresses', 'Defaults', 'Observed rate', 'Predicted rate'],
+                discrimination.calibration.map((bin) => [
+                    `${bin.minScore}–${bin.maxScore}`,
+                    `${bin.count}`,
+                    `${bin.defaults}`,
+                    percent(bin.observedRate),
+                    percent(bin.predictedRate),
+                ])
+            )
+        );
+    }
+    sections.push(
+        `<h2>Percentiles</h2>`,
+        table(
+            ['Address', 'Score', 'Percentile'],
+            report.percentiles.map((p) => [p.address, `${p.score}`, fixed(p.percentile, 1)])
+        )
+    );
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Score Calibration Report</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #111; }
+table { border-collapse: collapse; margin-bottom: 1.5rem; }
+th, td { border: 1px solid #ddd; padding: 0.3rem 0.6rem; text-align: left; }
+th { background: #f4f4f5; }
+rect { fill: #0891b2; }
+</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * Histogram as an inline SVG bar chart
+ */
+function histogram(report: CalibrationReport): string {
+    const { histogram: bars } = report.distribution;
+    const highest = Math.max(...bars.map((bar) => bar.count), 1);
+    const width = bars.length * BAR_WIDTH;
+
+    const rects = bars.map((bar, i) => {
+        const height = Math.round((bar.count / highest) * HISTOGRAM_HEIGHT);
+        return `<rect x="${i * BAR_WIDTH + 2}" y="${HISTOGRAM_HEIGHT - height}" ` +
+            `width="${BAR_WIDTH - 4}" height="${height}">` +
+            `<title>${bar.from}–${bar.to}: ${bar.count}</title></rect>` +
+            `<text x="${i * BAR_WIDTH + BAR_WIDTH / 2}" y="${HISTOGRAM_HEIGHT + 14}" ` +
+            `font-size="10" text-anchor="middle">${bar.from}</text>`;
+    });
+
+    return `<svg width="${width}" height="${HISTOGRAM_HEIGHT + 20}" role="img" ` +
+        `aria-label="Score histogram">${rects.join('')}</svg>`;
+}
+
+function table(header: string[], rows: string[][]): string {
+    const head = header.some(Boolean)
+        ? `<tr>${header.map((h) => `<th>${escapeHtml(h)}</th>`).join('')}</tr>`
+        : '';
+    const body = rows
+        .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+        .join('\n');
+    return `<table>\n${head}\n${body}\n</table>`;
+}
+
+function fixed(value: number, digits: number): string {
+    return value.toFixed(digits);
+}
+
+function percent(value: number): string {
+    return `${(value * 100).toFixed(1)}%`;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,168 @@
+/**
+ * Calibration Samples
+ *
+ * Builds a calibration population from batch results, or from a file:
+ * a batch export (CSV or JSONL, see BatchExport) or a JSON fixture array.
+ * Rows carry `address` and `score` (or the export's `finalScore`), and
+ * optionally `model` and a `defaulted` label (true/false or 1/0). Failed
+ * and unscored rows are skipped.
+ *
+ * @module lib/sdk/calibration/CalibrationSamples
+ */
+
+import type { BatchExportFormat, BatchScoreResult, CalibrationSample } from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+export type DefaultLabels = ReadonlyMap<string, boolean> | Readonly<Record<string, boolean>>;
+
+/**
+ * Samples from batch results
+ *
+ * @param results - Batch results (failed addresses are skipped)
+ * @param labels - Default labels by address
+ */
+export function samplesFromBatch(
+    results: Iterable<BatchScoreResult>,
+    labels?: DefaultLabels
+): CalibrationSample[] {
+    const samples: CalibrationSample[] = [];
+    for (const result of results) {
+        if (result.status !== 'scored') continue;
+
+        const { assessment } = result;
+        const defaulted = labelOf(labels, result.address);
+        samples.push({
+            address: result.address,
+            score: assessment.finalScore,
+            model: `${assessment.model.id}@${assessment.model.version}`,
+            ...(defaulted !== undefined && { defaulted }),
+        });
+    }
+    return samples;
+}
+
+/**
+ * Samples from a batch export or a JSON fixture
+ *
+ * @param text - File contents
+ * @param format - 'csv' or 'jsonl' (batch exports) or 'json' (array of rows)
+ * @param labels - Default labels by address, over labels in the rows
+ * @throws SDKError INVALID_FORMAT for unknown formats and unreadable rows
+ */
+export function parseCalibrationSamples(
+    text: string,
+    format: BatchExportFormat | 'json',
+    labels?: DefaultLabels
+): CalibrationSample[] {
+    let rows: Record<string, unknown>[];
+    if (format === 'json') rows = parseJson(text);
+    else if (format === 'jsonl') rows = parseJsonLines(text);
+    else if (format === 'csv') rows = parseCsv(text);
+    else throw new SDKError(`Unknown sample format: ${format}`, 'INVALID_FORMAT');
+
+    return rows.flatMap((row) => {
+        const address = typeof row.address === 'string' ? row.address : null;
+        const score = toNumber(row.score ?? row.finalScore);
+        if (!address || score === null || (row.status && row.status !== 'scored')) return [];
+
+        const defaulted = labelOf(labels, address) ?? toBoolean(row.defaulted);
+        const sample: CalibrationSample = { address, score };
+        if (typeof row.model === 'string' && row.model) sample.model = row.model;
+        if (defaulted !== undefined) sample.defaulted = defaulted;
+        return [sample];
+    });
+}
+
+function labelOf(labels: DefaultLabels | undefined, address: string): boolean | undefined {
+    if (!labels) return undefined;
+    return labels instanceof Map
+        ? labels.get(address)
+        : (labels as Readonly<Record<string, boolean>>)[address];
+}
+
+function toNumber(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value !== 'string' || value.trim() === '') return null;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+}
+
+function toBoolean(value: unknown): boolean | undefined {
+    if (typeof value === 'boolean') return value;
+    if (value === 1 || value === '1' || value === 'true') return true;
+    if (value === 0 || value === '0' || value === 'false') return false;
+    return undefined;
+}
+
+function parseJson(text: string): Record<string, unknown>[] {
+    let rows: unknown;
+    try {
+        rows = JSON.parse(text);
+    } catch (error) {
+        throw new SDKError('Samples are not valid JSON', 'INVALID_FORMAT', error);
+    }
+    if (!Array.isArray(rows)) {
+        throw new SDKError('JSON samples must be an array of rows', 'INVALID_FORMAT');
+    }
+    return rows as Record<string, unknown>[];
+}
+
+function parseJsonLines(text: string): Record<string, unknown>[] {
+    return text
+        .split(/\r?\n/)
+        .map((line, i) => ({ line: line.trim(), number: i + 1 }))
+        .filter(({ line }) => line)
+        .map(({ line, number }) => {
+            try {
+                return JSON.parse(line) as Record<string, unknown>;
+            } catch (error) {
+                throw new SDKError(
+                    `Invalid JSONL sample on line ${number}`,
+                    'INVALID_FORMAT',
+                    error
+                );
+            }
+        });
+}
+
+/**
+ * CSV with a header row; quoted fields may hold commas, quotes ("") and
+ * line breaks. The apostrophe BatchExport puts before formula-like text
+ * is removed.
+ */
+function parseCsv(text: string): Record<string, unknown>[] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i += 1) {
+        const char = text[i]!;
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i += 1;
+            } else if (char === '"') quoted = false;
+            else field += char;
+        } else if (char === '"') quoted = true;
+        else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i += 1;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else field += char;
+    }
+    if (field || record.length) records.push([...record, field]);
+
+    const [header, ...rows] = records.filter((r) => r.some((value) => value !== ''));
+    if (!header) return [];
+    return rows.map((values) =>
+        Object.fromEntries(
+            header.map((column, i) => [column, (values[i] ?? '').replace(/^'(?=[=+\-@\t])/, '')])
+        )
+    );
+}
@@ -0,0 +1,242 @@
+/**
+ * Calibration Unit Tests
+ * Distribution, percentiles, risk bands, discrimination and reports
+ */
+
+import { calibrate, percentileRank, scoreDistribution } from '../Calibration';
+import { parseCalibrationSamples, samplesFromBatch } from '../CalibrationSamples';
+import { renderCalibrationReport } from '../CalibrationReport';
+import { exportBatchResultsToString } from '../../batch/BatchExport';
+import { ScoringEngine } from '../../ScoringEngine';
+import type { BatchScoreResult, CalibrationSample } from '@/types/sdk';
+
+const NOW = Date.UTC(2026, 0, 1);
+
+const sample = (score: number, defaulted?: boolean, i = score): CalibrationSample => ({
+    address: `aleo1sample${i}`,
+    score,
+    ...(defaulted !== undefined && { defaulted }),
+});
+
+describe('Calibration', () => {
+    describe('percentileRank', () => {
+        it('should count ties as half', () => {
+            const sorted = [500, 600, 600, 700];
+
+            expect(percentileRank(sorted, 500)).toBe(12.5);
+            expect(percentileRank(sorted, 600)).toBe(50);
+            expect(percentileRank(sorted, 700)).toBe(87.5);
+            expect(percentileRank(sorted, 800)).toBe(100);
+        });
+    });
+
+    describe('scoreDistribution', () => {
+        it('should summarize scores and bin them over the scale', () => {
+            const distribution = scoreDistribution([300, 400, 500, 600, 850], 50);
+
+            expect(distribution).toMatchObject({ count: 5, mean: 530, min: 300, max: 850 });
+            expect(distribution.quantiles.p50).toBe(500);
+            expect(distribution.quantiles.p25).toBe(400);
+            expect(distribution.histogram).toHaveLength(11);
+            expect(distribution.histogram[0]).toEqual({ from: 300, to: 350, count: 1, share: 0.2 });
+            // The last bar includes the top of the scale
+            expect(distribution.histogram[10]).toMatchObject({ from: 800, to: 850, count: 1 });
+        });
+    });
+
+    describe('calibrate', () => {
+        it('should report risk band occupancy for the given cutoffs', () => {
+            const samples = [450, 520, 610, 700, 760, 800].map((score) => sample(score));
+
+            const report = calibrate(samples, { now: NOW });
+            const custom = calibrate(samples, { cutoffs: { low: 700, medium: 600 }, now: NOW });
+
+            expect(report.cutoffs).toEqual({ low: 750, medium: 500 });
+            expect(report.riskBands.map((b) => [b.riskLevel, b.count])).toEqual([
+                ['high', 1],
+                ['medium', 3],
+                ['low', 2],
+            ]);
+            expect(report.riskBands[0]).toMatchObject({ minScore: 300, maxScore: 499 });
+            expect(report.riskBands[0]!.defaultRate).toBeNull();
+            expect(custom.riskBands.map((b) => b.count)).toEqual([2, 1, 3]);
+            expect(report.discrimination).toBeNull();
+        });
+
+        it('should match the risk levels of the scoring engine', () => {
+            const metrics = {
+                address: 'aleo1band',
+                transactionCount: 120,
+                walletAgeMonths: 20,
+                defiScore: 70,
+                repaymentRate: 92,
+                tokenBalance: 60000,
+                lastTransactionDate: Date.now(),
+            };
+            const assessment = ScoringEngine.calculateScore(metrics);
+
+            const report = calibrate([sample(assessment.finalScore)]);
+
+            expect(report.riskBands.find((b) => b.count === 1)!.riskLevel).toBe(
+                assessment.riskLevel
+            );
+        });
+
+        it('should give perfect discrimination when defaulters score lowest', () => {
+            const samples = [
+                ...[400, 420, 450, 480].map((score) => sample(score, true)),
+                ...[600, 650, 700, 720, 780, 800].map((score) => sample(score, false)),
+            ];
+
+            const { discrimination, riskBands } = calibrate(samples, {
+                calibrationBins: 5,
+                now: NOW,
+            });
+
+            expect(discrimination).toMatchObject({ labeled: 10, defaults: 4, auc: 1, ks: 1 });
+            expect(discrimination!.ksScore).toBe(480);
+            expect(discrimination!.logistic.slope).toBeLessThan(0);
+            expect(discrimination!.calibration).toHaveLength(5);
+            expect(discrimination!.calibration[0]).toMatchObject({
+                minScore: 400,
+                maxScore: 420,
+                observedRate: 1,
+            });
+            expect(discrimination!.calibration[0]!.predictedRate).toBeGreaterThan(0.9);
+            expect(discrimination!.calibration[4]!.predictedRate).toBeLessThan(0.1);
+            expect(riskBands[0]).toMatchObject({ riskLevel: 'high', defaults: 4, defaultRate: 1 });
+        });
+
+        it('should compute AUC with ties at mid-rank', () => {
+            const samples = [
+                sample(500, true, 1),
+                sample(500, false, 2),
+                sample(600, true, 3),
+                sample(700, false, 4),
+            ];
+
+            const { discrimination } = calibrate(samples);
+
+            // Pairs (repaid, defaulted): (500,500) tie, (500,600) lose, (700,*) win twice
+            expect(discrimination!.auc).toBeCloseTo(2.5 / 4);
+            expect(discrimination!.ks).toBeCloseTo(0.5);
+        });
+
+        it('should fit default probabilities that match observed rates', () => {
+            // Default rate falls from 3/4 to 1/4 across two score groups
+            const samples = [
+                sample(500, true, 1),
+                sample(500, true, 2),
+                sample(500, true, 3),
+                sample(500, false, 4),
+                sample(700, true, 5),
+                sample(700, false, 6),
+                sample(700, false, 7),
+                sample(700, false, 8),
+            ];
+
+            const { discrimination } = calibrate(samples, { calibrationBins: 2 });
+            const [low, high] = discrimination!.calibration;
+
+            expect(low!.predictedRate).toBeCloseTo(0.75, 2);
+            expect(high!.predictedRate).toBeCloseTo(0.25, 2);
+        });
+
+        it('should reject empty populations and invalid options', () => {
+            expect(() => calibrate([])).toThrow(
+                expect.objectContaining({ code: 'EMPTY_POPULATION' })
+            );
+            expect(() => calibrate([sample(NaN)])).toThrow(
+                expect.objectContaining({ code: 'INVALID_SAMPLE' })
+            );
+            expect(() => calibrate([sample(600)], { cutoffs: { low: 500, medium: 600 } })).toThrow(
+                expect.objectContaining({ code: 'INVALID_CONFIG' })
+            );
+        });
+    });
+
+    describe('samples', () => {
+        const assessment = ScoringEngine.calculateScore({
+            address: 'aleo1batch1',
+            transactionCount: 60,
+            walletAgeMonths: 12,
+            defiScore: 50,
+            repaymentRate: 90,
+            tokenBalance: 5000,
+            lastTransactionDate: Date.now(),
+        });
+        const results: BatchScoreResult[] = [
+            { address: 'aleo1batch1', status: 'scored', assessment, durationMs: 5 },
+            {
+                address: 'aleo1batch2',
+                status: 'failed',
+                error: { code: 'RPC_ERROR', message: 'down' },
+                durationMs: 5,
+            },
+        ];
+
+        it('should take scored batch results with labels', () => {
+            expect(samplesFromBatch(results, new Map([['aleo1batch1', true]]))).toEqual([
+                {
+                    address: 'aleo1batch1',
+                    score: assessment.finalScore,
+                    model: `${assessment.model.id}@${assessment.model.version}`,
+                    defaulted: true,
+                },
+            ]);
+        });
+
+        it('should read batch exports back', async () => {
+            for (const format of ['csv', 'jsonl'] as const) {
+                const text = await exportBatchResultsToString(results, format);
+
+                expect(parseCalibrationSamples(text, format, { aleo1batch1: false })).toEqual(
+                    samplesFromBatch(results, { aleo1batch1: false })
+                );
+            }
+        });
+
+        it('should read JSON fixtures with labels', () => {
+            const text = JSON.stringify([
+                { address: 'aleo1a', score: 640, defaulted: 1 },
+                { address: 'aleo1b', score: '710', defaulted: 'false' },
+                { address: 'aleo1c', score: null },
+            ]);
+
+            expect(parseCalibrationSamples(text, 'json')).toEqual([
+                { address: 'aleo1a', score: 640, defaulted: true },
+                { address: 'aleo1b', score: 710, defaulted: false },
+            ]);
+            expect(() => parseCalibrationSamples('{', 'json')).toThrow(
+                expect.objectContaining({ code: 'INVALID_FORMAT' })
+            );
+        });
+    });
+
+    describe('renderCalibrationReport', () => {
+        const report = calibrate(
+            [sample(450, true), sample(650, false), { address: 'aleo1<script>', score: 700 }],
+            { now: NOW }
+        );
+
+        it('should render JSON that parses back to the report', () => {
+            expect(JSON.parse(renderCalibrationReport(report, 'json'))).toEqual(report);
+        });
+
+        it('should render a self-contained HTML page with escaped text', () => {
+            const html = renderCalibrationReport(report, 'html');
+
+            expect(html).toMatch(/^<!DOCTYPE html>/);
+            expect(html).toContain('<h2>Risk Bands</h2>');
+            expect(html).toContain('<h2>Calibration</h2>');
+            expect(html).toContain('aleo1&lt;script&gt;');
+            expect(html).not.toContain('aleo1<script>');
+        });
+
+        it('should reject unknown formats', () => {
+            expect(() => renderCalibrationReport(report, 'pdf' as never)).toThrow(
+                expect.objectContaining({ code: 'INVALID_FORMAT' })
+            );
+        });
+    });
+});
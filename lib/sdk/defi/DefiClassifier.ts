@@ -0,0 +1,218 @@
+/**
+ * DeFi Activity Classifier
+ *
+ * Classifies a wallet's transitions against a registry of known DeFi
+ * programs (DEX swaps, lending, staking, bridging, liquidity provision)
+ * and derives the 0-100 `defiScore` from three components:
+ * - diversity: distinct categories used
+ * - volume: number of DeFi interactions, log-scaled
+ * - recency: blocks since the latest interaction
+ *
+ * The per-protocol breakdown is returned alongside the score so the
+ * dashboard can show what the score was built from.
+ *
+ * @module lib/sdk/defi/DefiClassifier
+ */
+
+import { DEFI_SCORING } from '@/lib/constants';
+import type {
+    DefiActivity,
+    DefiCategory,
+    DefiProgram,
+    DefiProtocolActivity,
+    WalletTransition,
+} from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+const PROGRAM_ID_PATTERN = /^[a-z][a-z0-9_]*\.aleo$/;
+
+const CATEGORIES: readonly DefiCategory[] = ['dex', 'lending', 'staking', 'bridge', 'liquidity'];
+
+/**
+ * Programs classified out of the box
+ */
+export const DEFAULT_DEFI_PROGRAMS: readonly DefiProgram[] = [
+    {
+        program: 'credits.aleo',
+        protocol: 'Aleo Staking',
+        functions: {
+            bond_public: 'staking',
+            unbond_public: 'staking',
+            claim_unbond_public: 'staking',
+        },
+    },
+    {
+        program: 'pondo_protocol.aleo',
+        protocol: 'Pondo',
+        category: 'staking',
+    },
+    {
+        program: 'arcane_finance_v3.aleo',
+        protocol: 'Arcane Finance',
+        category: 'dex',
+        functions: {
+            add_liquidity: 'liquidity',
+            remove_liquidity: 'liquidity',
+        },
+    },
+    {
+        program: 'vlink_token_service_v2.aleo',
+        protocol: 'Verulink',
+        category: 'bridge',
+    },
+];
+
+export class DefiClassifier {
+    private programs = new Map<string, DefiProgram>();
+
+    /**
+     * @param programs - Programs to classify (default: DEFAULT_DEFI_PROGRAMS)
+     */
+    constructor(programs: readonly DefiProgram[] = DEFAULT_DEFI_PROGRAMS) {
+        programs.forEach((program) => this.register(program));
+    }
+
+    /**
+     * Register a DeFi program
+     *
+     * @param program - Program to classify
+     * @throws SDKError INVALID_PROGRAM if the entry is malformed
+     * @throws SDKError DUPLICATE_PROGRAM if the program is already registered
+     */
+    register(program: DefiProgram): void {
+        DefiClassifier.validateProgram(program);
+
+        if (this.programs.has(program.program)) {
+            throw new SDKError(
+                `DeFi program ${program.program} is already registered`,
+                'DUPLICATE_PROGRAM'
+            );
+        }
+        this.programs.set(program.program, program);
+    }
+
+    /**
+     * Registered programs, in registration order
+     */
+    list(): DefiProgram[] {
+        return [...this.programs.values()];
+    }
+
+    /**
+     * Category of a transition
+     *
+     * @param transition - Wallet transition
+     * @returns Category, or null if the transition is not DeFi
+     */
+    classify(transition: Pick<WalletTransition, 'program' | 'function'>): DefiCategory | null {
+        const program = this.programs.get(transition.program);
+        if (!program) return null;
+        return program.functions?.[transition.function] ?? program.category ?? null;
+    }
+
+    /**
+     * Classify a wallet's transitions and score its DeFi activity
+     *
+     * @param transitions - Transitions of the wallet
+     * @param blockHeight - Chain height the transitions were read at
+     * @returns Score, components and per-protocol breakdown
+     */
+    analyze(transitions: WalletTransition[], blockHeight: number): DefiActivity {
+        const byProtocol = new Map<string, DefiProtocolActivity>();
+
+        for (const transition of transitions) {
+            const category = this.classify(transition);
+            if (!category) continue;
+
+            const { protocol } = this.programs.get(transition.program)!;
+            const entry = byProtocol.get(protocol) ?? {
+                protocol,
+                programs: [],
+                categories: [],
+                interactions: 0,
+                lastBlock: 0,
+            };
+
+            if (!entry.programs.includes(transition.program)) {
+                entry.programs.push(transition.program);
+            }
+            if (!entry.categories.includes(category)) {
+                entry.categories.push(category);
+            }
+            entry.interactions++;
+            entry.lastBlock = Math.max(entry.lastBlock, transition.blockHeight);
+            byProtocol.set(protocol, entry);
+        }
+
+        const protocols = [...byProtocol.values()].sort(
+            (a, b) => b.interactions - a.interactions || b.lastBlock - a.lastBlock
+        );
+        if (protocols.length === 0) {
+            return { score: 0, diversity: 0, volume: 0, recency: 0, protocols };
+        }
+
+        const categories = new Set(protocols.flatMap((p) => p.categories));
+        const interactions = protocols.reduce((sum, p) => sum + p.interactions, 0);
+        const lastBlock = Math.max(...protocols.map((p) => p.lastBlock));
+
+        const diversity = DefiClassifier.percent(
+            categories.size / DEFI_SCORING.FULL_DIVERSITY_CATEGORIES
+        );
+        const volume = DefiClassifier.percent(
+            Math.log1p(interactions) / Math.log1p(DEFI_SCORING.FULL_VOLUME_INTERACTIONS)
+        );
+        const recency = DefiClassifier.percent(
+            1 - Math.max(0, blockHeight - lastBlock) / DEFI_SCORING.RECENCY_WINDOW_BLOCKS
+        );
+
+        const { WEIGHTS } = DEFI_SCORING;
+        const score = Math.round(
+            diversity * WEIGHTS.diversity + volume * WEIGHTS.volume + recency * WEIGHTS.recency
+        );
+
+        return { score, diversity, volume, recency, protocols };
+    }
+
+    /**
+     * Ratio to a 0-100 integer, clamped
+     */
+    private static percent(ratio: number): number {
+        return Math.round(Math.min(1, Math.max(0, ratio)) * 100);
+    }
+
+    /**
+     * Check that a program entry can classify anything
+     *
+     * @throws SDKError INVALID_PROGRAM
+     */
+    private static validateProgram(program: DefiProgram): void {
+        if (!PROGRAM_ID_PATTERN.test(program.program)) {
+            throw new SDKError(`Invalid Aleo program id: ${program.program}`, 'INVALID_PROGRAM');
+        }
+        if (!program.protocol) {
+            throw new SDKError(
+                `DeFi program ${program.program} has no protocol name`,
+                'INVALID_PROGRAM'
+            );
+        }
+
+        const categories = [
+            ...(program.category ? [program.category] : []),
+            ...Object.values(program.functions ?? {}),
+        ];
+        if (categories.length === 0) {
+            throw new SDKError(
+                `DeFi program ${program.program} needs a category or function categories`,
+                'INVALID_PROGRAM'
+            );
+        }
+
+        const unknown = categories.find((category) => !CATEGORIES.includes(category));
+        if (unknown) {
+            throw new SDKError(
+                `DeFi program ${program.program} has unknown category: ${unknown}`,
+                'INVALID_PROGRAM'
+            );
+        }
+    }
+}
@@ -0,0 +1,162 @@
+/**
+ * DefiClassifier Unit Tests
+ * Program registry, transition classification and DeFi scoring
+ */
+
+import { DefiClassifier, DEFAULT_DEFI_PROGRAMS } from '../DefiClassifier';
+import type { WalletTransition } from '@/types/sdk';
+
+let sequence = 0;
+
+function transition(program: string, fn: string, blockHeight: number): WalletTransition {
+    sequence++;
+    return {
+        id: `au1test${sequence}`,
+        transactionId: `at1test${sequence}`,
+        program,
+        function: fn,
+        blockHeight,
+    };
+}
+
+describe('DefiClassifier', () => {
+    let classifier: DefiClassifier;
+
+    beforeEach(() => {
+        classifier = new DefiClassifier();
+    });
+
+    describe('registry', () => {
+        it('should register the default programs', () => {
+            expect(classifier.list()).toEqual(DEFAULT_DEFI_PROGRAMS);
+        });
+
+        it('should reject duplicate programs', () => {
+            expect(() =>
+                classifier.register({
+                    program: 'pondo_protocol.aleo',
+                    protocol: 'Pondo',
+                    category: 'staking',
+                })
+            ).toThrow(expect.objectContaining({ code: 'DUPLICATE_PROGRAM' }));
+        });
+
+        it('should reject malformed programs', () => {
+            expect(() =>
+                classifier.register({ program: 'not a program', protocol: 'X', category: 'dex' })
+            ).toThrow(expect.objectContaining({ code: 'INVALID_PROGRAM' }));
+            expect(() =>
+                classifier.register({ program: 'empty.aleo', protocol: 'Empty' })
+            ).toThrow(expect.objectContaining({ code: 'INVALID_PROGRAM' }));
+            expect(() =>
+                classifier.register({
+                    program: 'odd.aleo',
+                    protocol: 'Odd',
+                    category: 'yield' as never,
+                })
+            ).toThrow('unknown category: yield');
+        });
+    });
+
+    describe('classify', () => {
+        const classify = (program: string, fn: string) =>
+            classifier.classify({ program, function: fn });
+
+        it('should prefer function categories over the program category', () => {
+            expect(classify('arcane_finance_v3.aleo', 'swap_exact_public_for_public')).toBe('dex');
+            expect(classify('arcane_finance_v3.aleo', 'add_liquidity')).toBe('liquidity');
+        });
+
+        it('should not classify plain transfers or unknown programs', () => {
+            expect(classify('credits.aleo', 'transfer_public')).toBeNull();
+            expect(classify('credits.aleo', 'bond_public')).toBe('staking');
+            expect(classify('hello_world.aleo', 'main')).toBeNull();
+        });
+
+        it('should classify programs registered at runtime', () => {
+            classifier.register({ program: 'lend_test.aleo', protocol: 'Lend', category: 'lending' });
+
+            expect(classify('lend_test.aleo', 'borrow')).toBe('lending');
+        });
+    });
+
+    describe('analyze', () => {
+        it('should score a wallet without DeFi activity as 0', () => {
+            const activity = classifier.analyze(
+                [transition('credits.aleo', 'transfer_public', 4000000)],
+                4250000
+            );
+
+            expect(activity).toEqual({ score: 0, diversity: 0, volume: 0, recency: 0, protocols: [] });
+        });
+
+        it('should score diversity, volume and recency', () => {
+            // Same transitions as the explorer fixture wallet
+            const activity = classifier.analyze(
+                [
+                    transition('credits.aleo', 'transfer_public', 4248861),
+                    transition('arcane_finance_v3.aleo', 'swap_exact_public_for_public', 3127710),
+                    transition('credits.aleo', 'transfer_public', 3127710),
+                    transition('credits.aleo', 'bond_public', 2011452),
+                    transition('credits.aleo', 'transfer_private_to_public', 1203345),
+                ],
+                4250000
+            );
+
+            expect(activity).toMatchObject({
+                diversity: 67, // dex + staking of 3
+                volume: 28, // ln(3) / ln(51)
+                recency: 0, // 1122290 blocks ago
+                score: 37, // 67 * 0.4 + 28 * 0.35
+            });
+        });
+
+        it('should break activity down per protocol, most used first', () => {
+            const activity = classifier.analyze(
+                [
+                    transition('credits.aleo', 'bond_public', 4100000),
+                    transition('arcane_finance_v3.aleo', 'swap_exact_public_for_public', 4200000),
+                    transition('arcane_finance_v3.aleo', 'add_liquidity', 4150000),
+                ],
+                4250000
+            );
+
+            expect(activity.protocols).toEqual([
+                {
+                    protocol: 'Arcane Finance',
+                    programs: ['arcane_finance_v3.aleo'],
+                    categories: ['dex', 'liquidity'],
+                    interactions: 2,
+                    lastBlock: 4200000,
+                },
+                {
+                    protocol: 'Aleo Staking',
+                    programs: ['credits.aleo'],
+                    categories: ['staking'],
+                    interactions: 1,
+                    lastBlock: 4100000,
+                },
+            ]);
+            expect(activity.diversity).toBe(100);
+            expect(activity.recency).toBe(95);
+        });
+
+        it('should cap every component at 100', () => {
+            const programs = [
+                'pondo_protocol.aleo',
+                'arcane_finance_v3.aleo',
+                'vlink_token_service_v2.aleo',
+            ];
+            const transitions = Array.from({ length: 80 }, (_, i) =>
+                transition(programs[i % programs.length]!, 'deposit', 4250000)
+            );
+
+            expect(classifier.analyze(transitions, 4250000)).toMatchObject({
+                score: 100,
+                diversity: 100,
+                volume: 100,
+                recency: 100,
+            });
+        });
+    });
+});
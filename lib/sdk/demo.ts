@@ -51,7 +51,8 @@ async function main() {
     // Step 4: Generate ZK proof
     console.log('\n🔐 Step 4: Generate Zero-Knowledge Proof');
     console.log('   ⏳ Generating proof (this takes 2-3 seconds)...');
-    const proof = await sdk.generateProof(assessment);
+    const record = await sdk.createScoreRecord(assessment);
+    const proof = await sdk.generateProof(assessment, record);
     console.log('✅ Proof generated:');
     console.log(`   • Proof Hash: ${proof.proofHash.slice(0, 32)}...`);
     console.log(`   • Public Inputs: ${proof.publicInputs.length} values`);
@@ -60,6 +61,7 @@ async function main() {
     console.log('\n⛓️  Step 5: Issue Credit on Blockchain');
     console.log('   ⏳ Submitting transaction...');
     const mockPrivateKey = 'APrivateKey1...'; // Mock key for demo
+    await sdk.registerScore(proof, mockPrivateKey);
     const result = await sdk.issueCredit(proof, mockPrivateKey);
 
     if (result.success) {
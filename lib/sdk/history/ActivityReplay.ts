@@ -0,0 +1,148 @@
+/**
+ * Activity Replay
+ *
+ * Rewinds a wallet's on-chain activity to a past block height, so metrics
+ * (and scores) can be computed as of that point: transitions after the
+ * height are dropped, the balance is rewound through the balance changes
+ * made after it, and timestamps of past blocks are estimated.
+ *
+ * Balance changes are only known within the source's balance history
+ * window; replaying further back misses older balance movements.
+ *
+ * @module lib/sdk/history/ActivityReplay
+ */
+
+import { SCORE_HISTORY } from '@/lib/constants';
+import type { WalletActivity } from '@/types/sdk';
+
+interface Anchor {
+    blockHeight: number;
+    timestamp: number;
+}
+
+/**
+ * Maps block heights to times and back for one wallet
+ * Interpolates between the blocks whose times are known (the wallet's
+ * first and latest transitions and the read height) and extrapolates
+ * with SCORE_HISTORY.BLOCK_TIME_MS outside them.
+ */
+export class BlockClock {
+    private anchors: Anchor[] = [];
+
+    /**
+     * @param activity - Activity as read by a MetricsSource
+     * @param readAt - When the activity was read (Unix ms)
+     */
+    constructor(activity: WalletActivity, readAt: number) {
+        const heights = activity.transitions.map((t) => t.blockHeight);
+        const candidates: Anchor[] = [{ blockHeight: activity.blockHeight, timestamp: readAt }];
+        const { firstSeen, lastActivity } = activity;
+        if (heights.length && firstSeen !== null) {
+            candidates.push({ blockHeight: Math.min(...heights), timestamp: firstSeen });
+        }
+        if (heights.length && lastActivity !== null) {
+            candidates.push({ blockHeight: Math.max(...heights), timestamp: lastActivity });
+        }
+
+        // Keep anchors that move forward in both height and time
+        for (const anchor of candidates.sort((a, b) => a.blockHeight - b.blockHeight)) {
+            const last = this.anchors[this.anchors.length - 1];
+            const forward =
+                !last ||
+                (anchor.blockHeight > last.blockHeight && anchor.timestamp > last.timestamp);
+            if (forward) {
+                this.anchors.push(anchor);
+            }
+        }
+    }
+
+    /**
+     * Estimated time of a block (Unix ms)
+     */
+    timeAt(blockHeight: number): number {
+        return Math.round(
+            BlockClock.interpolate(
+                this.anchors.map((a) => [a.blockHeight, a.timestamp]),
+                blockHeight,
+                SCORE_HISTORY.BLOCK_TIME_MS
+            )
+        );
+    }
+
+    /**
+     * Estimated height of the latest block at a time
+     */
+    heightAt(timestamp: number): number {
+        return Math.floor(
+            BlockClock.interpolate(
+                this.anchors.map((a) => [a.timestamp, a.blockHeight]),
+                timestamp,
+                1 / SCORE_HISTORY.BLOCK_TIME_MS
+            )
+        );
+    }
+
+    /**
+     * Piecewise-linear map through increasing points, extrapolated with a
+     * fixed rate before the first point and after the last one
+     */
+    private static interpolate(points: [number, number][], x: number, rate: number): number {
+        const first = points[0]!;
+        const last = points[points.length - 1]!;
+        if (x <= first[0]) return first[1] - (first[0] - x) * rate;
+        if (x >= last[0]) return last[1] + (x - last[0]) * rate;
+
+        const i = points.findIndex(([px]) => px >= x);
+        const [x0, y0] = points[i - 1]!;
+        const [x1, y1] = points[i]!;
+        return y0 + ((x - x0) / (x1 - x0)) * (y1 - y0);
+    }
+}
+
+/**
+ * A wallet's activity as it stood at a past block height
+ * The transaction count is the number of distinct transactions among the
+ * transitions kept.
+ *
+ * @param activity - Activity as read by a MetricsSource
+ * @param blockHeight - Height to rewind to (no-op at or above the read height)
+ * @param clock - Block clock of the activity
+ */
+export function activityAsOf(
+    activity: WalletActivity,
+    blockHeight: number,
+    clock: BlockClock
+): WalletActivity {
+    if (blockHeight >= activity.blockHeight) return activity;
+
+    const transitions = activity.transitions.filter((t) => t.blockHeight <= blockHeight);
+    const allHeights = activity.transitions.map((t) => t.blockHeight);
+    const heights = transitions.map((t) => t.blockHeight);
+    const first = Math.min(...heights);
+    const last = Math.max(...heights);
+
+    const later = (activity.balanceChanges ?? []).filter((c) => c.blockHeight > blockHeight);
+    const balance = activity.balance - later.reduce((sum, c) => sum + c.delta, 0);
+
+    return {
+        address: activity.address,
+        transactionCount: new Set(transitions.map((t) => t.transactionId)).size,
+        // Keep exact times where the source gave them
+        firstSeen: transitions.length
+            ? first === Math.min(...allHeights)
+                ? activity.firstSeen
+                : clock.timeAt(first)
+            : null,
+        lastActivity: transitions.length
+            ? last === Math.max(...allHeights)
+                ? activity.lastActivity
+                : clock.timeAt(last)
+            : null,
+        balance: Math.max(0, balance),
+        transitions,
+        blockHeight,
+        ...(activity.balanceChanges && {
+            balanceChanges: activity.balanceChanges.filter((c) => c.blockHeight <= blockHeight),
+        }),
+    };
+}
@@ -0,0 +1,78 @@
+/**
+ * Score Snapshots
+ *
+ * Keeps every assessment so scores can be compared over time. A snapshot
+ * holds the assessment with its per-factor points, as of the block height
+ * its metrics were read at.
+ *
+ * @module lib/sdk/history/ScoreSnapshots
+ */
+
+import { ScoringEngine } from '../ScoringEngine';
+import type { CreditAssessment, ScoreSnapshot, ScoreSnapshotStore } from '@/types/sdk';
+
+/**
+ * Snapshot of an assessment
+ *
+ * @param assessment - Credit assessment
+ * @param blockHeight - Height the metrics are as of (default: their provenance height)
+ */
+export function createSnapshot(
+    assessment: CreditAssessment,
+    blockHeight: number | null = assessment.provenance?.transactionCount.blockHeight ?? null
+): ScoreSnapshot {
+    const { factors } = ScoringEngine.getScoreBreakdown(assessment);
+
+    return {
+        address: assessment.address,
+        blockHeight,
+        timestamp: assessment.timestamp,
+        finalScore: assessment.finalScore,
+        riskLevel: assessment.riskLevel,
+        model: assessment.model,
+        factors: factors.map((f) => ({
+            id: f.id,
+            name: f.name,
+            score: f.score,
+            points: f.contribution,
+        })),
+        assessment,
+    };
+}
+
+/**
+ * Key a snapshot replaces others under
+ */
+export function snapshotKey(snapshot: ScoreSnapshot): string {
+    const { address, model, blockHeight, timestamp } = snapshot;
+    const at = blockHeight !== null ? `block:${blockHeight}` : `time:${timestamp}`;
+    return `${address}|${model.id}@${model.version}|${at}`;
+}
+
+/**
+ * In-memory snapshot store, local to one process
+ */
+export class MemorySnapshotStore implements ScoreSnapshotStore {
+    private snapshots = new Map<string, Map<string, ScoreSnapshot>>();
+
+    async add(snapshot: ScoreSnapshot): Promise<void> {
+        const byKey = this.snapshots.get(snapshot.address) ?? new Map<string, ScoreSnapshot>();
+        byKey.set(snapshotKey(snapshot), snapshot);
+        this.snapshots.set(snapshot.address, byKey);
+    }
+
+    async list(
+        address: string,
+        range: { from?: number; to?: number } = {}
+    ): Promise<ScoreSnapshot[]> {
+        const { from = -Infinity, to = Infinity } = range;
+        return [...(this.snapshots.get(address)?.values() ?? [])]
+            .filter((s) => s.timestamp >= from && s.timestamp <= to)
+            .sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    async clear(address?: string): Promise<void> {
+        if (address) this.snapshots.delete(address);
+        else this.snapshots.clear();
+    }
+}
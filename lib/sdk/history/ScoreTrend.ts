@@ -0,0 +1,86 @@
+/**
+ * Score Trend Analysis
+ *
+ * Turns a wallet's snapshots into a chartable series with per-point score
+ * deltas, and finds the factor whose contribution moved most between the
+ * first and the last snapshot.
+ *
+ * @module lib/sdk/history/ScoreTrend
+ */
+
+import type {
+    FactorMovement,
+    ScoreSnapshot,
+    ScoreTrend,
+    ScoringModelRef,
+} from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+/**
+ * Analyze a wallet's score over time
+ * Scores from different models are not comparable, so only snapshots of
+ * one model are used: the requested one (any version if none is given),
+ * else the model of the latest snapshot.
+ *
+ * @param snapshots - Snapshots of one wallet, in any order
+ * @param model - Model to follow
+ * @throws SDKError NO_SNAPSHOTS if no snapshot matches
+ */
+export function analyzeTrend(
+    snapshots: readonly ScoreSnapshot[],
+    model?: { id: string; version?: string }
+): ScoreTrend {
+    const ordered = [...snapshots].sort((a, b) => a.timestamp - b.timestamp);
+    const followed: ScoringModelRef | undefined = model
+        ? ordered.findLast(
+            (s) => s.model.id === model.id && (!model.version || s.model.version === model.version)
+        )?.model
+        : ordered[ordered.length - 1]?.model;
+
+    const series = ordered.filter(
+        (s) =>
+            followed &&
+            s.model.id === followed.id &&
+            (model && !model.version ? true : s.model.version === followed.version)
+    );
+    if (!followed || series.length === 0) {
+        throw new SDKError('No score snapshots to analyze', 'NO_SNAPSHOTS');
+    }
+
+    const first = series[0]!;
+    const last = series[series.length - 1]!;
+    const factors = factorMovements(first, last);
+
+    return {
+        address: last.address,
+        model: followed,
+        series: series.map((s, i) => ({
+            timestamp: s.timestamp,
+            blockHeight: s.blockHeight,
+            score: s.finalScore,
+            riskLevel: s.riskLevel,
+            delta: i === 0 ? 0 : s.finalScore - series[i - 1]!.finalScore,
+        })),
+        change: last.finalScore - first.finalScore,
+        factors,
+        topMover: factors[0] && factors[0].change !== 0 ? factors[0] : null,
+    };
+}
+
+/**
+ * Points each factor gained or lost, largest movement first
+ */
+function factorMovements(first: ScoreSnapshot, last: ScoreSnapshot): FactorMovement[] {
+    return last.factors
+        .map((factor) => {
+            const from = first.factors.find((f) => f.id === factor.id)?.points ?? 0;
+            return {
+                id: factor.id,
+                name: factor.name,
+                from,
+                to: factor.points,
+                change: factor.points - from,
+            };
+        })
+        .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+}
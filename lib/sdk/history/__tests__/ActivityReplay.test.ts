@@ -0,0 +1,104 @@
+/**
+ * ActivityReplay Unit Tests
+ * Block clock estimates and rewinding activity to past heights
+ */
+
+import { BlockClock, activityAsOf } from '../ActivityReplay';
+import { LOAN_LEDGER, SCORE_HISTORY } from '@/lib/constants';
+import type { WalletActivity, WalletTransition } from '@/types/sdk';
+
+const READ_AT = Date.UTC(2026, 0, 1);
+const HOUR = 1000 * 60 * 60;
+
+const transfer = (id: string, transactionId: string, blockHeight: number): WalletTransition => ({
+    id,
+    transactionId,
+    program: 'credits.aleo',
+    function: 'transfer_public',
+    blockHeight,
+});
+
+const activity: WalletActivity = {
+    address: 'aleo1replay',
+    transactionCount: 3,
+    firstSeen: READ_AT - 1000 * HOUR,
+    lastActivity: READ_AT - 100 * HOUR,
+    balance: 30_000_000,
+    transitions: [
+        transfer('au1a', 'at1a', 1000),
+        transfer('au1b', 'at1b', 5000),
+        transfer('au1c', 'at1b', 5000), // Same transaction as au1b
+        transfer('au1d', 'at1d', 9000),
+    ],
+    balanceChanges: [
+        { transitionId: 'au1b', blockHeight: 5000, delta: 20_000_000 },
+        { transitionId: 'au1d', blockHeight: 9000, delta: -5_000_000 },
+    ],
+    blockHeight: 10000,
+};
+
+describe('ActivityReplay', () => {
+    describe('BlockClock', () => {
+        const clock = new BlockClock(activity, READ_AT);
+
+        it('should hit the known blocks exactly', () => {
+            expect(clock.timeAt(1000)).toBe(activity.firstSeen);
+            expect(clock.timeAt(9000)).toBe(activity.lastActivity);
+            expect(clock.timeAt(10000)).toBe(READ_AT);
+        });
+
+        it('should interpolate between known blocks', () => {
+            expect(clock.timeAt(5000)).toBe(READ_AT - 550 * HOUR);
+            expect(clock.heightAt(READ_AT - 550 * HOUR)).toBe(5000);
+        });
+
+        it('should extrapolate with the nominal block time', () => {
+            expect(clock.timeAt(0)).toBe(
+                Math.round(READ_AT - 1000 * HOUR - 1000 * SCORE_HISTORY.BLOCK_TIME_MS)
+            );
+            expect(clock.heightAt(READ_AT + 10 * SCORE_HISTORY.BLOCK_TIME_MS)).toBe(10010);
+        });
+
+        it('should fall back to the read height for unused wallets', () => {
+            const unused = new BlockClock(
+                { ...activity, transitions: [], firstSeen: null, lastActivity: null },
+                READ_AT
+            );
+
+            expect(unused.timeAt(10000 - LOAN_LEDGER.BLOCKS_PER_DAY)).toBe(
+                READ_AT - 1000 * 60 * 60 * 24
+            );
+        });
+    });
+
+    describe('activityAsOf', () => {
+        const clock = new BlockClock(activity, READ_AT);
+
+        it('should drop later transitions and rewind the balance', () => {
+            const past = activityAsOf(activity, 6000, clock);
+
+            expect(past.transitions.map((t) => t.id)).toEqual(['au1a', 'au1b', 'au1c']);
+            expect(past.transactionCount).toBe(2);
+            expect(past.balance).toBe(35_000_000);
+            expect(past.balanceChanges).toHaveLength(1);
+            expect(past.blockHeight).toBe(6000);
+            expect(past.firstSeen).toBe(activity.firstSeen);
+            expect(past.lastActivity).toBe(clock.timeAt(5000));
+        });
+
+        it('should leave nothing before the first transition', () => {
+            const past = activityAsOf(activity, 500, clock);
+
+            expect(past).toMatchObject({
+                transactionCount: 0,
+                firstSeen: null,
+                lastActivity: null,
+                balance: 15_000_000,
+            });
+        });
+
+        it('should return the activity unchanged at the read height', () => {
+            expect(activityAsOf(activity, 10000, clock)).toBe(activity);
+        });
+    });
+});
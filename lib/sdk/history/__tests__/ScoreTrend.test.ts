@@ -0,0 +1,140 @@
+/**
+ * Score Snapshot and Trend Unit Tests
+ */
+
+import { MemorySnapshotStore, createSnapshot } from '../ScoreSnapshots';
+import { analyzeTrend } from '../ScoreTrend';
+import { uniformProvenance } from '../../Provenance';
+import { ScoringEngine } from '../../ScoringEngine';
+import { scoringModelRegistry } from '../../ScoringModelRegistry';
+import type { ScoreSnapshot, WalletMetrics } from '@/types/sdk';
+
+const DAY = 1000 * 60 * 60 * 24;
+const NOW = Date.UTC(2026, 0, 1);
+
+function snapshotAt(
+    blockHeight: number,
+    timestamp: number,
+    overrides: Partial<WalletMetrics> = {}
+): ScoreSnapshot {
+    const metrics: WalletMetrics = {
+        address: 'aleo1trend',
+        transactionCount: 40,
+        walletAgeMonths: 12,
+        defiScore: 50,
+        repaymentRate: 80,
+        tokenBalance: 500,
+        lastTransactionDate: timestamp - DAY,
+        provenance: uniformProvenance({
+            source: 'fixture',
+            fetchedAt: NOW,
+            blockHeight,
+            status: 'real',
+        }),
+        ...overrides,
+    };
+    return createSnapshot(
+        ScoringEngine.calculateScore(metrics, scoringModelRegistry.getDefault(), {
+            now: timestamp,
+        })
+    );
+}
+
+describe('Score history', () => {
+    describe('createSnapshot', () => {
+        it('should keep the score, factor points and block height', () => {
+            const snapshot = snapshotAt(4000000, NOW);
+            const breakdown = ScoringEngine.getScoreBreakdown(snapshot.assessment);
+
+            expect(snapshot.blockHeight).toBe(4000000);
+            expect(snapshot.timestamp).toBe(NOW);
+            expect(snapshot.finalScore).toBe(snapshot.assessment.finalScore);
+            expect(snapshot.factors.map((f) => f.points)).toEqual(
+                breakdown.factors.map((f) => f.contribution)
+            );
+        });
+    });
+
+    describe('MemorySnapshotStore', () => {
+        it('should list snapshots oldest first within a range', async () => {
+            const store = new MemorySnapshotStore();
+            await store.add(snapshotAt(3, NOW));
+            await store.add(snapshotAt(1, NOW - 2 * DAY));
+            await store.add(snapshotAt(2, NOW - DAY));
+
+            const all = await store.list('aleo1trend');
+            const recent = await store.list('aleo1trend', { from: NOW - DAY });
+
+            expect(all.map((s) => s.blockHeight)).toEqual([1, 2, 3]);
+            expect(recent.map((s) => s.blockHeight)).toEqual([2, 3]);
+            expect(await store.list('aleo1other')).toEqual([]);
+        });
+
+        it('should replace a snapshot at the same height and model', async () => {
+            const store = new MemorySnapshotStore();
+            await store.add(snapshotAt(1, NOW, { defiScore: 10 }));
+            await store.add(snapshotAt(1, NOW, { defiScore: 90 }));
+
+            const [only, ...rest] = await store.list('aleo1trend');
+
+            expect(rest).toHaveLength(0);
+            expect(only!.assessment.metrics.defiScore).toBe(90);
+        });
+
+        it('should clear one address or all', async () => {
+            const store = new MemorySnapshotStore();
+            await store.add(snapshotAt(1, NOW));
+            await store.add({ ...snapshotAt(1, NOW), address: 'aleo1other' });
+
+            await store.clear('aleo1trend');
+            expect(await store.list('aleo1trend')).toHaveLength(0);
+            expect(await store.list('aleo1other')).toHaveLength(1);
+
+            await store.clear();
+            expect(await store.list('aleo1other')).toHaveLength(0);
+        });
+    });
+
+    describe('analyzeTrend', () => {
+        it('should chart scores with deltas and find the top mover', () => {
+            const trend = analyzeTrend([
+                snapshotAt(3, NOW, { defiScore: 90 }),
+                snapshotAt(1, NOW - 60 * DAY, { defiScore: 10 }),
+                snapshotAt(2, NOW - 30 * DAY, { defiScore: 50 }),
+            ]);
+
+            expect(trend.series.map((p) => p.blockHeight)).toEqual([1, 2, 3]);
+            expect(trend.series[0]!.delta).toBe(0);
+            expect(trend.series[2]!.delta).toBe(trend.series[2]!.score - trend.series[1]!.score);
+            expect(trend.change).toBe(trend.series[2]!.score - trend.series[0]!.score);
+            expect(trend.change).toBeGreaterThan(0);
+            expect(trend.topMover?.id).toBe('defi');
+            expect(trend.topMover?.change).toBeGreaterThan(0);
+        });
+
+        it('should report no mover for a flat history', () => {
+            const trend = analyzeTrend([snapshotAt(1, NOW - DAY), snapshotAt(2, NOW)]);
+
+            expect(trend.topMover).toBeNull();
+        });
+
+        it('should follow one model only', () => {
+            const other = {
+                ...snapshotAt(2, NOW, { defiScore: 100 }),
+                model: { id: 'other-model', version: '1.0.0' },
+            };
+
+            const trend = analyzeTrend([snapshotAt(1, NOW - DAY), other], {
+                id: scoringModelRegistry.getDefault().id,
+            });
+
+            expect(trend.series).toHaveLength(1);
+        });
+
+        it('should throw without snapshots', () => {
+            expect(() => analyzeTrend([])).toThrow(
+                expect.objectContaining({ code: 'NO_SNAPSHOTS' })
+            );
+        });
+    });
+});
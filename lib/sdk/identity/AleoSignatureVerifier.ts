@@ -0,0 +1,47 @@
+/**
+ * Aleo Signature Verifier
+ *
+ * Checks account signatures over Aleo plaintexts with the Provable SDK,
+ * the same check `signature::verify` makes in prove_linked_wallets.
+ * Wallets produce them with `PrivateKey.signValue` (or the wallet
+ * adapter's message signing over the plaintext).
+ *
+ * The Provable SDK (WASM) is loaded lazily.
+ *
+ * @module lib/sdk/identity/AleoSignatureVerifier
+ */
+
+import type { WalletSignatureVerifier } from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+export class AleoSignatureVerifier implements WalletSignatureVerifier {
+    readonly id = 'aleo';
+
+    /**
+     * @param address - Signer address
+     * @param message - Aleo plaintext literal that was signed
+     * @param signature - Signature literal (sign1...)
+     * @returns False for a wrong signer or message, or a malformed address or signature
+     * @throws SDKError SDK_LOAD_ERROR if the Provable SDK cannot be loaded
+     */
+    async verify(address: string, message: string, signature: string): Promise<boolean> {
+        const { Address, Signature } = await this.loadSDK();
+
+        try {
+            return Signature.from_string(signature).verifyValue(
+                Address.from_string(address),
+                message
+            );
+        } catch {
+            return false;
+        }
+    }
+
+    private async loadSDK(): Promise<typeof import('@provablehq/sdk')> {
+        try {
+            return await import('@provablehq/sdk');
+        } catch (error) {
+            throw new SDKError('Failed to load the Aleo SDK', 'SDK_LOAD_ERROR', error);
+        }
+    }
+}
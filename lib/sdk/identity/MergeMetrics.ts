@@ -0,0 +1,170 @@
+/**
+ * Linked Wallet Metrics
+ *
+ * Merges the metrics of wallets linked to one holder (see WalletLinker)
+ * into the metrics of a single combined wallet:
+ * - age: the oldest wallet
+ * - transaction count and balance: summed
+ * - repayment: loans of every ledger pooled, so each wallet weighs by its
+ *   closed loans, read at the latest height; without ledgers, rates
+ *   weighted by transaction count
+ * - DeFi score and last transaction: the highest / latest wallet
+ * - balance history: summed sample by sample, newest aligned, when every
+ *   wallet was sampled at the same interval
+ * - wash activity: anomalies of every wallet, discounts summed
+ * - provenance: per field, the least reliable wallet's
+ *
+ * The combined metrics carry the primary (first) wallet's address.
+ *
+ * @module lib/sdk/identity/MergeMetrics
+ */
+
+import { summarizeBalanceSamples } from '../balance/BalanceHistory';
+import { LoanLedger } from '../lending/LoanLedger';
+import { METRIC_FIELDS } from '../Provenance';
+import type {
+    ActivityAnomalyReport,
+    BalanceHistory,
+    MetricsProvenance,
+    ProvenanceStatus,
+    RepaymentHistory,
+    WalletMetrics,
+} from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+/**
+ * Least to most reliable, for picking the worst provenance of a field
+ */
+const STATUS_RANK: Record<ProvenanceStatus, number> = {
+    fallback: 0,
+    stale: 1,
+    cached: 2,
+    real: 3,
+};
+
+/**
+ * Merge the metrics of linked wallets
+ *
+ * @param wallets - Metrics of each wallet, primary first
+ * @returns Combined metrics, with the linked addresses
+ * @throws SDKError INVALID_LINK for no wallets or the same wallet twice
+ */
+export function mergeWalletMetrics(wallets: WalletMetrics[]): WalletMetrics {
+    const addresses = wallets.flatMap((m) => m.linkedAddresses ?? [m.address]);
+    if (!wallets.length) {
+        throw new SDKError('No wallet metrics to merge', 'INVALID_LINK');
+    }
+    if (new Set(addresses).size !== addresses.length) {
+        throw new SDKError('Linked wallets must be distinct', 'INVALID_LINK');
+    }
+
+    const topDefi = wallets.reduce((top, m) => (m.defiScore > top.defiScore ? m : top));
+    const repaymentHistory = mergeRepayment(wallets);
+    const balanceHistory = mergeBalanceHistory(wallets);
+    const activityAnomalies = mergeAnomalies(wallets);
+    const provenance = mergeProvenance(wallets);
+
+    return {
+        address: wallets[0]!.address,
+        transactionCount: sum(wallets.map((m) => m.transactionCount)),
+        walletAgeMonths: Math.max(...wallets.map((m) => m.walletAgeMonths)),
+        defiScore: topDefi.defiScore,
+        repaymentRate: repaymentHistory
+            ? LoanLedger.repaymentRate(repaymentHistory)
+            : weightedRepaymentRate(wallets),
+        tokenBalance: sum(wallets.map((m) => m.tokenBalance)),
+        lastTransactionDate: Math.max(...wallets.map((m) => m.lastTransactionDate)),
+        ...(topDefi.defiActivity && { defiActivity: topDefi.defiActivity }),
+        ...(repaymentHistory && { repaymentHistory }),
+        ...(balanceHistory && { balanceHistory }),
+        ...(activityAnomalies && { activityAnomalies }),
+        ...(provenance && { provenance }),
+        linkedAddresses: addresses,
+    };
+}
+
+/**
+ * One ledger over every wallet's loans (undefined unless every wallet has one)
+ */
+function mergeRepayment(wallets: WalletMetrics[]): RepaymentHistory | undefined {
+    if (!wallets.every((m) => m.repaymentHistory)) return undefined;
+
+    const histories = wallets.map((m) => m.repaymentHistory!);
+    const loans = histories.flatMap((h) => h.loans).sort((a, b) => a.borrowedAt - b.borrowedAt);
+    const heights = histories
+        .map((h) => h.blockHeight)
+        .filter((height): height is number => height !== undefined);
+    return LoanLedger.summarize(loans, heights.length ? Math.max(...heights) : undefined);
+}
+
+/**
+ * Repayment rates weighted by transaction count (equal weights if none)
+ */
+function weightedRepaymentRate(wallets: WalletMetrics[]): number {
+    const total = sum(wallets.map((m) => m.transactionCount));
+    const weight = (m: WalletMetrics) =>
+        total > 0 ? m.transactionCount / total : 1 / wallets.length;
+    return Math.round(sum(wallets.map((m) => m.repaymentRate * weight(m))));
+}
+
+/**
+ * Balance histories summed sample by sample, newest aligned
+ * Undefined unless every wallet has a history at the same interval.
+ */
+function mergeBalanceHistory(wallets: WalletMetrics[]): BalanceHistory | undefined {
+    const histories = wallets.map((m) => m.balanceHistory);
+    const [first] = histories;
+    if (!first || !histories.every((h) => h?.intervalBlocks === first.intervalBlocks)) {
+        return undefined;
+    }
+
+    const length = Math.min(...histories.map((h) => h!.samples.length));
+    const samples = first.samples.slice(first.samples.length - length).map((sample, i) => ({
+        blockHeight: sample.blockHeight,
+        balance: sum(histories.map((h) => h!.samples[h!.samples.length - length + i]!.balance)),
+    }));
+    return summarizeBalanceSamples(samples, first.intervalBlocks);
+}
+
+/**
+ * Anomalies of every wallet with a report (undefined if none has one)
+ */
+function mergeAnomalies(wallets: WalletMetrics[]): ActivityAnomalyReport | undefined {
+    const reports = wallets
+        .map((m) => m.activityAnomalies)
+        .filter((r): r is ActivityAnomalyReport => r !== undefined);
+    if (!reports.length) return undefined;
+
+    return {
+        anomalies: reports.flatMap((r) => r.anomalies),
+        discountedTransactions: sum(reports.map((r) => r.discountedTransactions)),
+        inspectedTransfers: sum(reports.map((r) => r.inspectedTransfers)),
+        blockHeight: Math.max(...reports.map((r) => r.blockHeight)),
+    };
+}
+
+/**
+ * Per field, the provenance of the least reliable wallet (oldest on ties)
+ * Undefined unless every wallet carries provenance.
+ */
+function mergeProvenance(wallets: WalletMetrics[]): MetricsProvenance | undefined {
+    if (!wallets.every((m) => m.provenance)) return undefined;
+
+    return Object.fromEntries(
+        METRIC_FIELDS.map((field) => [
+            field,
+            wallets
+                .map((m) => m.provenance![field])
+                .reduce((worst, entry) =>
+                    STATUS_RANK[entry.status] < STATUS_RANK[worst.status] ||
+                    (entry.status === worst.status && entry.fetchedAt < worst.fetchedAt)
+                        ? entry
+                        : worst
+                ),
+        ])
+    ) as MetricsProvenance;
+}
+
+function sum(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0);
+}
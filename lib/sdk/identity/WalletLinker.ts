@@ -0,0 +1,107 @@
+/**
+ * Wallet Linking
+ *
+ * Establishes that one holder controls several addresses:
+ * 1. The verifier issues a challenge (lib/zk/Challenge).
+ * 2. Every wallet signs the challenge's link message, the plaintext
+ *    `{ nonce, purpose }` that prove_linked_wallets checks the signatures
+ *    against.
+ * 3. The linker checks each signature and returns the linked identity,
+ *    whose metrics can be merged (mergeWalletMetrics) and scored, and whose
+ *    signatures become private inputs of the identity proof.
+ *
+ * Signing the verifier's challenge rather than a fixed message means a
+ * set of signatures links wallets for one session only.
+ *
+ * @module lib/sdk/identity/WalletLinker
+ */
+
+import { AleoSignatureVerifier } from './AleoSignatureVerifier';
+import { challengeFields, isChallengeExpired } from '@/lib/zk/Challenge';
+import { LINKED_WALLETS } from '@/lib/constants';
+import type {
+    LinkedIdentity,
+    ProofChallenge,
+    WalletLinkRequest,
+    WalletSignatureVerifier,
+} from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+/**
+ * Message every linked wallet signs for a challenge
+ * Mirrors `LinkMessage` in contract/src/main.leo.
+ *
+ * @param challenge - Verifier challenge
+ * @returns Aleo struct plaintext
+ * @throws SDKError INVALID_CHALLENGE for a malformed nonce
+ */
+export function linkMessage(challenge: ProofChallenge): string {
+    const { nonce, purpose } = challengeFields(challenge);
+    return `{ nonce: ${nonce}field, purpose: ${purpose}field }`;
+}
+
+export class WalletLinker {
+    private verifier: WalletSignatureVerifier;
+
+    /**
+     * @param verifier - Signature verifier (default: AleoSignatureVerifier)
+     */
+    constructor(verifier?: WalletSignatureVerifier) {
+        this.verifier = verifier ?? new AleoSignatureVerifier();
+    }
+
+    /**
+     * Check every wallet signed the challenge's link message
+     *
+     * @param request - Challenge and one signature per wallet, primary first
+     * @param now - Current time (Unix ms)
+     * @returns Linked identity
+     * @throws SDKError INVALID_LINK for fewer than 2 or more than MAX_WALLETS
+     * wallets, or the same wallet twice
+     * @throws SDKError INVALID_ADDRESS for a malformed address
+     * @throws SDKError INVALID_CHALLENGE for an expired challenge
+     * @throws SDKError INVALID_SIGNATURE naming the first wallet whose signature fails
+     */
+    async link(request: WalletLinkRequest, now: number = Date.now()): Promise<LinkedIdentity> {
+        const { challenge, signatures } = request;
+        const addresses = signatures.map((s) => s.address);
+
+        if (addresses.length < 2 || addresses.length > LINKED_WALLETS.MAX_WALLETS) {
+            throw new SDKError(
+                `Link between 2 and ${LINKED_WALLETS.MAX_WALLETS} wallets, got ${addresses.length}`,
+                'INVALID_LINK'
+            );
+        }
+        const malformed = addresses.find((address) => !address.startsWith('aleo1'));
+        if (malformed !== undefined) {
+            throw new SDKError(`Invalid Aleo address: ${malformed}`, 'INVALID_ADDRESS');
+        }
+        if (new Set(addresses).size !== addresses.length) {
+            throw new SDKError('Linked wallets must be distinct', 'INVALID_LINK');
+        }
+        if (isChallengeExpired(challenge, now)) {
+            throw new SDKError('Challenge has expired', 'INVALID_CHALLENGE');
+        }
+
+        const message = linkMessage(challenge);
+        const valid = await Promise.all(
+            signatures.map((s) => this.verifier.verify(s.address, message, s.signature))
+        );
+        const failed = signatures.find((_, i) => !valid[i]);
+        if (failed) {
+            throw new SDKError(
+                `Signature of ${failed.address} does not sign the challenge`,
+                'INVALID_SIGNATURE',
+                { address: failed.address }
+            );
+        }
+
+        return {
+            primary: addresses[0]!,
+            addresses,
+            challenge,
+            signatures,
+            linkedAt: now,
+        };
+    }
+}
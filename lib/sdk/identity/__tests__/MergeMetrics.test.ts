@@ -0,0 +1,187 @@
+/**
+ * mergeWalletMetrics Unit Tests
+ * Merge rules for the metrics of linked wallets
+ */
+
+import { mergeWalletMetrics } from '../MergeMetrics';
+import { buildBalanceHistory } from '../../balance/BalanceHistory';
+import { LoanLedger } from '../../lending/LoanLedger';
+import { fallbackProvenance, uniformProvenance } from '../../Provenance';
+import type { Loan, LoanStatus, WalletMetrics } from '@/types/sdk';
+
+const NOW = Date.UTC(2026, 0, 1);
+const HEIGHT = 5000000;
+
+const primary: WalletMetrics = {
+    address: 'aleo1primary',
+    transactionCount: 40,
+    walletAgeMonths: 6,
+    defiScore: 30,
+    repaymentRate: 90,
+    tokenBalance: 200,
+    lastTransactionDate: NOW - 1000,
+};
+
+const second: WalletMetrics = {
+    address: 'aleo1second',
+    transactionCount: 10,
+    walletAgeMonths: 30,
+    defiScore: 70,
+    repaymentRate: 40,
+    tokenBalance: 50,
+    lastTransactionDate: NOW,
+};
+
+function loan(id: string, borrowedAt: number, status: LoanStatus, daysPastDue = 0): Loan {
+    return {
+        id,
+        program: 'lend.aleo',
+        protocol: 'Lend',
+        borrowedAt,
+        dueBlock: borrowedAt + 1000,
+        closedAt: status === 'open' ? null : borrowedAt + 900,
+        status,
+        daysPastDue,
+    };
+}
+
+describe('mergeWalletMetrics', () => {
+    it('should take the oldest age and sum counts and balances', () => {
+        const merged = mergeWalletMetrics([primary, second]);
+
+        expect(merged).toMatchObject({
+            address: 'aleo1primary',
+            transactionCount: 50,
+            walletAgeMonths: 30,
+            defiScore: 70,
+            tokenBalance: 250,
+            lastTransactionDate: NOW,
+            linkedAddresses: ['aleo1primary', 'aleo1second'],
+        });
+    });
+
+    it('should weight repayment rates by transaction count without ledgers', () => {
+        // (90 * 40 + 40 * 10) / 50
+        expect(mergeWalletMetrics([primary, second]).repaymentRate).toBe(80);
+        expect(
+            mergeWalletMetrics([
+                { ...primary, transactionCount: 0 },
+                { ...second, transactionCount: 0 },
+            ]).repaymentRate
+        ).toBe(65);
+    });
+
+    it('should pool the loans of every ledger', () => {
+        const history = (loans: Loan[]) => LoanLedger.summarize(loans);
+        const merged = mergeWalletMetrics([
+            { ...primary, repaymentHistory: history([loan('a', 300, 'repaid')]) },
+            {
+                ...second,
+                repaymentHistory: history([
+                    loan('b', 100, 'repaid'),
+                    loan('c', 200, 'defaulted', 90),
+                    loan('d', 400, 'repaid'),
+                    loan('e', 500, 'open'),
+                ]),
+            },
+        ]);
+
+        expect(merged.repaymentHistory!.loans.map((l) => l.id)).toEqual(['b', 'c', 'a', 'd', 'e']);
+        // 3 of 4 closed loans on time, whichever wallet took them
+        expect(merged.repaymentHistory).toMatchObject({
+            onTimeRate: 75,
+            maxDaysPastDue: 90,
+            defaults: 1,
+            openLoans: 1,
+        });
+        expect(merged.repaymentRate).toBe(75);
+    });
+
+    it('should sum balance histories sampled at the same interval', () => {
+        const options = { samples: 3, intervalBlocks: 100 };
+        const merged = mergeWalletMetrics([
+            {
+                ...primary,
+                balanceHistory: buildBalanceHistory(
+                    3_000_000,
+                    [{ transitionId: 'au1a', blockHeight: HEIGHT - 50, delta: 2_000_000 }],
+                    HEIGHT,
+                    options
+                ),
+            },
+            { ...second, balanceHistory: buildBalanceHistory(1_000_000, [], HEIGHT + 1, options) },
+        ]);
+
+        expect(merged.balanceHistory!.samples).toEqual([
+            { blockHeight: HEIGHT - 200, balance: 2 },
+            { blockHeight: HEIGHT - 100, balance: 2 },
+            { blockHeight: HEIGHT, balance: 4 },
+        ]);
+        expect(merged.balanceHistory!.minimum).toBe(2);
+
+        const finer = { ...options, intervalBlocks: 50 };
+        const other = buildBalanceHistory(1_000_000, [], HEIGHT, finer);
+        expect(
+            mergeWalletMetrics([
+                { ...primary, balanceHistory: merged.balanceHistory },
+                { ...second, address: 'aleo1third', balanceHistory: other },
+            ]).balanceHistory
+        ).toBeUndefined();
+    });
+
+    it('should keep every wallet anomaly and sum the discounts', () => {
+        const report = (discounted: number) => ({
+            anomalies: [
+                {
+                    type: 'dust' as const,
+                    transactionIds: [],
+                    counterparties: [],
+                    fromBlock: 1,
+                    toBlock: 2,
+                    discountedTransactions: discounted,
+                    description: '',
+                },
+            ],
+            discountedTransactions: discounted,
+            inspectedTransfers: 20,
+            blockHeight: HEIGHT,
+        });
+
+        const merged = mergeWalletMetrics([
+            { ...primary, activityAnomalies: report(12) },
+            { ...second, activityAnomalies: report(3) },
+        ]);
+
+        expect(merged.activityAnomalies).toMatchObject({
+            discountedTransactions: 15,
+            inspectedTransfers: 40,
+        });
+        expect(merged.activityAnomalies!.anomalies).toHaveLength(2);
+    });
+
+    it('should keep the least reliable provenance of each field', () => {
+        const real = { source: 'aleo-explorer', fetchedAt: NOW, blockHeight: HEIGHT };
+        const merged = mergeWalletMetrics([
+            { ...primary, provenance: uniformProvenance({ ...real, status: 'real' }) },
+            {
+                ...second,
+                provenance: {
+                    ...uniformProvenance({ ...real, status: 'cached' }),
+                    defiScore: fallbackProvenance(NOW),
+                },
+            },
+        ]);
+
+        expect(merged.provenance!.transactionCount.status).toBe('cached');
+        expect(merged.provenance!.defiScore.status).toBe('fallback');
+    });
+
+    it('should refuse the same wallet twice', () => {
+        expect(() => mergeWalletMetrics([primary, { ...primary }])).toThrow(
+            expect.objectContaining({ code: 'INVALID_LINK' })
+        );
+        expect(() => mergeWalletMetrics([])).toThrow(
+            expect.objectContaining({ code: 'INVALID_LINK' })
+        );
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * WalletLinker Unit Tests
+ * Link messages, signature checks and the limits on linked wallets
+ */
+
+import { WalletLinker, linkMessage } from '../WalletLinker';
+import { createChallenge, purposeField } from '@/lib/zk/Challenge';
+import type { WalletSignature, WalletSignatureVerifier } from '@/types/sdk';
+
+/**
+ * Accepts `sig:<address>:<message>`
+ */
+const verifier: WalletSignatureVerifier = {
+    id: 'fake',
+    verify: async (address, message, signature) => signature === `sig:${address}:${message}`,
+};
+
+const challenge = createChallenge('aleo1lender', 'loan-application');
+
+const signed = (address: string, message = linkMessage(challenge)): WalletSignature => ({
+    address,
+    signature: `sig:${address}:${message}`,
+});
+
+describe('linkMessage', () => {
+    it('should be the challenge nonce and purpose as an Aleo struct', () => {
+        expect(linkMessage(challenge)).toBe(
+            `{ nonce: ${challenge.nonce}field, ` +
+                `purpose: ${purposeField('aleo1lender', 'loan-application')}field }`
+        );
+    });
+});
+
+describe('WalletLinker', () => {
+    let linker: WalletLinker;
+
+    beforeEach(() => {
+        linker = new WalletLinker(verifier);
+    });
+
+    it('should link wallets that all signed the challenge', async () => {
+        const signatures = [signed('aleo1primary'), signed('aleo1second'), signed('aleo1third')];
+
+        const identity = await linker.link({ challenge, signatures }, 1000);
+
+        expect(identity).toEqual({
+            primary: 'aleo1primary',
+            addresses: ['aleo1primary', 'aleo1second', 'aleo1third'],
+            challenge,
+            signatures,
+            linkedAt: 1000,
+        });
+    });
+
+    it('should name the wallet whose signature fails', async () => {
+        const other = createChallenge('aleo1lender', 'loan-application');
+        const signatures = [signed('aleo1primary'), signed('aleo1second', linkMessage(other))];
+
+        await expect(linker.link({ challenge, signatures })).rejects.toMatchObject({
+            code: 'INVALID_SIGNATURE',
+            details: { address: 'aleo1second' },
+        });
+    });
+
+    it('should link between 2 and MAX_WALLETS distinct wallets', async () => {
+        const link = (addresses: string[]) =>
+            linker.link({ challenge, signatures: addresses.map((a) => signed(a)) });
+
+        await expect(link(['aleo1primary'])).rejects.toMatchObject({ code: 'INVALID_LINK' });
+        await expect(
+            link(['aleo1a', 'aleo1b', 'aleo1c', 'aleo1d', 'aleo1e'])
+        ).rejects.toMatchObject({ code: 'INVALID_LINK' });
+        await expect(link(['aleo1primary', 'aleo1primary'])).rejects.toMatchObject({
+            code: 'INVALID_LINK',
+        });
+        await expect(link(['aleo1primary', 'not-an-address'])).rejects.toMatchObject({
+            code: 'INVALID_ADDRESS',
+        });
+    });
+
+    it('should refuse expired challenges', async () => {
+        const signatures = [signed('aleo1primary'), signed('aleo1second')];
+
+        await expect(
+            linker.link({ challenge, signatures }, challenge.expiresAt + 1)
+        ).rejects.toMatchObject({ code: 'INVALID_CHALLENGE' });
+    });
+});
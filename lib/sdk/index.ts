@@ -12,22 +12,243 @@ export { CreditScoreSDK, getSDK, resetSDK } from './CreditScoreSDK';
 
 // Core components (for advanced usage)
 export { DataAggregator } from './DataAggregator';
+export type { DataAggregatorOptions } from './DataAggregator';
+export { AleoExplorerSource } from './sources/AleoExplorerSource';
+export {
+    HISTORY_FIELDS,
+    METRIC_FIELDS,
+    fallbackFields,
+    fallbackProvenance,
+    markCached,
+    markPartial,
+    partialFields,
+    uniformProvenance,
+} from './Provenance';
+export type { AleoExplorerSourceOptions } from './sources/AleoExplorerSource';
+export { DefiClassifier, DEFAULT_DEFI_PROGRAMS } from './defi/DefiClassifier';
+export { LoanLedger, DEFAULT_LENDING_PROGRAMS } from './lending/LoanLedger';
+export {
+    DEFAULT_RECENCY_POLICY,
+    eventPenalties,
+    recencyWeight,
+    recencyWeightedOnTimeRate,
+} from './lending/CreditEvents';
+export {
+    REASON_CODE_LIST,
+    REASON_MESSAGES_EN,
+    formatReason,
+    scoreReasons,
+} from './reasons/ReasonCodes';
+export {
+    buildBalanceHistory,
+    historyWindowBlocks,
+    summarizeBalanceSamples,
+} from './balance/BalanceHistory';
+export type { BalanceHistoryOptions } from './balance/BalanceHistory';
+export { WashDetector } from './sybil/WashDetector';
+export type { WashDetectionOptions } from './sybil/WashDetector';
+export { WalletLinker, linkMessage } from './identity/WalletLinker';
+export { AleoSignatureVerifier } from './identity/AleoSignatureVerifier';
+export { mergeWalletMetrics } from './identity/MergeMetrics';
+export { MemoryCacheStore } from './cache/MemoryCacheStore';
+export type { MemoryCacheStoreOptions } from './cache/MemoryCacheStore';
+export { IndexedDBCacheStore } from './cache/IndexedDBCacheStore';
+export type { IndexedDBCacheStoreOptions } from './cache/IndexedDBCacheStore';
+export { cacheFreshness, resolveFieldTTLs } from './cache/CacheFreshness';
+export type { CacheFreshness, CacheState, FieldTTLs } from './cache/CacheFreshness';
+export { BatchScorer } from './batch/BatchScorer';
+export { RateLimiter } from './batch/RateLimiter';
+export {
+    BATCH_EXPORT_COLUMNS,
+    exportBatchResults,
+    exportBatchResultsToString,
+    toExportRow,
+} from './batch/BatchExport';
+export type { BatchExportRow } from './batch/BatchExport';
+export { BlockClock, activityAsOf } from './history/ActivityReplay';
+export { MemorySnapshotStore, createSnapshot, snapshotKey } from './history/ScoreSnapshots';
+export { analyzeTrend } from './history/ScoreTrend';
+export {
+    SIMULATED_METRICS,
+    applyMetricChanges,
+    clampMetric,
+    withMetric,
+} from './simulation/MetricChanges';
+export { nearestBoundary } from './simulation/BoundarySearch';
+export { calibrate, percentileRank, scoreDistribution } from './calibration/Calibration';
+export type { CalibrationOptions } from './calibration/Calibration';
+export { parseCalibrationSamples, samplesFromBatch } from './calibration/CalibrationSamples';
+export type { DefaultLabels } from './calibration/CalibrationSamples';
+export { renderCalibrationReport } from './calibration/CalibrationReport';
 export { ScoringEngine } from './ScoringEngine';
-export { ProofGenerator } from './ProofGenerator';
+export { ScoringModelRegistry, scoringModelRegistry } from './ScoringModelRegistry';
+export { tieredModel, recencyTieredModel, createTieredModel } from './models/TieredModel';
+export {
+    integerModel,
+    integerModelV1,
+    toIntegerInputs,
+    toLeoInputs,
+} from './models/IntegerModel';
+export {
+    TIERED_SCORING_POLICY,
+    compileScoringPolicy,
+    parseScoringPolicy,
+    validateScoringPolicy,
+} from './policy/ScoringPolicy';
+export { diffModels, diffPolicies, renderPolicyDiff } from './policy/PolicyDiff';
+export {
+    CLASSIC_SCALE,
+    THOUSAND_POINT_SCALE,
+    LETTER_GRADE_SCALE,
+    FIVE_BAND_SCALE,
+    numericScale,
+    gradeScale,
+    nativeScale,
+    normalizeScore,
+    projectScore,
+    scaleBand,
+    nativeThreshold,
+    nativeCeiling,
+    scaleStatement,
+} from './scales/ScoreScales';
+export { ProofGenerator } from '@/lib/zk/ProofGenerator';
+export { MockBackend } from '@/lib/zk/backends/MockBackend';
+export { AleoExecutionBackend } from '@/lib/zk/backends/AleoExecutionBackend';
+export { PedersenCommitment } from '@/lib/zk/commitments/PedersenCommitment';
+export { Bhp256Commitment } from '@/lib/zk/commitments/Bhp256Commitment';
+export {
+    SelectiveDisclosure,
+    CLAIM_IDS,
+    RISK_LEVEL_VALUES,
+    claimsRoot,
+} from '@/lib/zk/SelectiveDisclosure';
+export {
+    createChallenge,
+    challengeFields,
+    purposeField,
+    isChallengeExpired,
+} from '@/lib/zk/Challenge';
+export type { ChallengeOptions } from '@/lib/zk/Challenge';
 export { BlockchainAdapter } from './BlockchainAdapter';
 
 // Re-export types
 export type {
     SDKConfig,
     WalletMetrics,
+    WalletActivity,
+    WalletTransition,
+    WalletTransfer,
+    BalanceChange,
+    MetricsSource,
+    DefiCategory,
+    DefiProgram,
+    DefiProtocolActivity,
+    DefiActivity,
+    LendingProgram,
+    LoanEvent,
+    LoanEventType,
+    LoanStatus,
+    Loan,
+    RepaymentHistory,
+    BalanceSample,
+    BalanceHistory,
+    ActivityAnomalyType,
+    ActivityAnomaly,
+    ActivityAnomalyReport,
+    ScorePenalty,
+    NegativeEventType,
+    EventPenalty,
+    ReasonCode,
+    ScoreReason,
+    ReasonMessages,
+    MetricField,
+    MetricsProvenance,
+    FieldProvenance,
+    ProvenanceStatus,
+    CachedMetrics,
+    MetricsCacheStore,
+    BatchScoreOptions,
+    BatchScoreResult,
+    BatchExportFormat,
+    ScoreAsOf,
+    HistoricalMetrics,
+    ScoreSnapshot,
+    ScoreSnapshotStore,
+    ScoreTrendPoint,
+    FactorMovement,
+    ScoreTrend,
+    SimulatedMetric,
+    MetricChange,
+    TierBoundary,
+    FactorSimulation,
+    ScoreSimulation,
+    CalibrationSample,
+    RiskCutoffs,
+    ScoreDistribution,
+    RiskBandOccupancy,
+    CalibrationBin,
+    DiscriminationMetrics,
+    CalibrationReport,
+    CalibrationReportFormat,
     CreditAssessment,
     ZKProof,
+    ProofStatement,
+    ProofChallenge,
+    ProvingBackend,
+    ProvingRequest,
+    CommitmentScheme,
+    IntegerModelInputs,
+    CommittedScore,
+    ScoreRecord,
+    ScoreOpening,
+    ClaimRecord,
+    Claim,
+    ClaimSet,
+    ClaimPredicate,
+    ClaimDisclosure,
+    ClaimPredicateProof,
+    PresentationRequest,
+    CredentialPresentation,
+    PresentationVerification,
+    WalletSignature,
+    WalletLinkRequest,
+    LinkedIdentity,
+    WalletSignatureVerifier,
     CreditIssuanceResult,
     CreditRecord,
     RiskLevel,
+    ScoringModel,
+    ScoringModelRef,
+    ScoringFactor,
+    ScoringContext,
+    NegativeEventRule,
+    RecencyPolicy,
+    ScoreRange,
+    RiskBand,
+    PolicyMetric,
+    PolicyTier,
+    PolicyAdjustment,
+    PolicyFactor,
+    ScoringPolicy,
+    ScoringPolicyFormat,
+    PolicyScoreChange,
+    PolicyDiff,
+    PolicyDiffFormat,
+    ScaleValue,
+    ScaleBand,
+    ScoreScale,
+    ScorePresentation,
+    ScaleBound,
+    ScaledStatement,
     AleoTransaction,
     AleoAccount,
 } from '@/types/sdk';
 
 // Re-export errors
-export { SDKError, RPCError, ProofGenerationError, TransactionError } from '@/types/sdk';
+export {
+    SDKError,
+    RPCError,
+    ProofGenerationError,
+    TransactionError,
+    CredentialError,
+} from '@/types/sdk';
@@ -0,0 +1,203 @@
+/**
+ * Credit Event Recency
+ *
+ * Weighs a loan ledger's events by age, for models with a RecencyPolicy:
+ * - on-time rate: closed loans weighted by how recently they closed, so
+ *   recent repayments count more than old ones
+ * - negative events: liquidations, defaults and delinquencies each take
+ *   points off the final score, halving every half-life of their type;
+ *   together they take off at most the policy's cap
+ *
+ * Ages are measured in blocks back from the ledger's read height. Ledgers
+ * cached without one are aged from their latest loan event. Event penalties
+ * can be aged from another height instead, the one a score is computed at.
+ *
+ * @module lib/sdk/lending/CreditEvents
+ */
+
+import { LOAN_LEDGER, SCORE_RECENCY } from '@/lib/constants';
+import type {
+    EventPenalty,
+    Loan,
+    NegativeEventType,
+    RecencyPolicy,
+    RepaymentHistory,
+    WalletMetrics,
+} from '@/types/sdk';
+
+/**
+ * A negative event and the loan it happened to
+ */
+interface NegativeEvent {
+    event: NegativeEventType;
+    loan: Loan;
+    blockHeight: number;
+}
+
+/**
+ * Recency policy of the built-in models (see SCORE_RECENCY)
+ */
+export const DEFAULT_RECENCY_POLICY: RecencyPolicy = {
+    repaymentHalfLifeDays: SCORE_RECENCY.REPAYMENT_HALF_LIFE_DAYS,
+    delinquencyDays: SCORE_RECENCY.DELINQUENCY_DAYS,
+    maxPenaltyPoints: SCORE_RECENCY.MAX_PENALTY_POINTS,
+    events: {
+        liquidation: {
+            points: SCORE_RECENCY.EVENTS.liquidation.POINTS,
+            halfLifeDays: SCORE_RECENCY.EVENTS.liquidation.HALF_LIFE_DAYS,
+        },
+        default: {
+            points: SCORE_RECENCY.EVENTS.default.POINTS,
+            halfLifeDays: SCORE_RECENCY.EVENTS.default.HALF_LIFE_DAYS,
+        },
+        delinquency: {
+            points: SCORE_RECENCY.EVENTS.delinquency.POINTS,
+            halfLifeDays: SCORE_RECENCY.EVENTS.delinquency.HALF_LIFE_DAYS,
+        },
+    },
+};
+
+/**
+ * Weight of an event of a given age (1 when it happens, 0.5 after one half-life)
+ *
+ * @param ageDays - Age of the event in days
+ * @param halfLifeDays - Half-life in days
+ */
+export function recencyWeight(ageDays: number, halfLifeDays: number): number {
+    return Math.pow(0.5, Math.max(0, ageDays) / halfLifeDays);
+}
+
+/**
+ * On-time rate with closed loans weighted by recency (0-100)
+ *
+ * @param history - Loan ledger
+ * @param halfLifeDays - Days after which a closed loan weighs half
+ * @returns Rounded rate, or null if no loan is closed
+ */
+export function recencyWeightedOnTimeRate(
+    history: RepaymentHistory,
+    halfLifeDays: number
+): number | null {
+    const height = readHeight(history);
+    let onTime = 0;
+    let total = 0;
+
+    for (const loan of history.loans) {
+        if (loan.status === 'open' || loan.status === 'overdue') continue;
+
+        const weight = recencyWeight(ageDays(height, settledAt(loan)), halfLifeDays);
+        total += weight;
+        if (loan.status === 'repaid' && loan.daysPastDue === 0) onTime += weight;
+    }
+
+    return total > 0 ? Math.round((onTime / total) * 100) : null;
+}
+
+/**
+ * Repayment rate of metrics with closed loans weighted by recency
+ *
+ * The ledger's plain on-time rate is swapped for its recency-weighted one,
+ * as an offset on repaymentRate so simulated rate changes still apply.
+ * Metrics without closed loans keep their repayment rate.
+ *
+ * @param metrics - Wallet metrics (repaymentRate and repaymentHistory)
+ * @param policy - Recency policy
+ */
+export function recencyRepaymentRate(
+    metrics: Pick<WalletMetrics, 'repaymentRate' | 'repaymentHistory'>,
+    policy: RecencyPolicy
+): number {
+    const { repaymentRate, repaymentHistory } = metrics;
+    if (!repaymentHistory || repaymentHistory.onTimeRate === null) return repaymentRate;
+
+    const weighted = recencyWeightedOnTimeRate(repaymentHistory, policy.repaymentHalfLifeDays);
+    if (weighted === null) return repaymentRate;
+    return Math.max(0, Math.min(100, repaymentRate + weighted - repaymentHistory.onTimeRate));
+}
+
+/**
+ * Points each negative event of a ledger takes off, newest first
+ * Points are rounded per event; once the cap is reached older events take
+ * off what is left of it. Events that no longer cost a point, or happened
+ * after the height they are aged from, are left out.
+ *
+ * @param history - Loan ledger
+ * @param policy - Recency policy
+ * @param maxPoints - Cap on the total (default: the policy's)
+ * @param height - Block height to age events from (default: the ledger's read height)
+ */
+export function eventPenalties(
+    history: RepaymentHistory,
+    policy: RecencyPolicy,
+    maxPoints: number = policy.maxPenaltyPoints,
+    height: number = readHeight(history)
+): EventPenalty[] {
+    const penalties: EventPenalty[] = [];
+    let remaining = Math.max(0, maxPoints);
+
+    const events = negativeEvents(history.loans, policy.delinquencyDays)
+        .filter((e) => e.blockHeight <= height)
+        .sort((a, b) => b.blockHeight - a.blockHeight);
+    for (const { event, loan, blockHeight } of events) {
+        const rule = policy.events[event];
+        const age = ageDays(height, blockHeight);
+        const weight = recencyWeight(age, rule.halfLifeDays);
+        const points = Math.min(remaining, Math.round(rule.points * weight));
+        if (points <= 0) continue;
+
+        penalties.push({
+            event,
+            loanId: loan.id,
+            protocol: loan.protocol,
+            blockHeight,
+            ageDays: Math.floor(age),
+            weight,
+            points,
+        });
+        remaining -= points;
+    }
+    return penalties;
+}
+
+/**
+ * Negative events of a list of loans, one per loan at most
+ * Liquidated and defaulted loans are not also counted as delinquent.
+ */
+function negativeEvents(loans: readonly Loan[], delinquencyDays: number): NegativeEvent[] {
+    return loans.flatMap((loan): NegativeEvent[] => {
+        if (loan.status === 'liquidated') {
+            return [{ event: 'liquidation', loan, blockHeight: settledAt(loan) }];
+        }
+        if (loan.status === 'defaulted') {
+            return [{ event: 'default', loan, blockHeight: settledAt(loan) }];
+        }
+        if (loan.daysPastDue < delinquencyDays) return [];
+
+        // Repaid late: delinquent until repaid; unpaid: since it crossed the threshold
+        const blockHeight =
+            loan.closedAt ?? loan.dueBlock + delinquencyDays * LOAN_LEDGER.BLOCKS_PER_DAY;
+        return [{ event: 'delinquency', loan, blockHeight }];
+    });
+}
+
+/**
+ * Block a loan was settled at; unpaid defaults settle when they aged into default
+ */
+function settledAt(loan: Loan): number {
+    return (
+        loan.closedAt ??
+        loan.dueBlock + LOAN_LEDGER.DEFAULT_AFTER_DAYS_PAST_DUE * LOAN_LEDGER.BLOCKS_PER_DAY
+    );
+}
+
+/**
+ * Height ages are measured from: the read height, or the latest loan event
+ */
+function readHeight(history: RepaymentHistory): number {
+    if (history.blockHeight !== undefined) return history.blockHeight;
+    return Math.max(0, ...history.loans.map((l) => l.closedAt ?? l.borrowedAt));
+}
+
+function ageDays(height: number, blockHeight: number): number {
+    return Math.max(0, height - blockHeight) / LOAN_LEDGER.BLOCKS_PER_DAY;
+}
@@ -0,0 +1,253 @@
+/**
+ * Loan Lifecycle Ledger
+ *
+ * Rebuilds borrow, repay, liquidation and default events from a wallet's
+ * lending-program transitions and replays them into a per-wallet ledger
+ * of loans. From the ledger it derives the repayment signals behind
+ * `repaymentRate`: on-time rate, days past due, liquidations and defaults.
+ *
+ * Transitions do not say which loan they settle, so each program is
+ * treated as one credit line: a repay, liquidation or default closes the
+ * oldest loan still unpaid on that program.
+ *
+ * No lending program is registered by default; register the programs a
+ * deployment trusts (or pass them to the constructor). An empty ledger
+ * cannot tell a wallet without loans from one whose loans it does not
+ * track, so DataAggregator only estimates repaymentRate without programs.
+ *
+ * @module lib/sdk/lending/LoanLedger
+ */
+
+import { LOAN_LEDGER } from '@/lib/constants';
+import type {
+    LendingProgram,
+    Loan,
+    LoanEvent,
+    LoanEventType,
+    RepaymentHistory,
+    WalletTransition,
+} from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+const PROGRAM_ID_PATTERN = /^[a-z][a-z0-9_]*\.aleo$/;
+
+const EVENT_TYPES: readonly LoanEventType[] = ['borrow', 'repay', 'liquidation', 'default'];
+
+/**
+ * Status a closing event gives the loan it settles
+ */
+const CLOSING_STATUS = {
+    repay: 'repaid',
+    liquidation: 'liquidated',
+    default: 'defaulted',
+} as const;
+
+/**
+ * Programs tracked out of the box (none, see above)
+ * No lending program on Aleo is known well enough to map its functions to
+ * loan events, so a deployment has to register the ones it trusts.
+ */
+export const DEFAULT_LENDING_PROGRAMS: readonly LendingProgram[] = [];
+
+export class LoanLedger {
+    private programs = new Map<string, LendingProgram>();
+
+    /**
+     * @param programs - Lending programs to track (default: DEFAULT_LENDING_PROGRAMS)
+     */
+    constructor(programs: readonly LendingProgram[] = DEFAULT_LENDING_PROGRAMS) {
+        programs.forEach((program) => this.register(program));
+    }
+
+    /**
+     * Register a lending program
+     *
+     * @param program - Program to track
+     * @throws SDKError INVALID_PROGRAM if the entry is malformed
+     * @throws SDKError DUPLICATE_PROGRAM if the program is already registered
+     */
+    register(program: LendingProgram): void {
+        LoanLedger.validateProgram(program);
+
+        if (this.programs.has(program.program)) {
+            throw new SDKError(
+                `Lending program ${program.program} is already registered`,
+                'DUPLICATE_PROGRAM'
+            );
+        }
+        this.programs.set(program.program, program);
+    }
+
+    /**
+     * Registered programs, in registration order
+     */
+    list(): LendingProgram[] {
+        return [...this.programs.values()];
+    }
+
+    /**
+     * Loan events among a wallet's transitions, oldest first
+     *
+     * @param transitions - Transitions of the wallet
+     */
+    events(transitions: WalletTransition[]): LoanEvent[] {
+        const events: LoanEvent[] = [];
+
+        for (const transition of transitions) {
+            const type = this.programs.get(transition.program)?.functions[transition.function];
+            if (!type) continue;
+
+            events.push({
+                type,
+                program: transition.program,
+                transitionId: transition.id,
+                blockHeight: transition.blockHeight,
+            });
+        }
+
+        // Borrows first within a block, so a same-block repay has a loan to close
+        return events.sort(
+            (a, b) =>
+                a.blockHeight - b.blockHeight ||
+                Number(b.type === 'borrow') - Number(a.type === 'borrow')
+        );
+    }
+
+    /**
+     * Replay a wallet's loan events into its ledger
+     *
+     * @param transitions - Transitions of the wallet
+     * @param blockHeight - Chain height the transitions were read at
+     * @returns Loans and the repayment signals derived from them
+     */
+    build(transitions: WalletTransition[], blockHeight: number): RepaymentHistory {
+        const loans: Loan[] = [];
+
+        for (const event of this.events(transitions)) {
+            const program = this.programs.get(event.program)!;
+
+            if (event.type === 'borrow') {
+                loans.push({
+                    id: event.transitionId,
+                    program: program.program,
+                    protocol: program.protocol,
+                    borrowedAt: event.blockHeight,
+                    dueBlock:
+                        event.blockHeight + (program.termBlocks ?? LOAN_LEDGER.DEFAULT_TERM_BLOCKS),
+                    closedAt: null,
+                    status: 'open',
+                    daysPastDue: 0,
+                });
+                continue;
+            }
+
+            const loan = loans.find((l) => l.program === event.program && l.closedAt === null);
+            if (!loan) {
+                console.warn(
+                    `[LoanLedger] ${event.type} in ${event.transitionId} has no open loan ` +
+                    `on ${event.program}`
+                );
+                continue;
+            }
+
+            loan.closedAt = event.blockHeight;
+            loan.status = CLOSING_STATUS[event.type];
+            loan.daysPastDue = LoanLedger.daysPastDue(loan.dueBlock, event.blockHeight);
+        }
+
+        // Unpaid loans age until the read height
+        for (const loan of loans) {
+            if (loan.closedAt !== null) continue;
+
+            loan.daysPastDue = LoanLedger.daysPastDue(loan.dueBlock, blockHeight);
+            if (loan.daysPastDue >= LOAN_LEDGER.DEFAULT_AFTER_DAYS_PAST_DUE) {
+                loan.status = 'defaulted';
+            } else if (loan.daysPastDue > 0) {
+                loan.status = 'overdue';
+            }
+        }
+
+        return LoanLedger.summarize(loans, blockHeight);
+    }
+
+    /**
+     * Repayment signals of a list of loans
+     *
+     * @param loans - Loans, oldest first
+     * @param blockHeight - Chain height the loans were read at
+     */
+    static summarize(loans: Loan[], blockHeight?: number): RepaymentHistory {
+        const closed = loans.filter((l) => l.status !== 'open' && l.status !== 'overdue');
+        const onTime = closed.filter((l) => l.status === 'repaid' && l.daysPastDue === 0);
+
+        return {
+            loans,
+            onTimeRate: closed.length ? Math.round((onTime.length / closed.length) * 100) : null,
+            maxDaysPastDue: Math.max(0, ...loans.map((l) => l.daysPastDue)),
+            liquidations: loans.filter((l) => l.status === 'liquidated').length,
+            defaults: loans.filter((l) => l.status === 'defaulted').length,
+            openLoans: loans.length - closed.length,
+            ...(blockHeight !== undefined && { blockHeight }),
+        };
+    }
+
+    /**
+     * repaymentRate for a ledger (0-100)
+     * Wallets without closed loans get the neutral LOAN_LEDGER.NO_HISTORY_RATE.
+     *
+     * @param history - Ledger signals
+     */
+    static repaymentRate(history: RepaymentHistory): number {
+        return history.onTimeRate ?? LOAN_LEDGER.NO_HISTORY_RATE;
+    }
+
+    /**
+     * Whole days between a due block and a later block (0 if not late)
+     */
+    private static daysPastDue(dueBlock: number, atBlock: number): number {
+        return Math.floor(Math.max(0, atBlock - dueBlock) / LOAN_LEDGER.BLOCKS_PER_DAY);
+    }
+
+    /**
+     * Check that a program entry can produce loan events
+     *
+     * @throws SDKError INVALID_PROGRAM
+     */
+    private static validateProgram(program: LendingProgram): void {
+        if (!PROGRAM_ID_PATTERN.test(program.program)) {
+            throw new SDKError(`Invalid Aleo program id: ${program.program}`, 'INVALID_PROGRAM');
+        }
+        if (!program.protocol) {
+            throw new SDKError(
+                `Lending program ${program.program} has no protocol name`,
+                'INVALID_PROGRAM'
+            );
+        }
+
+        const types = Object.values(program.functions ?? {});
+        if (!types.includes('borrow')) {
+            throw new SDKError(
+                `Lending program ${program.program} has no borrow function`,
+                'INVALID_PROGRAM'
+            );
+        }
+
+        const unknown = types.find((type) => !EVENT_TYPES.includes(type));
+        if (unknown) {
+            throw new SDKError(
+                `Lending program ${program.program} has unknown event type: ${unknown}`,
+                'INVALID_PROGRAM'
+            );
+        }
+
+        if (
+            program.termBlocks !== undefined &&
+            (!Number.isSafeInteger(program.termBlocks) || program.termBlocks <= 0)
+        ) {
+            throw new SDKError(
+                `Lending program ${program.program} has invalid term: ${program.termBlocks}`,
+                'INVALID_PROGRAM'
+            );
+        }
+    }
+}
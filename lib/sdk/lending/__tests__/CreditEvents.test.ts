@@ -0,0 +1,222 @@
+/**
+ * CreditEvents Unit Tests
+ * Recency weights, the recency-weighted on-time rate and negative-event penalties
+ */
+
+import {
+    DEFAULT_RECENCY_POLICY,
+    eventPenalties,
+    recencyWeight,
+    recencyWeightedOnTimeRate,
+} from '../CreditEvents';
+import { LoanLedger } from '../LoanLedger';
+import { ScoringEngine } from '../../ScoringEngine';
+import { recencyTieredModel, tieredModel } from '../../models/TieredModel';
+import { LOAN_LEDGER } from '@/lib/constants';
+import type { Loan, LoanStatus, WalletMetrics } from '@/types/sdk';
+
+const DAY = LOAN_LEDGER.BLOCKS_PER_DAY;
+const TERM = 30 * DAY;
+const HEIGHT = 10_000_000;
+const NOW = Date.UTC(2026, 0, 1);
+
+/**
+ * Loan closed `daysAgo` days before HEIGHT, `daysPastDue` days late
+ */
+function loan(id: string, status: LoanStatus, daysAgo: number, daysPastDue = 0): Loan {
+    const closedAt = HEIGHT - daysAgo * DAY;
+    const dueBlock = closedAt - daysPastDue * DAY;
+    return {
+        id,
+        program: 'test_lending.aleo',
+        protocol: 'Test Lending',
+        borrowedAt: dueBlock - TERM,
+        dueBlock,
+        closedAt: status === 'open' || status === 'overdue' ? null : closedAt,
+        status,
+        daysPastDue,
+    };
+}
+
+const metrics: WalletMetrics = {
+    address: 'aleo1events',
+    transactionCount: 120,
+    walletAgeMonths: 24,
+    defiScore: 70,
+    repaymentRate: 100,
+    tokenBalance: 200000,
+    lastTransactionDate: NOW,
+};
+
+function withLoans(loans: Loan[]): WalletMetrics {
+    const repaymentHistory = LoanLedger.summarize(loans, HEIGHT);
+    return {
+        ...metrics,
+        repaymentRate: LoanLedger.repaymentRate(repaymentHistory),
+        repaymentHistory,
+    };
+}
+
+describe('recencyWeight', () => {
+    it('should halve every half-life', () => {
+        expect(recencyWeight(0, 90)).toBe(1);
+        expect(recencyWeight(90, 90)).toBe(0.5);
+        expect(recencyWeight(180, 90)).toBe(0.25);
+    });
+});
+
+describe('recencyWeightedOnTimeRate', () => {
+    it('should weigh recent loans more than old ones', () => {
+        const history = LoanLedger.summarize(
+            [loan('old', 'liquidated', 365), loan('recent', 'repaid', 0)],
+            HEIGHT
+        );
+
+        expect(history.onTimeRate).toBe(50);
+        // Weights 0.5 and 1
+        expect(recencyWeightedOnTimeRate(history, 365)).toBe(67);
+    });
+
+    it('should be null without closed loans', () => {
+        const history = LoanLedger.summarize([loan('a', 'open', 0)], HEIGHT);
+
+        expect(recencyWeightedOnTimeRate(history, 365)).toBeNull();
+    });
+});
+
+describe('eventPenalties', () => {
+    const history = LoanLedger.summarize(
+        [
+            loan('defaulted', 'defaulted', 365, 90),
+            loan('late', 'repaid', 90, 45),
+            loan('slightly-late', 'repaid', 10, 5),
+            loan('liquidated', 'liquidated', 0),
+        ],
+        HEIGHT
+    );
+
+    it('should list each negative event newest first, decayed by its half-life', () => {
+        expect(eventPenalties(history, DEFAULT_RECENCY_POLICY)).toEqual([
+            {
+                event: 'liquidation',
+                loanId: 'liquidated',
+                protocol: 'Test Lending',
+                blockHeight: HEIGHT,
+                ageDays: 0,
+                weight: 1,
+                points: 40,
+            },
+            expect.objectContaining({ event: 'delinquency', loanId: 'late', points: 13 }),
+            expect.objectContaining({ event: 'default', loanId: 'defaulted', points: 50 }),
+        ]);
+    });
+
+    it('should cap the total, taking it from the oldest events', () => {
+        const points = eventPenalties(history, DEFAULT_RECENCY_POLICY, 60).map((p) => p.points);
+
+        expect(points).toEqual([40, 13, 7]);
+    });
+
+    it('should date unpaid defaults from when they aged into default', () => {
+        const unpaid: Loan = {
+            ...loan('unpaid', 'defaulted', 0, 100),
+            closedAt: null,
+        };
+        const [penalty] = eventPenalties(
+            LoanLedger.summarize([unpaid], HEIGHT),
+            DEFAULT_RECENCY_POLICY
+        );
+
+        expect(penalty).toMatchObject({ event: 'default', ageDays: 10 });
+    });
+
+    it('should age ledgers without a read height from their latest event', () => {
+        const cached = LoanLedger.summarize([
+            loan('liquidated', 'liquidated', 180),
+            loan('repaid', 'repaid', 0),
+        ]);
+
+        expect(eventPenalties(cached, DEFAULT_RECENCY_POLICY)).toEqual([
+            expect.objectContaining({ event: 'liquidation', ageDays: 180, points: 20 }),
+        ]);
+    });
+
+    it('should age events from a given height, leaving out later ones', () => {
+        const asOf = HEIGHT - 90 * DAY;
+        const penalties = eventPenalties(history, DEFAULT_RECENCY_POLICY, undefined, asOf);
+
+        expect(penalties).toEqual([
+            expect.objectContaining({ event: 'delinquency', loanId: 'late', ageDays: 0 }),
+            expect.objectContaining({ event: 'default', loanId: 'defaulted', ageDays: 275 }),
+        ]);
+    });
+});
+
+describe('ScoringEngine with a recency policy', () => {
+    it('should take event penalties off the final score as separate line items', () => {
+        const clean = ScoringEngine.calculateScore(
+            withLoans([loan('a', 'repaid', 30)]),
+            recencyTieredModel,
+            { now: NOW }
+        );
+        const liquidated = ScoringEngine.calculateScore(
+            withLoans([loan('a', 'repaid', 30), loan('b', 'liquidated', 0)]),
+            recencyTieredModel,
+            { now: NOW }
+        );
+        const breakdown = ScoringEngine.getScoreBreakdown(liquidated);
+
+        expect(clean.eventPenalties).toBeUndefined();
+        expect(breakdown.eventPenalties).toEqual([
+            expect.objectContaining({ event: 'liquidation', points: 40 }),
+        ]);
+        expect(breakdown.eventPenaltyPoints).toBe(40);
+        expect(liquidated.finalScore).toBe(300 + liquidated.bonusPoints - 40);
+    });
+
+    it('should forgive old events more than recent ones', () => {
+        const score = (daysAgo: number) =>
+            ScoringEngine.calculateScore(
+                withLoans([loan('a', 'repaid', 0), loan('b', 'defaulted', daysAgo, 90)]),
+                recencyTieredModel,
+                { now: NOW }
+            ).finalScore;
+
+        expect(score(0)).toBeLessThan(score(365));
+        expect(score(365)).toBeLessThan(score(1460));
+    });
+
+    it('should age event penalties from the height a past score is computed at', () => {
+        const metrics = withLoans([loan('a', 'repaid', 0), loan('b', 'defaulted', 730, 90)]);
+        const asOf = HEIGHT - 365 * DAY;
+        const past = ScoringEngine.calculateScore(metrics, recencyTieredModel, {
+            now: NOW - 365 * 86_400_000,
+            blockHeight: asOf,
+        });
+        const current = ScoringEngine.calculateScore(metrics, recencyTieredModel, { now: NOW });
+
+        expect(past.eventPenalties).toEqual(
+            eventPenalties(metrics.repaymentHistory!, DEFAULT_RECENCY_POLICY, undefined, asOf)
+        );
+        expect(past.eventPenalties).toEqual([
+            expect.objectContaining({ event: 'default', ageDays: 365 }),
+        ]);
+        expect(current.eventPenalties).toEqual([
+            expect.objectContaining({ event: 'default', ageDays: 730 }),
+        ]);
+        expect(past.eventPenalties![0]!.points).toBeGreaterThan(
+            current.eventPenalties![0]!.points
+        );
+    });
+
+    it('should leave models without a policy unchanged', () => {
+        const assessment = ScoringEngine.calculateScore(
+            withLoans([loan('b', 'liquidated', 0)]),
+            tieredModel,
+            { now: NOW }
+        );
+
+        expect(assessment.eventPenalties).toBeUndefined();
+        expect(ScoringEngine.getScoreBreakdown(assessment).eventPenaltyPoints).toBe(0);
+    });
+});
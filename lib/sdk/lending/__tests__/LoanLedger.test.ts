@@ -0,0 +1,243 @@
+/**
+ * LoanLedger Unit Tests
+ * Lending program registry, event reconstruction and repayment signals
+ */
+
+import { LoanLedger } from '../LoanLedger';
+import { tieredModel } from '../../models/TieredModel';
+import { LOAN_LEDGER } from '@/lib/constants';
+import type {
+    LendingProgram,
+    RepaymentHistory,
+    WalletMetrics,
+    WalletTransition,
+} from '@/types/sdk';
+
+const DAY = LOAN_LEDGER.BLOCKS_PER_DAY;
+const TERM = 30 * DAY;
+
+const LENDING: LendingProgram = {
+    program: 'test_lending.aleo',
+    protocol: 'Test Lending',
+    functions: {
+        borrow_public: 'borrow',
+        repay_public: 'repay',
+        liquidate: 'liquidation',
+        mark_default: 'default',
+    },
+    termBlocks: TERM,
+};
+
+let sequence = 0;
+
+function transition(fn: string, blockHeight: number, program = LENDING.program): WalletTransition {
+    sequence++;
+    return {
+        id: `au1loan${sequence}`,
+        transactionId: `at1loan${sequence}`,
+        program,
+        function: fn,
+        blockHeight,
+    };
+}
+
+describe('LoanLedger', () => {
+    let ledger: LoanLedger;
+
+    beforeEach(() => {
+        ledger = new LoanLedger([LENDING]);
+    });
+
+    describe('registry', () => {
+        it('should track no programs by default', () => {
+            expect(new LoanLedger().list()).toEqual([]);
+        });
+
+        it('should reject duplicate programs', () => {
+            expect(() => ledger.register(LENDING)).toThrow(
+                expect.objectContaining({ code: 'DUPLICATE_PROGRAM' })
+            );
+        });
+
+        it('should reject programs that cannot open loans', () => {
+            expect(() =>
+                ledger.register({
+                    program: 'repay_only.aleo',
+                    protocol: 'Repay Only',
+                    functions: { repay: 'repay' },
+                })
+            ).toThrow('has no borrow function');
+        });
+
+        it('should reject invalid terms', () => {
+            expect(() =>
+                ledger.register({ ...LENDING, program: 'zero_term.aleo', termBlocks: 0 })
+            ).toThrow(expect.objectContaining({ code: 'INVALID_PROGRAM' }));
+        });
+    });
+
+    describe('events', () => {
+        it('should rebuild loan events in block order, ignoring other transitions', () => {
+            const events = ledger.events([
+                transition('repay_public', 2000),
+                transition('transfer_public', 1500, 'credits.aleo'),
+                transition('borrow_public', 1000),
+                transition('deposit', 1200),
+            ]);
+
+            expect(events.map((e) => [e.type, e.blockHeight])).toEqual([
+                ['borrow', 1000],
+                ['repay', 2000],
+            ]);
+        });
+
+        it('should open a loan before closing one in the same block', () => {
+            const events = ledger.events([
+                transition('repay_public', 1000),
+                transition('borrow_public', 1000),
+            ]);
+
+            expect(events.map((e) => e.type)).toEqual(['borrow', 'repay']);
+        });
+    });
+
+    describe('build', () => {
+        it('should report no history for wallets that never borrowed', () => {
+            const history = ledger.build([], 5000000);
+
+            expect(history).toEqual({
+                loans: [],
+                onTimeRate: null,
+                maxDaysPastDue: 0,
+                liquidations: 0,
+                defaults: 0,
+                openLoans: 0,
+                blockHeight: 5000000,
+            });
+            expect(LoanLedger.repaymentRate(history)).toBe(LOAN_LEDGER.NO_HISTORY_RATE);
+        });
+
+        it('should compute on-time rate and days past due from repayments', () => {
+            const history = ledger.build(
+                [
+                    transition('borrow_public', 1000000),
+                    transition('repay_public', 1000000 + 10 * DAY), // on time
+                    transition('borrow_public', 2000000),
+                    transition('repay_public', 2000000 + TERM + 12 * DAY), // 12 days late
+                ],
+                5000000
+            );
+
+            expect(history.loans.map((l) => [l.status, l.daysPastDue])).toEqual([
+                ['repaid', 0],
+                ['repaid', 12],
+            ]);
+            expect(history.onTimeRate).toBe(50);
+            expect(history.maxDaysPastDue).toBe(12);
+            expect(LoanLedger.repaymentRate(history)).toBe(50);
+        });
+
+        it('should close the oldest unpaid loan first', () => {
+            const history = ledger.build(
+                [
+                    transition('borrow_public', 1000000),
+                    transition('borrow_public', 1100000),
+                    transition('repay_public', 1200000),
+                ],
+                1300000
+            );
+
+            expect(history.loans[0]).toMatchObject({ borrowedAt: 1000000, status: 'repaid' });
+            expect(history.loans[1]).toMatchObject({ borrowedAt: 1100000, status: 'open' });
+            expect(history.openLoans).toBe(1);
+        });
+
+        it('should count liquidations and defaults as not on time', () => {
+            const history = ledger.build(
+                [
+                    transition('borrow_public', 1000000),
+                    transition('liquidate', 1100000),
+                    transition('borrow_public', 1200000),
+                    transition('mark_default', 1200000 + TERM + 40 * DAY),
+                    transition('borrow_public', 3300000),
+                    transition('repay_public', 3400000),
+                ],
+                4000000
+            );
+
+            expect(history.liquidations).toBe(1);
+            expect(history.defaults).toBe(1);
+            expect(history.onTimeRate).toBe(33);
+            expect(history.maxDaysPastDue).toBe(40);
+        });
+
+        it('should age unpaid loans into overdue and defaulted', () => {
+            const height = 10000000;
+            const history = ledger.build(
+                [
+                    transition('borrow_public', height - TERM - 10 * DAY),
+                    transition('borrow_public', height - TERM - 120 * DAY),
+                ],
+                height
+            );
+
+            expect(history.loans.map((l) => [l.status, l.daysPastDue])).toEqual([
+                ['defaulted', 120],
+                ['overdue', 10],
+            ]);
+            expect(history.defaults).toBe(1);
+            expect(history.openLoans).toBe(1);
+            expect(history.onTimeRate).toBe(0);
+        });
+
+        it('should ignore closing events without an open loan', () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+            const history = ledger.build([transition('repay_public', 1000)], 2000);
+
+            expect(history.loans).toEqual([]);
+            expect(warn).toHaveBeenCalled();
+            warn.mockRestore();
+        });
+    });
+
+    describe('tiered repayment factor', () => {
+        const repayment = tieredModel.factors.find((f) => f.id === 'repayment')!;
+        const metrics: WalletMetrics = {
+            address: 'aleo1ledger',
+            transactionCount: 40,
+            walletAgeMonths: 12,
+            defiScore: 50,
+            repaymentRate: 100,
+            tokenBalance: 20000,
+            lastTransactionDate: Date.now(),
+        };
+        const score = (m: WalletMetrics) => repayment.score(m, { now: Date.now() });
+
+        it('should score metrics without a ledger by repayment rate only', () => {
+            expect(score(metrics)).toBe(100);
+        });
+
+        it('should lower the score for liquidations, defaults and delinquency', () => {
+            const withHistory = (history: Partial<RepaymentHistory>) =>
+                score({
+                    ...metrics,
+                    repaymentHistory: {
+                        loans: [],
+                        onTimeRate: 100,
+                        maxDaysPastDue: 0,
+                        liquidations: 0,
+                        defaults: 0,
+                        openLoans: 0,
+                        ...history,
+                    },
+                });
+
+            expect(withHistory({})).toBe(100);
+            expect(withHistory({ liquidations: 1 })).toBe(90);
+            expect(withHistory({ defaults: 1 })).toBe(75);
+            expect(withHistory({ maxDaysPastDue: 45 })).toBe(90);
+            expect(withHistory({ defaults: 5 })).toBe(0);
+        });
+    });
+});
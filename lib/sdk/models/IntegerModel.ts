@@ -0,0 +1,325 @@
+/**
+ * Integer Scoring Model (v2)
+ *
+ * Integer-only model shared with the `generate_score` transition in
+ * contract/src/main.leo. Every step uses the same tier ladders, u64-safe
+ * arithmetic and rounding as the Leo program, so the score shown in the
+ * dashboard is exactly the score committed on-chain.
+ *
+ * Loan ledgers and balance histories reach the circuit as integer inputs:
+ * - repayment rate: recency-weighted like the tiered models
+ * - balance stability: the stable balance ((average + minimum) / 2), less
+ *   points for volatility (in basis points)
+ * - event penalties: points liquidations, defaults and delinquencies take
+ *   off, at most the recency policy's cap and never below the base score
+ * Metrics without these histories score as in v1 (current balance, plain
+ * repayment rate, no penalties).
+ *
+ * Rounding rules (identical in TS and Leo):
+ * - Inputs are floored to non-negative integers
+ * - Sub-tier slopes use floor division (e.g. rate * 7 / 10)
+ * - Bonus points round half up: (weighted * 550 + 5000) / 10000
+ *
+ * Any change here MUST be mirrored in main.leo and bump the model version.
+ *
+ * @module lib/sdk/models/IntegerModel
+ */
+
+import type {
+    IntegerModelInputs,
+    ScoringContext,
+    ScoringModel,
+    WalletMetrics,
+} from '@/types/sdk';
+import {
+    DEFAULT_RECENCY_POLICY,
+    eventPenalties,
+    recencyRepaymentRate,
+} from '../lending/CreditEvents';
+
+export type { IntegerModelInputs };
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Factor weights in whole percent (sum = 100)
+ * Same order as the factors below and the weighted sum in main.leo
+ */
+export const INTEGER_MODEL_WEIGHTS = [25, 20, 20, 25, 10] as const;
+
+/**
+ * Maximum bonus points above the base score (300 + 550 = 850)
+ */
+const MAX_BONUS = 550;
+
+/**
+ * Volatility in basis points above which balance stability loses points
+ * Highest first, with the points lost (same steps as the tiered models)
+ */
+const VOLATILITY_DEDUCTIONS = [
+    [10000, 30],
+    [5000, 15],
+    [2500, 5],
+] as const;
+
+const floorNonNegative = (value: number) => Math.max(0, Math.floor(value));
+
+/**
+ * Convert wallet metrics to the integer inputs used by the model and contract
+ *
+ * @param metrics - Wallet metrics
+ * @param now - Reference time (ms) for recency
+ * @returns Non-negative integer inputs
+ */
+export function toIntegerInputs(metrics: WalletMetrics, now: number): IntegerModelInputs {
+    const { balanceHistory, repaymentHistory } = metrics;
+    const penalties = repaymentHistory
+        ? eventPenalties(repaymentHistory, DEFAULT_RECENCY_POLICY)
+        : [];
+
+    return {
+        txCount: floorNonNegative(metrics.transactionCount),
+        walletAgeMonths: floorNonNegative(metrics.walletAgeMonths),
+        defiScore: floorNonNegative(metrics.defiScore),
+        repaymentRate: floorNonNegative(recencyRepaymentRate(metrics, DEFAULT_RECENCY_POLICY)),
+        balance: floorNonNegative(metrics.tokenBalance),
+        daysSinceLastTx: floorNonNegative((now - metrics.lastTransactionDate) / DAY_MS),
+        stableBalance: floorNonNegative(
+            balanceHistory
+                ? (balanceHistory.average + balanceHistory.minimum) / 2
+                : metrics.tokenBalance
+        ),
+        volatilityBps: floorNonNegative((balanceHistory?.volatility ?? 0) * 10000),
+        penaltyPoints: penalties.reduce((sum, penalty) => sum + penalty.points, 0),
+    };
+}
+
+/**
+ * Format integer inputs as Leo `generate_score` arguments
+ *
+ * @param inputs - Integer model inputs
+ * @returns Arguments in transition order, e.g. ['150u64', ...]
+ */
+export function toLeoInputs(inputs: IntegerModelInputs): string[] {
+    return [
+        inputs.txCount,
+        inputs.walletAgeMonths,
+        inputs.defiScore,
+        inputs.repaymentRate,
+        inputs.balance,
+        inputs.daysSinceLastTx,
+        inputs.stableBalance,
+        inputs.volatilityBps,
+        inputs.penaltyPoints,
+    ].map((value) => `${value}u64`);
+}
+
+/**
+ * Transaction history: tier ladder plus recency bonus/penalty
+ * Mirrors `tx_score` + `recency_adjusted` in main.leo
+ */
+export function integerTransactionScore(txCount: number, daysSinceLastTx: number): number {
+    const tx = Math.min(txCount, 200);
+
+    let base = 0;
+    if (tx >= 200) base = 100;
+    else if (tx >= 100) base = 85;
+    else if (tx >= 50) base = 70;
+    else if (tx >= 25) base = 55;
+    else if (tx >= 10) base = 40;
+    else if (tx >= 5) base = 25;
+    else base = tx * 5;
+
+    let bonus = 0;
+    if (daysSinceLastTx <= 7) bonus = 10;
+    else if (daysSinceLastTx <= 30) bonus = 5;
+
+    let penalty = 0;
+    if (daysSinceLastTx > 180) penalty = 40;
+    else if (daysSinceLastTx > 90) penalty = 15;
+
+    const boosted = base + bonus;
+    const adjusted = boosted > penalty ? boosted - penalty : 0;
+    return Math.min(100, adjusted);
+}
+
+/**
+ * Wallet age tier ladder (whole months)
+ * Mirrors `age_score` in main.leo
+ */
+export function integerAgeScore(walletAgeMonths: number): number {
+    if (walletAgeMonths >= 24) return 100;
+    if (walletAgeMonths >= 18) return 90;
+    if (walletAgeMonths >= 12) return 80;
+    if (walletAgeMonths >= 6) return 60;
+    if (walletAgeMonths >= 3) return 40;
+    if (walletAgeMonths >= 1) return 20;
+    return 0;
+}
+
+/**
+ * DeFi activity tier ladder
+ * Mirrors `defi_tier_score` in main.leo
+ */
+export function integerDeFiScore(defiScore: number): number {
+    const defi = Math.min(defiScore, 100);
+
+    if (defi >= 80) return 100;
+    if (defi >= 60) return 85;
+    if (defi >= 40) return 70;
+    if (defi >= 20) return 50;
+    return defi * 2;
+}
+
+/**
+ * Repayment tier ladder
+ * Mirrors `repayment_tier_score` in main.leo
+ */
+export function integerRepaymentScore(repaymentRate: number): number {
+    const rate = Math.min(repaymentRate, 100);
+
+    if (rate >= 95) return 100;
+    if (rate >= 90) return 95;
+    if (rate >= 85) return 90;
+    if (rate >= 80) return 85;
+    if (rate >= 75) return 75;
+    if (rate >= 70) return 65;
+    if (rate >= 60) return 50;
+    return Math.floor((rate * 7) / 10);
+}
+
+/**
+ * Balance tier ladder (whole credits, as tiered by the v2 policy)
+ * Mirrors `balance_tier_score` in main.leo
+ */
+export function integerBalanceScore(balance: number): number {
+    if (balance >= 1000000) return 100;
+    if (balance >= 500000) return 90;
+    if (balance >= 100000) return 80;
+    if (balance >= 50000) return 70;
+    if (balance >= 10000) return 60;
+    if (balance >= 5000) return 50;
+    if (balance >= 1000) return 40;
+    return Math.floor(balance / 25);
+}
+
+/**
+ * Balance stability: tier of the stable balance less volatility points
+ * Mirrors `balance_factor_score` in main.leo
+ */
+export function integerBalanceStabilityScore(stableBalance: number, volatilityBps: number): number {
+    const tier = integerBalanceScore(stableBalance);
+    const deduction = VOLATILITY_DEDUCTIONS.find(([above]) => volatilityBps > above)?.[1] ?? 0;
+    return tier > deduction ? tier - deduction : 0;
+}
+
+/**
+ * Combine factor scores into bonus points, rounding half up
+ * Mirrors the weighted sum and bonus in `generate_score`
+ *
+ * @param factorScores - Factor scores in INTEGER_MODEL_WEIGHTS order
+ * @returns Bonus points (0-550)
+ */
+export function integerBonusPoints(factorScores: readonly number[]): number {
+    const weighted = INTEGER_MODEL_WEIGHTS.reduce(
+        (sum, weight, i) => sum + (factorScores[i] ?? 0) * weight,
+        0
+    );
+    return Math.floor((weighted * MAX_BONUS + 5000) / 10000);
+}
+
+const inputsFor = (metrics: WalletMetrics, context: ScoringContext) =>
+    toIntegerInputs(metrics, context.now);
+
+export const integerModel: ScoringModel = {
+    id: 'proofscore-integer',
+    version: '2.0.0',
+    description: 'Integer-only tier ladders shared with credit_score.aleo/generate_score',
+    factors: [
+        {
+            id: 'transactions',
+            name: 'Transaction History',
+            weight: INTEGER_MODEL_WEIGHTS[0] / 100,
+            score: (metrics, context) => {
+                const inputs = inputsFor(metrics, context);
+                return integerTransactionScore(inputs.txCount, inputs.daysSinceLastTx);
+            },
+            describe: (metrics) => `${metrics.transactionCount} transactions on record`,
+        },
+        {
+            id: 'walletAge',
+            name: 'Wallet Age',
+            weight: INTEGER_MODEL_WEIGHTS[1] / 100,
+            score: (metrics, context) =>
+                integerAgeScore(inputsFor(metrics, context).walletAgeMonths),
+            describe: (metrics) => `${metrics.walletAgeMonths} months old`,
+        },
+        {
+            id: 'defi',
+            name: 'DeFi Activity',
+            weight: INTEGER_MODEL_WEIGHTS[2] / 100,
+            score: (metrics, context) =>
+                integerDeFiScore(inputsFor(metrics, context).defiScore),
+            describe: (metrics) => `${metrics.defiScore}% DeFi engagement`,
+        },
+        {
+            id: 'repayment',
+            name: 'Repayment Behavior',
+            weight: INTEGER_MODEL_WEIGHTS[3] / 100,
+            score: (metrics, context) =>
+                integerRepaymentScore(inputsFor(metrics, context).repaymentRate),
+            describe: (metrics) => {
+                const rate = Math.floor(recencyRepaymentRate(metrics, DEFAULT_RECENCY_POLICY));
+                if (!metrics.repaymentHistory) return `${rate}% repayment rate`;
+                return `${rate}% repayment rate, recent loans weighted higher`;
+            },
+        },
+        {
+            id: 'balance',
+            name: 'Balance Stability',
+            weight: INTEGER_MODEL_WEIGHTS[4] / 100,
+            score: (metrics, context) => {
+                const inputs = inputsFor(metrics, context);
+                return integerBalanceStabilityScore(inputs.stableBalance, inputs.volatilityBps);
+            },
+            describe: (metrics) => {
+                const { balanceHistory, tokenBalance } = metrics;
+                if (!balanceHistory) return `${tokenBalance.toLocaleString()} credits`;
+                return `${Math.round(balanceHistory.average).toLocaleString()} credits on average`;
+            },
+        },
+    ],
+    combine: integerBonusPoints,
+    recency: DEFAULT_RECENCY_POLICY,
+};
+
+/**
+ * v1 of the integer model: plain repayment rate, current balance and no
+ * event penalties. Kept so assessments scored with it can be replayed.
+ */
+export const integerModelV1: ScoringModel = {
+    id: integerModel.id,
+    version: '1.0.0',
+    description: integerModel.description,
+    factors: integerModel.factors.map((factor) => {
+        switch (factor.id) {
+            case 'repayment':
+                return {
+                    ...factor,
+                    score: (metrics) =>
+                        integerRepaymentScore(floorNonNegative(metrics.repaymentRate)),
+                    describe: (metrics) => `${metrics.repaymentRate}% repayment rate`,
+                };
+            case 'balance':
+                return {
+                    ...factor,
+                    score: (metrics) =>
+                        integerBalanceScore(floorNonNegative(metrics.tokenBalance)),
+                    describe: (metrics) => `${metrics.tokenBalance.toLocaleString()} credits`,
+                };
+            default:
+                return factor;
+        }
+    }),
+    combine: integerBonusPoints,
+};
@@ -0,0 +1,64 @@
+/**
+ * Tiered Scoring Model (v2)
+ *
+ * Default ProofScore model: each factor is mapped onto a 0-100 scale
+ * through a tier ladder, then weighted.
+ *
+ * 2.0.0 is compiled from policies/proofscore-tiered-2.0.0.json
+ * (TIERED_SCORING_POLICY), the only place its tier ladders, weights and
+ * adjustments are kept. Changing them means editing that file and bumping
+ * its version.
+ *
+ * 2.1.0 (createTieredModel) weighs the loan ledger by recency: recent
+ * repayments count more in the repayment rate, and liquidations, defaults
+ * and delinquency take fading points off the final score (see
+ * lending/CreditEvents) instead of lowering the repayment tier.
+ *
+ * @module lib/sdk/models/TieredModel
+ */
+
+import { DEFAULT_RECENCY_POLICY, recencyRepaymentRate } from '../lending/CreditEvents';
+import { TIERED_SCORING_POLICY, compileScoringPolicy, tierScore } from '../policy/ScoringPolicy';
+import type { RecencyPolicy, ScoringModel } from '@/types/sdk';
+
+export const tieredModel: ScoringModel = compileScoringPolicy(TIERED_SCORING_POLICY);
+
+/**
+ * Repayment ladder of the policy, reused on the recency-weighted rate
+ */
+const repaymentFactor = TIERED_SCORING_POLICY.factors.find((f) => f.id === 'repayment')!;
+
+/**
+ * Tiered model with recency-weighted repayment and negative-event penalties
+ *
+ * @param recency - Half-lives, event points and cap (default: SCORE_RECENCY)
+ * @param version - Model version; variants with a custom policy need their own
+ */
+export function createTieredModel(
+    recency: RecencyPolicy = DEFAULT_RECENCY_POLICY,
+    version = '2.1.0'
+): ScoringModel {
+    return {
+        id: tieredModel.id,
+        version,
+        description:
+            'Tier ladders per factor; recent repayments weigh more and negative credit ' +
+            'events cost points that fade with age',
+        factors: tieredModel.factors.map((factor) =>
+            factor.id === 'repayment'
+                ? {
+                    ...factor,
+                    score: (metrics) =>
+                        tierScore(repaymentFactor, recencyRepaymentRate(metrics, recency)),
+                    describe: (metrics) => {
+                        const rate = recencyRepaymentRate(metrics, recency);
+                        return `${rate}% repayment rate, recent loans weighted higher`;
+                    },
+                }
+                : factor
+        ),
+        recency,
+    };
+}
+
+export const recencyTieredModel: ScoringModel = createTieredModel();
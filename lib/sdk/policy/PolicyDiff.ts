@@ -0,0 +1,179 @@
+/**
+ * Scoring Policy Diff
+ *
+ * Shows how a policy change shifts scores before it ships: both policies
+ * (or any two models) score the same population and every wallet's score
+ * and risk level are compared. __fixtures__/population.json is a fixture
+ * population to diff on (score it at now = 2026-01-01); metrics kept from
+ * a batch run work as well.
+ *
+ * @module lib/sdk/policy/PolicyDiff
+ */
+
+import { compileScoringPolicy } from './ScoringPolicy';
+import { ScoringEngine } from '../ScoringEngine';
+import { SCORING_POLICY } from '@/lib/constants';
+import type {
+    PolicyDiff,
+    PolicyDiffFormat,
+    PolicyScoreChange,
+    RiskLevel,
+    ScoringModel,
+    ScoringPolicy,
+    WalletMetrics,
+} from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+const RISK_ORDER: readonly RiskLevel[] = ['low', 'medium', 'high'];
+
+/**
+ * Score changes between two policies
+ *
+ * @param before - Current policy
+ * @param after - Proposed policy
+ * @param population - Metrics to score with both
+ * @param options.now - Time to score at (Unix ms, default: now)
+ * @throws SDKError INVALID_POLICY for invalid policies, EMPTY_POPULATION
+ *   without metrics
+ *
+ * @example
+ * const diff = diffPolicies(current, proposed, population, { now: Date.UTC(2026, 0, 1) });
+ * console.log(renderPolicyDiff(diff, 'markdown'));
+ */
+export function diffPolicies(
+    before: ScoringPolicy,
+    after: ScoringPolicy,
+    population: readonly WalletMetrics[],
+    options: { now?: number } = {}
+): PolicyDiff {
+    return diffModels(
+        compileScoringPolicy(before),
+        compileScoringPolicy(after),
+        population,
+        options
+    );
+}
+
+/**
+ * Score changes between two scoring models (see diffPolicies)
+ */
+export function diffModels(
+    before: ScoringModel,
+    after: ScoringModel,
+    population: readonly WalletMetrics[],
+    options: { now?: number } = {}
+): PolicyDiff {
+    if (population.length === 0) {
+        throw new SDKError('Cannot diff policies on an empty population', 'EMPTY_POPULATION');
+    }
+    const now = options.now ?? Date.now();
+
+    const wallets = population.map((metrics): PolicyScoreChange => {
+        const a = ScoringEngine.calculateScore(metrics, before, { now });
+        const b = ScoringEngine.calculateScore(metrics, after, { now });
+        return {
+            address: metrics.address,
+            before: a.finalScore,
+            after: b.finalScore,
+            change: b.finalScore - a.finalScore,
+            riskBefore: a.riskLevel,
+            riskAfter: b.riskLevel,
+        };
+    });
+
+    const riskMigration = Object.fromEntries(
+        RISK_ORDER.map((level) => [level, Object.fromEntries(RISK_ORDER.map((l) => [l, 0]))])
+    ) as PolicyDiff['riskMigration'];
+    for (const wallet of wallets) riskMigration[wallet.riskBefore][wallet.riskAfter]++;
+
+    const changes = wallets.map((w) => w.change);
+    return {
+        before: { id: before.id, version: before.version },
+        after: { id: after.id, version: after.version },
+        count: wallets.length,
+        meanChange: changes.reduce((sum, c) => sum + c, 0) / wallets.length,
+        raised: changes.filter((c) => c > 0).length,
+        lowered: changes.filter((c) => c < 0).length,
+        unchanged: changes.filter((c) => c === 0).length,
+        maxRaise: Math.max(0, ...changes),
+        maxDrop: Math.min(0, ...changes),
+        riskMigration,
+        wallets: wallets.sort(
+            (a, b) =>
+                Math.abs(b.change) - Math.abs(a.change) || a.address.localeCompare(b.address)
+        ),
+    };
+}
+
+/**
+ * Render a policy diff
+ *
+ * @param diff - Diff from diffPolicies()
+ * @param format - 'json', or 'markdown' for review comments (lists the
+ *   SCORING_POLICY.DIFF_REPORT_WALLETS largest changes)
+ * @throws SDKError INVALID_FORMAT for other formats
+ */
+export function renderPolicyDiff(diff: PolicyDiff, format: PolicyDiffFormat): string {
+    if (format === 'json') return `${JSON.stringify(diff, null, 2)}\n`;
+    if (format === 'markdown') return renderMarkdown(diff);
+    throw new SDKError(`Unknown diff format: ${format}`, 'INVALID_FORMAT');
+}
+
+function renderMarkdown(diff: PolicyDiff): string {
+    const ref = ({ id, version }: PolicyDiff['before']) => `${id}@${version}`;
+    const shown = diff.wallets.filter((w) => w.change !== 0);
+    const listed = shown.slice(0, SCORING_POLICY.DIFF_REPORT_WALLETS);
+
+    const sections = [
+        `## Scoring policy diff: ${ref(diff.before)} → ${ref(diff.after)}`,
+        table(
+            ['Wallets', 'Mean change', 'Raised', 'Lowered', 'Unchanged', 'Max raise', 'Max drop'],
+            [[
+                `${diff.count}`,
+                signed(diff.meanChange, 1),
+                `${diff.raised}`,
+                `${diff.lowered}`,
+                `${diff.unchanged}`,
+                signed(diff.maxRaise, 0),
+                signed(diff.maxDrop, 0),
+            ]]
+        ),
+        `### Risk level migration (rows: before, columns: after)`,
+        table(
+            ['', ...RISK_ORDER],
+            RISK_ORDER.map((from) => [
+                from,
+                ...RISK_ORDER.map((to) => `${diff.riskMigration[from][to]}`),
+            ])
+        ),
+    ];
+    if (listed.length > 0) {
+        sections.push(
+            `### Largest changes` +
+                (shown.length > listed.length ? ` (${listed.length} of ${shown.length})` : ''),
+            table(
+                ['Address', 'Before', 'After', 'Change', 'Risk'],
+                listed.map((w) => [
+                    `\`${w.address}\``,
+                    `${w.before}`,
+                    `${w.after}`,
+                    signed(w.change, 0),
+                    w.riskBefore === w.riskAfter
+                        ? w.riskAfter
+                        : `${w.riskBefore} → ${w.riskAfter}`,
+                ])
+            )
+        );
+    }
+    return `${sections.join('\n\n')}\n`;
+}
+
+function table(header: string[], rows: string[][]): string {
+    const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+    return [line(header), line(header.map(() => '---')), ...rows.map(line)].join('\n');
+}
+
+function signed(value: number, digits: number): string {
+    const text = value.toFixed(digits);
+    return value > 0 ? `+${text}` : text;
+}
@@ -0,0 +1,455 @@
+/**
+ * Scoring Policies
+ *
+ * Describes a whole scoring model (factors, tier ladders, weights, score
+ * range and risk bands) as data, so it can be kept in a JSON or YAML file,
+ * reviewed like any other configuration and loaded at runtime.
+ *
+ * Policies are checked strictly before they are compiled into a
+ * ScoringModel: the shape of scoring-policy.schema.json (no unknown keys)
+ * plus what a schema cannot express - weights sum to 1, tier ladders are
+ * monotonic, risk bands cover the score range.
+ *
+ * policies/proofscore-tiered-2.0.0.json is the built-in tieredModel 2.0.0
+ * (models/TieredModel compiles it) and a starting point for custom policies.
+ *
+ * @module lib/sdk/policy/ScoringPolicy
+ */
+
+import tieredPolicy from './policies/proofscore-tiered-2.0.0.json';
+import { SCORING_CONFIG } from '@/lib/constants';
+import type {
+    PolicyAdjustment,
+    PolicyFactor,
+    PolicyMetric,
+    RiskLevel,
+    ScoringContext,
+    ScoringModel,
+    ScoringPolicy,
+    ScoringPolicyFormat,
+    WalletMetrics,
+} from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Allowed drift when checking that factor weights sum to 1
+ */
+const WEIGHT_TOLERANCE = 1e-9;
+
+/**
+ * Risk levels, lowest risk first (the order of a policy's bands)
+ */
+const RISK_ORDER: readonly RiskLevel[] = ['low', 'medium', 'high'];
+
+const METRICS: Record<
+    PolicyMetric,
+    (metrics: WalletMetrics, context: ScoringContext) => number | undefined
+> = {
+    transactionCount: (m) => m.transactionCount,
+    walletAgeMonths: (m) => m.walletAgeMonths,
+    defiScore: (m) => m.defiScore,
+    repaymentRate: (m) => m.repaymentRate,
+    tokenBalance: (m) => m.tokenBalance,
+    stableBalance: (m) =>
+        m.balanceHistory
+            ? (m.balanceHistory.average + m.balanceHistory.minimum) / 2
+            : m.tokenBalance,
+    balanceVolatility: (m) => m.balanceHistory?.volatility,
+    daysSinceLastTransaction: (m, { now }) => (now - m.lastTransactionDate) / DAY_MS,
+    liquidations: (m) => m.repaymentHistory?.liquidations,
+    defaults: (m) => m.repaymentHistory?.defaults,
+    maxDaysPastDue: (m) => m.repaymentHistory?.maxDaysPastDue,
+};
+
+const POLICY_KEYS = [
+    '$schema',
+    'id',
+    'version',
+    'description',
+    'scoreRange',
+    'riskBands',
+    'factors',
+];
+const FACTOR_KEYS = [
+    'id',
+    'name',
+    'weight',
+    'metric',
+    'tiers',
+    'belowSlope',
+    'adjustments',
+    'description',
+];
+const ADJUSTMENT_KEYS = ['metric', 'above', 'atMost', 'points', 'pointsPerUnit'];
+
+/**
+ * Policy of tieredModel 2.0.0
+ */
+export const TIERED_SCORING_POLICY = tieredPolicy as ScoringPolicy;
+
+/**
+ * Read a policy file
+ *
+ * @param text - File contents
+ * @param format - 'json' or 'yaml'
+ * @param parseYaml - YAML parser for 'yaml' policies, e.g. `parse` from the yaml package
+ * @throws SDKError INVALID_FORMAT for unreadable files, INVALID_POLICY
+ *   (issues in details) for policies that fail validation
+ *
+ * @example
+ * import { parse } from 'yaml';
+ * const policy = parseScoringPolicy(await readFile('policy.yaml', 'utf8'), 'yaml', parse);
+ */
+export function parseScoringPolicy(
+    text: string,
+    format: ScoringPolicyFormat,
+    parseYaml?: (text: string) => unknown
+): ScoringPolicy {
+    let value: unknown;
+    if (format === 'json') {
+        try {
+            value = JSON.parse(text);
+        } catch (error) {
+            throw new SDKError('Scoring policy is not valid JSON', 'INVALID_FORMAT', error);
+        }
+    } else if (format === 'yaml') {
+        if (!parseYaml) {
+            throw new SDKError('Reading YAML policies needs a YAML parser', 'INVALID_FORMAT');
+        }
+        try {
+            value = parseYaml(text);
+        } catch (error) {
+            throw new SDKError('Scoring policy is not valid YAML', 'INVALID_FORMAT', error);
+        }
+    } else {
+        throw new SDKError(`Unknown policy format: ${format}`, 'INVALID_FORMAT');
+    }
+
+    assertScoringPolicy(value);
+    return value;
+}
+
+/**
+ * Check a policy against the schema and the rules it cannot express
+ *
+ * - no unknown keys; id and description are strings, version is semver
+ * - score range: integers, min below max
+ * - risk bands: lowest risk first, each level once, minimum scores
+ *   descending within the range, the last at the range minimum
+ * - factors: unique ids, known metrics, weights in 0-1 summing to 1
+ * - tiers: minimums strictly descending, scores in 0-100 and never higher
+ *   than the tier above; the slope below the lowest tier stays under it
+ * - adjustments: known metrics, either points or pointsPerUnit, bounds in order
+ *
+ * @param value - Parsed policy file
+ * @returns Issues, each prefixed with its path (empty if the policy is valid)
+ */
+export function validateScoringPolicy(value: unknown): string[] {
+    const issues: string[] = [];
+    if (!isRecord(value)) return ['policy: must be an object'];
+
+    checkKeys(value, POLICY_KEYS, 'policy', issues);
+    if (value.$schema !== undefined && typeof value.$schema !== 'string') {
+        issues.push('$schema: must be a string');
+    }
+    if (typeof value.id !== 'string' || !value.id) issues.push('id: must be a non-empty string');
+    const { version } = value;
+    if (typeof version !== 'string' || !SCORING_CONFIG.VERSION_PATTERN.test(version)) {
+        issues.push('version: must be a semantic version');
+    }
+    if (typeof value.description !== 'string') issues.push('description: must be a string');
+
+    const range = checkScoreRange(value.scoreRange, issues);
+    checkRiskBands(value.riskBands, range, issues);
+    checkFactors(value.factors, issues);
+    return issues;
+}
+
+/**
+ * Compile a policy into a scoring model
+ *
+ * @param policy - Scoring policy
+ * @throws SDKError INVALID_POLICY (issues in details) if the policy is invalid
+ */
+export function compileScoringPolicy(policy: ScoringPolicy): ScoringModel {
+    assertScoringPolicy(policy);
+
+    return {
+        id: policy.id,
+        version: policy.version,
+        description: policy.description,
+        factors: policy.factors.map((factor) => ({
+            id: factor.id,
+            name: factor.name,
+            weight: factor.weight,
+            score: (metrics, context) => factorScore(factor, metrics, context),
+            describe: (metrics) => describeFactor(factor, metrics),
+        })),
+        scoreRange: { ...policy.scoreRange },
+        riskBands: policy.riskBands.map((band) => ({ ...band })),
+    };
+}
+
+/**
+ * Factor score (0-100): metric tier plus adjustments
+ */
+function factorScore(
+    factor: PolicyFactor,
+    metrics: WalletMetrics,
+    context: ScoringContext
+): number {
+    let score = tierScore(factor, METRICS[factor.metric](metrics, context) ?? 0);
+
+    for (const adjustment of factor.adjustments ?? []) {
+        score += adjustmentPoints(adjustment, METRICS[adjustment.metric](metrics, context));
+    }
+    return Math.max(0, Math.min(100, score));
+}
+
+/**
+ * Score of the tier a value falls in, or the slope below the lowest tier
+ * (before adjustments)
+ *
+ * @param factor - Policy factor
+ * @param value - Value of the factor's metric
+ */
+export function tierScore(factor: PolicyFactor, value: number): number {
+    const tier = factor.tiers.find((t) => value >= t.min);
+    return tier ? tier.score : value * factor.belowSlope;
+}
+
+/**
+ * Points of an adjustment (none for metrics out of bounds or undefined)
+ */
+function adjustmentPoints(adjustment: PolicyAdjustment, value: number | undefined): number {
+    if (value === undefined) return 0;
+    if (adjustment.above !== undefined && value <= adjustment.above) return 0;
+    if (adjustment.atMost !== undefined && value > adjustment.atMost) return 0;
+    return adjustment.points ?? value * (adjustment.pointsPerUnit ?? 0);
+}
+
+function describeFactor(factor: PolicyFactor, metrics: WalletMetrics): string {
+    const value = METRICS[factor.metric](metrics, { now: Date.now() }) ?? 0;
+    const shown = (Math.round(value * 100) / 100).toLocaleString();
+    return factor.description
+        ? factor.description.replace(/\{value\}/g, shown)
+        : `${factor.name}: ${shown}`;
+}
+
+function assertScoringPolicy(value: unknown): asserts value is ScoringPolicy {
+    const issues = validateScoringPolicy(value);
+    if (issues.length > 0) {
+        throw new SDKError(
+            `Invalid scoring policy: ${issues[0]}` +
+                (issues.length > 1 ? ` (and ${issues.length - 1} more)` : ''),
+            'INVALID_POLICY',
+            issues
+        );
+    }
+}
+
+function checkScoreRange(value: unknown, issues: string[]): { min: number; max: number } | null {
+    if (!isRecord(value)) {
+        issues.push('scoreRange: must be an object');
+        return null;
+    }
+    checkKeys(value, ['min', 'max'], 'scoreRange', issues);
+
+    const { min, max } = value;
+    if (!Number.isInteger(min) || !Number.isInteger(max)) {
+        issues.push('scoreRange: min and max must be integers');
+        return null;
+    }
+    if ((min as number) >= (max as number)) {
+        issues.push('scoreRange: min must be below max');
+        return null;
+    }
+    return { min: min as number, max: max as number };
+}
+
+function checkRiskBands(
+    value: unknown,
+    range: { min: number; max: number } | null,
+    issues: string[]
+): void {
+    if (!Array.isArray(value) || value.length === 0) {
+        issues.push('riskBands: must be a non-empty array');
+        return;
+    }
+
+    let previous: { rank: number; minScore: number } | null = null;
+    value.forEach((band: unknown, i) => {
+        const path = `riskBands[${i}]`;
+        if (!isRecord(band)) {
+            issues.push(`${path}: must be an object`);
+            return;
+        }
+        checkKeys(band, ['level', 'minScore'], path, issues);
+
+        const rank = RISK_ORDER.indexOf(band.level as RiskLevel);
+        if (rank < 0) issues.push(`${path}.level: must be one of ${RISK_ORDER.join(', ')}`);
+        if (!Number.isInteger(band.minScore)) {
+            issues.push(`${path}.minScore: must be an integer`);
+            return;
+        }
+
+        const minScore = band.minScore as number;
+        if (range && (minScore < range.min || minScore > range.max)) {
+            issues.push(`${path}.minScore: must be within the score range`);
+        }
+        if (previous && rank >= 0) {
+            if (rank <= previous.rank) {
+                issues.push(`${path}.level: bands must go from lowest to highest risk, once each`);
+            }
+            if (minScore >= previous.minScore) {
+                issues.push(`${path}.minScore: must be below the band before`);
+            }
+        }
+        if (rank >= 0) previous = { rank, minScore };
+    });
+
+    const last: unknown = value[value.length - 1];
+    if (range && isRecord(last) && last.minScore !== range.min) {
+        issues.push(`riskBands[${value.length - 1}].minScore: must be the score range minimum`);
+    }
+}
+
+function checkFactors(value: unknown, issues: string[]): void {
+    if (!Array.isArray(value) || value.length === 0) {
+        issues.push('factors: must be a non-empty array');
+        return;
+    }
+
+    const ids = new Set<string>();
+    let totalWeight = 0;
+    value.forEach((factor: unknown, i) => {
+        const path = `factors[${i}]`;
+        if (!isRecord(factor)) {
+            issues.push(`${path}: must be an object`);
+            return;
+        }
+        checkKeys(factor, FACTOR_KEYS, path, issues);
+
+        if (typeof factor.id !== 'string' || !factor.id) {
+            issues.push(`${path}.id: must be a non-empty string`);
+        } else if (ids.has(factor.id)) {
+            issues.push(`${path}.id: duplicate factor id ${factor.id}`);
+        } else {
+            ids.add(factor.id);
+        }
+        if (typeof factor.name !== 'string' || !factor.name) {
+            issues.push(`${path}.name: must be a non-empty string`);
+        }
+        if (factor.description !== undefined && typeof factor.description !== 'string') {
+            issues.push(`${path}.description: must be a string`);
+        }
+        if (!isNumber(factor.weight) || factor.weight < 0 || factor.weight > 1) {
+            issues.push(`${path}.weight: must be a number from 0 to 1`);
+        } else {
+            totalWeight += factor.weight;
+        }
+        if (!isMetric(factor.metric)) issues.push(`${path}.metric: unknown metric`);
+
+        checkTiers(factor, path, issues);
+        checkAdjustments(factor.adjustments, path, issues);
+    });
+
+    if (Math.abs(totalWeight - 1) > WEIGHT_TOLERANCE) {
+        issues.push(`factors: weights sum to ${totalWeight}, expected 1`);
+    }
+}
+
+function checkTiers(factor: Record<string, unknown>, path: string, issues: string[]): void {
+    const { tiers, belowSlope } = factor;
+    if (!isNumber(belowSlope) || belowSlope < 0) {
+        issues.push(`${path}.belowSlope: must be a non-negative number`);
+    }
+    if (!Array.isArray(tiers) || tiers.length === 0) {
+        issues.push(`${path}.tiers: must be a non-empty array`);
+        return;
+    }
+
+    let above: { min: number; score: number } | null = null;
+    for (const [i, tier] of (tiers as unknown[]).entries()) {
+        const tierPath = `${path}.tiers[${i}]`;
+        if (!isRecord(tier)) {
+            issues.push(`${tierPath}: must be an object`);
+            return;
+        }
+        checkKeys(tier, ['min', 'score'], tierPath, issues);
+
+        const { min, score } = tier;
+        if (!isNumber(min) || !isNumber(score) || score < 0 || score > 100) {
+            issues.push(`${tierPath}: min must be a number and score a number from 0 to 100`);
+            return;
+        }
+        if (above && min >= above.min) {
+            issues.push(`${tierPath}.min: must be below the tier before`);
+        }
+        if (above && score > above.score) {
+            issues.push(`${tierPath}.score: must not be above the tier before`);
+        }
+        above = { min, score };
+    }
+
+    // Scores keep rising into the lowest tier
+    if (above && isNumber(belowSlope) && above.min * belowSlope > above.score) {
+        issues.push(`${path}.belowSlope: reaches past the lowest tier's score`);
+    }
+}
+
+function checkAdjustments(value: unknown, path: string, issues: string[]): void {
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+        issues.push(`${path}.adjustments: must be an array`);
+        return;
+    }
+
+    value.forEach((adjustment: unknown, i) => {
+        const adjustmentPath = `${path}.adjustments[${i}]`;
+        if (!isRecord(adjustment)) {
+            issues.push(`${adjustmentPath}: must be an object`);
+            return;
+        }
+        checkKeys(adjustment, ADJUSTMENT_KEYS, adjustmentPath, issues);
+
+        const { metric, above, atMost, points, pointsPerUnit } = adjustment;
+        if (!isMetric(metric)) issues.push(`${adjustmentPath}.metric: unknown metric`);
+        for (const [key, bound] of Object.entries({ above, atMost, points, pointsPerUnit })) {
+            if (bound !== undefined && !isNumber(bound)) {
+                issues.push(`${adjustmentPath}.${key}: must be a number`);
+            }
+        }
+        if ((points === undefined) === (pointsPerUnit === undefined)) {
+            issues.push(`${adjustmentPath}: needs either points or pointsPerUnit`);
+        }
+        if (isNumber(above) && isNumber(atMost) && above >= atMost) {
+            issues.push(`${adjustmentPath}: above must be below atMost`);
+        }
+    });
+}
+
+function checkKeys(
+    value: Record<string, unknown>,
+    allowed: readonly string[],
+    path: string,
+    issues: string[]
+): void {
+    for (const key of Object.keys(value)) {
+        if (!allowed.includes(key)) issues.push(`${path}: unknown key ${key}`);
+    }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isMetric(value: unknown): value is PolicyMetric {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(METRICS, value);
+}
@@ -0,0 +1,107 @@
+/**
+ * PolicyDiff Unit Tests
+ * Score changes between policies on the fixture population and their rendering
+ */
+
+import { diffModels, diffPolicies, renderPolicyDiff } from '../PolicyDiff';
+import { TIERED_SCORING_POLICY } from '../ScoringPolicy';
+import population from '../__fixtures__/population.json';
+import { ScoringEngine } from '../../ScoringEngine';
+import { integerModel } from '../../models/IntegerModel';
+import { tieredModel } from '../../models/TieredModel';
+import type { ScoringPolicy, WalletMetrics } from '@/types/sdk';
+
+const NOW = Date.UTC(2026, 0, 1);
+
+const wallets = population as WalletMetrics[];
+
+function edited(change: (policy: ScoringPolicy) => void): ScoringPolicy {
+    const policy = JSON.parse(JSON.stringify(TIERED_SCORING_POLICY)) as ScoringPolicy;
+    change(policy);
+    return policy;
+}
+
+describe('diffPolicies', () => {
+    it('should find no change between a policy and itself', () => {
+        const diff = diffPolicies(TIERED_SCORING_POLICY, TIERED_SCORING_POLICY, wallets, {
+            now: NOW,
+        });
+
+        expect(diff).toMatchObject({
+            count: 12,
+            meanChange: 0,
+            raised: 0,
+            lowered: 0,
+            unchanged: 12,
+            maxRaise: 0,
+            maxDrop: 0,
+        });
+    });
+
+    it('should move wallets between risk levels when bands change', () => {
+        const after = edited((p) => {
+            p.version = '2.0.1';
+            p.riskBands[1]!.minScore = 600;
+        });
+        const scores = wallets.map(
+            (w) => ScoringEngine.calculateScore(w, tieredModel, { now: NOW }).finalScore
+        );
+        const diff = diffPolicies(TIERED_SCORING_POLICY, after, wallets, { now: NOW });
+
+        expect(diff.unchanged).toBe(12);
+        expect(diff.riskMigration.medium.high).toBe(
+            scores.filter((s) => s >= 500 && s < 600).length
+        );
+        expect(diff.riskMigration.medium.high).toBeGreaterThan(0);
+        expect(diff.riskMigration.high.medium).toBe(0);
+    });
+
+    it('should list the largest score changes first', () => {
+        const after = edited((p) => {
+            p.version = '2.1.0';
+            p.factors[3]!.weight = 0.35; // Repayment
+            p.factors[0]!.weight = 0.15; // Transactions
+        });
+        const diff = diffPolicies(TIERED_SCORING_POLICY, after, wallets, { now: NOW });
+        const changes = diff.wallets.map((w) => Math.abs(w.change));
+
+        expect(diff.after).toEqual({ id: 'proofscore-tiered', version: '2.1.0' });
+        expect(changes).toEqual([...changes].sort((a, b) => b - a));
+        expect(diff.raised + diff.lowered + diff.unchanged).toBe(12);
+        expect(diff.maxDrop).toBe(Math.min(...diff.wallets.map((w) => w.change)));
+        // Wallet 12 repays poorly but transacts a lot
+        expect(diff.wallets.find((w) => w.address === 'aleo1policyfixture12')!.change)
+            .toBeLessThan(0);
+    });
+
+    it('should refuse an empty population', () => {
+        expect(() => diffModels(tieredModel, integerModel, [])).toThrow(
+            expect.objectContaining({ code: 'EMPTY_POPULATION' })
+        );
+    });
+});
+
+describe('renderPolicyDiff', () => {
+    const after = edited((p) => {
+        p.version = '3.0.0';
+        p.factors[2]!.tiers[0]!.min = 90; // DeFi
+    });
+    const diff = diffPolicies(TIERED_SCORING_POLICY, after, wallets, { now: NOW });
+
+    it('should write markdown for review', () => {
+        const markdown = renderPolicyDiff(diff, 'markdown');
+
+        expect(markdown).toContain(
+            '## Scoring policy diff: proofscore-tiered@2.0.0 → proofscore-tiered@3.0.0'
+        );
+        expect(markdown).toContain('| low | 3 | 1 | 0 |');
+        expect(markdown).toContain('| `aleo1policyfixture12` | 765 | 749 | -16 | low → medium |');
+    });
+
+    it('should write JSON and refuse other formats', () => {
+        expect(JSON.parse(renderPolicyDiff(diff, 'json'))).toEqual(diff);
+        expect(() => renderPolicyDiff(diff, 'html' as never)).toThrow(
+            expect.objectContaining({ code: 'INVALID_FORMAT' })
+        );
+    });
+});
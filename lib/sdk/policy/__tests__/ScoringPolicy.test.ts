@@ -0,0 +1,193 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * ScoringPolicy Unit Tests
+ * Policy parsing, strict validation and compiled models
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import {
+    TIERED_SCORING_POLICY,
+    compileScoringPolicy,
+    parseScoringPolicy,
+    validateScoringPolicy,
+} from '../ScoringPolicy';
+import population from '../__fixtures__/population.json';
+import { ScoringEngine } from '../../ScoringEngine';
+import { ScoringModelRegistry } from '../../ScoringModelRegistry';
+import { tieredModel } from '../../models/TieredModel';
+import type { ScoringPolicy, WalletMetrics } from '@/types/sdk';
+
+const NOW = Date.UTC(2026, 0, 1);
+
+const wallets = population as WalletMetrics[];
+
+/**
+ * Copy of the bundled policy with changes applied
+ */
+function edited(change: (policy: ScoringPolicy) => void): ScoringPolicy {
+    const policy = JSON.parse(JSON.stringify(TIERED_SCORING_POLICY)) as ScoringPolicy;
+    change(policy);
+    return policy;
+}
+
+describe('compileScoringPolicy', () => {
+    const model = compileScoringPolicy(TIERED_SCORING_POLICY);
+
+    it('should be the source of tieredModel 2.0.0', () => {
+        const { id, version, description, scoreRange, riskBands } = TIERED_SCORING_POLICY;
+
+        expect(tieredModel).toMatchObject({ id, version, description, scoreRange, riskBands });
+        expect(tieredModel.factors.map((f) => [f.id, f.weight])).toEqual(
+            TIERED_SCORING_POLICY.factors.map((f) => [f.id, f.weight])
+        );
+    });
+
+    it('should describe factors from their templates', () => {
+        expect(model.factors[0]!.describe(wallets[0]!)).toBe('420 transactions on record');
+    });
+
+    it('should score on the policy range and risk bands', () => {
+        const wide = compileScoringPolicy(
+            edited((policy) => {
+                policy.scoreRange = { min: 0, max: 1000 };
+                policy.riskBands = [
+                    { level: 'low', minScore: 800 },
+                    { level: 'medium', minScore: 400 },
+                    { level: 'high', minScore: 0 },
+                ];
+            })
+        );
+        const top = ScoringEngine.calculateScore(wallets[0]!, wide, { now: NOW });
+        const low = ScoringEngine.calculateScore(wallets[10]!, wide, { now: NOW });
+
+        expect([top.baseScore, top.finalScore, top.riskLevel]).toEqual([0, 1000, 'low']);
+        expect([low.finalScore, low.riskLevel]).toEqual([57, 'high']);
+        // 10 points per factor point at full weight: 25% of the 86 repayment points lost
+        expect(low.reasons![0]).toEqual(
+            expect.objectContaining({ code: 'R04_LOW_REPAYMENT_RATE', points: 215 })
+        );
+    });
+
+    it('should register as a versioned model', () => {
+        const registry = new ScoringModelRegistry();
+        registry.register(model);
+
+        expect(registry.get('proofscore-tiered').version).toBe('2.0.0');
+    });
+
+    it('should refuse invalid policies', () => {
+        const invalid = edited((policy) => {
+            policy.factors[0]!.weight = 0.5;
+        });
+
+        expect(() => compileScoringPolicy(invalid)).toThrow(
+            expect.objectContaining({ code: 'INVALID_POLICY' })
+        );
+    });
+});
+
+describe('validateScoringPolicy', () => {
+    it('should accept the bundled policy', () => {
+        expect(validateScoringPolicy(TIERED_SCORING_POLICY)).toEqual([]);
+    });
+
+    it('should require weights that sum to 1', () => {
+        const policy = edited((p) => {
+            p.factors[4]!.weight = 0.2;
+        });
+
+        expect(validateScoringPolicy(policy)).toEqual(['factors: weights sum to 1.1, expected 1']);
+    });
+
+    it('should require monotonic tier ladders', () => {
+        const policy = edited((p) => {
+            p.factors[1]!.tiers[2] = { min: 20, score: 95 };
+            p.factors[2]!.belowSlope = 3;
+        });
+
+        expect(validateScoringPolicy(policy)).toEqual([
+            'factors[1].tiers[2].min: must be below the tier before',
+            'factors[1].tiers[2].score: must not be above the tier before',
+            "factors[2].belowSlope: reaches past the lowest tier's score",
+        ]);
+    });
+
+    it('should require risk bands that cover the score range in order', () => {
+        const policy = edited((p) => {
+            p.riskBands = [
+                { level: 'medium', minScore: 500 },
+                { level: 'low', minScore: 750 },
+                { level: 'high', minScore: 350 },
+            ];
+        });
+
+        expect(validateScoringPolicy(policy)).toEqual([
+            'riskBands[1].level: bands must go from lowest to highest risk, once each',
+            'riskBands[1].minScore: must be below the band before',
+            'riskBands[2].minScore: must be the score range minimum',
+        ]);
+    });
+
+    it('should reject unknown keys and metrics and incomplete adjustments', () => {
+        const policy = edited((p) => {
+            (p as unknown as Record<string, unknown>).bonus = 10;
+            p.factors[0]!.metric = 'followers' as never;
+            p.factors[0]!.adjustments![0] = { metric: 'daysSinceLastTransaction', atMost: 7 };
+        });
+
+        expect(validateScoringPolicy(policy)).toEqual([
+            'policy: unknown key bonus',
+            'factors[0].metric: unknown metric',
+            'factors[0].adjustments[0]: needs either points or pointsPerUnit',
+        ]);
+    });
+});
+
+describe('parseScoringPolicy', () => {
+    const json = JSON.stringify(TIERED_SCORING_POLICY);
+
+    it('should read JSON and YAML policies', () => {
+        const yaml = readFileSync(
+            join(__dirname, '../__fixtures__/proofscore-tiered-2.0.0.yaml'),
+            'utf8'
+        );
+
+        expect(parseScoringPolicy(json, 'json')).toEqual(TIERED_SCORING_POLICY);
+        expect(parseScoringPolicy(yaml, 'yaml', parseYaml)).toEqual(TIERED_SCORING_POLICY);
+    });
+
+    it('should refuse YAML the parser cannot read', () => {
+        expect(() => parseScoringPolicy('factors: [', 'yaml', parseYaml)).toThrow(
+            expect.objectContaining({ code: 'INVALID_FORMAT' })
+        );
+    });
+
+    it('should refuse unreadable files and YAML without a parser', () => {
+        expect(() => parseScoringPolicy('{', 'json')).toThrow(
+            expect.objectContaining({ code: 'INVALID_FORMAT' })
+        );
+        expect(() => parseScoringPolicy(json, 'yaml')).toThrow(
+            expect.objectContaining({ code: 'INVALID_FORMAT' })
+        );
+    });
+
+    it('should list every issue of an invalid policy', () => {
+        const text = JSON.stringify({ ...TIERED_SCORING_POLICY, version: '2', factors: [] });
+
+        expect(() => parseScoringPolicy(text, 'json')).toThrow(
+            expect.objectContaining({
+                code: 'INVALID_POLICY',
+                message: 'Invalid scoring policy: version: must be a semantic version (and 1 more)',
+                details: [
+                    'version: must be a semantic version',
+                    'factors: must be a non-empty array',
+                ],
+            })
+        );
+    });
+});
@@ -0,0 +1,267 @@
+/**
+ * Reason Codes
+ *
+ * Explains with stable codes why a score is below the maximum, for the
+ * adverse-action reasons a lender gives when it declines a wallet.
+ *
+ * Each factor falls short of its maximum by (100 - factor score) x weight
+ * x 1% of the model's score range (5.5 points on 300-850). The shortfall is split between the factor's reasons by
+ * re-scoring the factor with one cause lifted at a time, in the order
+ * listed below (e.g. transaction history: wash discounts, then
+ * inactivity); what is left goes to the factor's general reason. Points
+ * taken off the final score for negative credit events go to the event's
+ * reason. Reasons are ranked by points lost, ties in catalogue order.
+ *
+ * Messages are templates per locale; `{value}` is replaced by the metric
+ * behind the reason.
+ *
+ * @module lib/sdk/reasons/ReasonCodes
+ */
+
+import { REASON_CODES, SCORING_CONFIG } from '@/lib/constants';
+import type {
+    EventPenalty,
+    NegativeEventType,
+    ReasonCode,
+    ReasonMessages,
+    RepaymentHistory,
+    ScoreReason,
+    ScoringContext,
+    ScoringModel,
+    WalletMetrics,
+} from '@/types/sdk';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Every reason code, in catalogue order
+ */
+export const REASON_CODE_LIST: readonly ReasonCode[] = [
+    'R01_LOW_TX_COUNT',
+    'R02_SHORT_WALLET_HISTORY',
+    'R03_LOW_DEFI_ACTIVITY',
+    'R04_LOW_REPAYMENT_RATE',
+    'R05_LOW_BALANCE',
+    'R06_VOLATILE_BALANCE',
+    'R07_RECENT_INACTIVITY',
+    'R08_WASH_ACTIVITY',
+    'R09_LIQUIDATION',
+    'R10_DEFAULT',
+    'R11_DELINQUENCY',
+    'R12_NO_REPAYMENT_HISTORY',
+    'R99_OTHER_FACTOR',
+];
+
+/**
+ * English messages
+ */
+export const REASON_MESSAGES_EN: ReasonMessages = {
+    R01_LOW_TX_COUNT: 'Few transactions on record ({value})',
+    R02_SHORT_WALLET_HISTORY: 'Short wallet history ({value} months)',
+    R03_LOW_DEFI_ACTIVITY: 'Little DeFi activity ({value}% engagement)',
+    R04_LOW_REPAYMENT_RATE: 'Low repayment rate ({value}%)',
+    R05_LOW_BALANCE: 'Low balance held ({value} credits)',
+    R06_VOLATILE_BALANCE: 'Volatile balance (variation {value})',
+    R07_RECENT_INACTIVITY: 'No recent activity (last transaction {value} days ago)',
+    R08_WASH_ACTIVITY: 'Wash activity detected ({value} transactions not counted)',
+    R09_LIQUIDATION: 'Loans liquidated ({value})',
+    R10_DEFAULT: 'Loans defaulted ({value})',
+    R11_DELINQUENCY: 'Loans repaid late (up to {value} days past due)',
+    R12_NO_REPAYMENT_HISTORY: 'No repaid loans on record',
+    R99_OTHER_FACTOR: 'Low score on another factor ({value}/100)',
+};
+
+/**
+ * What a reason is computed from
+ */
+interface ReasonInputs {
+    metrics: WalletMetrics; // As read
+    scored: WalletMetrics; // As scored (wash discounts taken off)
+    context: ScoringContext;
+}
+
+/**
+ * A cause of a factor's shortfall and the metrics without it
+ */
+interface Cause {
+    code: ReasonCode;
+    lift: (metrics: WalletMetrics, inputs: ReasonInputs) => WalletMetrics;
+}
+
+/**
+ * Reasons of one factor of the built-in models
+ */
+interface FactorReasons {
+    causes: Cause[]; // Lifted in order
+    general: (inputs: ReasonInputs) => ReasonCode; // Gets the rest of the shortfall
+}
+
+const FACTOR_REASONS: Record<string, FactorReasons> = {
+    transactions: {
+        causes: [
+            {
+                code: 'R08_WASH_ACTIVITY',
+                lift: (m, { metrics }) => ({ ...m, transactionCount: metrics.transactionCount }),
+            },
+            {
+                code: 'R07_RECENT_INACTIVITY',
+                lift: (m, { context }) => ({ ...m, lastTransactionDate: context.now }),
+            },
+        ],
+        general: () => 'R01_LOW_TX_COUNT',
+    },
+    walletAge: { causes: [], general: () => 'R02_SHORT_WALLET_HISTORY' },
+    defi: { causes: [], general: () => 'R03_LOW_DEFI_ACTIVITY' },
+    repayment: {
+        causes: [
+            { code: 'R09_LIQUIDATION', lift: withRepayment({ liquidations: 0 }) },
+            { code: 'R10_DEFAULT', lift: withRepayment({ defaults: 0 }) },
+            { code: 'R11_DELINQUENCY', lift: withRepayment({ maxDaysPastDue: 0 }) },
+        ],
+        general: ({ metrics }) =>
+            metrics.repaymentHistory?.onTimeRate === null
+                ? 'R12_NO_REPAYMENT_HISTORY'
+                : 'R04_LOW_REPAYMENT_RATE',
+    },
+    balance: {
+        causes: [
+            {
+                code: 'R06_VOLATILE_BALANCE',
+                lift: (m) =>
+                    m.balanceHistory
+                        ? { ...m, balanceHistory: { ...m.balanceHistory, volatility: 0 } }
+                        : m,
+            },
+        ],
+        general: () => 'R05_LOW_BALANCE',
+    },
+};
+
+const EVENT_REASONS: Record<NegativeEventType, ReasonCode> = {
+    liquidation: 'R09_LIQUIDATION',
+    default: 'R10_DEFAULT',
+    delinquency: 'R11_DELINQUENCY',
+};
+
+/**
+ * Metric behind each reason (R99: the factor score)
+ */
+const REASON_VALUES: Record<ReasonCode, (inputs: ReasonInputs, factorScore: number) => number> = {
+    R01_LOW_TX_COUNT: ({ scored }) => scored.transactionCount,
+    R02_SHORT_WALLET_HISTORY: ({ scored }) => scored.walletAgeMonths,
+    R03_LOW_DEFI_ACTIVITY: ({ scored }) => scored.defiScore,
+    R04_LOW_REPAYMENT_RATE: ({ scored }) => scored.repaymentRate,
+    R05_LOW_BALANCE: ({ scored }) =>
+        Math.round(scored.balanceHistory?.average ?? scored.tokenBalance),
+    R06_VOLATILE_BALANCE: ({ scored }) =>
+        Math.round((scored.balanceHistory?.volatility ?? 0) * 100) / 100,
+    R07_RECENT_INACTIVITY: ({ scored, context }) =>
+        Math.max(0, Math.floor((context.now - scored.lastTransactionDate) / DAY_MS)),
+    R08_WASH_ACTIVITY: ({ metrics }) => metrics.activityAnomalies?.discountedTransactions ?? 0,
+    R09_LIQUIDATION: ({ metrics }) => metrics.repaymentHistory?.liquidations ?? 0,
+    R10_DEFAULT: ({ metrics }) => metrics.repaymentHistory?.defaults ?? 0,
+    R11_DELINQUENCY: ({ metrics }) => metrics.repaymentHistory?.maxDaysPastDue ?? 0,
+    R12_NO_REPAYMENT_HISTORY: ({ metrics }) => metrics.repaymentHistory?.loans.length ?? 0,
+    R99_OTHER_FACTOR: (_inputs, factorScore) => factorScore,
+};
+
+/**
+ * Reasons a score is below the maximum, most points first
+ *
+ * @param metrics - Metrics as read
+ * @param scored - Metrics as scored (ScoringEngine.applyPenalties)
+ * @param model - Scoring model
+ * @param context - Scoring context
+ * @param eventPenalties - Points taken off the final score for negative events
+ * @param limit - Reasons to keep (default: REASON_CODES.MAX_REASONS)
+ * @returns Reasons that cost at least one point
+ */
+export function scoreReasons(
+    metrics: WalletMetrics,
+    scored: WalletMetrics,
+    model: ScoringModel,
+    context: ScoringContext,
+    eventPenalties: readonly EventPenalty[] = [],
+    limit: number = REASON_CODES.MAX_REASONS
+): ScoreReason[] {
+    const inputs: ReasonInputs = { metrics, scored, context };
+    const range = model.scoreRange ?? {
+        min: SCORING_CONFIG.MIN_SCORE,
+        max: SCORING_CONFIG.MAX_SCORE,
+    };
+    const pointsPerFactorPoint = (range.max - range.min) / 100;
+    const lost = new Map<ReasonCode, { factor: string | null; points: number; value: number }>();
+
+    const add = (code: ReasonCode, factor: string | null, points: number, factorScore = 0) => {
+        if (points <= 0) return;
+        const entry = lost.get(code);
+        if (entry) {
+            entry.points += points;
+            entry.factor = entry.factor ?? factor;
+            return;
+        }
+        lost.set(code, { factor, points, value: REASON_VALUES[code](inputs, factorScore) });
+    };
+
+    for (const factor of model.factors) {
+        const toPoints = (factorPoints: number) =>
+            factorPoints * factor.weight * pointsPerFactorPoint;
+        const score = factor.score(scored, context);
+        const reasons = FACTOR_REASONS[factor.id];
+        if (!reasons) {
+            add('R99_OTHER_FACTOR', factor.id, toPoints(100 - score), score);
+            continue;
+        }
+
+        // Lift each cause in turn; the rise in factor score is what it cost
+        let current = scored;
+        let reached = score;
+        for (const cause of reasons.causes) {
+            current = cause.lift(current, inputs);
+            const lifted = Math.min(100, factor.score(current, context));
+            add(cause.code, factor.id, toPoints(lifted - reached));
+            reached = Math.max(reached, lifted);
+        }
+        add(reasons.general(inputs), factor.id, toPoints(100 - reached));
+    }
+
+    for (const penalty of eventPenalties) {
+        add(EVENT_REASONS[penalty.event], null, penalty.points);
+    }
+
+    return [...lost.entries()]
+        .map(([code, entry]) => ({ code, ...entry }))
+        .sort(
+            (a, b) =>
+                b.points - a.points ||
+                REASON_CODE_LIST.indexOf(a.code) - REASON_CODE_LIST.indexOf(b.code)
+        )
+        .map((reason) => ({ ...reason, points: Math.round(reason.points) }))
+        .filter((reason) => reason.points > 0)
+        .slice(0, limit);
+}
+
+/**
+ * Message of a reason
+ *
+ * @param reason - Score reason
+ * @param messages - Templates of the locale to use (default: English)
+ */
+export function formatReason(
+    reason: ScoreReason,
+    messages: ReasonMessages = REASON_MESSAGES_EN
+): string {
+    return messages[reason.code].replace(/\{value\}/g, String(reason.value));
+}
+
+/**
+ * Lift that replaces ledger signals (no-op without a ledger)
+ */
+function withRepayment(
+    signals: Partial<RepaymentHistory>
+): (metrics: WalletMetrics) => WalletMetrics {
+    return (metrics) =>
+        metrics.repaymentHistory
+            ? { ...metrics, repaymentHistory: { ...metrics.repaymentHistory, ...signals } }
+            : metrics;
+}
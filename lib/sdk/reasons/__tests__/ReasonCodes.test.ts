@@ -0,0 +1,167 @@
+/**
+ * ReasonCodes Unit Tests
+ * Attribution of lost points to reason codes, ranking and messages
+ */
+
+import { REASON_MESSAGES_EN, formatReason, scoreReasons } from '../ReasonCodes';
+import { ScoringEngine } from '../../ScoringEngine';
+import { recencyTieredModel, tieredModel } from '../../models/TieredModel';
+import { LoanLedger } from '../../lending/LoanLedger';
+import { LOAN_LEDGER } from '@/lib/constants';
+import type { Loan, ScoringModel, WalletMetrics } from '@/types/sdk';
+
+const NOW = Date.UTC(2026, 0, 1);
+const DAY_MS = 1000 * 60 * 60 * 24;
+const HEIGHT = 10_000_000;
+
+const excellent: WalletMetrics = {
+    address: 'aleo1reasons',
+    transactionCount: 250,
+    walletAgeMonths: 30,
+    defiScore: 90,
+    repaymentRate: 100,
+    tokenBalance: 2_000_000,
+    lastTransactionDate: NOW,
+};
+
+const reasonsOf = (metrics: WalletMetrics, model: ScoringModel = tieredModel) =>
+    ScoringEngine.calculateScore(metrics, model, { now: NOW }).reasons;
+
+describe('scoreReasons', () => {
+    it('should give no reasons for a score at the maximum', () => {
+        expect(reasonsOf(excellent)).toEqual([]);
+    });
+
+    it('should split a factor between inactivity and a low count', () => {
+        const reasons = reasonsOf({
+            ...excellent,
+            transactionCount: 30,
+            lastTransactionDate: NOW - 200 * DAY_MS,
+        });
+
+        // Factor at 15: 50 factor points to inactivity (65 if active today), 35 to the count
+        expect(reasons).toEqual([
+            { code: 'R07_RECENT_INACTIVITY', factor: 'transactions', points: 69, value: 200 },
+            { code: 'R01_LOW_TX_COUNT', factor: 'transactions', points: 48, value: 30 },
+        ]);
+    });
+
+    it('should attribute wash discounts before a low count', () => {
+        const farmed: WalletMetrics = {
+            ...excellent,
+            transactionCount: 60,
+            activityAnomalies: {
+                anomalies: [],
+                discountedTransactions: 40,
+                inspectedTransfers: 60,
+                blockHeight: HEIGHT,
+            },
+        };
+
+        // Factor at 50 for 20 transactions, 80 for the 60 read
+        expect(reasonsOf(farmed)).toEqual([
+            { code: 'R08_WASH_ACTIVITY', factor: 'transactions', points: 41, value: 40 },
+            { code: 'R01_LOW_TX_COUNT', factor: 'transactions', points: 28, value: 20 },
+        ]);
+    });
+
+    it('should keep the four reasons that cost the most points, ties in catalogue order', () => {
+        const reasons = reasonsOf({
+            ...excellent,
+            transactionCount: 3,
+            walletAgeMonths: 2,
+            defiScore: 10,
+            repaymentRate: 40,
+            tokenBalance: 500,
+        });
+
+        // Balance (44 points) is left out
+        expect(reasons!.map((r) => [r.code, r.points])).toEqual([
+            ['R01_LOW_TX_COUNT', 103],
+            ['R04_LOW_REPAYMENT_RATE', 99],
+            ['R02_SHORT_WALLET_HISTORY', 88],
+            ['R03_LOW_DEFI_ACTIVITY', 88],
+        ]);
+    });
+
+    it('should count negative credit events under their reason', () => {
+        const DAY = LOAN_LEDGER.BLOCKS_PER_DAY;
+        const loan = (id: string, closedAt: number, daysPastDue = 0): Loan => ({
+            id,
+            program: 'test_lending.aleo',
+            protocol: 'Test Lending',
+            borrowedAt: closedAt - (30 + daysPastDue) * DAY,
+            dueBlock: closedAt - daysPastDue * DAY,
+            closedAt,
+            status: daysPastDue >= 90 ? 'defaulted' : 'repaid',
+            daysPastDue,
+        });
+        const loans = [
+            loan('a', HEIGHT - 30 * DAY),
+            loan('b', HEIGHT - 20 * DAY),
+            loan('c', HEIGHT - 10 * DAY),
+            loan('d', HEIGHT, 120),
+        ];
+        const repaymentHistory = LoanLedger.summarize(loans, HEIGHT);
+        const metrics = { ...excellent, repaymentRate: 75, repaymentHistory };
+
+        // 2.0.0 lowers the repayment tier (75) by 25 per default and 20 for 120 days past due
+        expect(reasonsOf(metrics)).toEqual([
+            { code: 'R04_LOW_REPAYMENT_RATE', factor: 'repayment', points: 34, value: 75 },
+            { code: 'R10_DEFAULT', factor: 'repayment', points: 34, value: 1 },
+            { code: 'R11_DELINQUENCY', factor: 'repayment', points: 28, value: 120 },
+        ]);
+        // 2.1.0 takes the default off the final score
+        expect(reasonsOf(metrics, recencyTieredModel)![0]).toEqual({
+            code: 'R10_DEFAULT',
+            factor: null,
+            points: 100,
+            value: 1,
+        });
+    });
+
+    it('should report factors of custom models as R99_OTHER_FACTOR', () => {
+        const model: ScoringModel = {
+            id: 'custom',
+            version: '1.0.0',
+            description: 'Single factor',
+            factors: [
+                { id: 'karma', name: 'Karma', weight: 1, score: () => 60, describe: () => '' },
+            ],
+        };
+
+        expect(scoreReasons(excellent, excellent, model, { now: NOW })).toEqual([
+            { code: 'R99_OTHER_FACTOR', factor: 'karma', points: 220, value: 60 },
+        ]);
+    });
+});
+
+describe('formatReason', () => {
+    const reason = { code: 'R07_RECENT_INACTIVITY' as const, factor: null, points: 20, value: 45 };
+
+    it('should fill the message template with the reason value', () => {
+        expect(formatReason(reason)).toBe('No recent activity (last transaction 45 days ago)');
+    });
+
+    it('should use the messages of another locale', () => {
+        const spanish = {
+            ...REASON_MESSAGES_EN,
+            R07_RECENT_INACTIVITY: 'Sin actividad reciente (hace {value} días)',
+        };
+
+        expect(formatReason(reason, spanish)).toBe('Sin actividad reciente (hace 45 días)');
+    });
+});
+
+describe('ScoringEngine.getReasons', () => {
+    it('should recompute reasons of assessments made without them', () => {
+        const assessment = ScoringEngine.calculateScore(
+            { ...excellent, defiScore: 30 },
+            tieredModel,
+            { now: NOW }
+        );
+        const { reasons, ...older } = assessment;
+
+        expect(ScoringEngine.getReasons(older)).toEqual(reasons);
+    });
+});
@@ -0,0 +1,323 @@
+/**
+ * Score Scales
+ *
+ * Presents scores on the scale a lender works with. An assessment's final
+ * score is normalised to 0-1 within its model's score range; a scale
+ * projects that onto its own values (0-1000 points, letter grades, named
+ * bands) and says which band and risk level the value falls in. The band
+ * is read off the projected value, so a score shown as 800 is never in a
+ * band that starts at 800 and shown as medium risk.
+ *
+ * Proofs are generated against the native score of a model, so scale
+ * values are converted back: a threshold becomes the lowest native score
+ * projecting to the value or better, a range maximum the highest native
+ * score projecting to the value or worse.
+ *
+ * @module lib/sdk/scales/ScoreScales
+ */
+
+import { RISK_LEVELS, SCORE_SCALES, SCORING_CONFIG } from '@/lib/constants';
+import type {
+    ProofStatement,
+    RiskLevel,
+    ScaleBand,
+    ScaleValue,
+    ScaledStatement,
+    ScoreRange,
+    ScorePresentation,
+    ScoreScale,
+    ScoringModel,
+} from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+/**
+ * Band of a numeric scale, in the scale's own points
+ */
+interface NumericBand {
+    label: string;
+    minScore: number;
+    riskLevel: RiskLevel;
+}
+
+const DEFAULT_RANGE: ScoreRange = {
+    min: SCORING_CONFIG.MIN_SCORE,
+    max: SCORING_CONFIG.MAX_SCORE,
+};
+
+/**
+ * Scale of whole points from min to max
+ *
+ * @param spec.bands - Bands highest first, the last starting at min
+ *
+ * @example
+ * const scale = numericScale({ id: 'points-100', name: '0-100', min: 0, max: 100, bands });
+ * scale.project(0.42); // 42
+ */
+export function numericScale(spec: {
+    id: string;
+    name: string;
+    min: number;
+    max: number;
+    bands: readonly NumericBand[];
+}): ScoreScale {
+    const { min, max } = spec;
+    const span = max - min;
+    return {
+        id: spec.id,
+        name: spec.name,
+        bands: spec.bands.map((band) => ({
+            label: band.label,
+            minNormalized: Math.max(0, (band.minScore - min) / span),
+            riskLevel: band.riskLevel,
+        })),
+        project: (normalized) => Math.round(min + clamp(normalized) * span),
+        rank: (value) =>
+            typeof value === 'number' && value >= min && value <= max ? value : NaN,
+    };
+}
+
+/**
+ * Scale of labelled grades, e.g. A-F
+ *
+ * @param spec.grades - Grades highest first, the last starting at 0
+ */
+export function gradeScale(spec: {
+    id: string;
+    name: string;
+    grades: readonly ScaleBand[];
+}): ScoreScale {
+    const grades = spec.grades;
+    const labels = grades.map((grade) => grade.label);
+    const lowest = grades[grades.length - 1]!;
+    return {
+        id: spec.id,
+        name: spec.name,
+        bands: grades,
+        project: (normalized) =>
+            (grades.find((grade) => normalized >= grade.minNormalized) ?? lowest).label,
+        rank: (value) => {
+            const index = labels.indexOf(String(value));
+            return index < 0 ? NaN : labels.length - 1 - index;
+        },
+    };
+}
+
+/**
+ * 300-850 with the RISK_LEVELS bands (the default presentation)
+ */
+export const CLASSIC_SCALE = numericScale({
+    id: 'classic-300-850',
+    name: '300-850',
+    min: SCORING_CONFIG.MIN_SCORE,
+    max: SCORING_CONFIG.MAX_SCORE,
+    bands: [
+        { label: RISK_LEVELS.LOW.label, minScore: RISK_LEVELS.LOW.minScore, riskLevel: 'low' },
+        {
+            label: RISK_LEVELS.MEDIUM.label,
+            minScore: RISK_LEVELS.MEDIUM.minScore,
+            riskLevel: 'medium',
+        },
+        { label: RISK_LEVELS.HIGH.label, minScore: SCORING_CONFIG.MIN_SCORE, riskLevel: 'high' },
+    ],
+});
+
+/**
+ * 0-1000 points
+ */
+export const THOUSAND_POINT_SCALE = numericScale({
+    id: 'points-0-1000',
+    name: '0-1000',
+    min: 0,
+    max: 1000,
+    bands: SCORE_SCALES.THOUSAND_POINT,
+});
+
+/**
+ * Letter grades A-F
+ */
+export const LETTER_GRADE_SCALE = gradeScale({
+    id: 'letter-grades',
+    name: 'Letter grade',
+    grades: SCORE_SCALES.LETTER_GRADES,
+});
+
+/**
+ * Five named bands, Excellent to Poor
+ */
+export const FIVE_BAND_SCALE = gradeScale({
+    id: 'five-bands',
+    name: 'Five bands',
+    grades: SCORE_SCALES.FIVE_BANDS,
+});
+
+/**
+ * Scale of a model's own scores: the classic scale, or the model's score
+ * range and risk bands when they differ from it
+ */
+export function nativeScale(model: ScoringModel): ScoreScale {
+    const range = model.scoreRange ?? DEFAULT_RANGE;
+    const bands = model.riskBands ?? [
+        { level: 'low' as const, minScore: RISK_LEVELS.LOW.minScore },
+        { level: 'medium' as const, minScore: RISK_LEVELS.MEDIUM.minScore },
+        { level: 'high' as const, minScore: range.min },
+    ];
+    const classic =
+        range.min === DEFAULT_RANGE.min &&
+        range.max === DEFAULT_RANGE.max &&
+        bands.length === CLASSIC_SCALE.bands.length &&
+        bands.every(
+            (band, i) =>
+                band.level === CLASSIC_SCALE.bands[i]!.riskLevel &&
+                normalizeScore(band.minScore) === CLASSIC_SCALE.bands[i]!.minNormalized
+        );
+    if (classic) return CLASSIC_SCALE;
+
+    return numericScale({
+        id: `${model.id}@${model.version}`,
+        name: `${range.min}-${range.max}`,
+        min: range.min,
+        max: range.max,
+        bands: bands.map((band) => ({
+            label: RISK_LEVELS[riskKey(band.level)].label,
+            minScore: band.minScore,
+            riskLevel: band.level,
+        })),
+    });
+}
+
+/**
+ * Position of a score in a score range (0-1)
+ */
+export function normalizeScore(score: number, range: ScoreRange = DEFAULT_RANGE): number {
+    return clamp((score - range.min) / (range.max - range.min));
+}
+
+/**
+ * Band a normalised score falls in on a scale
+ */
+export function scaleBand(scale: ScoreScale, normalized: number): ScaleBand {
+    const rank = scale.rank(scale.project(normalized));
+    const last = scale.bands[scale.bands.length - 1]!;
+    return (
+        scale.bands.find((band) => rank >= scale.rank(scale.project(band.minNormalized))) ?? last
+    );
+}
+
+/**
+ * A normalised score as shown on a scale
+ *
+ * @example
+ * projectScore(0.7, LETTER_GRADE_SCALE); // { scale: 'letter-grades', value: 'B', ... }
+ */
+export function projectScore(normalized: number, scale: ScoreScale): ScorePresentation {
+    const band = scaleBand(scale, normalized);
+    return {
+        scale: scale.id,
+        value: scale.project(normalized),
+        band: band.label,
+        riskLevel: band.riskLevel,
+    };
+}
+
+/**
+ * Lowest native score shown as the value or better
+ *
+ * @param range - Native score range (default: SCORING_CONFIG)
+ * @throws SDKError INVALID_SCALE_VALUE if the value is not on the scale
+ *
+ * @example
+ * nativeThreshold(LETTER_GRADE_SCALE, 'B'); // 658
+ */
+export function nativeThreshold(
+    scale: ScoreScale,
+    value: ScaleValue,
+    range: ScoreRange = DEFAULT_RANGE
+): number {
+    const target = rankOf(scale, value);
+    const score = nativeScores(range).find(
+        (s) => scale.rank(scale.project(normalizeScore(s, range))) >= target
+    );
+    if (score === undefined) {
+        throw new SDKError(`No score reaches ${value} on ${scale.name}`, 'INVALID_SCALE_VALUE', {
+            scale: scale.id,
+            value,
+        });
+    }
+    return score;
+}
+
+/**
+ * Highest native score shown as the value or worse
+ *
+ * @param range - Native score range (default: SCORING_CONFIG)
+ * @throws SDKError INVALID_SCALE_VALUE if the value is not on the scale
+ */
+export function nativeCeiling(
+    scale: ScoreScale,
+    value: ScaleValue,
+    range: ScoreRange = DEFAULT_RANGE
+): number {
+    const target = rankOf(scale, value);
+    const score = nativeScores(range)
+        .reverse()
+        .find((s) => scale.rank(scale.project(normalizeScore(s, range))) <= target);
+    if (score === undefined) {
+        throw new SDKError(
+            `No score stays within ${value} on ${scale.name}`,
+            'INVALID_SCALE_VALUE',
+            { scale: scale.id, value }
+        );
+    }
+    return score;
+}
+
+/**
+ * Proof statement on native scores for a statement in a scale's terms
+ *
+ * @param range - Native score range the proof is about (default: SCORING_CONFIG)
+ * @throws SDKError INVALID_SCALE_VALUE for values not on the scale
+ *
+ * @example
+ * scaleStatement({ kind: 'threshold', scale: THOUSAND_POINT_SCALE, threshold: 700 });
+ * // { kind: 'threshold', threshold: 685 }
+ */
+export function scaleStatement(
+    statement: ScaledStatement,
+    range: ScoreRange = DEFAULT_RANGE
+): ProofStatement {
+    if (statement.kind === 'threshold') {
+        return {
+            kind: 'threshold',
+            threshold: nativeThreshold(statement.scale, statement.threshold, range),
+        };
+    }
+    return {
+        kind: 'range',
+        min: nativeThreshold(statement.scale, statement.min, range),
+        max: nativeCeiling(statement.scale, statement.max, range),
+    };
+}
+
+function rankOf(scale: ScoreScale, value: ScaleValue): number {
+    const rank = scale.rank(value);
+    if (Number.isNaN(rank)) {
+        throw new SDKError(`${value} is not on ${scale.name}`, 'INVALID_SCALE_VALUE', {
+            scale: scale.id,
+            value,
+        });
+    }
+    return rank;
+}
+
+function nativeScores(range: ScoreRange): number[] {
+    const min = Math.ceil(range.min);
+    return Array.from({ length: Math.floor(range.max) - min + 1 }, (_, i) => min + i);
+}
+
+function riskKey(level: RiskLevel): keyof typeof RISK_LEVELS {
+    return level.toUpperCase() as keyof typeof RISK_LEVELS;
+}
+
+function clamp(normalized: number): number {
+    return Math.max(0, Math.min(1, normalized));
+}
@@ -0,0 +1,150 @@
+/**
+ * ScoreScales Unit Tests
+ * Projection onto lender scales, bands and scaled proof statements
+ */
+
+import {
+    CLASSIC_SCALE,
+    FIVE_BAND_SCALE,
+    LETTER_GRADE_SCALE,
+    THOUSAND_POINT_SCALE,
+    nativeCeiling,
+    nativeThreshold,
+    normalizeScore,
+    projectScore,
+    scaleBand,
+    scaleStatement,
+} from '../ScoreScales';
+import { ScoringEngine } from '../../ScoringEngine';
+import type { ScoringModel, WalletMetrics } from '@/types/sdk';
+
+const NOW = Date.UTC(2026, 0, 1);
+
+const metrics: WalletMetrics = {
+    address: 'aleo1scales',
+    transactionCount: 50,
+    walletAgeMonths: 12,
+    defiScore: 50,
+    repaymentRate: 90,
+    tokenBalance: 10_000,
+    lastTransactionDate: NOW,
+};
+
+/**
+ * Single-factor model that always scores the factor at 38
+ */
+function fixedModel(extra: Partial<ScoringModel> = {}): ScoringModel {
+    return {
+        id: 'fixed',
+        version: '1.0.0',
+        description: 'Fixed factor score',
+        factors: [{ id: 'fixed', name: 'Fixed', weight: 1, score: () => 38, describe: () => '' }],
+        ...extra,
+    };
+}
+
+describe('projectScore', () => {
+    it('should present a score on every built-in scale', () => {
+        const normalized = normalizeScore(600);
+
+        expect(
+            [CLASSIC_SCALE, THOUSAND_POINT_SCALE, LETTER_GRADE_SCALE, FIVE_BAND_SCALE].map(
+                (scale) => projectScore(normalized, scale)
+            )
+        ).toEqual([
+            { scale: 'classic-300-850', value: 600, band: 'Medium Risk', riskLevel: 'medium' },
+            { scale: 'points-0-1000', value: 545, band: 'Medium Risk', riskLevel: 'medium' },
+            { scale: 'letter-grades', value: 'C', band: 'C', riskLevel: 'medium' },
+            { scale: 'five-bands', value: 'Good', band: 'Good', riskLevel: 'medium' },
+        ]);
+    });
+
+    it('should read the band off the projected value', () => {
+        // 799.6 shows as 800, the first score of the low risk band
+        expect(THOUSAND_POINT_SCALE.project(0.7996)).toBe(800);
+        expect(scaleBand(THOUSAND_POINT_SCALE, 0.7996).riskLevel).toBe('low');
+    });
+});
+
+describe('scaled proof statements', () => {
+    it('should convert scale values to native 300-850 bounds', () => {
+        expect(nativeThreshold(LETTER_GRADE_SCALE, 'B')).toBe(658);
+        expect(nativeThreshold(THOUSAND_POINT_SCALE, 700)).toBe(685);
+        expect(nativeCeiling(LETTER_GRADE_SCALE, 'C')).toBe(657);
+        expect(
+            scaleStatement({ kind: 'range', scale: LETTER_GRADE_SCALE, min: 'C', max: 'B' })
+        ).toEqual({ kind: 'range', min: 575, max: 739 });
+    });
+
+    it('should convert within another native range', () => {
+        expect(nativeThreshold(LETTER_GRADE_SCALE, 'A', { min: 0, max: 1000 })).toBe(800);
+    });
+
+    it('should refuse values that are not on the scale', () => {
+        expect(() => nativeThreshold(LETTER_GRADE_SCALE, 'E')).toThrow(
+            expect.objectContaining({ code: 'INVALID_SCALE_VALUE' })
+        );
+        expect(() =>
+            scaleStatement({ kind: 'threshold', scale: THOUSAND_POINT_SCALE, threshold: 1200 })
+        ).toThrow(expect.objectContaining({ code: 'INVALID_SCALE_VALUE' }));
+    });
+});
+
+describe('ScoringEngine.calculateScore with scales', () => {
+    it('should present the score on the model scale by default', () => {
+        const assessment = ScoringEngine.calculateScore(metrics, fixedModel(), { now: NOW });
+
+        expect(assessment.finalScore).toBe(509);
+        expect(assessment.normalizedScore).toBeCloseTo(0.38);
+        expect(assessment.riskLevel).toBe('medium');
+        expect(assessment.presentations).toEqual([
+            { scale: 'classic-300-850', value: 509, band: 'Medium Risk', riskLevel: 'medium' },
+        ]);
+    });
+
+    it('should take the risk level from the first requested scale', () => {
+        const assessment = ScoringEngine.calculateScore(metrics, fixedModel(), {
+            now: NOW,
+            scales: [FIVE_BAND_SCALE, LETTER_GRADE_SCALE],
+        });
+
+        expect(assessment.riskLevel).toBe('high');
+        expect(assessment.presentations).toEqual([
+            { scale: 'five-bands', value: 'Fair', band: 'Fair', riskLevel: 'high' },
+            { scale: 'letter-grades', value: 'D', band: 'D', riskLevel: 'medium' },
+        ]);
+    });
+
+    it('should keep the classic scale for models on its range and bands', () => {
+        const model = fixedModel({
+            scoreRange: { min: 300, max: 850 },
+            riskBands: [
+                { level: 'low', minScore: 750 },
+                { level: 'medium', minScore: 500 },
+                { level: 'high', minScore: 300 },
+            ],
+        });
+        const assessment = ScoringEngine.calculateScore(metrics, model, { now: NOW });
+
+        expect(assessment.presentations).toEqual([
+            { scale: 'classic-300-850', value: 509, band: 'Medium Risk', riskLevel: 'medium' },
+        ]);
+    });
+
+    it('should present models with their own range on it', () => {
+        const model = fixedModel({
+            scoreRange: { min: 0, max: 1000 },
+            riskBands: [
+                { level: 'low', minScore: 800 },
+                { level: 'medium', minScore: 400 },
+                { level: 'high', minScore: 0 },
+            ],
+        });
+        const assessment = ScoringEngine.calculateScore(metrics, model, { now: NOW });
+
+        expect(assessment.normalizedScore).toBeCloseTo(0.38);
+        expect(assessment.presentations).toEqual([
+            { scale: 'fixed@1.0.0', value: 380, band: 'High Risk', riskLevel: 'high' },
+        ]);
+    });
+});
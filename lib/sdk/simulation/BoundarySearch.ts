@@ -0,0 +1,54 @@
+/**
+ * Boundary Search
+ *
+ * Finds the nearest whole value of a metric at which a score changes.
+ * Probes 1, 2, 4, ... steps away until the score differs, then bisects
+ * back to the first value that differs. Exact for scores that move in one
+ * direction as a metric grows (true for the built-in models); tiers
+ * narrower than the probe gap could be skipped otherwise.
+ *
+ * @module lib/sdk/simulation/BoundarySearch
+ */
+
+/**
+ * Nearest whole value past `from` at which `differs` holds
+ *
+ * @param from - Current value
+ * @param direction - Search upward (to `limit`) or downward (to 0)
+ * @param limit - Highest value searched upward
+ * @param differs - Whether the score at a value differs from the current one
+ * @returns The boundary value, or null if the score never changes
+ */
+export function nearestBoundary(
+    from: number,
+    direction: 'up' | 'down',
+    limit: number,
+    differs: (value: number) => boolean
+): number | null {
+    const sign = direction === 'up' ? 1 : -1;
+    // First whole value strictly past `from`
+    const start = direction === 'up' ? Math.floor(from) + 1 : Math.ceil(from) - 1;
+    const end = direction === 'up' ? Math.floor(limit) : 0;
+    const span = (end - start) * sign;
+    if (span < 0) return null;
+
+    // Gallop: find a step count at which the score differs
+    let same = -1; // Steps known not to differ (-1: none checked)
+    let step = 0;
+    for (;;) {
+        if (differs(start + step * sign)) break;
+        same = step;
+        if (step === span) return null;
+        step = Math.min(span, step === 0 ? 1 : step * 2);
+    }
+
+    // Bisect between the last equal and the first differing step
+    let low = same;
+    let high = step;
+    while (high - low > 1) {
+        const middle = Math.floor((low + high) / 2);
+        if (differs(start + middle * sign)) high = middle;
+        else low = middle;
+    }
+    return start + high * sign;
+}
@@ -0,0 +1,105 @@
+/**
+ * Metric Changes
+ *
+ * Applies hypothetical changes ("+30 transactions", "repay to 98%") to
+ * wallet metrics for what-if scoring. Values are clamped to their valid
+ * range. Derived data is kept consistent with the change:
+ * - a changed balance is treated as held over the whole balance history
+ *   (flat history at the new balance), since the tiered model scores the
+ *   history rather than the current balance
+ * - a changed repayment rate keeps the loan ledger, so past liquidations,
+ *   defaults and delinquency still count
+ * - added transactions do not change the date of the last transaction
+ *
+ * @module lib/sdk/simulation/MetricChanges
+ */
+
+import type { MetricChange, SimulatedMetric, WalletMetrics } from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+/**
+ * Metrics a simulation can change, in factor order
+ */
+export const SIMULATED_METRICS: readonly SimulatedMetric[] = [
+    'transactionCount',
+    'walletAgeMonths',
+    'defiScore',
+    'repaymentRate',
+    'tokenBalance',
+];
+
+const PERCENT_METRICS: readonly SimulatedMetric[] = ['defiScore', 'repaymentRate'];
+
+/**
+ * Clamp a metric value to its valid range
+ */
+export function clampMetric(metric: SimulatedMetric, value: number): number {
+    const clamped = Math.max(0, value);
+    return PERCENT_METRICS.includes(metric) ? Math.min(100, clamped) : clamped;
+}
+
+/**
+ * Replace one metric, keeping derived data consistent with it
+ *
+ * @param metrics - Wallet metrics
+ * @param metric - Metric to replace
+ * @param value - New value (clamped to the metric's range)
+ */
+export function withMetric(
+    metrics: WalletMetrics,
+    metric: SimulatedMetric,
+    value: number
+): WalletMetrics {
+    const next = clampMetric(metric, value);
+
+    if (metric === 'tokenBalance' && metrics.balanceHistory) {
+        const { balanceHistory } = metrics;
+        return {
+            ...metrics,
+            tokenBalance: next,
+            balanceHistory: {
+                ...balanceHistory,
+                samples: balanceHistory.samples.map((s) => ({ ...s, balance: next })),
+                average: next,
+                minimum: next,
+                volatility: 0,
+            },
+        };
+    }
+    if (metric === 'defiScore' && metrics.defiActivity) {
+        return {
+            ...metrics,
+            defiScore: next,
+            defiActivity: { ...metrics.defiActivity, score: next },
+        };
+    }
+    return { ...metrics, [metric]: next };
+}
+
+/**
+ * Apply changes in order
+ * The result carries no provenance: simulated values are not chain data.
+ *
+ * @param metrics - Current wallet metrics
+ * @param changes - Changes to apply
+ * @throws SDKError INVALID_CHANGE for unknown metrics or non-finite values
+ */
+export function applyMetricChanges(
+    metrics: WalletMetrics,
+    changes: readonly MetricChange[]
+): WalletMetrics {
+    const { provenance: _provenance, ...values } = metrics;
+
+    return changes.reduce<WalletMetrics>((current, change) => {
+        const amount = 'add' in change ? change.add : change.set;
+        if (!SIMULATED_METRICS.includes(change.metric) || !Number.isFinite(amount)) {
+            throw new SDKError(
+                `Invalid metric change: ${JSON.stringify(change)}`,
+                'INVALID_CHANGE'
+            );
+        }
+
+        const value = 'add' in change ? current[change.metric] + amount : amount;
+        return withMetric(current, change.metric, value);
+    }, values);
+}
@@ -0,0 +1,187 @@
+/**
+ * What-if Simulation Unit Tests
+ * Metric changes, boundary search and ScoringEngine.simulate
+ */
+
+import { applyMetricChanges, withMetric } from '../MetricChanges';
+import { nearestBoundary } from '../BoundarySearch';
+import { uniformProvenance } from '../../Provenance';
+import { ScoringEngine } from '../../ScoringEngine';
+import { tieredModel } from '../../models/TieredModel';
+import type { WalletMetrics } from '@/types/sdk';
+
+const NOW = Date.UTC(2026, 0, 1);
+
+const metrics: WalletMetrics = {
+    address: 'aleo1whatif',
+    transactionCount: 45,
+    walletAgeMonths: 12,
+    defiScore: 50,
+    repaymentRate: 80,
+    tokenBalance: 500,
+    lastTransactionDate: NOW,
+    provenance: uniformProvenance({
+        source: 'fixture',
+        fetchedAt: NOW,
+        blockHeight: 4000000,
+        status: 'real',
+    }),
+};
+
+const scoreOf = (m: WalletMetrics) =>
+    ScoringEngine.calculateScore(m, tieredModel, { now: NOW }).finalScore;
+
+describe('Score simulation', () => {
+    describe('applyMetricChanges', () => {
+        it('should add to and set metrics in order', () => {
+            const changed = applyMetricChanges(metrics, [
+                { metric: 'transactionCount', add: 30 },
+                { metric: 'repaymentRate', set: 98 },
+                { metric: 'transactionCount', add: -5 },
+            ]);
+
+            expect(changed.transactionCount).toBe(70);
+            expect(changed.repaymentRate).toBe(98);
+            expect(changed.provenance).toBeUndefined();
+            expect(metrics.transactionCount).toBe(45);
+        });
+
+        it('should clamp values to their range', () => {
+            const changed = applyMetricChanges(metrics, [
+                { metric: 'defiScore', add: 80 },
+                { metric: 'tokenBalance', add: -1000 },
+            ]);
+
+            expect(changed.defiScore).toBe(100);
+            expect(changed.tokenBalance).toBe(0);
+        });
+
+        it('should hold a changed balance over the whole history', () => {
+            const withHistory: WalletMetrics = {
+                ...metrics,
+                balanceHistory: {
+                    samples: [
+                        { blockHeight: 1, balance: 10 },
+                        { blockHeight: 2, balance: 500 },
+                    ],
+                    average: 255,
+                    minimum: 10,
+                    volatility: 0.96,
+                    intervalBlocks: 1,
+                },
+            };
+
+            const changed = withMetric(withHistory, 'tokenBalance', 2000);
+
+            expect(changed.balanceHistory).toMatchObject({
+                average: 2000,
+                minimum: 2000,
+                volatility: 0,
+            });
+            expect(changed.balanceHistory?.samples.map((s) => s.balance)).toEqual([2000, 2000]);
+        });
+
+        it('should reject unknown metrics and non-finite values', () => {
+            expect(() =>
+                applyMetricChanges(metrics, [{ metric: 'address' as never, set: 1 }])
+            ).toThrow(expect.objectContaining({ code: 'INVALID_CHANGE' }));
+            expect(() =>
+                applyMetricChanges(metrics, [{ metric: 'defiScore', add: NaN }])
+            ).toThrow(expect.objectContaining({ code: 'INVALID_CHANGE' }));
+        });
+    });
+
+    describe('nearestBoundary', () => {
+        const tier = (value: number) => (value >= 100 ? 2 : value >= 37 ? 1 : 0);
+
+        it('should find the nearest change upward and downward', () => {
+            expect(nearestBoundary(40, 'up', 1000, (v) => tier(v) !== 1)).toBe(100);
+            expect(nearestBoundary(40, 'down', 1000, (v) => tier(v) !== 1)).toBe(36);
+            expect(nearestBoundary(0, 'up', 1000, (v) => tier(v) !== 0)).toBe(37);
+        });
+
+        it('should start from the next whole value', () => {
+            expect(nearestBoundary(36.5, 'up', 1000, (v) => tier(v) !== 0)).toBe(37);
+            expect(nearestBoundary(37.5, 'down', 1000, (v) => tier(v) !== 1)).toBe(36);
+        });
+
+        it('should return null when nothing changes within the range', () => {
+            expect(nearestBoundary(150, 'up', 1000, (v) => tier(v) !== 2)).toBeNull();
+            expect(nearestBoundary(10, 'down', 1000, (v) => tier(v) !== 0)).toBeNull();
+            expect(nearestBoundary(1000, 'up', 1000, () => true)).toBeNull();
+        });
+    });
+
+    describe('ScoringEngine.simulate', () => {
+        it('should return the exact simulated score', () => {
+            const changes = [
+                { metric: 'transactionCount' as const, add: 30 },
+                { metric: 'repaymentRate' as const, set: 98 },
+            ];
+
+            const simulation = ScoringEngine.simulate(metrics, changes, tieredModel, { now: NOW });
+
+            expect(simulation.baseline.finalScore).toBe(scoreOf(metrics));
+            expect(simulation.simulated.finalScore).toBe(
+                scoreOf({ ...metrics, transactionCount: 75, repaymentRate: 98 })
+            );
+            expect(simulation.change).toBe(
+                simulation.simulated.finalScore - simulation.baseline.finalScore
+            );
+            expect(simulation.factors.find((f) => f.id === 'repayment')).toMatchObject({
+                before: 85,
+                after: 100,
+            });
+        });
+
+        it('should find the nearest tier boundaries per factor', () => {
+            const simulation = ScoringEngine.simulate(metrics, [], tieredModel, { now: NOW });
+            const transactions = simulation.factors.find((f) => f.id === 'transactions')!;
+
+            expect(transactions.boundaries).toEqual([
+                {
+                    metric: 'transactionCount',
+                    direction: 'up',
+                    value: 50,
+                    delta: 5,
+                    finalScore: scoreOf({ ...metrics, transactionCount: 50 }),
+                    points: scoreOf({ ...metrics, transactionCount: 50 }) - scoreOf(metrics),
+                },
+                {
+                    metric: 'transactionCount',
+                    direction: 'down',
+                    value: 24,
+                    delta: -21,
+                    finalScore: scoreOf({ ...metrics, transactionCount: 24 }),
+                    points: scoreOf({ ...metrics, transactionCount: 24 }) - scoreOf(metrics),
+                },
+            ]);
+            expect(transactions.boundaries[0]!.points).toBeGreaterThan(0);
+        });
+
+        it('should report no upward boundary for maxed factors', () => {
+            const maxed = { ...metrics, repaymentRate: 100 };
+
+            const { factors } = ScoringEngine.simulate(maxed, [], tieredModel, { now: NOW });
+            const repayment = factors.find((f) => f.id === 'repayment')!;
+
+            expect(repayment.boundaries.map((b) => b.direction)).toEqual(['down']);
+            expect(repayment.boundaries[0]!.value).toBe(94);
+        });
+    });
+
+    describe('getImprovementSuggestions', () => {
+        it('should use the exact gain of the nearest tier boundary', () => {
+            const assessment = ScoringEngine.calculateScore(metrics, tieredModel, { now: NOW });
+
+            const balance = ScoringEngine.getImprovementSuggestions(assessment).find(
+                (s) => s.factor === 'Balance Stability'
+            )!;
+
+            expect(balance.nextStep).toMatchObject({ metric: 'tokenBalance', direction: 'up' });
+            expect(balance.potentialGain).toBe(
+                scoreOf({ ...metrics, tokenBalance: balance.nextStep!.value }) - scoreOf(metrics)
+            );
+        });
+    });
+});
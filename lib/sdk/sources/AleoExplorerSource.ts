@@ -0,0 +1,470 @@
+/**
+ * Aleo Explorer Metrics Source
+ *
+ * Reads a wallet's activity from the Aleo explorer REST API:
+ * - transitions: the address index (`/transitions/address/{address}`), paged
+ * - transaction count: distinct transactions among those transitions
+ * - first seen / last activity: timestamps of the blocks holding the
+ *   earliest and latest transitions
+ * - balance: the public `credits.aleo` account mapping
+ * - balance changes: amounts in the inputs of the wallet's credits.aleo
+ *   transitions (`/transaction/{id}`) within the balance history window
+ * - transfers: the same inputs give the amount and, for credits sent
+ *   publicly, the receiver of each transfer in that window
+ *
+ * Paging stops after maxPages pages; the activity is then marked truncated,
+ * since the oldest transitions were not read.
+ *
+ * Every request waits for the rate limiter, if one is given, so sources
+ * sharing a limiter stay under one request rate between them; transaction
+ * lookups run a few at a time.
+ *
+ * Uses `fetch`, so it runs unchanged in the browser, in Node and against
+ * the fixture server in lib/sdk/sources/__fixtures__.
+ *
+ * @module lib/sdk/sources/AleoExplorerSource
+ */
+
+import { historyWindowBlocks } from '../balance/BalanceHistory';
+import type { RateLimiter } from '../batch/RateLimiter';
+import { ALEO_CONFIG, API_CONFIG, EXPLORER_API } from '@/lib/constants';
+import type {
+    BalanceChange,
+    MetricsSource,
+    WalletActivity,
+    WalletTransfer,
+    WalletTransition,
+} from '@/types/sdk';
+import { RPCError, SDKError } from '@/types/sdk';
+
+/**
+ * One page of `/transitions/address/{address}`
+ */
+interface ExplorerTransitionPage {
+    transitions: Array<{
+        id: string;
+        transaction_id: string;
+        program: string;
+        function: string;
+        block_height: number;
+    }>;
+    next_cursor?: string | null;
+}
+
+/**
+ * Subset of a transition in `/transaction/{id}`
+ */
+interface ExplorerTransition {
+    id: string;
+    program: string;
+    function: string;
+    inputs?: Array<{ type: string; value?: string }>;
+}
+
+/**
+ * Subset of `/transaction/{id}` used for balance changes
+ */
+interface ExplorerTransaction {
+    id: string;
+    execution?: { transitions: ExplorerTransition[] };
+    fee?: { transition: ExplorerTransition };
+}
+
+/**
+ * Public balance change of a credits.aleo function, from its input values
+ * Functions not listed here (e.g. unbond_public) leave the public balance
+ * unchanged or move amounts the inputs do not show.
+ */
+const PUBLIC_BALANCE_CHANGES: Record<
+    string,
+    (inputs: Array<string | undefined>, address: string) => number
+> = {
+    // (receiver, amount): sent unless the wallet is the receiver
+    transfer_public: ([receiver, amount], address) =>
+        receiver === address ? parseU64(amount) : -parseU64(amount),
+    transfer_public_as_signer: ([receiver, amount], address) =>
+        receiver === address ? parseU64(amount) : -parseU64(amount),
+    // (record, receiver, amount)
+    transfer_private_to_public: ([, receiver, amount], address) =>
+        receiver === address ? parseU64(amount) : 0,
+    // (receiver, amount)
+    transfer_public_to_private: ([, amount]) => -parseU64(amount),
+    // (validator, withdrawal, amount)
+    bond_public: ([, , amount]) => -parseU64(amount),
+    // (withdrawal, amount, commission)
+    bond_validator: ([, amount]) => -parseU64(amount),
+    // (base fee, priority fee, id)
+    fee_public: ([amount, priorityFee]) => -(parseU64(amount) + parseU64(priorityFee)),
+};
+
+/**
+ * Credits moved by a credits.aleo transfer, from its input values
+ * Senders are not among the inputs, so incoming transfers have no
+ * counterparty, and neither do transfers to a private record.
+ */
+const TRANSFERS: Record<
+    string,
+    (inputs: Array<string | undefined>, address: string) => WalletTransfer
+> = {
+    // (receiver, amount)
+    transfer_public: ([receiver, amount], address) => publicTransfer(receiver, amount, address),
+    transfer_public_as_signer: ([receiver, amount], address) =>
+        publicTransfer(receiver, amount, address),
+    // (record, receiver, amount): the sender owns the record
+    transfer_private_to_public: ([, receiver, amount], address) =>
+        publicTransfer(receiver, amount, address),
+    // (receiver, amount): the receiver is private
+    transfer_public_to_private: ([, amount]) => ({
+        direction: 'out',
+        counterparty: null,
+        amount: parseU64(amount),
+    }),
+};
+
+/**
+ * Transfer between public balances: sent unless the wallet is the receiver
+ */
+function publicTransfer(
+    receiver: string | undefined,
+    amount: string | undefined,
+    address: string
+): WalletTransfer {
+    return receiver === address
+        ? { direction: 'in', counterparty: null, amount: parseU64(amount) }
+        : { direction: 'out', counterparty: receiver ?? null, amount: parseU64(amount) };
+}
+
+/**
+ * Parse a u64 literal such as "5000000u64"
+ *
+ * @throws RPCError for other values
+ */
+function parseU64(literal: string | undefined): number {
+    const match = String(literal).match(/^(\d+)u64$/);
+    if (!match?.[1]) {
+        throw new RPCError(`Unexpected u64 input: ${literal}`);
+    }
+    return Number(match[1]);
+}
+
+/**
+ * Map items with at most `limit` calls in flight, keeping their order
+ * Stops starting calls once one fails, and rejects with its error.
+ */
+async function mapConcurrently<T, R>(
+    items: readonly T[],
+    limit: number,
+    fn: (item: T) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    let failed = false;
+
+    const worker = async () => {
+        while (!failed && next < items.length) {
+            const index = next++;
+            try {
+                results[index] = await fn(items[index]!);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+/**
+ * Subset of `/block/{height}` used for timestamps
+ */
+interface ExplorerBlock {
+    header: {
+        metadata: {
+            height: number;
+            timestamp: number; // Unix seconds
+        };
+    };
+}
+
+export interface AleoExplorerSourceOptions {
+    baseUrl?: string; // Explorer API root, e.g. https://api.explorer.aleo.org/v1
+    timeoutMs?: number; // Per request (default: API_CONFIG.TIMEOUT)
+    maxPages?: number; // Transition pages to read (default: EXPLORER_API.MAX_PAGES)
+    balanceHistoryBlocks?: number; // Window for balance changes (default: historyWindowBlocks())
+    rateLimiter?: RateLimiter; // Paces every request (default: none)
+    lookupConcurrency?: number; // Lookups in flight (default: EXPLORER_API.LOOKUP_CONCURRENCY)
+}
+
+export class AleoExplorerSource implements MetricsSource {
+    readonly id = 'aleo-explorer';
+    private baseUrl: string;
+    private timeoutMs: number;
+    private maxPages: number;
+    private balanceHistoryBlocks: number;
+    private rateLimiter?: RateLimiter;
+    private lookupConcurrency: number;
+
+    /**
+     * @param options - Explorer root, timeouts, paging, history window and request pacing
+     * @throws SDKError INVALID_CONFIG unless lookupConcurrency is a positive integer
+     */
+    constructor(options: AleoExplorerSourceOptions = {}) {
+        this.baseUrl = (options.baseUrl || ALEO_CONFIG.MAINNET.rpcUrl).replace(/\/+$/, '');
+        this.timeoutMs = options.timeoutMs ?? API_CONFIG.TIMEOUT;
+        this.maxPages = options.maxPages ?? EXPLORER_API.MAX_PAGES;
+        this.balanceHistoryBlocks = options.balanceHistoryBlocks ?? historyWindowBlocks();
+        this.rateLimiter = options.rateLimiter;
+        this.lookupConcurrency = options.lookupConcurrency ?? EXPLORER_API.LOOKUP_CONCURRENCY;
+        if (!Number.isSafeInteger(this.lookupConcurrency) || this.lookupConcurrency <= 0) {
+            throw new SDKError(
+                `Invalid lookup concurrency: ${this.lookupConcurrency}`,
+                'INVALID_CONFIG'
+            );
+        }
+    }
+
+    /**
+     * Read a wallet's activity
+     *
+     * @param address - Aleo address
+     * @returns Activity at the latest block height, truncated if paging
+     *   stopped at maxPages
+     * @throws RPCError if the explorer is unreachable or answers with an error
+     */
+    async fetchActivity(address: string): Promise<WalletActivity> {
+        console.log(`[AleoExplorerSource] Fetching activity for ${address}`);
+
+        const [blockHeight, balance, { transitions, truncated }] = await Promise.all([
+            this.fetchLatestHeight(),
+            this.fetchBalance(address),
+            this.fetchTransitions(address),
+        ]);
+
+        const heights = transitions.map((transition) => transition.blockHeight);
+        const [[firstSeen, lastActivity], inputs] = await Promise.all([
+            heights.length
+                ? Promise.all([
+                    this.fetchBlockTimestamp(Math.min(...heights)),
+                    this.fetchBlockTimestamp(Math.max(...heights)),
+                ])
+                : [null, null],
+            this.fetchCreditsInputs(address, transitions, blockHeight),
+        ]);
+
+        return {
+            address,
+            transactionCount: new Set(transitions.map((t) => t.transactionId)).size,
+            firstSeen,
+            lastActivity,
+            balance,
+            transitions: AleoExplorerSource.withTransfers(address, transitions, inputs),
+            balanceChanges: AleoExplorerSource.balanceChanges(address, transitions, inputs),
+            blockHeight,
+            ...(truncated && { truncated }),
+        };
+    }
+
+    /**
+     * Latest block height
+     */
+    private async fetchLatestHeight(): Promise<number> {
+        const height = await this.get<number>(EXPLORER_API.LATEST_HEIGHT);
+        if (!Number.isSafeInteger(height)) {
+            throw new RPCError(`Unexpected latest height: ${height}`);
+        }
+        return height as number;
+    }
+
+    /**
+     * Public credits.aleo balance in microcredits (0 if the account is unset)
+     */
+    private async fetchBalance(address: string): Promise<number> {
+        const literal = await this.get<string | null>(
+            EXPLORER_API.CREDITS_ACCOUNT.replace('{address}', address)
+        );
+        if (literal === null) return 0;
+
+        const match = String(literal).match(/^(\d+)u64$/);
+        if (!match?.[1]) {
+            throw new RPCError(`Unexpected credits.aleo balance: ${literal}`);
+        }
+        return Number(match[1]);
+    }
+
+    /**
+     * Transitions of the address, following the page cursor for up to
+     * maxPages pages
+     *
+     * @returns Transitions, and whether older pages were left unread
+     */
+    private async fetchTransitions(
+        address: string
+    ): Promise<{ transitions: WalletTransition[]; truncated: boolean }> {
+        const path = EXPLORER_API.ADDRESS_TRANSITIONS.replace('{address}', address);
+        const transitions: WalletTransition[] = [];
+        let cursor: string | null | undefined;
+
+        for (let page = 0; page < this.maxPages; page++) {
+            const response = await this.get<ExplorerTransitionPage>(
+                cursor ? `${path}?cursor=${encodeURIComponent(cursor)}` : path
+            );
+            if (!response) break;
+
+            for (const transition of response.transitions) {
+                transitions.push({
+                    id: transition.id,
+                    transactionId: transition.transaction_id,
+                    program: transition.program,
+                    function: transition.function,
+                    blockHeight: transition.block_height,
+                });
+            }
+
+            cursor = response.next_cursor;
+            if (!cursor) return { transitions, truncated: false };
+        }
+
+        if (cursor) {
+            console.warn(
+                `[AleoExplorerSource] Stopped after ${this.maxPages} pages of transitions for ${address}`
+            );
+        }
+        return { transitions, truncated: Boolean(cursor) };
+    }
+
+    /**
+     * Input values of the wallet's credits.aleo transitions within the
+     * history window, read from their transactions
+     *
+     * @returns Inputs by transition id, most recent transition first
+     */
+    private async fetchCreditsInputs(
+        address: string,
+        transitions: WalletTransition[],
+        blockHeight: number
+    ): Promise<Map<string, Array<string | undefined>>> {
+        const since = blockHeight - this.balanceHistoryBlocks;
+        const credits = transitions
+            .filter(
+                (t) =>
+                    t.program === 'credits.aleo' &&
+                    Object.hasOwn(PUBLIC_BALANCE_CHANGES, t.function) &&
+                    t.blockHeight > since
+            )
+            .sort((a, b) => b.blockHeight - a.blockHeight);
+
+        const transactionIds = [...new Set(credits.map((t) => t.transactionId))];
+        if (transactionIds.length > EXPLORER_API.MAX_TRANSACTION_LOOKUPS) {
+            console.warn(
+                `[AleoExplorerSource] Reading balance changes of the latest ` +
+                `${EXPLORER_API.MAX_TRANSACTION_LOOKUPS} of ${transactionIds.length} ` +
+                `transactions for ${address}`
+            );
+        }
+        const lookups = transactionIds.slice(0, EXPLORER_API.MAX_TRANSACTION_LOOKUPS);
+
+        const transactions = await mapConcurrently(lookups, this.lookupConcurrency, (id) =>
+            this.get<ExplorerTransaction>(EXPLORER_API.TRANSACTION.replace('{id}', id))
+        );
+        const details = new Map<string, ExplorerTransition>();
+        for (const transaction of transactions) {
+            if (!transaction) continue;
+            for (const transition of transaction.execution?.transitions ?? []) {
+                details.set(transition.id, transition);
+            }
+            if (transaction.fee) {
+                details.set(transaction.fee.transition.id, transaction.fee.transition);
+            }
+        }
+
+        const inputs = new Map<string, Array<string | undefined>>();
+        for (const transition of credits) {
+            const detail = details.get(transition.id);
+            if (detail) {
+                inputs.set(transition.id, (detail.inputs ?? []).map((input) => input.value));
+            }
+        }
+        return inputs;
+    }
+
+    /**
+     * Public balance changes of the transitions whose inputs were read
+     */
+    private static balanceChanges(
+        address: string,
+        transitions: WalletTransition[],
+        inputs: Map<string, Array<string | undefined>>
+    ): BalanceChange[] {
+        const byId = new Map(transitions.map((t) => [t.id, t]));
+        const changes: BalanceChange[] = [];
+        for (const [transitionId, values] of inputs) {
+            const transition = byId.get(transitionId)!;
+            const delta = PUBLIC_BALANCE_CHANGES[transition.function]!(values, address);
+            if (delta !== 0) {
+                changes.push({ transitionId, blockHeight: transition.blockHeight, delta });
+            }
+        }
+        return changes;
+    }
+
+    /**
+     * Transitions with the transfers their inputs show
+     */
+    private static withTransfers(
+        address: string,
+        transitions: WalletTransition[],
+        inputs: Map<string, Array<string | undefined>>
+    ): WalletTransition[] {
+        return transitions.map((transition) => {
+            const values = inputs.get(transition.id);
+            return values && Object.hasOwn(TRANSFERS, transition.function)
+                ? { ...transition, transfer: TRANSFERS[transition.function]!(values, address) }
+                : transition;
+        });
+    }
+
+    /**
+     * Timestamp (Unix ms) of a block
+     */
+    private async fetchBlockTimestamp(height: number): Promise<number> {
+        const block = await this.get<ExplorerBlock>(
+            EXPLORER_API.BLOCK.replace('{height}', String(height))
+        );
+        const timestamp = block?.header?.metadata?.timestamp;
+        if (typeof timestamp !== 'number') {
+            throw new RPCError(`Block ${height} has no timestamp`);
+        }
+        return timestamp * 1000;
+    }
+
+    /**
+     * GET a JSON resource
+     *
+     * @returns Parsed body, or null for 404
+     * @throws RPCError on network errors and other non-2xx responses
+     */
+    private async get<T>(path: string): Promise<T | null> {
+        const url = `${this.baseUrl}${path}`;
+        await this.rateLimiter?.acquire();
+
+        let response: Response;
+        try {
+            response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+        } catch (error) {
+            throw new RPCError(`Explorer request failed: ${url}`, error);
+        }
+
+        if (response.status === 404) return null;
+        if (!response.ok) {
+            throw new RPCError(`Explorer error ${response.status} for ${url}`);
+        }
+
+        try {
+            return (await response.json()) as T;
+        } catch (error) {
+            throw new RPCError(`Invalid JSON from ${url}`, error);
+        }
+    }
+}
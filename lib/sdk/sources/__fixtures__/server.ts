@@ -0,0 +1,71 @@
+/**
+ * Fixture Server
+ *
+ * Replays recorded HTTP responses so metrics sources can be tested
+ * offline. A fixture directory holds the response bodies and a
+ * `routes.json` that maps request paths (including the query string) to
+ * either a body file or an error status:
+ *
+ *   {
+ *     "/v1/latest/height": "latest-height.json",
+ *     "/v1/transitions/address/aleo1unavailable": { "status": 503 }
+ *   }
+ *
+ * Unmapped paths answer 404, like the explorer does for unknown keys.
+ *
+ * @module lib/sdk/sources/__fixtures__/server
+ */
+
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import path from 'node:path';
+
+type Route = string | { status: number; file?: string };
+
+export interface FixtureServer {
+    url: string; // e.g. http://127.0.0.1:40123
+    requests: string[]; // Paths served so far, in order
+    close: () => Promise<void>;
+}
+
+/**
+ * Start a fixture server on a free local port
+ *
+ * @param fixtureDir - Directory with routes.json and the response bodies
+ * @returns Running server
+ */
+export async function startFixtureServer(fixtureDir: string): Promise<FixtureServer> {
+    const routes = JSON.parse(
+        readFileSync(path.join(fixtureDir, 'routes.json'), 'utf8')
+    ) as Record<string, Route>;
+    const requests: string[] = [];
+
+    const server = createServer((request, response) => {
+        const url = request.url ?? '/';
+        requests.push(url);
+
+        const route = routes[url];
+        const { status, file } =
+            route === undefined
+                ? { status: 404, file: undefined }
+                : typeof route === 'string'
+                    ? { status: 200, file: route }
+                    : route;
+
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(file ? readFileSync(path.join(fixtureDir, file)) : undefined);
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () =>
+            new Promise<void>((resolve, reject) =>
+                server.close((error) => (error ? reject(error) : resolve()))
+            ),
+    };
+}
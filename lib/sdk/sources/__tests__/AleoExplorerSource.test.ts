@@ -0,0 +1,195 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * AleoExplorerSource Unit Tests
+ * Runs against recorded explorer responses (see __fixtures__/explorer)
+ */
+
+import path from 'node:path';
+import { AleoExplorerSource } from '../AleoExplorerSource';
+import { RateLimiter } from '../../batch/RateLimiter';
+import { startFixtureServer, type FixtureServer } from '../__fixtures__/server';
+
+const ADDRESS = 'aleo1rhgdu77hgyqd3xjj8ucu3jj9r2krwz6mnzyd80gncr5fxcwlh5rsvzp9px';
+
+describe('AleoExplorerSource', () => {
+    let server: FixtureServer;
+    let source: AleoExplorerSource;
+
+    beforeAll(async () => {
+        server = await startFixtureServer(path.join(__dirname, '../__fixtures__/explorer'));
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    beforeEach(() => {
+        source = new AleoExplorerSource({ baseUrl: `${server.url}/v1/` });
+    });
+
+    describe('fetchActivity', () => {
+        it('should derive activity from transitions, blocks and credits.aleo', async () => {
+            const activity = await source.fetchActivity(ADDRESS);
+
+            expect(activity).toMatchObject({
+                address: ADDRESS,
+                transactionCount: 4, // 5 transitions, two in one transaction
+                firstSeen: 1717243200 * 1000,
+                lastActivity: 1760702400 * 1000,
+                balance: 52500000,
+                blockHeight: 4250000,
+            });
+        });
+
+        it('should follow the transition page cursor', async () => {
+            const activity = await source.fetchActivity(ADDRESS);
+
+            expect(activity.transitions).toHaveLength(5);
+            expect(activity.transitions.map((t) => t.program)).toContain('arcane_finance_v3.aleo');
+            expect(activity.transitions[activity.transitions.length - 1]).toEqual({
+                id: 'au1q1w2e3r4t5y6u7i8o9p0a1s2d3f4g5h6j7k8l9z0x1c2v3b4n5m6qy9d5',
+                transactionId: 'at1b8n1m4q7w0e3r6t9y2u5i8o1p4a7s0d3f6g9h2j5k8l1z4x7c0v3nm2w',
+                program: 'credits.aleo',
+                function: 'transfer_private_to_public',
+                blockHeight: 1203345,
+                transfer: { direction: 'in', counterparty: null, amount: 50000000 },
+            });
+        });
+
+        it('should read transfers from credits.aleo transactions', async () => {
+            const activity = await source.fetchActivity(ADDRESS);
+            const transfers = activity.transitions
+                .filter((t) => t.transfer)
+                .map((t) => [t.blockHeight, t.transfer]);
+
+            expect(transfers).toEqual([
+                [4248861, { direction: 'in', counterparty: null, amount: 15000000 }],
+                [
+                    3127710,
+                    {
+                        direction: 'out',
+                        counterparty: 'aleo1arcanefinancepool0000000000000000000000000000000000000qqqq',
+                        amount: 2500000,
+                    },
+                ],
+                [1203345, { direction: 'in', counterparty: null, amount: 50000000 }],
+            ]);
+        });
+
+        it('should read public balance changes from credits.aleo transactions', async () => {
+            const activity = await source.fetchActivity(ADDRESS);
+
+            expect(activity.balanceChanges).toEqual([
+                { transitionId: expect.stringMatching(/^au1f0vq/), blockHeight: 4248861, delta: 15000000 },
+                { transitionId: expect.stringMatching(/^au1p3o6/), blockHeight: 3127710, delta: -2500000 },
+                { transitionId: expect.stringMatching(/^au1z9x8/), blockHeight: 2011452, delta: -10000000 },
+                { transitionId: expect.stringMatching(/^au1q1w2/), blockHeight: 1203345, delta: 50000000 },
+            ]);
+            // Every change since the wallet was funded adds up to its balance
+            expect(activity.balanceChanges!.reduce((sum, c) => sum + c.delta, 0)).toBe(activity.balance);
+        });
+
+        it('should only read balance changes within the history window', async () => {
+            const windowed = new AleoExplorerSource({
+                baseUrl: `${server.url}/v1`,
+                balanceHistoryBlocks: 2000000,
+            });
+
+            const activity = await windowed.fetchActivity(ADDRESS);
+
+            expect(activity.balanceChanges!.map((c) => c.blockHeight)).toEqual([4248861, 3127710]);
+        });
+
+        it('should stop paging at maxPages', async () => {
+            const limited = new AleoExplorerSource({ baseUrl: `${server.url}/v1`, maxPages: 1 });
+
+            const activity = await limited.fetchActivity(ADDRESS);
+            expect(activity.transitions).toHaveLength(3);
+            expect(activity.firstSeen).toBe(1744704210 * 1000);
+            expect(activity.truncated).toBe(true);
+        });
+
+        it('should not mark a fully paged history truncated', async () => {
+            const activity = await source.fetchActivity(ADDRESS);
+
+            expect(activity.truncated).toBeUndefined();
+        });
+
+        it('should wait for the rate limiter before every request', async () => {
+            const limiter = new RateLimiter(1000);
+            const acquire = jest.spyOn(limiter, 'acquire');
+            const paced = new AleoExplorerSource({
+                baseUrl: `${server.url}/v1`,
+                rateLimiter: limiter,
+            });
+            const served = server.requests.length;
+
+            await paced.fetchActivity(ADDRESS);
+
+            expect(acquire).toHaveBeenCalledTimes(server.requests.length - served);
+        });
+
+        it('should keep at most lookupConcurrency transaction lookups in flight', async () => {
+            const realFetch = global.fetch;
+            let inFlight = 0;
+            let peak = 0;
+            const fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async (...args) => {
+                const lookup = String(args[0]).includes('/transaction/');
+                if (lookup) peak = Math.max(peak, ++inFlight);
+                try {
+                    return await realFetch(...args);
+                } finally {
+                    if (lookup) inFlight--;
+                }
+            });
+            const serial = new AleoExplorerSource({
+                baseUrl: `${server.url}/v1`,
+                lookupConcurrency: 1,
+            });
+
+            try {
+                const activity = await serial.fetchActivity(ADDRESS);
+                expect(activity.balanceChanges).toHaveLength(4);
+                expect(peak).toBe(1);
+            } finally {
+                fetchSpy.mockRestore();
+            }
+        });
+
+        it('should refuse a non-positive lookup concurrency', () => {
+            expect(() => new AleoExplorerSource({ lookupConcurrency: 0 })).toThrow(
+                expect.objectContaining({ code: 'INVALID_CONFIG' })
+            );
+        });
+
+        it('should report an empty wallet for unknown addresses', async () => {
+            const activity = await source.fetchActivity('aleo1nothingonchain');
+
+            expect(activity).toMatchObject({
+                transactionCount: 0,
+                firstSeen: null,
+                lastActivity: null,
+                balance: 0,
+                transitions: [],
+            });
+        });
+
+        it('should raise RPCError when the explorer fails', async () => {
+            await expect(source.fetchActivity('aleo1unavailable')).rejects.toMatchObject({
+                name: 'RPCError',
+                code: 'RPC_ERROR',
+            });
+        });
+
+        it('should raise RPCError when the explorer is unreachable', async () => {
+            const offline = new AleoExplorerSource({ baseUrl: 'http://127.0.0.1:9', timeoutMs: 1000 });
+
+            await expect(offline.fetchActivity(ADDRESS)).rejects.toMatchObject({
+                name: 'RPCError',
+            });
+        });
+    });
+});
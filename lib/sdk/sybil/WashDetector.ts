@@ -0,0 +1,293 @@
+/**
+ * Wash Activity Detector
+ *
+ * Looks for activity that inflates a wallet's transaction count without
+ * reflecting real use:
+ * - self-loops: transfers to the wallet itself, and credits shielded to a
+ *   private record and unshielded back (same amount, within a window)
+ * - ping-pong: public transfers to a small cluster of addresses that come
+ *   back with the same amount within a window
+ * - dust: many transfers of negligible amounts
+ * - bursts: many transactions packed into a short span of blocks
+ *
+ * Every transaction making up a pattern is discounted from the transaction
+ * count (once, however many patterns it is part of), except for a few
+ * transactions credited per burst. ScoringEngine scores the discounted
+ * count and lists the points lost as penalties.
+ *
+ * Transfer patterns need `WalletTransition.transfer`, which sources only
+ * fill in for the transitions whose inputs they read (AleoExplorerSource:
+ * credits.aleo transfers within the balance history window). Senders are
+ * not among the inputs, so returns are matched by amount.
+ *
+ * @module lib/sdk/sybil/WashDetector
+ */
+
+import { EXPLORER_API, WASH_DETECTION } from '@/lib/constants';
+import type {
+    ActivityAnomaly,
+    ActivityAnomalyReport,
+    ActivityAnomalyType,
+    WalletTransfer,
+    WalletTransition,
+} from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+export type WashDetectionOptions = {
+    -readonly [K in keyof typeof WASH_DETECTION]: number;
+};
+
+type Transfer = WalletTransition & { transfer: WalletTransfer };
+
+/**
+ * A transfer out and the transfer that brought the amount back
+ */
+interface RoundTrip {
+    out: Transfer;
+    back: Transfer;
+}
+
+export class WashDetector {
+    private options: WashDetectionOptions;
+
+    /**
+     * @param options - Thresholds (default: WASH_DETECTION)
+     * @throws SDKError INVALID_CONFIG for thresholds that are not positive integers
+     */
+    constructor(options: Partial<WashDetectionOptions> = {}) {
+        this.options = { ...WASH_DETECTION, ...options };
+        for (const [name, value] of Object.entries(this.options)) {
+            if (!Number.isSafeInteger(value) || value <= 0) {
+                throw new SDKError(
+                    `Wash detection threshold ${name} must be a positive integer`,
+                    'INVALID_CONFIG'
+                );
+            }
+        }
+    }
+
+    /**
+     * Find wash activity among a wallet's transitions
+     *
+     * @param address - Wallet address
+     * @param transitions - Transitions of the wallet
+     * @param blockHeight - Chain height the transitions were read at
+     * @returns Anomalies found and the transactions they discount
+     */
+    analyze(
+        address: string,
+        transitions: WalletTransition[],
+        blockHeight: number
+    ): ActivityAnomalyReport {
+        const transfers = transitions
+            .filter((t): t is Transfer => t.transfer !== undefined)
+            .sort((a, b) => a.blockHeight - b.blockHeight);
+
+        const selfLoops = this.selfLoops(address, transfers);
+        const looped = new Set(selfLoops?.transactionIds);
+        const found = [
+            selfLoops,
+            this.pingPong(address, transfers.filter((t) => !looped.has(t.transactionId))),
+            this.dust(transfers),
+            ...this.bursts(transitions),
+        ].filter((anomaly): anomaly is ActivityAnomaly => anomaly !== null);
+
+        // Discount each transaction once, in detection order
+        const discounted = new Set<string>();
+        const anomalies = found.map((anomaly) => {
+            const credited =
+                anomaly.type === 'burst' ? this.options.BURST_CREDITED_TRANSACTIONS : 0;
+            const fresh = anomaly.transactionIds.filter((id) => !discounted.has(id));
+            fresh.slice(credited).forEach((id) => discounted.add(id));
+            return { ...anomaly, discountedTransactions: Math.max(0, fresh.length - credited) };
+        });
+
+        return {
+            anomalies,
+            discountedTransactions: discounted.size,
+            inspectedTransfers: transfers.length,
+            blockHeight,
+        };
+    }
+
+    /**
+     * Transfers to the wallet itself, and round trips through private records
+     */
+    private selfLoops(address: string, transfers: Transfer[]): ActivityAnomaly | null {
+        const direct = transfers.filter((t) => t.transfer.counterparty === address);
+        const trips = this.roundTrips(
+            transfers.filter((t) => t.transfer.counterparty !== address),
+            (out) => out.function === 'transfer_public_to_private',
+            (back) => back.function === 'transfer_private_to_public'
+        );
+        if (!direct.length && !trips.length) return null;
+
+        const parts: string[] = [];
+        if (direct.length) parts.push(`${direct.length} transfer(s) to itself`);
+        if (trips.length) parts.push(`${trips.length} round trip(s) through private records`);
+        return WashDetector.anomaly(
+            'self-loop',
+            [...direct, ...trips.flatMap((trip) => [trip.out, trip.back])],
+            [],
+            parts.join(' and ')
+        );
+    }
+
+    /**
+     * Round trips with the smallest cluster of counterparties that holds
+     * at least MIN_ROUND_TRIPS of them
+     */
+    private pingPong(address: string, transfers: Transfer[]): ActivityAnomaly | null {
+        const trips = this.roundTrips(
+            transfers,
+            (out) => out.transfer.counterparty !== null && out.transfer.counterparty !== address,
+            (back) => back.function !== 'transfer_private_to_public'
+        );
+
+        const byCounterparty = new Map<string, RoundTrip[]>();
+        for (const trip of trips) {
+            const counterparty = trip.out.transfer.counterparty!;
+            byCounterparty.set(counterparty, [...(byCounterparty.get(counterparty) ?? []), trip]);
+        }
+        const cluster = [...byCounterparty.entries()]
+            .sort(([a, x], [b, y]) => y.length - x.length || a.localeCompare(b))
+            .slice(0, this.options.MAX_CLUSTER_SIZE);
+        const clusterTrips = cluster.flatMap(([, list]) => list);
+        if (clusterTrips.length < this.options.MIN_ROUND_TRIPS) return null;
+
+        return WashDetector.anomaly(
+            'ping-pong',
+            clusterTrips.flatMap((trip) => [trip.out, trip.back]),
+            cluster.map(([counterparty]) => counterparty),
+            `${clusterTrips.length} round trip(s) with ${cluster.length} address(es)`
+        );
+    }
+
+    /**
+     * Transfers below DUST_MICROCREDITS, once there are MIN_DUST_TRANSFERS of them
+     */
+    private dust(transfers: Transfer[]): ActivityAnomaly | null {
+        const dust = transfers.filter((t) => t.transfer.amount < this.options.DUST_MICROCREDITS);
+        if (dust.length < this.options.MIN_DUST_TRANSFERS) return null;
+
+        const threshold = this.options.DUST_MICROCREDITS / EXPLORER_API.MICROCREDITS_PER_CREDIT;
+        return WashDetector.anomaly(
+            'dust',
+            dust,
+            [
+                ...new Set(
+                    dust.map((t) => t.transfer.counterparty).filter((c): c is string => c !== null)
+                ),
+            ],
+            `${dust.length} transfer(s) under ${threshold} credits`
+        );
+    }
+
+    /**
+     * Runs of transactions in which every transaction shares a window of
+     * BURST_WINDOW_BLOCKS with at least MIN_BURST_TRANSACTIONS - 1 others
+     */
+    private bursts(transitions: WalletTransition[]): ActivityAnomaly[] {
+        // Each transaction at the height of its first transition
+        const heights = new Map<string, number>();
+        for (const { transactionId, blockHeight } of transitions) {
+            heights.set(
+                transactionId,
+                Math.min(heights.get(transactionId) ?? Infinity, blockHeight)
+            );
+        }
+        const transactions = [...heights.entries()].sort(
+            ([a, x], [b, y]) => x - y || a.localeCompare(b)
+        );
+
+        // Mark every transaction inside a window holding enough of them
+        const { BURST_WINDOW_BLOCKS: window, MIN_BURST_TRANSACTIONS: minimum } = this.options;
+        const inBurst = new Array<boolean>(transactions.length).fill(false);
+        let end = 0;
+        for (let start = 0; start < transactions.length; start++) {
+            end = Math.max(end, start);
+            while (
+                end + 1 < transactions.length &&
+                transactions[end + 1]![1] < transactions[start]![1] + window
+            ) {
+                end++;
+            }
+            if (end - start + 1 >= minimum) inBurst.fill(true, start, end + 1);
+        }
+
+        const bursts: ActivityAnomaly[] = [];
+        for (let i = 0; i < transactions.length; i++) {
+            if (!inBurst[i]) continue;
+            let j = i;
+            while (j + 1 < transactions.length && inBurst[j + 1]) j++;
+
+            const run = transactions.slice(i, j + 1);
+            const fromBlock = run[0]![1];
+            const toBlock = run[run.length - 1]![1];
+            bursts.push({
+                type: 'burst',
+                transactionIds: run.map(([id]) => id),
+                counterparties: [],
+                fromBlock,
+                toBlock,
+                discountedTransactions: 0,
+                description: `${run.length} transactions within ${toBlock - fromBlock + 1} blocks`,
+            });
+            i = j;
+        }
+        return bursts;
+    }
+
+    /**
+     * Pair transfers out with the next unmatched transfer in of the same
+     * amount within ROUND_TRIP_WINDOW_BLOCKS
+     *
+     * @param transfers - Transfers, oldest first
+     */
+    private roundTrips(
+        transfers: Transfer[],
+        isOut: (transfer: Transfer) => boolean,
+        isBack: (transfer: Transfer) => boolean
+    ): RoundTrip[] {
+        const matched = new Set<Transfer>();
+        const trips: RoundTrip[] = [];
+
+        transfers.forEach((out, i) => {
+            if (out.transfer.direction !== 'out' || !isOut(out)) return;
+            const back = transfers.slice(i + 1).find(
+                (t) =>
+                    t.transfer.direction === 'in' &&
+                    t.transfer.amount === out.transfer.amount &&
+                    t.blockHeight - out.blockHeight <= this.options.ROUND_TRIP_WINDOW_BLOCKS &&
+                    !matched.has(t) &&
+                    isBack(t)
+            );
+            if (back) {
+                matched.add(back);
+                trips.push({ out, back });
+            }
+        });
+        return trips;
+    }
+
+    /**
+     * Anomaly made of transfers (discounts are set by analyze)
+     */
+    private static anomaly(
+        type: ActivityAnomalyType,
+        transfers: Transfer[],
+        counterparties: string[],
+        description: string
+    ): ActivityAnomaly {
+        const heights = transfers.map((t) => t.blockHeight);
+        return {
+            type,
+            transactionIds: [...new Set(transfers.map((t) => t.transactionId))],
+            counterparties,
+            fromBlock: Math.min(...heights),
+            toBlock: Math.max(...heights),
+            discountedTransactions: 0,
+            description,
+        };
+    }
+}
@@ -0,0 +1,276 @@
+/**
+ * WashDetector Unit Tests
+ * Self-loops, ping-pong clusters, dust, bursts and the penalties
+ * ScoringEngine applies for them
+ */
+
+import { WashDetector } from '../WashDetector';
+import { ScoringEngine } from '../../ScoringEngine';
+import { tieredModel } from '../../models/TieredModel';
+import type { WalletMetrics, WalletTransfer, WalletTransition } from '@/types/sdk';
+
+const ADDRESS = 'aleo1wallet';
+const PEER = 'aleo1peer';
+const HEIGHT = 5000000;
+const NOW = Date.UTC(2026, 0, 1);
+
+let sequence = 0;
+
+function transition(
+    fn: string,
+    blockHeight: number,
+    transfer?: WalletTransfer,
+    program = 'credits.aleo'
+): WalletTransition {
+    sequence++;
+    return {
+        id: `au1test${sequence}`,
+        transactionId: `at1test${sequence}`,
+        program,
+        function: fn,
+        blockHeight,
+        ...(transfer && { transfer }),
+    };
+}
+
+const sent = (blockHeight: number, counterparty: string | null, amount: number) =>
+    transition('transfer_public', blockHeight, { direction: 'out', counterparty, amount });
+
+const received = (blockHeight: number, amount: number) =>
+    transition('transfer_public', blockHeight, { direction: 'in', counterparty: null, amount });
+
+/**
+ * Ordinary activity: one transaction every day
+ */
+const organic = (count: number, from = 1000000) =>
+    Array.from({ length: count }, (_, i) =>
+        transition('swap', from + i * 28800, undefined, 'arcane_finance_v3.aleo')
+    );
+
+describe('WashDetector', () => {
+    let detector: WashDetector;
+
+    beforeEach(() => {
+        detector = new WashDetector();
+    });
+
+    it('should report nothing for organic activity', () => {
+        const report = detector.analyze(ADDRESS, organic(30), HEIGHT);
+
+        expect(report).toEqual({
+            anomalies: [],
+            discountedTransactions: 0,
+            inspectedTransfers: 0,
+            blockHeight: HEIGHT,
+        });
+    });
+
+    it('should flag transfers to the wallet itself', () => {
+        const loops = [sent(2000000, ADDRESS, 5000000), sent(2100000, ADDRESS, 5000000)];
+
+        const report = detector.analyze(ADDRESS, [...organic(5), ...loops], HEIGHT);
+
+        expect(report.anomalies).toEqual([
+            expect.objectContaining({
+                type: 'self-loop',
+                transactionIds: loops.map((t) => t.transactionId),
+                fromBlock: 2000000,
+                toBlock: 2100000,
+                discountedTransactions: 2,
+            }),
+        ]);
+        expect(report.discountedTransactions).toBe(2);
+    });
+
+    it('should flag round trips through private records', () => {
+        const shield = transition('transfer_public_to_private', 2000000, {
+            direction: 'out',
+            counterparty: null,
+            amount: 7000000,
+        });
+        const unshield = transition('transfer_private_to_public', 2000100, {
+            direction: 'in',
+            counterparty: null,
+            amount: 7000000,
+        });
+        // Returned too late to be a round trip
+        const late = [
+            transition('transfer_public_to_private', 3000000, {
+                direction: 'out',
+                counterparty: null,
+                amount: 7000000,
+            }),
+            transition('transfer_private_to_public', 3100000, {
+                direction: 'in',
+                counterparty: null,
+                amount: 7000000,
+            }),
+        ];
+
+        const report = detector.analyze(ADDRESS, [shield, unshield, ...late], HEIGHT);
+
+        expect(report.anomalies).toHaveLength(1);
+        expect(report.anomalies[0]).toMatchObject({
+            type: 'self-loop',
+            transactionIds: [shield.transactionId, unshield.transactionId],
+            description: '1 round trip(s) through private records',
+        });
+    });
+
+    it('should flag ping-pong transfers with a small cluster', () => {
+        const trips = [0, 1, 2].flatMap((i) => [
+            sent(2000000 + i * 1000, PEER, 1000000 + i),
+            received(2000000 + i * 1000 + 10, 1000000 + i),
+        ]);
+
+        const report = detector.analyze(ADDRESS, [...organic(10), ...trips], HEIGHT);
+
+        expect(report.anomalies).toEqual([
+            expect.objectContaining({
+                type: 'ping-pong',
+                counterparties: [PEER],
+                discountedTransactions: 6,
+                description: '3 round trip(s) with 1 address(es)',
+            }),
+        ]);
+    });
+
+    it('should not flag a couple of refunds or unmatched amounts', () => {
+        const transfers = [
+            sent(2000000, PEER, 1000000),
+            received(2000010, 1000000),
+            sent(2001000, PEER, 2000000),
+            received(2001010, 2500000),
+            sent(2002000, PEER, 3000000),
+            received(2002010, 3000000),
+        ];
+
+        expect(detector.analyze(ADDRESS, transfers, HEIGHT).anomalies).toEqual([]);
+    });
+
+    it('should flag dust once there are enough dust transfers', () => {
+        const dust = Array.from({ length: 10 }, (_, i) =>
+            sent(2000000 + i * 50000, `aleo1dust${i}`, 1)
+        );
+
+        const flagged = detector.analyze(ADDRESS, dust, HEIGHT);
+        const few = detector.analyze(ADDRESS, dust.slice(1), HEIGHT);
+
+        expect(flagged.anomalies).toEqual([
+            expect.objectContaining({
+                type: 'dust',
+                discountedTransactions: 10,
+                description: '10 transfer(s) under 0.01 credits',
+            }),
+        ]);
+        expect(flagged.anomalies[0]!.counterparties).toHaveLength(10);
+        expect(few.anomalies).toEqual([]);
+    });
+
+    it('should flag bursts and still credit a few of their transactions', () => {
+        const burst = organic(25, 3000000).map((t, i) => ({ ...t, blockHeight: 3000000 + i * 10 }));
+
+        const report = detector.analyze(ADDRESS, [...organic(10), ...burst], HEIGHT);
+
+        expect(report.anomalies).toEqual([
+            expect.objectContaining({
+                type: 'burst',
+                transactionIds: burst.map((t) => t.transactionId),
+                fromBlock: 3000000,
+                toBlock: 3000240,
+                discountedTransactions: 20,
+            }),
+        ]);
+        expect(report.discountedTransactions).toBe(20);
+    });
+
+    it('should discount a transaction once across patterns', () => {
+        // 25 dust self-transfers in one burst
+        const loops = Array.from({ length: 25 }, (_, i) => sent(2000000 + i, ADDRESS, 1));
+
+        const report = detector.analyze(ADDRESS, loops, HEIGHT);
+
+        expect(report.anomalies.map((a) => [a.type, a.discountedTransactions])).toEqual([
+            ['self-loop', 25],
+            ['dust', 0],
+            ['burst', 0],
+        ]);
+        expect(report.discountedTransactions).toBe(25);
+    });
+
+    it('should reject invalid thresholds', () => {
+        expect(() => new WashDetector({ MIN_ROUND_TRIPS: 0 })).toThrow(
+            expect.objectContaining({ code: 'INVALID_CONFIG' })
+        );
+    });
+});
+
+describe('Wash activity penalties', () => {
+    const metrics: WalletMetrics = {
+        address: 'aleo1farmer',
+        transactionCount: 210,
+        walletAgeMonths: 12,
+        defiScore: 50,
+        repaymentRate: 80,
+        tokenBalance: 500,
+        lastTransactionDate: NOW,
+    };
+
+    const loops = Array.from({ length: 60 }, (_, i) => sent(2000000 + i * 2000, ADDRESS, 5000000));
+    const dust = Array.from({ length: 12 }, (_, i) => sent(3000000 + i * 2000, PEER, 1));
+    const farmed: WalletMetrics = {
+        ...metrics,
+        activityAnomalies: new WashDetector().analyze(ADDRESS, [...loops, ...dust], HEIGHT),
+    };
+
+    it('should score the transaction count without the discounted transactions', () => {
+        const assessment = ScoringEngine.calculateScore(farmed, tieredModel, { now: NOW });
+        const honest = ScoringEngine.calculateScore(
+            { ...metrics, transactionCount: 210 - 72 },
+            tieredModel,
+            { now: NOW }
+        );
+
+        expect(assessment.finalScore).toBe(honest.finalScore);
+        expect(assessment.metrics.transactionCount).toBe(210);
+    });
+
+    it('should attribute the points lost to each anomaly type', () => {
+        const assessment = ScoringEngine.calculateScore(farmed, tieredModel, { now: NOW });
+        const clean = ScoringEngine.calculateScore(metrics, tieredModel, { now: NOW });
+
+        // 210 -> 150 crosses the 200 tier, 150 -> 138 crosses none
+        expect(assessment.penalties).toEqual([
+            {
+                anomaly: 'self-loop',
+                metric: 'transactionCount',
+                discount: 60,
+                points: expect.any(Number),
+                factors: ['transactions'],
+            },
+            { anomaly: 'dust', metric: 'transactionCount', discount: 12, points: 0, factors: [] },
+        ]);
+        expect(assessment.penalties![0]!.points).toBeGreaterThan(0);
+        expect(assessment.penalties!.reduce((sum, p) => sum + p.points, 0)).toBe(
+            clean.finalScore - assessment.finalScore
+        );
+    });
+
+    it('should list penalties under the factors they lowered in the breakdown', () => {
+        const assessment = ScoringEngine.calculateScore(farmed, tieredModel, { now: NOW });
+        const breakdown = ScoringEngine.getScoreBreakdown(assessment);
+
+        const transactions = breakdown.factors.find((f) => f.id === 'transactions')!;
+        expect(transactions.penalties.map((p) => p.anomaly)).toEqual(['self-loop']);
+        expect(breakdown.factors.filter((f) => f.penalties.length)).toHaveLength(1);
+        expect(breakdown.penalties).toHaveLength(2);
+        expect(breakdown.penaltyPoints).toBe(assessment.penalties![0]!.points);
+    });
+
+    it('should leave metrics without anomalies untouched', () => {
+        const assessment = ScoringEngine.calculateScore(metrics, tieredModel, { now: NOW });
+
+        expect(assessment.penalties).toBeUndefined();
+        expect(ScoringEngine.applyPenalties(metrics)).toBe(metrics);
+    });
+});
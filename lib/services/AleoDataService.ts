@@ -1,4 +1,23 @@
-import { Transaction, WalletMetrics } from '@/types/sdk';
+import {
+    CreditAssessment,
+    HistoricalMetrics,
+    ScoreTrend,
+    Transaction,
+    WalletMetrics,
+} from '@/types/sdk';
+import { DataAggregator } from '@/lib/sdk/DataAggregator';
+import { IndexedDBCacheStore } from '@/lib/sdk/cache/IndexedDBCacheStore';
+import { MemorySnapshotStore, createSnapshot } from '@/lib/sdk/history/ScoreSnapshots';
+import { analyzeTrend } from '@/lib/sdk/history/ScoreTrend';
+import { fallbackFields } from '@/lib/sdk/Provenance';
+import { ScoringEngine } from '@/lib/sdk/ScoringEngine';
+import { scoringModelRegistry } from '@/lib/sdk/ScoringModelRegistry';
+import { SCORE_HISTORY } from '@/lib/constants';
+
+export interface ScoreHistoryView {
+    trend: ScoreTrend;
+    previous: HistoricalMetrics | null; // Metrics at the trend point before the current one
+}
 
 /**
  * Service to fetch data from Aleo blockchain via Explorer API
@@ -7,10 +26,16 @@ import { Transaction, WalletMetrics } from '@/types/sdk';
 export class AleoDataService {
     private static instance: AleoDataService;
     private readonly baseUrl: string;
+    private readonly aggregator: DataAggregator;
+    private readonly snapshots = new MemorySnapshotStore();
 
     private constructor() {
         // Default to a public Aleo explorer API or your own indexer
         this.baseUrl = process.env.NEXT_PUBLIC_ALEO_API_URL || 'https://api.explorer.aleo.org/v1';
+        // Keep metrics across page reloads where IndexedDB is available
+        this.aggregator = new DataAggregator(this.baseUrl, undefined, undefined, {
+            cache: typeof indexedDB !== 'undefined' ? new IndexedDBCacheStore() : undefined,
+        });
     }
 
     public static getInstance(): AleoDataService {
@@ -79,14 +104,13 @@ export class AleoDataService {
 
     /**
      * Calculate DeFi Score based on protocol interactions
-     * Scans for interactions with known DeFi program IDs
+     * DataAggregator classifies the wallet's transitions against the known
+     * DeFi programs; `defiActivity` on the metrics holds the breakdown
      */
     async calculateDefiScore(address: string): Promise<number> {
         try {
-            // TODO: Scan transaction history for specific program IDs (e.g. dex.aleo, lending.aleo) for address
-            // if (address === 'aleo1...') return 90;
-            await new Promise(resolve => setTimeout(resolve, 800));
-            return 75; // Mock score 0-100
+            const metrics = await this.aggregator.fetchWalletMetrics(address);
+            return metrics.defiScore;
         } catch (error) {
             return 0;
         }
@@ -94,26 +118,56 @@ export class AleoDataService {
 
     /**
      * Aggregate all data into WalletMetrics object
+     * Delegates to DataAggregator, so every field carries provenance and
+     * estimated values are marked as fallback
      */
     async fetchAllMetrics(address: string): Promise<WalletMetrics> {
-        const [transactions, balance, age, defiScore] = await Promise.all([
-            this.getWalletTransactions(address),
-            this.getWalletBalance(address),
-            this.getWalletAge(address),
-            this.calculateDefiScore(address)
-        ]);
+        return this.aggregator.fetchWalletMetrics(address);
+    }
+
+    /**
+     * Drop cached metrics after a new transaction from the wallet
+     */
+    async invalidateMetrics(address: string, transactionId?: string): Promise<void> {
+        await this.aggregator.invalidate(address, transactionId);
+    }
+
+    /**
+     * Score the wallet at SCORE_HISTORY.TREND_POINTS points, one
+     * TREND_INTERVAL_BLOCKS apart and ending at the current assessment,
+     * and analyze the trend. Past points are replayed from one read of the
+     * wallet's activity with the current assessment's model.
+     * Returns null when the current assessment is not based on chain data.
+     */
+    async fetchScoreTrend(
+        address: string,
+        current: CreditAssessment
+    ): Promise<ScoreHistoryView | null> {
+        const head = current.provenance?.transactionCount.blockHeight ?? null;
+        if (head === null || fallbackFields(current).length) return null;
+
+        const model = scoringModelRegistry.get(current.model.id, current.model.version);
+        const { TREND_POINTS, TREND_INTERVAL_BLOCKS } = SCORE_HISTORY;
+        const points = Array.from({ length: TREND_POINTS - 1 }, (_, i) => ({
+            blockHeight: head - (TREND_POINTS - 1 - i) * TREND_INTERVAL_BLOCKS,
+        })).filter((point) => point.blockHeight >= 0);
 
-        // Calculate repayment rate mock (requires lending protocol history)
-        const repaymentRate = 95;
+        const history = await this.aggregator.fetchMetricsAsOf(address, points);
+        for (const { blockHeight, timestamp, metrics } of history) {
+            const assessment = ScoringEngine.calculateScore(metrics, model, {
+                now: timestamp,
+                blockHeight,
+            });
+            await this.snapshots.add(createSnapshot(assessment, blockHeight));
+        }
+        await this.snapshots.add(createSnapshot(current));
 
+        const snapshots = await this.snapshots.list(address, {
+            from: history[0]?.timestamp ?? current.timestamp,
+        });
         return {
-            address,
-            transactionCount: transactions.length + 152, // Mock total count
-            walletAgeMonths: age,
-            defiScore,
-            repaymentRate,
-            tokenBalance: balance,
-            lastTransactionDate: Date.now()
+            trend: analyzeTrend(snapshots, current.model),
+            previous: history[history.length - 1] ?? null,
         };
     }
 }
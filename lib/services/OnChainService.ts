@@ -4,11 +4,15 @@
  * Handles submission of credit score proofs to the Aleo blockchain
  * Uses Puzzle Wallet for transaction signing and submission
  * 
+ * A score proof is the execution of generate_score (or refresh_score):
+ * submitting it registers the score's commitment in score_commitments.
+ * Its metrics, score and owner stay private inputs and outputs of the
+ * execution; the proof's opening is never submitted.
+ * 
  * @module lib/services/OnChainService
  */
 
-import type { CreditAssessment } from '@/types/sdk';
-import type { ProofResult } from '@/lib/zk/ProofGenerator';
+import type { CreditAssessment, ZKProof } from '@/types/sdk';
 
 /**
  * Transaction status
@@ -78,15 +82,15 @@ export class OnChainService {
     /**
      * Submit a credit score proof to the blockchain
      * 
-     * @param assessment - Credit assessment
-     * @param proof - Generated ZK proof
+     * @param assessment - Credit assessment the proof was generated for
+     * @param proof - Score proof (generate_score or refresh_score execution)
      * @param walletAddress - User's wallet address
      * @param onProgress - Progress callback
      * @returns Submission result
      */
     async submitProof(
         assessment: CreditAssessment,
-        proof: ProofResult,
+        proof: ZKProof,
         walletAddress: string,
         onProgress?: (progress: SubmissionProgress) => void
     ): Promise<SubmissionResult> {
@@ -225,23 +229,32 @@ export class OnChainService {
     /**
      * Prepare transaction data
      * 
-     * In production, this would format data for Aleo program execution
+     * The transaction carries the proof's execution as is: every input but
+     * the score block is private, and the only public output is the
+     * commitment.
+     * 
+     * @throws Error if the proof is not a score proof of the wallet's assessment
      */
     private prepareTransactionData(
         assessment: CreditAssessment,
-        proof: ProofResult,
+        proof: ZKProof,
         walletAddress: string
     ): any {
+        if (proof.statement.kind !== 'score') {
+            throw new Error('Only score proofs can be submitted');
+        }
+        if (
+            proof.owner !== walletAddress ||
+            assessment.address !== walletAddress ||
+            proof.opening?.score !== assessment.finalScore
+        ) {
+            throw new Error('Proof is not of this wallet\'s assessment');
+        }
+
         return {
-            program: 'credit_score.aleo',
-            function: 'submit_score',
-            inputs: [
-                walletAddress,
-                assessment.finalScore.toString(),
-                proof.scoreCommitment,
-                proof.proof,
-                JSON.stringify(proof.publicInputs),
-            ],
+            program: proof.program,
+            function: proof.transition,
+            execution: proof.proof,
             fee: 1000000, // 1 credit (in microcredits)
         };
     }
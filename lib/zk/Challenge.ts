@@ -0,0 +1,123 @@
+/**
+ * Verifier Challenges
+ *
+ * Replay protection for threshold and range proofs:
+ * 1. The verifier issues a challenge: a fresh nonce, the purpose of the
+ *    check, how often a credential may be used for it and an expiry.
+ * 2. The holder proves with the challenge. Its nonce, purpose and maxUses
+ *    become public inputs of prove_threshold / prove_range, and the
+ *    transition outputs a nullifier derived from the record's blinding and
+ *    the purpose.
+ * 3. The verifier checks that the proof answers its own, unexpired challenge
+ *    (ProofGenerator.verifyProof) and, when maxUses > 0, records the use
+ *    with use_nullifier under the proof's cap. Uses are kept per verifier
+ *    and nullifier, and use_nullifier fails once they reach the cap.
+ *
+ * Purposes are scoped to the verifier, so nullifiers for the same record
+ * cannot be linked across verifiers or purposes.
+ *
+ * @module lib/zk/Challenge
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { bytesToNumberBE } from '@noble/curves/abstract/utils';
+import { CREDIT_SCORE_PROGRAM } from '@/lib/constants';
+import type { ProofChallenge } from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+export interface ChallengeOptions {
+    maxUses?: number; // Accepted uses per score record (default: 0, unlimited)
+    ttlMs?: number; // Lifetime (default: CHALLENGE_TTL_MS)
+}
+
+/**
+ * Issue a challenge for a holder to answer
+ *
+ * @param verifier - Verifier identity (e.g. lender address)
+ * @param purpose - What the proof is for, e.g. 'loan-application'
+ * @param options - Reuse cap and lifetime
+ * @returns Challenge with a fresh nonce
+ * @throws SDKError INVALID_CHALLENGE for empty identities or invalid options
+ */
+export function createChallenge(
+    verifier: string,
+    purpose: string,
+    options: ChallengeOptions = {}
+): ProofChallenge {
+    const maxUses = options.maxUses ?? 0;
+    const ttlMs = options.ttlMs ?? CREDIT_SCORE_PROGRAM.CHALLENGE_TTL_MS;
+
+    if (!verifier || !purpose) {
+        throw new SDKError('Challenges need a verifier and a purpose', 'INVALID_CHALLENGE');
+    }
+    // use_nullifier takes max_uses as a u32
+    if (!Number.isInteger(maxUses) || maxUses < 0 || maxUses > 0xffffffff) {
+        throw new SDKError(`Invalid maxUses: ${maxUses}`, 'INVALID_CHALLENGE');
+    }
+    if (!(ttlMs > 0)) {
+        throw new SDKError(`Invalid challenge lifetime: ${ttlMs}`, 'INVALID_CHALLENGE');
+    }
+
+    const nonce = new Uint8Array(31);
+    crypto.getRandomValues(nonce);
+
+    return {
+        verifier,
+        purpose,
+        nonce: bytesToNumberBE(nonce).toString(),
+        maxUses,
+        expiresAt: Date.now() + ttlMs,
+    };
+}
+
+/**
+ * Values a challenge contributes to the public inputs
+ *
+ * @param challenge - Challenge (omitted: unchallenged proof)
+ * @returns Decimal nonce and purpose, and the reuse cap (all 0 when unchallenged)
+ * @throws SDKError INVALID_CHALLENGE for a malformed nonce
+ */
+export function challengeFields(challenge?: ProofChallenge): {
+    nonce: string;
+    purpose: string;
+    maxUses: number;
+} {
+    if (!challenge) {
+        return { nonce: '0', purpose: '0', maxUses: 0 };
+    }
+
+    if (!/^\d+$/.test(challenge.nonce) || BigInt(challenge.nonce) >= 2n ** 248n) {
+        throw new SDKError(`Invalid challenge nonce: ${challenge.nonce}`, 'INVALID_CHALLENGE');
+    }
+
+    return {
+        nonce: challenge.nonce,
+        purpose: purposeField(challenge.verifier, challenge.purpose),
+        maxUses: challenge.maxUses,
+    };
+}
+
+/**
+ * Purpose field element, scoped to the verifier
+ *
+ * SHA-256 of [verifier, purpose] truncated to 248 bits (a valid Aleo field).
+ *
+ * @param verifier - Verifier identity
+ * @param purpose - Purpose label
+ * @returns Decimal field element
+ */
+export function purposeField(verifier: string, purpose: string): string {
+    const digest = sha256(utf8ToBytes(JSON.stringify([verifier, purpose])));
+    return bytesToNumberBE(digest.slice(0, 31)).toString();
+}
+
+/**
+ * Check whether a challenge can still be answered
+ *
+ * @param challenge - Challenge
+ * @param now - Current time (Unix ms)
+ */
+export function isChallengeExpired(challenge: ProofChallenge, now: number = Date.now()): boolean {
+    return now > challenge.expiresAt;
+}
@@ -1,29 +1,76 @@
 /**
  * Zero-Knowledge Proof Generator
- * 
- * Generates ZK proofs for credit scores using Aleo's privacy-preserving technology
- * Allows users to prove their creditworthiness without revealing exact scores
- * 
+ *
+ * Single proving API for the app and the SDK. Builds the credit_score.aleo
+ * transition inputs from an assessment, hands them to a pluggable
+ * ProvingBackend and wraps the result in a ZKProof envelope.
+ *
+ * Statements:
+ * - score: generate_score (or refresh_score, superseding an older record),
+ *   whose only public output is the commitment; the envelope opens it to
+ *   disclose the score to the verifier, never on-chain
+ * - threshold: prove_threshold, only the threshold is public
+ * - range: prove_range, only the bounds are public
+ * - claim: prove_claim, bounds on a single committed claim (see SelectiveDisclosure)
+ * - identity: prove_linked_wallets, control of a number of linked wallets,
+ *   whose addresses stay private (see lib/sdk/identity). Their combined
+ *   score is a local estimate and not part of the proof
+ *
+ * Score, threshold and range statements are made about a ScoreRecord (the
+ * private CreditRecord) and output a commitment to it, which verifiers look
+ * up in score_commitments (see BlockchainAdapter.checkScoreStatus). Callers
+ * always pass the record: a score proof generates it (createScoreRecord),
+ * and threshold and range proofs take the one the broadcast score proof
+ * registered. The record's blinding factor lets the
+ * owner open the commitment later, or prove further statements about the
+ * same committed score. The record also keeps the metrics it was scored
+ * from, which anchor_claims commits to (see SelectiveDisclosure).
+ *
+ * Threshold and range proofs can answer a verifier's challenge (see
+ * lib/zk/Challenge): the nonce, purpose and reuse cap are public inputs,
+ * and the proof carries a nullifier the verifier can cap on-chain. Identity proofs
+ * always answer one: every linked wallet signed it.
+ *
+ * Backends:
+ * - MockBackend: tests and local development (Pedersen commitments)
+ * - AleoExecutionBackend: executes the Leo transition with the Provable SDK
+ *   (BHP256 commitments, computed in the circuit)
+ *
  * @module lib/zk/ProofGenerator
  */
 
-import type { CreditAssessment } from '@/types/sdk';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { MockBackend } from './backends/MockBackend';
+import { challengeFields, isChallengeExpired } from './Challenge';
+import { integerModel, toIntegerInputs, toLeoInputs } from '@/lib/sdk/models/IntegerModel';
+import { ScoringEngine } from '@/lib/sdk/ScoringEngine';
+import {
+    ALEO_CONFIG,
+    CREDIT_SCORE_PROGRAM,
+    LINKED_WALLETS,
+    SCORING_CONFIG,
+} from '@/lib/constants';
+import type {
+    ClaimRecord,
+    CreditAssessment,
+    IntegerModelInputs,
+    LinkedIdentity,
+    ProofChallenge,
+    ProofStatement,
+    ProvingBackend,
+    ProvingRequest,
+    ScoreOpening,
+    ScoreRecord,
+    ZKProof,
+} from '@/types/sdk';
+import { ProofGenerationError } from '@/types/sdk';
 
 /**
  * Proof generation status
  */
 export type ProofStatus = 'idle' | 'generating' | 'success' | 'error';
 
-/**
- * Proof generation result
- */
-export interface ProofResult {
-    proof: string;
-    publicInputs: string[];
-    timestamp: number;
-    scoreCommitment: string; // Hash of the score for verification
-}
-
 /**
  * Proof generation progress
  */
@@ -43,18 +90,105 @@ export interface VerificationResult {
         min: number;
         max: number;
     };
+    scoreBlock?: number; // Block the proven score record was generated at
+    owner?: string; // Owner of the proven score record (opened for score proofs)
+    nullifier?: string; // Threshold/range proofs
     timestamp: number;
 }
 
+/**
+ * Statements proven over the score record
+ */
+type ScoreStatement = Exclude<ProofStatement, { kind: 'claim' } | { kind: 'identity' }>;
+
+/**
+ * Backend request for a statement, plus how to compute its commitment
+ */
+interface PreparedProof extends Omit<ProvingRequest, 'program' | 'commitment'> {
+    commit: () => Promise<string>;
+    scoreBlock?: number; // Block of the proven score record
+    challenge?: ProofChallenge;
+    opening?: ScoreOpening; // Score proofs
+}
+
+/**
+ * Model generate_score implements (the current integer model version)
+ */
+export const PROVABLE_MODEL = `${integerModel.id}@${integerModel.version}`;
+
+/**
+ * Whether an assessment was scored with the model generate_score implements
+ *
+ * @param assessment - Credit assessment
+ */
+export function isProvable(assessment: CreditAssessment): boolean {
+    return (
+        assessment.model.id === integerModel.id &&
+        assessment.model.version === integerModel.version
+    );
+}
+
+/**
+ * Format a CreditRecord plaintext as a transition input
+ *
+ * @param record - Score record
+ * @returns Leo record literal
+ */
+export function toCreditRecordInput(record: ScoreRecord): string {
+    const { metrics } = record;
+    const u64 = (value: number) => `${value}u64.private`;
+    const blindings = record.claimBlindings.map((blinding) => `${blinding}scalar.private`);
+
+    return (
+        `{ owner: ${record.owner}.private, score: ${u64(record.score)}, ` +
+        `timestamp: ${u64(record.timestamp)}, blinding: ${record.blinding}scalar.private, ` +
+        `metrics: { tx_count: ${u64(metrics.txCount)}, ` +
+        `wallet_age: ${u64(metrics.walletAgeMonths)}, defi_score: ${u64(metrics.defiScore)}, ` +
+        `repayment_rate: ${u64(metrics.repaymentRate)}, balance: ${u64(metrics.balance)}, ` +
+        `days_since_last_tx: ${u64(metrics.daysSinceLastTx)}, ` +
+        `stable_balance: ${u64(metrics.stableBalance)}, ` +
+        `volatility_bps: ${u64(metrics.volatilityBps)}, ` +
+        `penalty_points: ${u64(metrics.penaltyPoints)} }, ` +
+        `claim_blindings: [${blindings.join(', ')}] }`
+    );
+}
+
+/**
+ * Integer inputs an assessment was scored from
+ * The metrics as scored, i.e. with wash activity discounted
+ *
+ * @param assessment - Credit assessment
+ * @returns generate_score metric inputs (kept in the score record)
+ */
+export function scoredInputs(assessment: CreditAssessment): IntegerModelInputs {
+    return toIntegerInputs(
+        ScoringEngine.applyPenalties(assessment.metrics),
+        assessment.timestamp
+    );
+}
+
+function sameInputs(a: IntegerModelInputs, b: IntegerModelInputs): boolean {
+    return toLeoInputs(a).join() === toLeoInputs(b).join();
+}
+
 /**
  * ZK Proof Generator Class
- * 
- * Handles the generation of zero-knowledge proofs for credit scores
+ *
+ * Handles the generation and verification of zero-knowledge proofs for credit scores
  */
 export class ProofGenerator {
     private static instance: ProofGenerator;
+    private backend: ProvingBackend;
+    private program: string;
 
-    private constructor() { }
+    /**
+     * @param backend - Proving backend (default: MockBackend)
+     * @param program - Aleo program id (default: configured contract)
+     */
+    constructor(backend?: ProvingBackend, program?: string) {
+        this.backend = backend ?? new MockBackend();
+        this.program = program || ALEO_CONFIG.MAINNET.contractAddress;
+    }
 
     /**
      * Get singleton instance
@@ -67,23 +201,518 @@ export class ProofGenerator {
     }
 
     /**
-     * Generate a zero-knowledge proof for a credit assessment
-     * 
-     * This proof allows users to prove:
-     * - Their score is above a certain threshold
-     * - Their score is within a certain range
-     * - They meet specific criteria
-     * 
-     * WITHOUT revealing the exact score
-     * 
+     * Swap the proving backend (e.g. after the wallet is connected)
+     */
+    setBackend(backend: ProvingBackend): void {
+        this.backend = backend;
+    }
+
+    getBackend(): ProvingBackend {
+        return this.backend;
+    }
+
+    /**
+     * Create the private score record for an assessment
+     *
+     * Keep the record: its blinding factor is needed to open the commitment
+     * or to prove statements about the same committed score.
+     *
+     * @param assessment - Credit assessment
+     * @param scoreBlock - Current block height (generate_score checks it on-chain)
+     * @returns Score record with fresh blinding factors and the scored metrics
+     */
+    createScoreRecord(assessment: CreditAssessment, scoreBlock: number = 0): ScoreRecord {
+        const { commitments } = this.backend;
+
+        return {
+            owner: assessment.address,
+            score: assessment.finalScore,
+            timestamp: scoreBlock,
+            blinding: commitments.randomBlinding(),
+            metrics: scoredInputs(assessment),
+            claimBlindings: Array.from({ length: CREDIT_SCORE_PROGRAM.RECORD_CLAIMS }, () =>
+                commitments.randomBlinding()
+            ),
+        };
+    }
+
+    /**
+     * Open the commitment to a score record
+     *
+     * @param record - Score record
+     * @returns Opening (committed values, scheme and commitment) for a verifier
+     */
+    async open(record: ScoreRecord): Promise<ScoreOpening> {
+        const { commitments } = this.backend;
+        const { owner, score, timestamp, blinding } = record;
+
+        return {
+            owner,
+            score,
+            timestamp,
+            blinding,
+            scheme: commitments.id,
+            commitment: await commitments.commit(record),
+        };
+    }
+
+    /**
+     * Check an opening against its commitment
+     *
+     * @param opening - Disclosed record and commitment
+     * @param commitment - Commitment to check against (e.g. a proof's scoreCommitment)
+     * @returns True if the opening's values are the committed ones
+     */
+    async verifyOpening(opening: ScoreOpening, commitment?: string): Promise<boolean> {
+        const { commitments } = this.backend;
+
+        if (opening.scheme !== commitments.id) {
+            return false;
+        }
+        if (commitment !== undefined && commitment !== opening.commitment) {
+            return false;
+        }
+
+        try {
+            const { owner, score, timestamp, blinding } = opening;
+            const recomputed = await commitments.commit({ owner, score, timestamp, blinding });
+            return recomputed === opening.commitment;
+        } catch (error) {
+            console.error('[ProofGenerator] Opening verification failed:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Generate a zero-knowledge proof of the credit score
+     *
+     * Executes generate_score, or refresh_score when the proof supersedes an
+     * older record. The envelope carries the opening of the commitment
+     * output, which discloses the score to whoever the proof is handed to;
+     * broadcasting the execution registers the commitment without it.
+     *
      * @param assessment - Credit assessment to generate proof for
+     * @param scoreRecord - Record generate_score outputs (see createScoreRecord);
+     *   the holder keeps it for later proofs
      * @param onProgress - Progress callback
-     * @returns Proof result
+     * @param supersedes - Current record of the same owner the new one replaces
+     * @returns Proof envelope
+     * @throws ProofGenerationError if the superseded record is another owner's
      */
     async generateProof(
         assessment: CreditAssessment,
+        scoreRecord: ScoreRecord,
+        onProgress?: (progress: ProofProgress) => void,
+        supersedes?: ScoreRecord
+    ): Promise<ZKProof> {
+        return this.proveScore(
+            assessment,
+            { kind: 'score' },
+            scoreRecord,
+            onProgress,
+            undefined,
+            supersedes
+        );
+    }
+
+    /**
+     * Generate a score range proof
+     *
+     * Proves that the score is within a specific range without revealing it.
+     * Executes prove_range over the private CreditRecord.
+     *
+     * @param assessment - Credit assessment
+     * @param minScore - Minimum score to prove
+     * @param maxScore - Maximum score to prove
+     * @param scoreRecord - Record from generate_score, registered in score_commitments
+     * @param onProgress - Progress callback
+     * @param challenge - Verifier challenge to answer
+     * @returns Proof envelope
+     * @throws ProofGenerationError if the range is invalid or excludes the score
+     */
+    async generateRangeProof(
+        assessment: CreditAssessment,
+        minScore: number,
+        maxScore: number,
+        scoreRecord: ScoreRecord,
+        onProgress?: (progress: ProofProgress) => void,
+        challenge?: ProofChallenge
+    ): Promise<ZKProof> {
+        // Same asserts as prove_range
+        if (
+            minScore < SCORING_CONFIG.MIN_SCORE ||
+            maxScore > SCORING_CONFIG.MAX_SCORE ||
+            minScore > maxScore
+        ) {
+            throw new ProofGenerationError(`Invalid score range: ${minScore}-${maxScore}`);
+        }
+
+        if (assessment.finalScore < minScore || assessment.finalScore > maxScore) {
+            throw new ProofGenerationError('Score is not within the specified range');
+        }
+
+        return this.proveScore(
+            assessment,
+            { kind: 'range', min: minScore, max: maxScore },
+            scoreRecord,
+            onProgress,
+            challenge
+        );
+    }
+
+    /**
+     * Generate a threshold proof
+     *
+     * Proves that the score is above a certain threshold without revealing it.
+     * Executes prove_threshold over the private CreditRecord.
+     *
+     * @param assessment - Credit assessment
+     * @param threshold - Minimum score threshold
+     * @param scoreRecord - Record from generate_score, registered in score_commitments
+     * @param onProgress - Progress callback
+     * @param challenge - Verifier challenge to answer
+     * @returns Proof envelope
+     * @throws ProofGenerationError if the threshold is invalid or not met
+     */
+    async generateThresholdProof(
+        assessment: CreditAssessment,
+        threshold: number,
+        scoreRecord: ScoreRecord,
+        onProgress?: (progress: ProofProgress) => void,
+        challenge?: ProofChallenge
+    ): Promise<ZKProof> {
+        // Same asserts as prove_threshold
+        if (threshold < SCORING_CONFIG.MIN_SCORE || threshold > SCORING_CONFIG.MAX_SCORE) {
+            throw new ProofGenerationError(`Invalid score threshold: ${threshold}`);
+        }
+
+        if (assessment.finalScore < threshold) {
+            throw new ProofGenerationError('Score does not meet the threshold requirement');
+        }
+
+        return this.proveScore(
+            assessment,
+            { kind: 'threshold', threshold },
+            scoreRecord,
+            onProgress,
+            challenge
+        );
+    }
+
+    /**
+     * Generate a claim proof
+     *
+     * Proves min <= value <= max for one committed claim without revealing
+     * the value. Executes prove_claim, whose output is the claim commitment.
+     *
+     * @param claim - Claim record (value and blinding stay private)
+     * @param min - Lower bound (inclusive)
+     * @param max - Upper bound (inclusive)
+     * @param onProgress - Progress callback
+     * @returns Proof envelope
+     * @throws ProofGenerationError if the bounds are invalid or exclude the value
+     */
+    async generateClaimProof(
+        claim: ClaimRecord,
+        min: number,
+        max: number,
+        onProgress?: (progress: ProofProgress) => void
+    ): Promise<ZKProof> {
+        // Same asserts as prove_claim
+        if (!Number.isSafeInteger(min) || !Number.isSafeInteger(max) || min < 0 || min > max) {
+            throw new ProofGenerationError(`Invalid claim bounds: ${min}-${max}`);
+        }
+
+        if (claim.value < min || claim.value > max) {
+            throw new ProofGenerationError('Claim value is not within the specified bounds');
+        }
+
+        const statement: ProofStatement = { kind: 'claim', claim: claim.claim, min, max };
+
+        return this.prove(
+            statement,
+            async () => ({
+                transition: CREDIT_SCORE_PROGRAM.TRANSITIONS.PROVE_CLAIM,
+                inputs: [
+                    `${claim.value}u64`,
+                    `${claim.blinding}scalar`,
+                    ...this.publicInputsFor(statement),
+                ],
+                publicInputs: this.publicInputsFor(statement),
+                commit: () => this.backend.commitments.commitClaim(claim),
+            }),
+            onProgress
+        );
+    }
+
+    /**
+     * Generate an identity proof
+     *
+     * Proves the holder controls `wallets` distinct addresses, each of which
+     * signed the challenge. Executes prove_linked_wallets: addresses and
+     * signatures are private inputs. Nothing about the wallets' scores is
+     * proven: the circuit cannot read the other wallets' records, so their
+     * combined score stays a local estimate. The output commits the primary
+     * wallet to the link (claim LINKED_WALLETS.LINK_CLAIM).
+     *
+     * @param identity - Wallets linked over the verifier's challenge
+     * @param onProgress - Progress callback
+     * @param blinding - Blinding of the link commitment (fresh if omitted)
+     * @returns Proof envelope
+     * @throws ProofGenerationError if there are too many wallets or the
+     * challenge has expired
+     */
+    async generateIdentityProof(
+        identity: LinkedIdentity,
+        onProgress?: (progress: ProofProgress) => void,
+        blinding?: string
+    ): Promise<ZKProof> {
+        const { addresses, signatures, challenge } = identity;
+        const statement: ProofStatement = { kind: 'identity', wallets: addresses.length };
+
+        return this.prove(
+            statement,
+            async () => {
+                // Same asserts as prove_linked_wallets
+                if (addresses.length < 1 || addresses.length > LINKED_WALLETS.MAX_WALLETS) {
+                    throw new ProofGenerationError(
+                        `Identity proofs cover 1 to ${LINKED_WALLETS.MAX_WALLETS} wallets`
+                    );
+                }
+                if (isChallengeExpired(challenge)) {
+                    throw new ProofGenerationError('Challenge has expired');
+                }
+
+                // Unused slots repeat the primary wallet
+                const slots = Array.from(
+                    { length: LINKED_WALLETS.MAX_WALLETS },
+                    (_, i) => signatures[i] ?? signatures[0]!
+                );
+                const claim: ClaimRecord = {
+                    owner: identity.primary,
+                    claim: LINKED_WALLETS.LINK_CLAIM,
+                    value: addresses.length,
+                    blinding: blinding ?? this.backend.commitments.randomBlinding(),
+                };
+                const publicInputs = [
+                    ...this.publicInputsFor(statement),
+                    ...this.challengeInputs(challenge),
+                ];
+
+                return {
+                    transition: CREDIT_SCORE_PROGRAM.TRANSITIONS.PROVE_LINKED_WALLETS,
+                    inputs: [
+                        `[${slots.map((s) => s.address).join(', ')}]`,
+                        `[${slots.map((s) => s.signature).join(', ')}]`,
+                        `${claim.blinding}scalar`,
+                        ...publicInputs,
+                    ],
+                    publicInputs,
+                    commit: () => this.backend.commitments.commitClaim(claim),
+                    challenge,
+                };
+            },
+            onProgress
+        );
+    }
+
+    /**
+     * Verify a zero-knowledge proof
+     *
+     * Checks the envelope, then asks the backend that produced it. With a
+     * challenge, the proof must answer exactly that challenge before it
+     * expires; replayed proofs carry another nonce.
+     *
+     * @param proof - Proof envelope
+     * @param challenge - Challenge the verifier issued for this session
+     * @returns Verification result
+     */
+    async verifyProof(proof: ZKProof, challenge?: ProofChallenge): Promise<VerificationResult> {
+        const invalid: VerificationResult = { isValid: false, timestamp: Date.now() };
+
+        try {
+            if (!proof.proof || !proof.publicInputs || proof.publicInputs.length === 0) {
+                return invalid;
+            }
+
+            if (proof.proofHash !== this.hashProof(proof.proof)) {
+                return invalid;
+            }
+
+            if (!proof.scoreCommitment || proof.commitmentScheme !== this.backend.commitments.id) {
+                return invalid;
+            }
+
+            // The transition and public inputs must be exactly those of the statement
+            if (!this.matchesStatement(proof)) {
+                return invalid;
+            }
+
+            // Score proofs disclose the score by opening the commitment output
+            if (
+                proof.opening &&
+                !(await this.verifyOpening(proof.opening, proof.scoreCommitment))
+            ) {
+                return invalid;
+            }
+
+            if (challenge && !this.answersChallenge(proof, challenge)) {
+                return invalid;
+            }
+
+            if (proof.backend !== this.backend.id) {
+                console.warn(
+                    `[ProofGenerator] Proof from backend "${proof.backend}" cannot be verified by "${this.backend.id}"`
+                );
+                return invalid;
+            }
+
+            const isValid = await this.backend.verify(proof);
+
+            return {
+                isValid,
+                scoreRange: isValid ? this.getScoreRange(proof) : undefined,
+                scoreBlock: isValid ? proof.scoreBlock : undefined,
+                owner: isValid ? proof.owner : undefined,
+                nullifier: isValid ? proof.nullifier : undefined,
+                timestamp: Date.now(),
+            };
+        } catch (error) {
+            console.error('[ProofGenerator] Verification failed:', error);
+            return invalid;
+        }
+    }
+
+    /**
+     * Verify a proof and check it satisfies the statement a lender requires
+     *
+     * A threshold proof satisfies any lower threshold; a range proof
+     * satisfies any threshold below its minimum or any range containing it.
+     * An identity proof only satisfies identity statements with as many or
+     * fewer wallets.
+     *
+     * @param proof - Proof envelope
+     * @param required - Statement the verifier asks for
+     * @param challenge - Challenge the proof must answer
+     * @returns True if the proof is valid and implies `required`
+     */
+    async verifyStatement(
+        proof: ZKProof,
+        required: ProofStatement,
+        challenge?: ProofChallenge
+    ): Promise<boolean> {
+        const result = await this.verifyProof(proof, challenge);
+        if (!result.isValid) {
+            return false;
+        }
+
+        // Identity proofs only imply fewer wallets
+        if (required.kind === 'identity' || proof.statement.kind === 'identity') {
+            const { statement } = proof;
+            return (
+                required.kind === 'identity' &&
+                statement.kind === 'identity' &&
+                statement.wallets >= required.wallets
+            );
+        }
+
+        // Claim proofs only imply wider bounds on the same claim
+        if (required.kind === 'claim') {
+            const { statement } = proof;
+            return (
+                statement.kind === 'claim' &&
+                statement.claim === required.claim &&
+                statement.min >= required.min &&
+                statement.max <= required.max
+            );
+        }
+
+        if (!result.scoreRange) {
+            return false;
+        }
+
+        const { min, max } = result.scoreRange;
+        switch (required.kind) {
+            case 'threshold':
+                return min >= required.threshold;
+            case 'range':
+                return min >= required.min && max <= required.max;
+            case 'score':
+                return proof.statement.kind === 'score';
+        }
+    }
+
+    /**
+     * Prove a statement over the score record of an assessment
+     */
+    private async proveScore(
+        assessment: CreditAssessment,
+        statement: ScoreStatement,
+        record: ScoreRecord,
+        onProgress?: (progress: ProofProgress) => void,
+        challenge?: ProofChallenge,
+        supersedes?: ScoreRecord
+    ): Promise<ZKProof> {
+        return this.prove(
+            statement,
+            async () => {
+                // generate_score implements the integer model only
+                if (!isProvable(assessment)) {
+                    throw new ProofGenerationError(
+                        `Only ${PROVABLE_MODEL} assessments can be proven, got ` +
+                        `${assessment.model.id}@${assessment.model.version}`
+                    );
+                }
+
+                if (
+                    record.owner !== assessment.address ||
+                    record.score !== assessment.finalScore ||
+                    !sameInputs(record.metrics, scoredInputs(assessment))
+                ) {
+                    throw new ProofGenerationError('Score record does not match the assessment');
+                }
+
+                if (challenge && statement.kind === 'score') {
+                    throw new ProofGenerationError('Score proofs cannot answer a challenge');
+                }
+                if (challenge && isChallengeExpired(challenge)) {
+                    throw new ProofGenerationError('Challenge has expired');
+                }
+                if (supersedes && supersedes.owner !== record.owner) {
+                    throw new ProofGenerationError('Superseded record is not owned by the holder');
+                }
+
+                return {
+                    ...this.buildRequest(statement, record, challenge, supersedes),
+                    commit: () => this.backend.commitments.commit(record),
+                    scoreBlock: record.timestamp,
+                    owner: record.owner,
+                    challenge,
+                    opening: statement.kind === 'score' ? await this.open(record) : undefined,
+                    nullifier:
+                        statement.kind === 'score'
+                            ? undefined
+                            : await this.backend.commitments.nullifier(
+                                record.blinding,
+                                challengeFields(challenge).purpose
+                            ),
+                };
+            },
+            onProgress
+        );
+    }
+
+    /**
+     * Build inputs, run the backend and wrap the envelope
+     */
+    private async prove(
+        statement: ProofStatement,
+        prepare: () => Promise<PreparedProof>,
         onProgress?: (progress: ProofProgress) => void
-    ): Promise<ProofResult> {
+    ): Promise<ZKProof> {
+        console.log(`[ProofGenerator] Starting ${statement.kind} proof (${this.backend.id})...`);
+        const startTime = Date.now();
+
         try {
             // Step 1: Prepare inputs
             this.updateProgress(onProgress, {
@@ -92,61 +721,70 @@ export class ProofGenerator {
                 message: 'Preparing proof inputs...',
             });
 
-            await this.delay(500);
+            const {
+                transition,
+                inputs,
+                publicInputs,
+                commit,
+                scoreBlock,
+                challenge,
+                nullifier,
+                owner,
+                opening,
+            } = await prepare();
 
             // Step 2: Generate commitment
             this.updateProgress(onProgress, {
                 status: 'generating',
                 progress: 30,
-                message: 'Generating score commitment...',
-            });
-
-            const scoreCommitment = await this.generateCommitment(assessment);
-            await this.delay(500);
-
-            // Step 3: Build circuit
-            this.updateProgress(onProgress, {
-                status: 'generating',
-                progress: 50,
-                message: 'Building ZK circuit...',
-            });
-
-            await this.delay(800);
-
-            // Step 4: Generate witness
-            this.updateProgress(onProgress, {
-                status: 'generating',
-                progress: 70,
-                message: 'Computing witness...',
+                message: 'Generating commitment...',
             });
 
-            await this.delay(700);
+            const scoreCommitment = await commit();
 
-            // Step 5: Generate proof
+            // Step 3: Run the backend
             this.updateProgress(onProgress, {
                 status: 'generating',
-                progress: 90,
+                progress: 60,
                 message: 'Generating zero-knowledge proof...',
             });
 
-            const proof = await this.computeProof(assessment, scoreCommitment);
-            await this.delay(500);
+            const proof = await this.backend.prove({
+                program: this.program,
+                transition,
+                inputs,
+                publicInputs,
+                commitment: scoreCommitment,
+                nullifier,
+                owner,
+            });
 
-            // Step 6: Complete
+            // Step 4: Complete
             this.updateProgress(onProgress, {
                 status: 'success',
                 progress: 100,
                 message: 'Proof generated successfully!',
             });
 
-            const result: ProofResult = {
-                proof: proof.proofData,
-                publicInputs: proof.publicInputs,
-                timestamp: Date.now(),
+            console.log(`[ProofGenerator] Proof generated in ${Date.now() - startTime}ms`);
+
+            return {
+                backend: this.backend.id,
+                program: this.program,
+                transition,
+                statement,
+                proof,
+                proofHash: this.hashProof(proof),
+                publicInputs,
                 scoreCommitment,
+                commitmentScheme: this.backend.commitments.id,
+                scoreBlock,
+                owner,
+                opening,
+                challenge,
+                nullifier,
+                timestamp: Date.now(),
             };
-
-            return result;
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
@@ -157,159 +795,229 @@ export class ProofGenerator {
                 error: errorMessage,
             });
 
-            throw new Error(`Proof generation failed: ${errorMessage}`);
+            console.error('[ProofGenerator] Proof generation failed:', error);
+            if (error instanceof ProofGenerationError) throw error;
+            throw new ProofGenerationError(`Proof generation failed: ${errorMessage}`, error);
         }
     }
 
     /**
-     * Generate a score range proof
-     * 
-     * Proves that the score is within a specific range without revealing exact value
-     * 
-     * @param assessment - Credit assessment
-     * @param minScore - Minimum score to prove
-     * @param maxScore - Maximum score to prove
-     * @returns Proof result
+     * Map a statement to its transition, private inputs and public inputs
+     *
+     * Every statement over the score record makes the record's block public,
+     * so verifiers can reject expired records. Predicates also take the
+     * challenge's nonce and purpose.
      */
-    async generateRangeProof(
-        assessment: CreditAssessment,
-        minScore: number,
-        maxScore: number,
-        onProgress?: (progress: ProofProgress) => void
-    ): Promise<ProofResult> {
-        // Validate range
-        if (assessment.finalScore < minScore || assessment.finalScore > maxScore) {
-            throw new Error('Score is not within the specified range');
-        }
+    private buildRequest(
+        statement: ScoreStatement,
+        scoreRecord: ScoreRecord,
+        challenge?: ProofChallenge,
+        supersedes?: ScoreRecord
+    ): Omit<ProvingRequest, 'program' | 'commitment'> {
+        const record = toCreditRecordInput(scoreRecord);
+        const scoreBlock = `${scoreRecord.timestamp}u32`;
+        const challenged = [scoreBlock, ...this.predicateInputs(challenge)];
 
-        // Generate proof with range constraints
-        return this.generateProof(assessment, onProgress);
+        switch (statement.kind) {
+            case 'score':
+                return {
+                    transition: supersedes
+                        ? CREDIT_SCORE_PROGRAM.TRANSITIONS.REFRESH_SCORE
+                        : CREDIT_SCORE_PROGRAM.TRANSITIONS.GENERATE_SCORE,
+                    inputs: [
+                        ...(supersedes ? [toCreditRecordInput(supersedes)] : []),
+                        ...toLeoInputs(scoreRecord.metrics),
+                        `${scoreRecord.blinding}scalar`,
+                        `[${scoreRecord.claimBlindings.map((b) => `${b}scalar`).join(', ')}]`,
+                        scoreBlock,
+                    ],
+                    publicInputs: [scoreBlock],
+                };
+            case 'threshold':
+                return {
+                    transition: CREDIT_SCORE_PROGRAM.TRANSITIONS.PROVE_THRESHOLD,
+                    inputs: [record, ...this.publicInputsFor(statement), ...challenged],
+                    publicInputs: [...this.publicInputsFor(statement), ...challenged],
+                };
+            case 'range':
+                return {
+                    transition: CREDIT_SCORE_PROGRAM.TRANSITIONS.PROVE_RANGE,
+                    inputs: [record, ...this.publicInputsFor(statement), ...challenged],
+                    publicInputs: [...this.publicInputsFor(statement), ...challenged],
+                };
+        }
     }
 
     /**
-     * Generate a threshold proof
-     * 
-     * Proves that the score is above a certain threshold
-     * 
-     * @param assessment - Credit assessment
-     * @param threshold - Minimum score threshold
-     * @returns Proof result
+     * Public inputs of a statement, before the record's block and challenge
+     * No statement makes the proven score public
      */
-    async generateThresholdProof(
-        assessment: CreditAssessment,
-        threshold: number,
-        onProgress?: (progress: ProofProgress) => void
-    ): Promise<ProofResult> {
-        // Validate threshold
-        if (assessment.finalScore < threshold) {
-            throw new Error('Score does not meet the threshold requirement');
+    private publicInputsFor(statement: ProofStatement): string[] {
+        switch (statement.kind) {
+            case 'score':
+                return [];
+            case 'threshold':
+                return [`${statement.threshold}u64`];
+            case 'range':
+                return [`${statement.min}u64`, `${statement.max}u64`];
+            case 'claim':
+                return [`${statement.claim}u8`, `${statement.min}u64`, `${statement.max}u64`];
+            case 'identity':
+                return [`${statement.wallets}u8`];
         }
-
-        return this.generateProof(assessment, onProgress);
     }
 
     /**
-     * Verify a zero-knowledge proof
-     * 
-     * @param proof - Proof to verify
-     * @param publicInputs - Public inputs
-     * @returns Verification result
+     * Nonce and purpose inputs of prove_threshold / prove_range / prove_linked_wallets
      */
-    async verifyProof(
-        proof: string,
-        publicInputs: string[]
-    ): Promise<VerificationResult> {
-        try {
-            // In production, this would call the Aleo verification contract
-            // For now, we simulate verification
+    private challengeInputs(challenge?: ProofChallenge): string[] {
+        const { nonce, purpose } = challengeFields(challenge);
+        return [`${nonce}field`, `${purpose}field`];
+    }
 
-            await this.delay(500);
+    /**
+     * Challenge inputs of prove_threshold / prove_range, ending with the
+     * reuse cap the verifier records uses against
+     */
+    private predicateInputs(challenge?: ProofChallenge): string[] {
+        const { maxUses } = challengeFields(challenge);
+        return [...this.challengeInputs(challenge), `${maxUses}u32`];
+    }
 
-            // Mock verification - always returns true for valid format
-            const isValid = proof.length > 0 && publicInputs.length > 0;
+    /**
+     * Check the envelope answers the verifier's own, unexpired challenge
+     */
+    private answersChallenge(proof: ZKProof, challenge: ProofChallenge): boolean {
+        const answered = proof.challenge;
 
-            return {
-                isValid,
-                timestamp: Date.now(),
-            };
-        } catch (error) {
-            console.error('[ProofGenerator] Verification failed:', error);
-            return {
-                isValid: false,
-                timestamp: Date.now(),
-            };
-        }
+        return (
+            answered !== undefined &&
+            answered.verifier === challenge.verifier &&
+            answered.purpose === challenge.purpose &&
+            answered.nonce === challenge.nonce &&
+            answered.maxUses === challenge.maxUses &&
+            !isChallengeExpired(challenge)
+        );
     }
 
     /**
-     * Generate a commitment to the score
-     * 
-     * This creates a cryptographic commitment that can be verified later
-     * without revealing the actual score
+     * Check the envelope's transition and public inputs against its statement
      */
-    private async generateCommitment(assessment: CreditAssessment): Promise<string> {
-        // In production, this would use Aleo's commitment scheme
-        // For now, we create a mock commitment using hash
+    private matchesStatement(proof: ZKProof): boolean {
+        const { statement } = proof;
+        const { TRANSITIONS } = CREDIT_SCORE_PROGRAM;
 
-        const data = JSON.stringify({
-            score: assessment.finalScore,
-            address: assessment.address,
-            timestamp: assessment.timestamp,
-        });
-
-        // Simple hash function (in production, use proper cryptographic hash)
-        let hash = 0;
-        for (let i = 0; i < data.length; i++) {
-            const char = data.charCodeAt(i);
-            hash = ((hash << 5) - hash) + char;
-            hash = hash & hash; // Convert to 32-bit integer
+        // Score record statements end with the record's block and name its owner
+        const isScoreRecord = statement.kind !== 'claim' && statement.kind !== 'identity';
+        if (isScoreRecord && (!Number.isSafeInteger(proof.scoreBlock) || !proof.owner)) {
+            return false;
+        }
+        if (!isScoreRecord && proof.owner !== undefined) {
+            return false;
+        }
+        const scoreBlock = `${proof.scoreBlock}u32`;
+
+        // Only score proofs open their commitment, to the record they name
+        const { opening } = proof;
+        if (statement.kind === 'score') {
+            if (
+                !opening ||
+                opening.commitment !== proof.scoreCommitment ||
+                opening.owner !== proof.owner ||
+                opening.timestamp !== proof.scoreBlock
+            ) {
+                return false;
+            }
+        } else if (opening !== undefined) {
+            return false;
+        }
+
+        // Predicates may answer challenges and always output a nullifier;
+        // identity proofs always answer one, without a nullifier
+        const isPredicate = statement.kind === 'threshold' || statement.kind === 'range';
+        if (isPredicate ? !proof.nullifier : proof.nullifier) {
+            return false;
         }
+        if (statement.kind === 'identity' ? !proof.challenge : !isPredicate && proof.challenge) {
+            return false;
+        }
+
+        switch (statement.kind) {
+            case 'score':
+                return (
+                    (proof.transition === TRANSITIONS.GENERATE_SCORE ||
+                        proof.transition === TRANSITIONS.REFRESH_SCORE) &&
+                    proof.publicInputs.length === 1 &&
+                    proof.publicInputs[0] === scoreBlock
+                );
+            case 'threshold':
+            case 'range':
+            case 'claim': {
+                const transition =
+                    statement.kind === 'threshold'
+                        ? TRANSITIONS.PROVE_THRESHOLD
+                        : statement.kind === 'range'
+                            ? TRANSITIONS.PROVE_RANGE
+                            : TRANSITIONS.PROVE_CLAIM;
+                const expected =
+                    statement.kind === 'claim'
+                        ? this.publicInputsFor(statement)
+                        : [
+                            ...this.publicInputsFor(statement),
+                            scoreBlock,
+                            ...this.predicateInputs(proof.challenge),
+                        ];
+
+                return (
+                    proof.transition === transition &&
+                    proof.publicInputs.length === expected.length &&
+                    expected.every((input, i) => proof.publicInputs[i] === input)
+                );
+            }
+            case 'identity': {
+                const expected = [
+                    ...this.publicInputsFor(statement),
+                    ...this.challengeInputs(proof.challenge),
+                ];
 
-        return `commitment_${Math.abs(hash).toString(16).padStart(16, '0')}`;
+                return (
+                    proof.transition === TRANSITIONS.PROVE_LINKED_WALLETS &&
+                    proof.publicInputs.length === expected.length &&
+                    expected.every((input, i) => proof.publicInputs[i] === input)
+                );
+            }
+        }
     }
 
     /**
-     * Compute the actual ZK proof
-     * 
-     * In production, this would use Aleo SDK to generate the proof
+     * Score range a valid proof attests to
+     * None for claim proofs, nor for identity proofs, which prove wallet
+     * control only.
      */
-    private async computeProof(
-        assessment: CreditAssessment,
-        commitment: string
-    ): Promise<{ proofData: string; publicInputs: string[] }> {
-        // In production, this would:
-        // 1. Compile the Aleo program
-        // 2. Generate witness from private inputs
-        // 3. Generate proof using Aleo's proving system
-
-        // For now, we generate a mock proof
-        const proofData = this.generateMockProof(assessment, commitment);
-
-        const publicInputs = [
-            assessment.address,
-            assessment.riskLevel,
-            commitment,
-            assessment.timestamp.toString(),
-        ];
-
-        return { proofData, publicInputs };
+    private getScoreRange(proof: ZKProof): { min: number; max: number } | undefined {
+        const { statement } = proof;
+
+        switch (statement.kind) {
+            case 'claim':
+            case 'identity':
+                return undefined;
+            case 'threshold':
+                return { min: statement.threshold, max: SCORING_CONFIG.MAX_SCORE };
+            case 'range':
+                return { min: statement.min, max: statement.max };
+            case 'score': {
+                // Opened commitment, checked against generate_score's output
+                const score = proof.opening!.score;
+                return { min: score, max: score };
+            }
+        }
     }
 
     /**
-     * Generate a mock proof for testing
-     * 
-     * TODO: Replace with actual Aleo proof generation
+     * Hash proof for on-chain reference
      */
-    private generateMockProof(assessment: CreditAssessment, commitment: string): string {
-        const proofComponents = [
-            'proof',
-            assessment.address.substring(0, 10),
-            commitment.substring(0, 16),
-            Date.now().toString(36),
-            Math.random().toString(36).substring(2, 15),
-        ];
-
-        return proofComponents.join('_');
+    private hashProof(proof: string): string {
+        return bytesToHex(sha256(utf8ToBytes(proof)));
     }
 
     /**
@@ -324,39 +1032,41 @@ export class ProofGenerator {
         }
     }
 
-    /**
-     * Delay helper for simulating async operations
-     */
-    private delay(ms: number): Promise<void> {
-        return new Promise(resolve => setTimeout(resolve, ms));
-    }
-
     /**
      * Estimate proof generation time
-     * 
+     *
      * @returns Estimated time in milliseconds
      */
     estimateProofTime(): number {
-        // In production, this would depend on:
-        // - Circuit complexity
-        // - Hardware capabilities
-        // - Network conditions
-
-        return 3000; // 3 seconds for mock
+        return this.backend.estimateProofTime();
     }
 
     /**
      * Check if proof generation is supported in current environment
      */
     isSupported(): boolean {
-        // Check if we're in a browser environment
-        if (typeof window === 'undefined') {
+        return this.backend.isSupported();
+    }
+
+    /**
+     * Check if the runtime supports WebAssembly (required by the Aleo backend)
+     *
+     * @returns True if WASM is supported
+     */
+    static isWasmSupported(): boolean {
+        try {
+            if (typeof WebAssembly === 'object' && typeof WebAssembly.instantiate === 'function') {
+                const module = new WebAssembly.Module(
+                    Uint8Array.of(0x0, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00)
+                );
+                if (module instanceof WebAssembly.Module) {
+                    return new WebAssembly.Instance(module) instanceof WebAssembly.Instance;
+                }
+            }
+        } catch (e) {
             return false;
         }
-
-        // Check for required features
-        // In production, check for WebAssembly, WebWorkers, etc.
-        return true;
+        return false;
     }
 }
 
@@ -0,0 +1,357 @@
+/**
+ * Selective Disclosure
+ *
+ * Lets a holder show a lender individual facts about an assessment
+ * ("wallet older than 12 months", "repaymentRate >= 90", "riskLevel is low")
+ * instead of the full CreditAssessment.
+ *
+ * Flow:
+ * 1. createClaimSet: commit to every claim of a score record (score, risk
+ *    level, the metrics it was scored from and the integer model's factor
+ *    scores) with the record's claim blindings. The set stays with the holder.
+ * 2. The holder anchors the claim set's root on-chain (anchor_claims), under
+ *    the record's commitment. The contract recomputes the root from the
+ *    CreditRecord, so claims other than the record's cannot be anchored.
+ * 3. present: reveal some claims (value + blinding) and prove bounds on
+ *    others (prove_claim), without revealing their values.
+ * 4. verify: recompute the root from the presentation's commitments, compare
+ *    it with the anchored root, then check every opening and claim proof.
+ *
+ * @module lib/zk/SelectiveDisclosure
+ */
+
+import { PROVABLE_MODEL, ProofGenerator, isProvable, scoredInputs } from './ProofGenerator';
+import { RISK_LEVELS } from '@/lib/constants';
+import {
+    integerAgeScore,
+    integerBalanceStabilityScore,
+    integerDeFiScore,
+    integerModel,
+    integerRepaymentScore,
+    integerTransactionScore,
+    toLeoInputs,
+} from '@/lib/sdk/models/IntegerModel';
+import type {
+    Claim,
+    ClaimPredicate,
+    ClaimPredicateProof,
+    ClaimSet,
+    CommitmentScheme,
+    CreditAssessment,
+    CredentialPresentation,
+    PresentationRequest,
+    PresentationVerification,
+    RiskLevel,
+    ScoreRecord,
+} from '@/types/sdk';
+import { ProofGenerationError } from '@/types/sdk';
+
+/**
+ * Claim ids used by prove_claim (u8); factor claims start at FACTOR_CLAIM_BASE
+ */
+export const CLAIM_IDS: Readonly<Record<string, number>> = {
+    score: 1,
+    riskLevel: 2,
+    transactionCount: 3,
+    walletAgeMonths: 4,
+    defiScore: 5,
+    repaymentRate: 6,
+    tokenBalance: 7,
+};
+
+const FACTOR_CLAIM_BASE = 16;
+
+/**
+ * Risk levels as claim values, so "riskLevel is low" is `min: RISK_LEVEL_VALUES.low`
+ */
+export const RISK_LEVEL_VALUES: Readonly<Record<RiskLevel, number>> = {
+    high: 0,
+    medium: 1,
+    low: 2,
+};
+
+/**
+ * Root over claim commitments, as anchor_claims computes it
+ *
+ * The commitments are taken in claim id order (stored as `${root}field`).
+ *
+ * @param commitments - Claim name -> commitment
+ * @param scheme - Commitment scheme of the claims
+ * @returns Decimal root
+ * @throws ProofGenerationError for unknown claim names
+ */
+export async function claimsRoot(
+    commitments: Record<string, string>,
+    scheme: CommitmentScheme
+): Promise<string> {
+    const ordered = Object.entries(commitments)
+        .map(([name, commitment]) => ({ id: claimId(name), commitment }))
+        .sort((a, b) => a.id - b.id);
+
+    return scheme.claimsRoot(ordered.map(({ commitment }) => commitment));
+}
+
+/**
+ * prove_claim id of a claim name
+ */
+function claimId(name: string): number {
+    const id = CLAIM_IDS[name];
+    if (id !== undefined) {
+        return id;
+    }
+
+    const factorIndex = integerModel.factors.findIndex((f) => `factor.${f.id}` === name);
+    if (factorIndex === -1) {
+        throw new ProofGenerationError(`Unknown claim: ${name}`);
+    }
+    return FACTOR_CLAIM_BASE + factorIndex;
+}
+
+export class SelectiveDisclosure {
+    private proofGenerator: ProofGenerator;
+
+    /**
+     * @param proofGenerator - Proves claims and supplies the commitment scheme
+     */
+    constructor(proofGenerator: ProofGenerator = ProofGenerator.getInstance()) {
+        this.proofGenerator = proofGenerator;
+    }
+
+    /**
+     * Commit to every claim of a score record
+     *
+     * @param assessment - Credit assessment the record was scored from
+     * @param record - Score record the claims are committed in; anchor_claims only
+     *   accepts a record registered by generate_score
+     * @returns Claim set; keep it private, it opens every claim
+     * @throws ProofGenerationError for assessments prove_claim cannot represent
+     */
+    async createClaimSet(
+        assessment: CreditAssessment,
+        record: ScoreRecord
+    ): Promise<ClaimSet> {
+        // Claim values are u64; the integer model is the provable one
+        if (!isProvable(assessment)) {
+            throw new ProofGenerationError(
+                `Only ${PROVABLE_MODEL} assessments can be presented, got ` +
+                `${assessment.model.id}@${assessment.model.version}`
+            );
+        }
+
+        if (
+            record.owner !== assessment.address ||
+            record.score !== assessment.finalScore ||
+            toLeoInputs(record.metrics).join() !== toLeoInputs(scoredInputs(assessment)).join()
+        ) {
+            throw new ProofGenerationError('Score record does not match the assessment');
+        }
+
+        const { commitments } = this.proofGenerator.getBackend();
+        const claims: Claim[] = [];
+
+        for (const [name, value] of Object.entries(this.claimValues(record))) {
+            const claim = claimId(name);
+            const blinding = record.claimBlindings[this.claimIndex(claim)];
+            if (blinding === undefined) {
+                throw new ProofGenerationError(`Score record has no blinding for claim ${name}`);
+            }
+
+            const opening = { owner: record.owner, claim, value, blinding };
+            claims.push({ ...opening, name, commitment: await commitments.commitClaim(opening) });
+        }
+
+        return {
+            holder: record.owner,
+            model: assessment.model,
+            scheme: commitments.id,
+            claims,
+            root: await claimsRoot(this.commitmentsOf(claims), commitments),
+            record,
+        };
+    }
+
+    /**
+     * Build a presentation for a lender
+     *
+     * @param claimSet - Holder's claim set
+     * @param request - Claims to reveal and predicates to prove
+     * @returns Presentation (commitments, openings and claim proofs)
+     * @throws ProofGenerationError for unknown claims or unsatisfied predicates
+     */
+    async present(
+        claimSet: ClaimSet,
+        request: PresentationRequest
+    ): Promise<CredentialPresentation> {
+        const find = (name: string): Claim => {
+            const claim = claimSet.claims.find((c) => c.name === name);
+            if (!claim) {
+                throw new ProofGenerationError(`Unknown claim: ${name}`);
+            }
+            return claim;
+        };
+
+        const disclosures = (request.reveal ?? []).map((name) => {
+            const { value, blinding } = find(name);
+            return { claim: name, value, blinding };
+        });
+
+        const predicates: ClaimPredicateProof[] = [];
+        for (const predicate of request.prove ?? []) {
+            const claim = find(predicate.claim);
+            const min = predicate.min ?? 0;
+            const max = predicate.max ?? Number.MAX_SAFE_INTEGER;
+
+            predicates.push({
+                claim: claim.name,
+                min,
+                max,
+                proof: await this.proofGenerator.generateClaimProof(claim, min, max),
+            });
+        }
+
+        const { commitments } = this.proofGenerator.getBackend();
+
+        return {
+            holder: claimSet.holder,
+            model: claimSet.model,
+            scheme: claimSet.scheme,
+            scoreCommitment: await commitments.commit(claimSet.record),
+            scoreBlock: claimSet.record.timestamp,
+            commitments: this.commitmentsOf(claimSet.claims),
+            disclosures,
+            predicates,
+            createdAt: Date.now(),
+        };
+    }
+
+    /**
+     * Check a presentation against the root anchored from its score record
+     *
+     * @param presentation - Presentation from the holder
+     * @param anchoredRoot - Root read from the claim_roots mapping
+     * @param required - Predicates the established ranges must imply
+     * @returns Validity and the value range established for each claim
+     */
+    async verify(
+        presentation: CredentialPresentation,
+        anchoredRoot: string | null,
+        required: ClaimPredicate[] = []
+    ): Promise<PresentationVerification> {
+        const invalid = (error: string): PresentationVerification => ({
+            isValid: false,
+            claims: {},
+            error,
+        });
+
+        const { commitments } = this.proofGenerator.getBackend();
+        if (presentation.scheme !== commitments.id) {
+            return invalid(`Unsupported commitment scheme: ${presentation.scheme}`);
+        }
+
+        const claims: PresentationVerification['claims'] = {};
+
+        try {
+            if (
+                !anchoredRoot ||
+                (await claimsRoot(presentation.commitments, commitments)) !== anchoredRoot
+            ) {
+                return invalid('Claim commitments do not match the anchored root');
+            }
+
+            for (const disclosure of presentation.disclosures) {
+                const commitment = await commitments.commitClaim({
+                    owner: presentation.holder,
+                    claim: claimId(disclosure.claim),
+                    value: disclosure.value,
+                    blinding: disclosure.blinding,
+                });
+
+                if (commitment !== presentation.commitments[disclosure.claim]) {
+                    return invalid(`Opening does not match the commitment: ${disclosure.claim}`);
+                }
+                claims[disclosure.claim] = { min: disclosure.value, max: disclosure.value };
+            }
+
+            for (const { claim, min, max, proof } of presentation.predicates) {
+                const implied = await this.proofGenerator.verifyStatement(proof, {
+                    kind: 'claim',
+                    claim: claimId(claim),
+                    min,
+                    max,
+                });
+
+                if (!implied || proof.scoreCommitment !== presentation.commitments[claim]) {
+                    return invalid(`Invalid claim proof: ${claim}`);
+                }
+                claims[claim] = { min, max };
+            }
+        } catch (error) {
+            console.error('[SelectiveDisclosure] Verification failed:', error);
+            return invalid(error instanceof Error ? error.message : 'Verification failed');
+        }
+
+        for (const predicate of required) {
+            const range = claims[predicate.claim];
+            if (
+                !range ||
+                range.min < (predicate.min ?? 0) ||
+                range.max > (predicate.max ?? Number.MAX_SAFE_INTEGER)
+            ) {
+                return invalid(`Required claim not established: ${predicate.claim}`);
+            }
+        }
+
+        return { isValid: true, claims };
+    }
+
+    /**
+     * Claim name -> value for a score record, as anchor_claims computes them
+     */
+    private claimValues(record: ScoreRecord): Record<string, number> {
+        const { metrics } = record;
+        const factorScores = [
+            integerTransactionScore(metrics.txCount, metrics.daysSinceLastTx),
+            integerAgeScore(metrics.walletAgeMonths),
+            integerDeFiScore(metrics.defiScore),
+            integerRepaymentScore(metrics.repaymentRate),
+            integerBalanceStabilityScore(metrics.stableBalance, metrics.volatilityBps),
+        ];
+
+        const values: Record<string, number> = {
+            score: record.score,
+            riskLevel: RISK_LEVEL_VALUES[this.riskLevel(record.score)],
+            transactionCount: metrics.txCount,
+            walletAgeMonths: metrics.walletAgeMonths,
+            defiScore: metrics.defiScore,
+            repaymentRate: metrics.repaymentRate,
+            tokenBalance: metrics.balance,
+        };
+
+        integerModel.factors.forEach((factor, i) => {
+            values[`factor.${factor.id}`] = factorScores[i]!;
+        });
+
+        return values;
+    }
+
+    /**
+     * Risk level on the RISK_LEVELS bands (risk_level_of in main.leo)
+     */
+    private riskLevel(score: number): RiskLevel {
+        if (score >= RISK_LEVELS.LOW.minScore) return 'low';
+        if (score >= RISK_LEVELS.MEDIUM.minScore) return 'medium';
+        return 'high';
+    }
+
+    /**
+     * Position of a claim in the record's claim_blindings
+     */
+    private claimIndex(claim: number): number {
+        const base = Object.keys(CLAIM_IDS).length;
+        return claim >= FACTOR_CLAIM_BASE ? base + claim - FACTOR_CLAIM_BASE : claim - 1;
+    }
+
+    private commitmentsOf(claims: Claim[]): Record<string, string> {
+        return Object.fromEntries(claims.map((claim) => [claim.name, claim.commitment]));
+    }
+}
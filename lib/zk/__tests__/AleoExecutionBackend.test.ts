@@ -0,0 +1,169 @@
+/**
+ * AleoExecutionBackend Unit Tests
+ * Envelope checks against the executed transition (Provable SDK mocked)
+ */
+
+import { AleoExecutionBackend } from '../backends/AleoExecutionBackend';
+import type { ZKProof } from '@/types/sdk';
+
+interface MockTransition {
+    functionName: string;
+    inputs: Array<{ type: string; value?: string }>;
+    outputs: Array<{ type: string; value?: string }>;
+}
+
+const mockVerify = jest.fn();
+const mockDeployment = jest.fn();
+
+jest.mock('@provablehq/sdk', () => ({
+    FunctionExecution: {
+        fromString: (encoded: string) => {
+            const transitions = JSON.parse(encoded) as MockTransition[];
+            return {
+                transitions: () =>
+                    transitions.map((t) => ({
+                        functionName: () => t.functionName,
+                        inputs: () => t.inputs,
+                        outputs: () => t.outputs,
+                    })),
+            };
+        },
+    },
+    VerifyingKey: { fromString: (key: string) => key },
+    Program: { fromString: (source: string) => source },
+    AleoNetworkClient: jest.fn().mockImplementation(() => ({
+        getLatestHeight: async () => 5000,
+        getDeploymentTransactionForProgram: (program: string) => mockDeployment(program),
+    })),
+    verifyFunctionExecution: (...args: unknown[]) => mockVerify(...args),
+}));
+
+const COMMITMENT = '123field';
+const OWNER = 'aleo1owner';
+
+function scoreProof(
+    executedCommitment = COMMITMENT,
+    extraOutputs: MockTransition['outputs'] = []
+): ZKProof {
+    const execution: MockTransition[] = [
+        {
+            functionName: 'generate_score',
+            inputs: [
+                { type: 'private', value: '720u64' },
+                { type: 'public', value: '4200u32' },
+            ],
+            outputs: [
+                { type: 'record' },
+                { type: 'public', value: executedCommitment },
+                ...extraOutputs,
+            ],
+        },
+    ];
+
+    return {
+        backend: 'aleo',
+        program: 'credit_score.aleo',
+        transition: 'generate_score',
+        statement: { kind: 'score' },
+        // A key shipped with the proof must be ignored
+        proof: JSON.stringify({ execution: JSON.stringify(execution), verifyingKey: 'prover-vk' }),
+        proofHash: '',
+        publicInputs: ['4200u32'],
+        scoreCommitment: COMMITMENT,
+        commitmentScheme: 'bhp256',
+        scoreBlock: 4200,
+        owner: OWNER,
+        opening: {
+            owner: OWNER,
+            score: 720,
+            timestamp: 4200,
+            blinding: '42',
+            scheme: 'bhp256',
+            commitment: COMMITMENT,
+        },
+        timestamp: 1700000000000,
+    };
+}
+
+describe('AleoExecutionBackend', () => {
+    let backend: AleoExecutionBackend;
+
+    beforeEach(() => {
+        mockVerify.mockReset().mockReturnValue(true);
+        mockDeployment.mockReset().mockResolvedValue({
+            deployment: {
+                verifying_keys: [
+                    ['generate_score', ['deployed-vk', 'certificate']],
+                    ['prove_threshold', ['threshold-vk', 'certificate']],
+                ],
+            },
+        });
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        backend = new AleoExecutionBackend({ privateKey: 'APrivateKey1', programSource: 'src' });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('score statements', () => {
+        it('should verify an execution whose only public output is the commitment', async () => {
+            await expect(backend.verify(scoreProof())).resolves.toBe(true);
+            expect(mockVerify).toHaveBeenCalled();
+        });
+
+        it('should reject a commitment the execution did not output', async () => {
+            await expect(backend.verify(scoreProof('456field'))).resolves.toBe(false);
+            expect(mockVerify).not.toHaveBeenCalled();
+        });
+
+        it('should reject executions that make the score or owner public', async () => {
+            const proof = scoreProof(COMMITMENT, [
+                { type: 'public', value: '720u64' },
+                { type: 'public', value: OWNER },
+            ]);
+
+            await expect(backend.verify(proof)).resolves.toBe(false);
+            expect(mockVerify).not.toHaveBeenCalled();
+        });
+
+        it('should reject a tampered score block', async () => {
+            const proof = { ...scoreProof(), scoreBlock: 4300 };
+
+            await expect(backend.verify(proof)).resolves.toBe(false);
+        });
+    });
+
+    describe('verifying keys', () => {
+        it('should verify with the deployed key, not the one in the proof', async () => {
+            await backend.verify(scoreProof());
+            await backend.verify(scoreProof());
+
+            expect(mockDeployment).toHaveBeenCalledTimes(1);
+            expect(mockDeployment).toHaveBeenCalledWith('credit_score.aleo');
+            expect(mockVerify.mock.calls.map((call) => call[1])).toEqual([
+                'deployed-vk',
+                'deployed-vk',
+            ]);
+        });
+
+        it('should prefer configured keys over the deployment', async () => {
+            backend = new AleoExecutionBackend({
+                privateKey: 'APrivateKey1',
+                programSource: 'src',
+                verifyingKeys: { generate_score: 'local-vk' },
+            });
+
+            await expect(backend.verify(scoreProof())).resolves.toBe(true);
+            expect(mockDeployment).not.toHaveBeenCalled();
+            expect(mockVerify.mock.calls[0]?.[1]).toBe('local-vk');
+        });
+
+        it('should reject proofs of transitions the program has no key for', async () => {
+            mockDeployment.mockResolvedValue({ deployment: { verifying_keys: [] } });
+
+            await expect(backend.verify(scoreProof())).resolves.toBe(false);
+            expect(mockVerify).not.toHaveBeenCalled();
+        });
+    });
+});
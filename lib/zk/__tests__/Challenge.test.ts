@@ -0,0 +1,65 @@
+/**
+ * Challenge Unit Tests
+ */
+
+import { challengeFields, createChallenge, isChallengeExpired, purposeField } from '../Challenge';
+
+describe('Challenge', () => {
+    describe('createChallenge', () => {
+        it('should issue a fresh nonce per challenge', () => {
+            const first = createChallenge('aleo1lender', 'loan-application');
+            const second = createChallenge('aleo1lender', 'loan-application');
+
+            expect(first.nonce).toMatch(/^\d+$/);
+            expect(first.nonce).not.toBe(second.nonce);
+            expect(BigInt(first.nonce)).toBeLessThan(2n ** 248n);
+        });
+
+        it('should default to unlimited uses and a five minute lifetime', () => {
+            const now = Date.now();
+            const challenge = createChallenge('aleo1lender', 'loan-application');
+
+            expect(challenge.maxUses).toBe(0);
+            expect(challenge.expiresAt).toBeGreaterThanOrEqual(now + 5 * 60 * 1000);
+            expect(isChallengeExpired(challenge)).toBe(false);
+            expect(isChallengeExpired(challenge, challenge.expiresAt + 1)).toBe(true);
+        });
+
+        it('should reject invalid options', () => {
+            expect(() => createChallenge('', 'loan-application')).toThrow('verifier and a purpose');
+            expect(() =>
+                createChallenge('aleo1lender', 'loan-application', { maxUses: -1 })
+            ).toThrow('Invalid maxUses');
+            expect(() =>
+                createChallenge('aleo1lender', 'loan-application', { ttlMs: 0 })
+            ).toThrow('Invalid challenge lifetime');
+        });
+    });
+
+    describe('challengeFields', () => {
+        it('should use zero fields for unchallenged proofs', () => {
+            expect(challengeFields()).toEqual({ nonce: '0', purpose: '0', maxUses: 0 });
+        });
+
+        it('should scope the purpose to the verifier and carry the cap', () => {
+            const challenge = createChallenge('aleo1lender', 'loan-application', { maxUses: 2 });
+
+            expect(challengeFields(challenge)).toEqual({
+                nonce: challenge.nonce,
+                purpose: purposeField('aleo1lender', 'loan-application'),
+                maxUses: 2,
+            });
+            expect(purposeField('aleo1other', 'loan-application')).not.toBe(
+                purposeField('aleo1lender', 'loan-application')
+            );
+        });
+
+        it('should reject malformed nonces', () => {
+            const challenge = createChallenge('aleo1lender', 'loan-application');
+
+            expect(() => challengeFields({ ...challenge, nonce: '1field, 2' })).toThrow(
+                'Invalid challenge nonce'
+            );
+        });
+    });
+});
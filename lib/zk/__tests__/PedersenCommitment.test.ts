@@ -0,0 +1,82 @@
+/**
+ * PedersenCommitment Unit Tests
+ */
+
+import { PedersenCommitment } from '../commitments/PedersenCommitment';
+import type { CommittedScore } from '@/types/sdk';
+
+describe('PedersenCommitment', () => {
+    const scheme = new PedersenCommitment();
+    let record: CommittedScore;
+
+    beforeEach(() => {
+        record = {
+            owner: 'aleo1test123',
+            score: 728,
+            timestamp: 0,
+            blinding: scheme.randomBlinding(),
+        };
+    });
+
+    it('should be deterministic for the same record', async () => {
+        const commitment = await scheme.commit(record);
+
+        expect(commitment).toMatch(/^[0-9a-f]{64}$/);
+        expect(await scheme.commit({ ...record })).toBe(commitment);
+    });
+
+    it('should hide the score behind the blinding factor', async () => {
+        const other = { ...record, blinding: scheme.randomBlinding() };
+
+        expect(await scheme.commit(other)).not.toBe(await scheme.commit(record));
+    });
+
+    it('should bind every committed field', async () => {
+        const commitment = await scheme.commit(record);
+        const variants: CommittedScore[] = [
+            { ...record, score: record.score + 1 },
+            { ...record, owner: 'aleo1other456' },
+            { ...record, timestamp: 1 },
+            { ...record, blinding: (BigInt(record.blinding) + 1n).toString() },
+        ];
+
+        for (const variant of variants) {
+            expect(await scheme.commit(variant)).not.toBe(commitment);
+        }
+    });
+
+    it('should separate claim commitments from score commitments', async () => {
+        const claim = {
+            owner: record.owner,
+            claim: 1,
+            value: record.score,
+            blinding: record.blinding,
+        };
+
+        expect(await scheme.commitClaim(claim)).not.toBe(await scheme.commit(record));
+        expect(await scheme.commitClaim({ ...claim, claim: 2 })).not.toBe(
+            await scheme.commitClaim(claim)
+        );
+    });
+
+    it('should derive nullifiers from the blinding and purpose only', async () => {
+        const nullifier = await scheme.nullifier(record.blinding, '42');
+
+        expect(nullifier).toMatch(/^\d+field$/);
+        expect(await scheme.nullifier(record.blinding, '42')).toBe(nullifier);
+        expect(await scheme.nullifier(record.blinding, '43')).not.toBe(nullifier);
+        expect(await scheme.nullifier(scheme.randomBlinding(), '42')).not.toBe(nullifier);
+    });
+
+    it('should reject values outside the scalar field', async () => {
+        await expect(scheme.commit({ ...record, score: -1 })).rejects.toMatchObject({
+            code: 'INVALID_COMMITMENT_INPUT',
+        });
+        await expect(scheme.commit({ ...record, blinding: 'not-a-number' })).rejects.toMatchObject({
+            code: 'INVALID_COMMITMENT_INPUT',
+        });
+        await expect(
+            scheme.commit({ ...record, blinding: (2n ** 256n).toString() })
+        ).rejects.toMatchObject({ code: 'INVALID_COMMITMENT_INPUT' });
+    });
+});
@@ -0,0 +1,736 @@
+/**
+ * ProofGenerator Unit Tests
+ * Production-grade testing for ZK proof generation
+ */
+
+import { ProofGenerator, toCreditRecordInput } from '../ProofGenerator';
+import { MockBackend } from '../backends/MockBackend';
+import { createChallenge, purposeField } from '../Challenge';
+import { PedersenCommitment } from '../commitments/PedersenCommitment';
+import { ScoringEngine } from '@/lib/sdk/ScoringEngine';
+import { tieredModel } from '@/lib/sdk/models/TieredModel';
+import { mergeWalletMetrics } from '@/lib/sdk/identity/MergeMetrics';
+import type {
+    LinkedIdentity,
+    ProvingBackend,
+    ScoreRecord,
+    WalletMetrics,
+    ZKProof,
+} from '@/types/sdk';
+
+describe('ProofGenerator', () => {
+    let generator: ProofGenerator;
+    let mockAssessment: ReturnType<typeof ScoringEngine.calculateScore>;
+    const newRecord = () => generator.createScoreRecord(mockAssessment);
+
+    const metrics: WalletMetrics = {
+        address: 'aleo1test123',
+        transactionCount: 25,
+        walletAgeMonths: 12,
+        defiScore: 65,
+        repaymentRate: 85,
+        tokenBalance: 10000,
+        lastTransactionDate: Date.now(),
+    };
+
+    beforeEach(() => {
+        generator = new ProofGenerator(new MockBackend({ latencyMs: 0 }));
+        mockAssessment = ScoringEngine.calculateScore(metrics);
+    });
+
+    describe('generateProof', () => {
+        it('should generate valid ZK proof', async () => {
+            const proof = await generator.generateProof(mockAssessment, newRecord());
+
+            expect(proof).toMatchObject({
+                backend: 'mock',
+                program: 'credit_score.aleo',
+                transition: 'generate_score',
+                statement: { kind: 'score' },
+            });
+            expect(proof.proofHash).toMatch(/^[0-9a-f]{64}$/);
+            expect(proof.scoreCommitment).toMatch(/^[0-9a-f]{64}$/);
+            expect(proof.commitmentScheme).toBe('pedersen-ristretto255');
+            expect(proof.publicInputs.length).toBeGreaterThan(0);
+        });
+
+        it('should keep the score and owner out of the public inputs', async () => {
+            const proof = await generator.generateProof(mockAssessment, newRecord());
+
+            expect(proof.publicInputs).toEqual(['0u32']);
+            expect(proof.publicInputs).not.toContain(mockAssessment.finalScore.toString());
+            expect(proof.publicInputs).not.toContain(mockAssessment.address);
+        });
+
+        it('should disclose the score through the commitment opening', async () => {
+            const proof = await generator.generateProof(mockAssessment, newRecord());
+
+            expect(proof.opening).toMatchObject({
+                score: mockAssessment.finalScore,
+                owner: mockAssessment.address,
+                commitment: proof.scoreCommitment,
+            });
+            await expect(generator.verifyProof(proof)).resolves.toMatchObject({
+                isValid: true,
+                scoreRange: { min: mockAssessment.finalScore, max: mockAssessment.finalScore },
+            });
+        });
+
+        it('should reject a score proof whose opening was altered', async () => {
+            const proof = await generator.generateProof(mockAssessment, newRecord());
+            const altered = { ...proof, opening: { ...proof.opening!, score: 850 } };
+
+            await expect(generator.verifyProof(altered)).resolves.toMatchObject({
+                isValid: false,
+            });
+        });
+
+        it('should pass the generate_score inputs to the backend', async () => {
+            const backend: ProvingBackend = {
+                id: 'spy',
+                commitments: new PedersenCommitment(),
+                prove: jest.fn().mockResolvedValue('spyproof'),
+                verify: jest.fn().mockResolvedValue(true),
+                estimateProofTime: () => 0,
+                isSupported: () => true,
+            };
+
+            const spyGenerator = new ProofGenerator(backend);
+            const record = spyGenerator.createScoreRecord(mockAssessment, 4200);
+            const proof = await spyGenerator.generateProof(mockAssessment, record);
+
+            expect(backend.prove).toHaveBeenCalledWith({
+                program: 'credit_score.aleo',
+                transition: 'generate_score',
+                inputs: [
+                    '25u64',
+                    '12u64',
+                    '65u64',
+                    '85u64',
+                    '10000u64',
+                    '0u64',
+                    '10000u64',
+                    '0u64',
+                    '0u64',
+                    `${record.blinding}scalar`,
+                    `[${record.claimBlindings.map((b) => `${b}scalar`).join(', ')}]`,
+                    '4200u32',
+                ],
+                publicInputs: ['4200u32'],
+                commitment: proof.scoreCommitment,
+                owner: mockAssessment.address,
+            });
+        });
+
+        it('should consume the superseded record through refresh_score', async () => {
+            const previous = generator.createScoreRecord(mockAssessment, 4100);
+            const record = generator.createScoreRecord(mockAssessment, 4200);
+
+            const proof = await generator.generateProof(
+                mockAssessment,
+                record,
+                undefined,
+                previous
+            );
+
+            expect(proof.transition).toBe('refresh_score');
+            expect(proof.publicInputs).toEqual(['4200u32']);
+            await expect(generator.verifyProof(proof)).resolves.toMatchObject({
+                isValid: true,
+                scoreBlock: 4200,
+            });
+        });
+
+        it('should not supersede another owner\'s record', async () => {
+            const previous = {
+                ...generator.createScoreRecord(mockAssessment),
+                owner: 'aleo1other',
+            };
+
+            await expect(
+                generator.generateProof(
+                    mockAssessment,
+                    generator.createScoreRecord(mockAssessment),
+                    undefined,
+                    previous
+                )
+            ).rejects.toThrow('Superseded record is not owned by the holder');
+        });
+
+        it('should report progress through to completion', async () => {
+            const progress: number[] = [];
+
+            await generator.generateProof(mockAssessment, newRecord(), (update) =>
+                progress.push(update.progress)
+            );
+
+            expect(progress[progress.length - 1]).toBe(100);
+            expect([...progress].sort((a, b) => a - b)).toEqual(progress);
+        });
+
+        it('should generate unique proofs for same assessment', async () => {
+            const proof1 = await generator.generateProof(mockAssessment, newRecord());
+            const proof2 = await generator.generateProof(mockAssessment, newRecord());
+
+            // Proofs should be different (due to random nonce)
+            expect(proof1.proofHash).not.toBe(proof2.proofHash);
+        });
+
+        it('should reject assessments from models the contract does not implement', async () => {
+            const assessment = ScoringEngine.calculateScore(metrics, tieredModel);
+
+            await expect(
+                generator.generateProof(assessment, generator.createScoreRecord(assessment))
+            ).rejects.toThrow('Only proofscore-integer@2.0.0 assessments can be proven');
+        });
+    });
+
+    describe('generateThresholdProof / generateRangeProof', () => {
+        it('should record the statement in the envelope', async () => {
+            const threshold = await generator.generateThresholdProof(
+                mockAssessment,
+                500,
+                newRecord()
+            );
+            const range = await generator.generateRangeProof(mockAssessment, 500, 800, newRecord());
+
+            expect(threshold).toMatchObject({
+                transition: 'prove_threshold',
+                statement: { kind: 'threshold', threshold: 500 },
+                publicInputs: ['500u64', '0u32', '0field', '0field', '0u32'],
+            });
+            expect(range).toMatchObject({
+                transition: 'prove_range',
+                statement: { kind: 'range', min: 500, max: 800 },
+                publicInputs: ['500u64', '800u64', '0u32', '0field', '0field', '0u32'],
+            });
+        });
+
+        it('should never expose the score or risk level', async () => {
+            const proofs = [
+                await generator.generateThresholdProof(mockAssessment, 500, newRecord()),
+                await generator.generateRangeProof(mockAssessment, 500, 800, newRecord()),
+            ];
+
+            for (const proof of proofs) {
+                const serialized = JSON.stringify(proof.publicInputs);
+                expect(serialized).not.toContain(String(mockAssessment.finalScore));
+                expect(serialized).not.toContain(mockAssessment.riskLevel);
+                expect(serialized).not.toContain(mockAssessment.address);
+            }
+        });
+
+        it('should pass the private CreditRecord to the predicate transition', async () => {
+            const backend: ProvingBackend = {
+                id: 'spy',
+                commitments: new PedersenCommitment(),
+                prove: jest.fn().mockResolvedValue('spyproof'),
+                verify: jest.fn().mockResolvedValue(true),
+                estimateProofTime: () => 0,
+                isSupported: () => true,
+            };
+
+            const spyGenerator = new ProofGenerator(backend);
+            const record = spyGenerator.createScoreRecord(mockAssessment, 4200);
+            await spyGenerator.generateThresholdProof(mockAssessment, 600, record);
+
+            expect(backend.prove).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    transition: 'prove_threshold',
+                    inputs: [
+                        toCreditRecordInput(record),
+                        '600u64',
+                        '4200u32',
+                        '0field',
+                        '0field',
+                        '0u32',
+                    ],
+                    publicInputs: ['600u64', '4200u32', '0field', '0field', '0u32'],
+                    owner: mockAssessment.address,
+                })
+            );
+        });
+
+        it('should refuse statements the score does not satisfy', async () => {
+            await expect(
+                generator.generateThresholdProof(
+                    mockAssessment,
+                    mockAssessment.finalScore + 1,
+                    newRecord()
+                )
+            ).rejects.toThrow('threshold');
+            await expect(
+                generator.generateRangeProof(mockAssessment, 300, 400, newRecord())
+            ).rejects.toThrow('range');
+        });
+
+        it('should refuse a record for a different score', async () => {
+            const record: ScoreRecord = {
+                ...generator.createScoreRecord(mockAssessment),
+                score: 850,
+            };
+
+            await expect(
+                generator.generateThresholdProof(mockAssessment, 500, record)
+            ).rejects.toThrow('Score record does not match the assessment');
+        });
+
+        it('should refuse a record scored from other metrics', async () => {
+            const record = generator.createScoreRecord(mockAssessment);
+            const inflated = { ...record, metrics: { ...record.metrics, walletAgeMonths: 36 } };
+
+            await expect(
+                generator.generateThresholdProof(mockAssessment, 500, inflated)
+            ).rejects.toThrow('Score record does not match the assessment');
+        });
+
+        it('should refuse bounds the contract would reject', async () => {
+            await expect(
+                generator.generateThresholdProof(mockAssessment, 200, newRecord())
+            ).rejects.toThrow('Invalid score threshold');
+            await expect(
+                generator.generateRangeProof(mockAssessment, 800, 500, newRecord())
+            ).rejects.toThrow('Invalid score range');
+            await expect(
+                generator.generateRangeProof(mockAssessment, 500, 900, newRecord())
+            ).rejects.toThrow('Invalid score range');
+        });
+    });
+
+    describe('verifyProof', () => {
+        let proof: ZKProof;
+
+        beforeEach(async () => {
+            proof = await generator.generateProof(mockAssessment, newRecord());
+        });
+
+        it('should verify valid proof', async () => {
+            const result = await generator.verifyProof(proof);
+
+            expect(result.isValid).toBe(true);
+            expect(result.scoreRange).toEqual({
+                min: mockAssessment.finalScore,
+                max: mockAssessment.finalScore,
+            });
+        });
+
+        it('should report the proven range for threshold proofs', async () => {
+            const threshold = await generator.generateThresholdProof(
+                mockAssessment,
+                500,
+                newRecord()
+            );
+            const result = await generator.verifyProof(threshold);
+
+            expect(result.scoreRange).toEqual({ min: 500, max: 850 });
+        });
+
+        it('should reject proof with mismatched hash', async () => {
+            const result = await generator.verifyProof({ ...proof, proofHash: '' });
+            expect(result.isValid).toBe(false);
+        });
+
+        it('should reject proof with tampered public inputs', async () => {
+            const tampered = { ...proof, publicInputs: ['850', ...proof.publicInputs.slice(1)] };
+
+            const result = await generator.verifyProof(tampered);
+            expect(result.isValid).toBe(false);
+        });
+
+        it('should reject proof with missing public inputs', async () => {
+            const result = await generator.verifyProof({ ...proof, publicInputs: [] });
+            expect(result.isValid).toBe(false);
+        });
+
+        it('should reject a threshold proof relabelled with a higher threshold', async () => {
+            const threshold = await generator.generateThresholdProof(
+                mockAssessment,
+                500,
+                newRecord()
+            );
+            const relabelled: ZKProof = {
+                ...threshold,
+                statement: { kind: 'threshold', threshold: 800 },
+                publicInputs: ['800u64', '0u32', '0field', '0field', '0u32'],
+            };
+
+            const result = await generator.verifyProof(relabelled);
+            expect(result.isValid).toBe(false);
+        });
+
+        it('should reject a statement that disagrees with its public inputs', async () => {
+            const threshold = await generator.generateThresholdProof(
+                mockAssessment,
+                500,
+                newRecord()
+            );
+            const relabelled: ZKProof = {
+                ...threshold,
+                statement: { kind: 'threshold', threshold: 800 },
+            };
+
+            const result = await generator.verifyProof(relabelled);
+            expect(result.isValid).toBe(false);
+        });
+
+        it('should reject proof with a swapped commitment', async () => {
+            const other = await generator.generateProof(mockAssessment, newRecord());
+
+            const result = await generator.verifyProof({
+                ...proof,
+                scoreCommitment: other.scoreCommitment,
+            });
+            expect(result.isValid).toBe(false);
+        });
+
+        it('should reject proof with a tampered score block', async () => {
+            const threshold = await generator.generateThresholdProof(
+                mockAssessment,
+                500,
+                generator.createScoreRecord(mockAssessment, 100)
+            );
+
+            expect((await generator.verifyProof(threshold)).scoreBlock).toBe(100);
+            expect((await generator.verifyProof({ ...threshold, scoreBlock: 200 })).isValid).toBe(
+                false
+            );
+            expect(
+                (await generator.verifyProof({ ...threshold, scoreBlock: undefined })).isValid
+            ).toBe(false);
+        });
+
+        it('should reject proofs relabelled with another owner', async () => {
+            const threshold = await generator.generateThresholdProof(
+                mockAssessment,
+                500,
+                newRecord()
+            );
+
+            expect((await generator.verifyProof(threshold)).owner).toBe(mockAssessment.address);
+            for (const owner of ['aleo1other', undefined]) {
+                expect((await generator.verifyProof({ ...threshold, owner })).isValid).toBe(false);
+                expect((await generator.verifyProof({ ...proof, owner })).isValid).toBe(false);
+            }
+        });
+
+        it('should reject proofs produced by another backend', async () => {
+            const result = await generator.verifyProof({ ...proof, backend: 'aleo' });
+            expect(result.isValid).toBe(false);
+        });
+    });
+
+    describe('challenges', () => {
+        const challenge = createChallenge('aleo1lender', 'loan-application', { maxUses: 1 });
+        let record: ScoreRecord;
+
+        beforeEach(() => {
+            record = generator.createScoreRecord(mockAssessment);
+        });
+
+        it('should bind the nonce, purpose and reuse cap as public inputs', async () => {
+            const proof = await generator.generateThresholdProof(
+                mockAssessment,
+                600,
+                record,
+                undefined,
+                challenge
+            );
+
+            expect(proof.publicInputs).toEqual([
+                '600u64',
+                '0u32',
+                `${challenge.nonce}field`,
+                `${purposeField('aleo1lender', 'loan-application')}field`,
+                `${challenge.maxUses}u32`,
+            ]);
+            expect(proof.challenge).toEqual(challenge);
+            expect((await generator.verifyProof(proof, challenge)).isValid).toBe(true);
+        });
+
+        it('should reject a proof replayed against another challenge', async () => {
+            const proof = await generator.generateThresholdProof(
+                mockAssessment,
+                600,
+                record,
+                undefined,
+                challenge
+            );
+            const next = createChallenge('aleo1lender', 'loan-application', { maxUses: 1 });
+            const unchallenged = await generator.generateThresholdProof(
+                mockAssessment,
+                600,
+                newRecord()
+            );
+
+            expect((await generator.verifyProof(proof, next)).isValid).toBe(false);
+            expect((await generator.verifyProof(unchallenged, challenge)).isValid).toBe(false);
+            expect(
+                (await generator.verifyProof({ ...proof, challenge: next }, next)).isValid
+            ).toBe(false);
+            await expect(
+                generator.verifyStatement(proof, { kind: 'threshold', threshold: 600 }, next)
+            ).resolves.toBe(false);
+        });
+
+        it('should reject a proof presented under another reuse cap', async () => {
+            const proof = await generator.generateThresholdProof(
+                mockAssessment,
+                600,
+                record,
+                undefined,
+                challenge
+            );
+            const uncapped = { ...challenge, maxUses: 0 };
+
+            expect((await generator.verifyProof(proof, uncapped)).isValid).toBe(false);
+            expect(
+                (await generator.verifyProof({ ...proof, challenge: uncapped }, uncapped)).isValid
+            ).toBe(false);
+        });
+
+        it('should reject expired challenges', async () => {
+            const expired = { ...challenge, expiresAt: Date.now() - 1 };
+
+            await expect(
+                generator.generateRangeProof(mockAssessment, 600, 800, record, undefined, expired)
+            ).rejects.toThrow('Challenge has expired');
+
+            const proof = await generator.generateRangeProof(
+                mockAssessment,
+                600,
+                800,
+                record,
+                undefined,
+                challenge
+            );
+            expect((await generator.verifyProof(proof, expired)).isValid).toBe(false);
+        });
+
+        it('should derive one nullifier per record and purpose', async () => {
+            const prove = (c = challenge, r = record) =>
+                generator.generateThresholdProof(mockAssessment, 600, r, undefined, c);
+            const first = await prove();
+            const again = await prove(
+                createChallenge('aleo1lender', 'loan-application', { maxUses: 1 })
+            );
+            const otherPurpose = await prove(createChallenge('aleo1lender', 'card-application'));
+            const otherRecord = await prove(challenge, generator.createScoreRecord(mockAssessment));
+
+            expect(first.nullifier).toMatch(/^\d+field$/);
+            expect(again.nullifier).toBe(first.nullifier);
+            expect(otherPurpose.nullifier).not.toBe(first.nullifier);
+            expect(otherRecord.nullifier).not.toBe(first.nullifier);
+        });
+
+        it('should reject a swapped nullifier', async () => {
+            const proof = await generator.generateThresholdProof(
+                mockAssessment,
+                600,
+                record,
+                undefined,
+                challenge
+            );
+
+            const result = await generator.verifyProof({ ...proof, nullifier: '1field' });
+            expect(result.isValid).toBe(false);
+        });
+    });
+
+    describe('verifyStatement', () => {
+        it('should accept proofs that imply the required statement', async () => {
+            const threshold = await generator.generateThresholdProof(
+                mockAssessment,
+                600,
+                newRecord()
+            );
+            const range = await generator.generateRangeProof(mockAssessment, 600, 750, newRecord());
+
+            await expect(
+                generator.verifyStatement(threshold, { kind: 'threshold', threshold: 550 })
+            ).resolves.toBe(true);
+            await expect(
+                generator.verifyStatement(range, { kind: 'threshold', threshold: 600 })
+            ).resolves.toBe(true);
+            await expect(
+                generator.verifyStatement(range, { kind: 'range', min: 500, max: 800 })
+            ).resolves.toBe(true);
+        });
+
+        it('should reject proofs weaker than the required statement', async () => {
+            const threshold = await generator.generateThresholdProof(
+                mockAssessment,
+                600,
+                newRecord()
+            );
+
+            await expect(
+                generator.verifyStatement(threshold, { kind: 'threshold', threshold: 650 })
+            ).resolves.toBe(false);
+            await expect(
+                generator.verifyStatement(threshold, { kind: 'range', min: 600, max: 700 })
+            ).resolves.toBe(false);
+        });
+    });
+
+    describe('generateIdentityProof', () => {
+        const challenge = createChallenge('aleo1lender', 'loan-application');
+        const identity: LinkedIdentity = {
+            primary: 'aleo1test123',
+            addresses: ['aleo1test123', 'aleo1second'],
+            challenge,
+            signatures: [
+                { address: 'aleo1test123', signature: 'sign1first' },
+                { address: 'aleo1second', signature: 'sign1second' },
+            ],
+            linkedAt: Date.now(),
+        };
+
+        it('should disclose only the wallet count and challenge', async () => {
+            const proof = await generator.generateIdentityProof(identity);
+
+            expect(proof).toMatchObject({
+                transition: 'prove_linked_wallets',
+                statement: { kind: 'identity', wallets: 2 },
+                publicInputs: [
+                    '2u8',
+                    `${challenge.nonce}field`,
+                    `${purposeField('aleo1lender', 'loan-application')}field`,
+                ],
+            });
+            expect(proof.nullifier).toBeUndefined();
+            expect(JSON.stringify(proof.publicInputs)).not.toContain('aleo1');
+            expect((await generator.verifyProof(proof, challenge)).isValid).toBe(true);
+        });
+
+        it('should not carry or attest to the combined score', async () => {
+            const linked = ScoringEngine.calculateScore(
+                mergeWalletMetrics([metrics, { ...metrics, address: 'aleo1second' }])
+            );
+            const proof = await generator.generateIdentityProof(identity);
+            const result = await generator.verifyProof(proof, challenge);
+
+            expect(result.isValid).toBe(true);
+            expect(result.scoreRange).toBeUndefined();
+            expect(proof.publicInputs).not.toContain(`${linked.finalScore}u64`);
+        });
+
+        it('should pad the private address and signature slots with the primary', async () => {
+            const backend: ProvingBackend = {
+                id: 'spy',
+                commitments: new PedersenCommitment(),
+                prove: jest.fn().mockResolvedValue('spyproof'),
+                verify: jest.fn().mockResolvedValue(true),
+                estimateProofTime: () => 0,
+                isSupported: () => true,
+            };
+
+            await new ProofGenerator(backend).generateIdentityProof(identity, undefined, '7');
+
+            const { inputs } = (backend.prove as jest.Mock).mock.calls[0][0];
+            expect(inputs.slice(0, 3)).toEqual([
+                '[aleo1test123, aleo1second, aleo1test123, aleo1test123]',
+                '[sign1first, sign1second, sign1first, sign1first]',
+                '7scalar',
+            ]);
+        });
+
+        it('should only imply weaker identity statements', async () => {
+            const proof = await generator.generateIdentityProof(identity);
+            const verify = (required: Parameters<typeof generator.verifyStatement>[1]) =>
+                generator.verifyStatement(proof, required, challenge);
+
+            await expect(verify({ kind: 'identity', wallets: 1 })).resolves.toBe(true);
+            await expect(verify({ kind: 'identity', wallets: 2 })).resolves.toBe(true);
+            await expect(verify({ kind: 'identity', wallets: 3 })).resolves.toBe(false);
+            await expect(verify({ kind: 'threshold', threshold: 600 })).resolves.toBe(false);
+        });
+
+        it('should reject relabelled or unchallenged identity proofs', async () => {
+            const proof = await generator.generateIdentityProof(identity);
+            const relabelled: ZKProof = {
+                ...proof,
+                statement: { kind: 'identity', wallets: 3 },
+            };
+
+            expect((await generator.verifyProof(relabelled)).isValid).toBe(false);
+            expect((await generator.verifyProof({ ...proof, challenge: undefined })).isValid).toBe(
+                false
+            );
+        });
+    });
+
+    describe('open / verifyOpening', () => {
+        let record: ScoreRecord;
+
+        beforeEach(() => {
+            record = generator.createScoreRecord(mockAssessment);
+        });
+
+        it('should open the commitment of proofs over the same record', async () => {
+            const threshold = await generator.generateThresholdProof(
+                mockAssessment,
+                600,
+                record
+            );
+            const opening = await generator.open(record);
+            const { owner, score, timestamp, blinding } = record;
+
+            expect(opening).toEqual({
+                owner,
+                score,
+                timestamp,
+                blinding,
+                scheme: 'pedersen-ristretto255',
+                commitment: opening.commitment,
+            });
+            expect(opening.commitment).toBe(threshold.scoreCommitment);
+            await expect(
+                generator.verifyOpening(opening, threshold.scoreCommitment)
+            ).resolves.toBe(true);
+        });
+
+        it('should hide the score behind a fresh blinding factor', async () => {
+            const other = generator.createScoreRecord(mockAssessment);
+
+            expect(other.blinding).not.toBe(record.blinding);
+            expect((await generator.open(other)).commitment).not.toBe(
+                (await generator.open(record)).commitment
+            );
+        });
+
+        it('should reject openings to a different score', async () => {
+            const opening = await generator.open(record);
+
+            await expect(
+                generator.verifyOpening({ ...opening, score: opening.score + 1 })
+            ).resolves.toBe(false);
+        });
+
+        it('should reject openings for another commitment or scheme', async () => {
+            const opening = await generator.open(record);
+            const other = await generator.open(generator.createScoreRecord(mockAssessment));
+
+            await expect(generator.verifyOpening(opening, other.commitment)).resolves.toBe(false);
+            await expect(generator.verifyOpening({ ...opening, scheme: 'bhp256' })).resolves.toBe(
+                false
+            );
+        });
+    });
+
+    describe('estimateProofTime', () => {
+        it('should return the backend estimate in milliseconds', () => {
+            expect(generator.estimateProofTime()).toBe(0);
+            expect(new ProofGenerator().estimateProofTime()).toBeLessThanOrEqual(5000);
+        });
+    });
+
+    describe('isWasmSupported', () => {
+        it('should detect WebAssembly support', () => {
+            const isSupported = ProofGenerator.isWasmSupported();
+
+            expect(typeof isSupported).toBe('boolean');
+            // In Node.js environment, WASM should be supported
+            expect(isSupported).toBe(true);
+        });
+    });
+});
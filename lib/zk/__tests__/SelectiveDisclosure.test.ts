@@ -0,0 +1,204 @@
+/**
+ * SelectiveDisclosure Unit Tests
+ */
+
+import { ProofGenerator } from '../ProofGenerator';
+import { MockBackend } from '../backends/MockBackend';
+import { RISK_LEVEL_VALUES, SelectiveDisclosure, claimsRoot } from '../SelectiveDisclosure';
+import { ScoringEngine } from '@/lib/sdk/ScoringEngine';
+import { tieredModel } from '@/lib/sdk/models/TieredModel';
+import type { ClaimSet, CreditAssessment, WalletMetrics } from '@/types/sdk';
+
+describe('SelectiveDisclosure', () => {
+    let backend: MockBackend;
+    let generator: ProofGenerator;
+    let disclosure: SelectiveDisclosure;
+    let assessment: CreditAssessment;
+    let claimSet: ClaimSet;
+
+    const metrics: WalletMetrics = {
+        address: 'aleo1test123',
+        transactionCount: 25,
+        walletAgeMonths: 12,
+        defiScore: 65,
+        repaymentRate: 85,
+        tokenBalance: 10000,
+        lastTransactionDate: Date.now(),
+    };
+
+    beforeEach(async () => {
+        backend = new MockBackend({ latencyMs: 0 });
+        generator = new ProofGenerator(backend);
+        disclosure = new SelectiveDisclosure(generator);
+        assessment = ScoringEngine.calculateScore(metrics);
+        claimSet = await disclosure.createClaimSet(
+            assessment,
+            generator.createScoreRecord(assessment)
+        );
+    });
+
+    describe('createClaimSet', () => {
+        it('should commit to the score, risk level, metrics and every factor', () => {
+            const names = claimSet.claims.map((claim) => claim.name);
+
+            expect(names).toEqual(
+                expect.arrayContaining([
+                    'score',
+                    'riskLevel',
+                    'walletAgeMonths',
+                    'repaymentRate',
+                    'factor.transactions',
+                    'factor.repayment',
+                ])
+            );
+            expect(claimSet.claims.find((c) => c.name === 'walletAgeMonths')?.value).toBe(12);
+            expect(new Set(claimSet.claims.map((c) => c.blinding)).size).toBe(names.length);
+        });
+
+        it('should derive the root from the commitments', async () => {
+            const commitments = Object.fromEntries(
+                claimSet.claims.map((claim) => [claim.name, claim.commitment])
+            );
+
+            expect(claimSet.root).toBe(await claimsRoot(commitments, backend.commitments));
+            expect(BigInt(claimSet.root)).toBeLessThan(2n ** 248n);
+        });
+
+        it('should commit with the blindings of the score record', () => {
+            expect(claimSet.record.owner).toBe(assessment.address);
+            expect(claimSet.claims.map((claim) => claim.blinding)).toEqual(
+                claimSet.record.claimBlindings
+            );
+        });
+
+        it('should take metric claims from the metrics as scored', async () => {
+            const washed = ScoringEngine.calculateScore({
+                ...metrics,
+                activityAnomalies: {
+                    anomalies: [],
+                    discountedTransactions: 15,
+                    inspectedTransfers: 25,
+                    blockHeight: 0,
+                },
+            });
+            const washedSet = await disclosure.createClaimSet(
+                washed,
+                generator.createScoreRecord(washed)
+            );
+
+            expect(washedSet.claims.find((c) => c.name === 'transactionCount')?.value).toBe(10);
+        });
+
+        it('should reject records that do not match the assessment', async () => {
+            const record = generator.createScoreRecord(assessment);
+            const inflated = { ...record, metrics: { ...record.metrics, repaymentRate: 100 } };
+
+            await expect(disclosure.createClaimSet(assessment, inflated)).rejects.toThrow(
+                'Score record does not match the assessment'
+            );
+        });
+
+        it('should reject assessments from models the contract does not implement', async () => {
+            const tiered = ScoringEngine.calculateScore(metrics, tieredModel);
+
+            await expect(
+                disclosure.createClaimSet(tiered, generator.createScoreRecord(tiered))
+            ).rejects.toThrow(
+                'Only proofscore-integer@2.0.0 assessments can be presented'
+            );
+        });
+    });
+
+    describe('present / verify', () => {
+        it('should verify revealed claims and proven predicates', async () => {
+            const presentation = await disclosure.present(claimSet, {
+                reveal: ['riskLevel'],
+                prove: [
+                    { claim: 'walletAgeMonths', min: 12 },
+                    { claim: 'repaymentRate', min: 80 },
+                ],
+            });
+
+            const result = await disclosure.verify(presentation, claimSet.root, [
+                { claim: 'walletAgeMonths', min: 12 },
+                { claim: 'riskLevel', min: RISK_LEVEL_VALUES.medium },
+            ]);
+
+            expect(result.isValid).toBe(true);
+            expect(result.claims.riskLevel).toEqual({
+                min: RISK_LEVEL_VALUES[assessment.riskLevel],
+                max: RISK_LEVEL_VALUES[assessment.riskLevel],
+            });
+            expect(result.claims.repaymentRate).toEqual({
+                min: 80,
+                max: Number.MAX_SAFE_INTEGER,
+            });
+        });
+
+        it('should only disclose the revealed values', async () => {
+            const presentation = await disclosure.present(claimSet, {
+                prove: [{ claim: 'repaymentRate', min: 80 }],
+            });
+
+            expect(presentation.disclosures).toEqual([]);
+            const publicInputs = presentation.predicates.map((p) => p.proof.publicInputs);
+            expect(JSON.stringify(publicInputs)).not.toContain('85u64');
+        });
+
+        it('should refuse predicates the claim does not satisfy', async () => {
+            await expect(
+                disclosure.present(claimSet, { prove: [{ claim: 'repaymentRate', min: 90 }] })
+            ).rejects.toThrow('Claim value is not within the specified bounds');
+            await expect(disclosure.present(claimSet, { reveal: ['nope'] })).rejects.toThrow(
+                'Unknown claim'
+            );
+        });
+
+        it('should reject presentations that do not match the anchored root', async () => {
+            const presentation = await disclosure.present(claimSet, { reveal: ['score'] });
+            const other = await disclosure.createClaimSet(
+                assessment,
+                generator.createScoreRecord(assessment)
+            );
+
+            expect((await disclosure.verify(presentation, other.root)).isValid).toBe(false);
+            expect((await disclosure.verify(presentation, null)).isValid).toBe(false);
+        });
+
+        it('should reject a tampered disclosure', async () => {
+            const presentation = await disclosure.present(claimSet, { reveal: ['walletAgeMonths'] });
+            const tampered = {
+                ...presentation,
+                disclosures: presentation.disclosures.map((d) => ({ ...d, value: 36 })),
+            };
+
+            const result = await disclosure.verify(tampered, claimSet.root);
+            expect(result.isValid).toBe(false);
+            expect(result.error).toContain('walletAgeMonths');
+        });
+
+        it('should reject a claim proof relabelled as another claim', async () => {
+            const presentation = await disclosure.present(claimSet, {
+                prove: [{ claim: 'defiScore', min: 60 }],
+            });
+            const relabelled = {
+                ...presentation,
+                predicates: presentation.predicates.map((p) => ({ ...p, claim: 'repaymentRate' })),
+            };
+
+            expect((await disclosure.verify(relabelled, claimSet.root)).isValid).toBe(false);
+        });
+
+        it('should reject presentations that do not establish a required claim', async () => {
+            const presentation = await disclosure.present(claimSet, {
+                prove: [{ claim: 'walletAgeMonths', min: 6 }],
+            });
+
+            const result = await disclosure.verify(presentation, claimSet.root, [
+                { claim: 'walletAgeMonths', min: 12 },
+            ]);
+            expect(result.isValid).toBe(false);
+            expect(result.error).toContain('Required claim not established');
+        });
+    });
+});
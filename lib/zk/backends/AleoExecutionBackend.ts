@@ -0,0 +1,250 @@
+/**
+ * Aleo Execution Proving Backend
+ *
+ * Proves by executing the Leo transition with the Provable SDK (snarkVM
+ * compiled to WASM). The proof is the resulting Execution. Verification uses
+ * the verifying key of the deployed program's transition (read from its
+ * deployment transaction, or configured for offline use), never a key
+ * supplied with the proof, since a prover could otherwise pair an execution
+ * with a key for a circuit of their own. Verification also checks
+ * the envelope against the transition's public values: for threshold and
+ * range statements the public inputs are exactly the envelope's (the bounds,
+ * never the score) and the outputs its scoreCommitment and nullifier; for
+ * score statements the only output is the commitment the envelope opens.
+ *
+ * The SDK is loaded lazily: importing this module does not pull in WASM.
+ *
+ * @module lib/zk/backends/AleoExecutionBackend
+ */
+
+import { Bhp256Commitment } from '../commitments/Bhp256Commitment';
+import { ALEO_CONFIG } from '@/lib/constants';
+import type { ProvingBackend, ProvingRequest, ZKProof } from '@/types/sdk';
+import { ProofGenerationError } from '@/types/sdk';
+
+type ProvableSDK = typeof import('@provablehq/sdk');
+type FunctionExecution = ReturnType<ProvableSDK['FunctionExecution']['fromString']>;
+
+/**
+ * Subset of the WASM Transition API used for input checks
+ */
+interface ExecutedTransition {
+    functionName(): string;
+    inputs(convertToJs: boolean): Array<{ type: string; value?: string }>;
+    outputs(convertToJs: boolean): Array<{ type: string; value?: string }>;
+}
+
+/**
+ * Encoded `proof` field of envelopes produced by this backend
+ */
+interface AleoExecutionProof {
+    execution: string;
+}
+
+/**
+ * `verifying_keys` of a deployment: [transition, [verifying key, certificate]]
+ */
+type DeployedVerifyingKeys = Array<[string, [string, string]]>;
+
+export interface AleoExecutionBackendOptions {
+    privateKey: string; // Account that executes the transition
+    rpcUrl?: string; // Node used to fetch program source, verifying keys and block height
+    programSource?: string; // Skip the network fetch (e.g. compiled main.aleo)
+    verifyingKeys?: Record<string, string>; // Transition -> key, skips the deployment fetch
+}
+
+export class AleoExecutionBackend implements ProvingBackend {
+    readonly id = 'aleo';
+    readonly commitments = new Bhp256Commitment();
+    private privateKey: string;
+    private rpcUrl: string;
+    private programSources = new Map<string, string>();
+    private programSource?: string;
+    private verifyingKeys = new Map<string, string>();
+    private configuredKeys?: Record<string, string>;
+
+    constructor(options: AleoExecutionBackendOptions) {
+        this.privateKey = options.privateKey;
+        this.rpcUrl = options.rpcUrl || ALEO_CONFIG.MAINNET.rpcUrl;
+        this.programSource = options.programSource;
+        this.configuredKeys = options.verifyingKeys;
+    }
+
+    /**
+     * Execute the transition and prove it
+     *
+     * @param request - Transition execution
+     * @returns JSON-encoded execution
+     * @throws ProofGenerationError if execution produces no proof
+     */
+    async prove(request: ProvingRequest): Promise<string> {
+        const sdk = await this.loadSDK();
+        const source = await this.getProgramSource(sdk, request.program);
+
+        const programManager = new sdk.ProgramManager(this.rpcUrl);
+        programManager.setAccount(new sdk.Account({ privateKey: this.privateKey }));
+
+        console.log(`[AleoExecutionBackend] Executing ${request.program}/${request.transition}...`);
+        const response = await programManager.run(
+            source,
+            request.transition,
+            request.inputs,
+            true
+        );
+
+        const execution = response.getExecution();
+        if (!execution) {
+            throw new ProofGenerationError(
+                `Execution of ${request.transition} returned no proof`
+            );
+        }
+
+        const encoded: AleoExecutionProof = { execution: execution.toString() };
+
+        return JSON.stringify(encoded);
+    }
+
+    /**
+     * Verify the execution against the deployed program at the latest block
+     * height
+     *
+     * @param proof - Proof envelope
+     * @returns True if the execution proof is valid under the program's key
+     */
+    async verify(proof: ZKProof): Promise<boolean> {
+        try {
+            const encoded = JSON.parse(proof.proof) as AleoExecutionProof;
+            const sdk = await this.loadSDK();
+            const source = await this.getProgramSource(sdk, proof.program);
+            const execution = sdk.FunctionExecution.fromString(encoded.execution);
+
+            if (!this.matchesEnvelope(execution, proof)) {
+                return false;
+            }
+
+            const verifyingKey = await this.getVerifyingKey(sdk, proof.program, proof.transition);
+            const blockHeight = await new sdk.AleoNetworkClient(this.rpcUrl).getLatestHeight();
+
+            return sdk.verifyFunctionExecution(
+                execution,
+                sdk.VerifyingKey.fromString(verifyingKey),
+                sdk.Program.fromString(source),
+                proof.transition,
+                undefined,
+                undefined,
+                blockHeight
+            );
+        } catch (error) {
+            console.error('[AleoExecutionBackend] Verification failed:', error);
+            return false;
+        }
+    }
+
+    estimateProofTime(): number {
+        // Local synthesis plus proving in WASM
+        return 30000;
+    }
+
+    isSupported(): boolean {
+        return typeof WebAssembly === 'object';
+    }
+
+    /**
+     * Compare the proven transition's public values with the envelope
+     *
+     * - Score proofs: the only output is the score commitment (the score
+     *   and owner stay private) and the only public input is the record's
+     *   block
+     * - Threshold and range proofs: the outputs are the score commitment,
+     *   the nullifier and the record's owner
+     * - Other proofs: the output is the commitment
+     *
+     * The public inputs of all but score proofs are exactly the envelope's.
+     */
+    private matchesEnvelope(execution: FunctionExecution, proof: ZKProof): boolean {
+        const transition = (execution.transitions() as ExecutedTransition[]).find(
+            (t) => t.functionName() === proof.transition
+        );
+        if (!transition) return false;
+
+        const publicValues = (values: Array<{ type: string; value?: string }>) =>
+            values.filter((value) => value.type === 'public').map((value) => String(value.value));
+
+        const outputs = publicValues(transition.outputs(true));
+        const publicInputs = publicValues(transition.inputs(true));
+
+        if (proof.statement.kind === 'score') {
+            return (
+                outputs.length === 1 &&
+                outputs[0] === proof.scoreCommitment &&
+                publicInputs.length === 1 &&
+                publicInputs[0] === `${proof.scoreBlock}u32`
+            );
+        }
+
+        const [commitment, nullifier, owner] = outputs;
+        if (
+            commitment !== proof.scoreCommitment ||
+            nullifier !== proof.nullifier ||
+            owner !== proof.owner
+        ) {
+            return false;
+        }
+
+        return (
+            publicInputs.length === proof.publicInputs.length &&
+            publicInputs.every((input, i) => input === proof.publicInputs[i])
+        );
+    }
+
+    private async loadSDK(): Promise<ProvableSDK> {
+        try {
+            return await import('@provablehq/sdk');
+        } catch (error) {
+            throw new ProofGenerationError('Failed to load the Aleo SDK', error);
+        }
+    }
+
+    private async getProgramSource(sdk: ProvableSDK, program: string): Promise<string> {
+        if (this.programSource) return this.programSource;
+
+        const cached = this.programSources.get(program);
+        if (cached) return cached;
+
+        const source = await new sdk.AleoNetworkClient(this.rpcUrl).getProgram(program);
+        this.programSources.set(program, source);
+        return source;
+    }
+
+    /**
+     * Verifying key of a transition, from the options or the deployment
+     *
+     * @throws ProofGenerationError if the program has no key for the transition
+     */
+    private async getVerifyingKey(
+        sdk: ProvableSDK,
+        program: string,
+        transition: string
+    ): Promise<string> {
+        const configured = this.configuredKeys?.[transition];
+        if (configured) return configured;
+
+        const id = `${program}/${transition}`;
+        const cached = this.verifyingKeys.get(id);
+        if (cached) return cached;
+
+        const client = new sdk.AleoNetworkClient(this.rpcUrl);
+        const { deployment } = await client.getDeploymentTransactionForProgram(program);
+        // The SDK types verifying_keys as a single entry; the node returns a list
+        const keys = (deployment?.verifying_keys ?? []) as unknown as DeployedVerifyingKeys;
+        for (const [name, [key]] of keys) {
+            this.verifyingKeys.set(`${program}/${name}`, key);
+        }
+
+        const key = this.verifyingKeys.get(id);
+        if (!key) {
+            throw new ProofGenerationError(`No verifying key deployed for ${id}`);
+        }
+        return key;
+    }
+}
@@ -0,0 +1,131 @@
+/**
+ * Mock Proving Backend
+ *
+ * Deterministic stand-in for tests and local development. The "proof" is a
+ * SHA-256 digest binding the program, transition, public inputs, score
+ * commitment, nullifier and owner to a random nonce, so tampering with an envelope
+ * is still detected. Commitments are Pedersen commitments over ristretto255.
+ *
+ * Proves nothing about the private inputs - never use in production.
+ *
+ * @module lib/zk/backends/MockBackend
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { PedersenCommitment } from '../commitments/PedersenCommitment';
+import type { ProvingBackend, ProvingRequest, ZKProof } from '@/types/sdk';
+
+const PROOF_PREFIX = 'mockproof1';
+
+export interface MockBackendOptions {
+    latencyMs?: number; // Simulated proving time (default: 2000-3000ms)
+}
+
+export class MockBackend implements ProvingBackend {
+    readonly id = 'mock';
+    readonly commitments = new PedersenCommitment();
+    private latencyMs?: number;
+
+    constructor(options: MockBackendOptions = {}) {
+        this.latencyMs = options.latencyMs;
+    }
+
+    /**
+     * Produce a mock proof for the request
+     *
+     * @param request - Transition execution
+     * @returns Encoded proof: `mockproof1<nonce>.<digest>`
+     */
+    async prove(request: ProvingRequest): Promise<string> {
+        await this.simulateComputation();
+
+        const nonce = this.generateNonce();
+        const digest = this.digest(
+            request.program,
+            request.transition,
+            request.publicInputs,
+            request.commitment,
+            request.nullifier,
+            request.owner,
+            nonce
+        );
+
+        return `${PROOF_PREFIX}${nonce}.${digest}`;
+    }
+
+    /**
+     * Check the digest against the envelope's public inputs, commitment, nullifier and owner
+     *
+     * @param proof - Proof envelope
+     * @returns True if the proof was produced for these public values
+     */
+    async verify(proof: ZKProof): Promise<boolean> {
+        if (!proof.proof.startsWith(PROOF_PREFIX)) {
+            return false;
+        }
+
+        const [nonce, digest] = proof.proof.slice(PROOF_PREFIX.length).split('.');
+        if (!nonce || !digest) {
+            return false;
+        }
+
+        return (
+            digest ===
+            this.digest(
+                proof.program,
+                proof.transition,
+                proof.publicInputs,
+                proof.scoreCommitment,
+                proof.nullifier,
+                proof.owner,
+                nonce
+            )
+        );
+    }
+
+    estimateProofTime(): number {
+        return this.latencyMs ?? 2500;
+    }
+
+    isSupported(): boolean {
+        return true;
+    }
+
+    private digest(
+        program: string,
+        transition: string,
+        publicInputs: string[],
+        commitment: string,
+        nullifier: string | undefined,
+        owner: string | undefined,
+        nonce: string
+    ): string {
+        const data = JSON.stringify([
+            program,
+            transition,
+            publicInputs,
+            commitment,
+            nullifier ?? null,
+            owner ?? null,
+            nonce,
+        ]);
+        return bytesToHex(sha256(utf8ToBytes(data)));
+    }
+
+    private generateNonce(): string {
+        const bytes = new Uint8Array(16);
+        crypto.getRandomValues(bytes);
+        return bytesToHex(bytes);
+    }
+
+    /**
+     * Simulate proving time (real proofs take 2-3 seconds)
+     */
+    private async simulateComputation(): Promise<void> {
+        const computationTime = this.latencyMs ?? 2000 + Math.random() * 1000;
+        if (computationTime > 0) {
+            await new Promise((resolve) => setTimeout(resolve, computationTime));
+        }
+    }
+}
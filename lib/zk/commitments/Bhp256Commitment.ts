@@ -0,0 +1,152 @@
+/**
+ * BHP256 Score Commitment (Aleo-native)
+ *
+ * Computes the same field element as `commit_score` in
+ * contract/src/main.leo:
+ *
+ *   BHP256::commit_to_field(ScoreOpening { owner, score, timestamp }, blinding)
+ *
+ * and of `prove_claim` and `prove_linked_wallets`:
+ *
+ *   BHP256::commit_to_field(ClaimOpening { owner, claim, value }, blinding)
+ *
+ * so a commitment output by a transition can be opened off-chain. Nullifiers
+ * match `nullifier_of`:
+ *
+ *   BHP256::hash_to_field(NullifierInput { blinding, purpose })
+ *
+ * and their use keys `use_nullifier`:
+ *
+ *   BHP256::hash_to_field(NullifierUse { verifier, nullifier })
+ *
+ * and claims roots the chain of `link_claim` in `anchor_claims`, starting
+ * from 0field:
+ *
+ *   root = BHP256::hash_to_field(ClaimLink { root, commitment })
+ *
+ * The Provable SDK (WASM) is loaded lazily.
+ *
+ * @module lib/zk/commitments/Bhp256Commitment
+ */
+
+import type { ClaimRecord, CommitmentScheme, CommittedScore } from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+/**
+ * Order of the Aleo scalar field (Edwards BLS12-377)
+ */
+const ALEO_SCALAR_ORDER =
+    2111115437357092606062206234695386632838870926408408195193685246394721360383n;
+
+export class Bhp256Commitment implements CommitmentScheme {
+    readonly id = 'bhp256';
+
+    /**
+     * Uniform Aleo scalar (64 random bytes reduced mod the field order)
+     */
+    randomBlinding(): string {
+        const bytes = new Uint8Array(64);
+        crypto.getRandomValues(bytes);
+
+        const value = bytes.reduceRight((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+        return (value % ALEO_SCALAR_ORDER).toString();
+    }
+
+    /**
+     * Commit to a score record
+     *
+     * @param record - Score record
+     * @returns Field literal, e.g. '1234...field'
+     */
+    async commit(record: CommittedScore): Promise<string> {
+        return this.commitPlaintext(
+            `{ owner: ${record.owner}, score: ${record.score}u64, timestamp: ${record.timestamp}u64 }`,
+            record.blinding
+        );
+    }
+
+    /**
+     * Commit to a single claim
+     *
+     * @param claim - Claim record
+     * @returns Field literal
+     */
+    async commitClaim(claim: ClaimRecord): Promise<string> {
+        return this.commitPlaintext(
+            `{ owner: ${claim.owner}, claim: ${claim.claim}u8, value: ${claim.value}u64 }`,
+            claim.blinding
+        );
+    }
+
+    /**
+     * Root over claim commitments, as computed by anchor_claims
+     *
+     * @param commitments - Claim commitments (field literals) in claim id order
+     * @returns Decimal root
+     */
+    async claimsRoot(commitments: string[]): Promise<string> {
+        const { BHP256, Plaintext } = await this.loadSDK();
+        const hasher = new BHP256();
+
+        let root = '0field';
+        for (const commitment of commitments) {
+            const link = Plaintext.fromString(`{ root: ${root}, commitment: ${commitment} }`);
+            root = hasher.hash(link.toBitsLe()).toString();
+        }
+        return root.replace(/field$/, '');
+    }
+
+    /**
+     * Nullifier of a score record for a verifier purpose
+     *
+     * @param blinding - Record blinding factor
+     * @param purpose - Decimal purpose field element
+     * @returns Field literal
+     */
+    async nullifier(blinding: string, purpose: string): Promise<string> {
+        const { BHP256, Plaintext } = await this.loadSDK();
+
+        return new BHP256()
+            .hash(
+                Plaintext.fromString(
+                    `{ blinding: ${blinding}scalar, purpose: ${purpose}field }`
+                ).toBitsLe()
+            )
+            .toString();
+    }
+
+    /**
+     * Key of a verifier's uses of a nullifier in nullifier_uses
+     *
+     * @param verifier - Verifier's Aleo address (use_nullifier's caller)
+     * @param nullifier - Nullifier field literal
+     * @returns Field literal
+     */
+    async nullifierKey(verifier: string, nullifier: string): Promise<string> {
+        const { BHP256, Plaintext } = await this.loadSDK();
+
+        return new BHP256()
+            .hash(
+                Plaintext.fromString(
+                    `{ verifier: ${verifier}, nullifier: ${nullifier} }`
+                ).toBitsLe()
+            )
+            .toString();
+    }
+
+    private async commitPlaintext(plaintext: string, blinding: string): Promise<string> {
+        const { BHP256, Plaintext, Scalar } = await this.loadSDK();
+
+        return new BHP256()
+            .commit(Plaintext.fromString(plaintext).toBitsLe(), Scalar.fromString(`${blinding}scalar`))
+            .toString();
+    }
+
+    private async loadSDK(): Promise<typeof import('@provablehq/sdk')> {
+        try {
+            return await import('@provablehq/sdk');
+        } catch (error) {
+            throw new SDKError('Failed to load the Aleo SDK', 'SDK_LOAD_ERROR', error);
+        }
+    }
+}
@@ -0,0 +1,167 @@
+/**
+ * Pedersen Score Commitment (ristretto255)
+ *
+ * Score: C = score·G_score + H(owner)·G_owner + timestamp·G_time + blinding·H
+ * Claim: C = value·G_value + H(owner)·G_owner + claim·G_claim + blinding·H
+ * Nullifier: N = H(blinding, purpose), a hash-to-scalar
+ * Nullifier use key: H(verifier, nullifier), a hash-to-scalar
+ * Claims root: SHA-256 of the claim commitments, truncated to 248 bits
+ *
+ * Generators are derived with RFC 9380 hash-to-curve under a fixed domain,
+ * so nobody knows discrete logs between them. The commitment is perfectly
+ * hiding (uniform blinding) and computationally binding (discrete log).
+ *
+ * Pure JS; used by the mock backend and anywhere WASM is unavailable.
+ *
+ * @module lib/zk/commitments/PedersenCommitment
+ */
+
+import { ristretto255, ristretto255_hasher } from '@noble/curves/ed25519';
+import { bytesToNumberBE, bytesToNumberLE } from '@noble/curves/abstract/utils';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import type { ClaimRecord, CommitmentScheme, CommittedScore } from '@/types/sdk';
+import { SDKError } from '@/types/sdk';
+
+const DOMAIN = 'ProofScore-Pedersen-v1';
+const NULLIFIER_DOMAIN = 'ProofScore-Nullifier-v1';
+const NULLIFIER_USE_DOMAIN = 'ProofScore-NullifierUse-v1';
+
+const Point = ristretto255.Point;
+const ORDER = Point.Fn.ORDER;
+
+const generator = (label: string) =>
+    ristretto255_hasher.hashToCurve(utf8ToBytes(label), { DST: DOMAIN }) as InstanceType<
+        typeof Point
+    >;
+
+const GENERATORS = {
+    score: generator('score'),
+    owner: generator('owner'),
+    timestamp: generator('timestamp'),
+    value: generator('value'),
+    claim: generator('claim'),
+    blinding: generator('blinding'),
+};
+
+export class PedersenCommitment implements CommitmentScheme {
+    readonly id = 'pedersen-ristretto255';
+
+    /**
+     * Uniform scalar (64 random bytes reduced mod the group order)
+     */
+    randomBlinding(): string {
+        const bytes = new Uint8Array(64);
+        crypto.getRandomValues(bytes);
+        return (bytesToNumberLE(bytes) % ORDER).toString();
+    }
+
+    /**
+     * Commit to a score record
+     *
+     * @param record - Score record
+     * @returns Hex-encoded ristretto255 point
+     * @throws SDKError INVALID_COMMITMENT_INPUT for out-of-range values
+     */
+    async commit(record: CommittedScore): Promise<string> {
+        const scalars = [
+            this.toScalar(record.score, 'score'),
+            this.ownerScalar(record.owner),
+            this.toScalar(record.timestamp, 'timestamp'),
+            this.toScalar(record.blinding, 'blinding'),
+        ];
+
+        const commitment = Point.msm(
+            [GENERATORS.score, GENERATORS.owner, GENERATORS.timestamp, GENERATORS.blinding],
+            scalars
+        );
+
+        return bytesToHex(commitment.toBytes());
+    }
+
+    /**
+     * Commit to a single claim
+     *
+     * @param claim - Claim record
+     * @returns Hex-encoded ristretto255 point
+     * @throws SDKError INVALID_COMMITMENT_INPUT for out-of-range values
+     */
+    async commitClaim(claim: ClaimRecord): Promise<string> {
+        const scalars = [
+            this.toScalar(claim.value, 'value'),
+            this.ownerScalar(claim.owner),
+            this.toScalar(claim.claim, 'claim'),
+            this.toScalar(claim.blinding, 'blinding'),
+        ];
+
+        const commitment = Point.msm(
+            [GENERATORS.value, GENERATORS.owner, GENERATORS.claim, GENERATORS.blinding],
+            scalars
+        );
+
+        return bytesToHex(commitment.toBytes());
+    }
+
+    /**
+     * Root over claim commitments
+     *
+     * Truncated to 248 bits so it is a valid Aleo field element.
+     *
+     * @param commitments - Claim commitments in claim id order
+     * @returns Decimal root
+     */
+    async claimsRoot(commitments: string[]): Promise<string> {
+        const digest = sha256(utf8ToBytes(JSON.stringify(commitments)));
+        return bytesToNumberBE(digest.slice(0, 31)).toString();
+    }
+
+    /**
+     * Nullifier of a score record for a verifier purpose
+     *
+     * @param blinding - Record blinding factor
+     * @param purpose - Decimal purpose field element
+     * @returns Field literal (a valid use_nullifier input)
+     */
+    async nullifier(blinding: string, purpose: string): Promise<string> {
+        const scalar = ristretto255_hasher.hashToScalar(
+            utf8ToBytes(JSON.stringify([this.toScalar(blinding, 'blinding').toString(), purpose])),
+            { DST: NULLIFIER_DOMAIN }
+        );
+
+        return `${scalar}field`;
+    }
+
+    /**
+     * Key of a verifier's uses of a nullifier in nullifier_uses
+     *
+     * @param verifier - Verifier's Aleo address
+     * @param nullifier - Nullifier field literal
+     * @returns Field literal
+     */
+    async nullifierKey(verifier: string, nullifier: string): Promise<string> {
+        const scalar = ristretto255_hasher.hashToScalar(
+            utf8ToBytes(JSON.stringify([verifier, nullifier])),
+            { DST: NULLIFIER_USE_DOMAIN }
+        );
+
+        return `${scalar}field`;
+    }
+
+    private ownerScalar(owner: string): bigint {
+        return ristretto255_hasher.hashToScalar(utf8ToBytes(owner), { DST: DOMAIN });
+    }
+
+    private toScalar(value: number | string, field: string): bigint {
+        let scalar: bigint;
+        try {
+            scalar = BigInt(value);
+        } catch {
+            throw new SDKError(`Invalid ${field}: ${value}`, 'INVALID_COMMITMENT_INPUT');
+        }
+
+        if (scalar < 0n || scalar >= ORDER) {
+            throw new SDKError(`${field} is out of range`, 'INVALID_COMMITMENT_INPUT');
+        }
+        return scalar;
+    }
+}
@@ -20,8 +20,292 @@ export interface WalletMetrics {
     walletAgeMonths: number;
     defiScore: number; // 0-100
     repaymentRate: number; // 0-100 percentage
-    tokenBalance: number;
+    tokenBalance: number; // Credits (DataAggregator converts from microcredits)
     lastTransactionDate: number; // Unix timestamp
+    defiActivity?: DefiActivity; // How defiScore was derived (set by DataAggregator)
+    repaymentHistory?: RepaymentHistory; // How repaymentRate was derived (set by DataAggregator)
+    balanceHistory?: BalanceHistory; // Sampled public balance (set by DataAggregator)
+    activityAnomalies?: ActivityAnomalyReport; // Wash activity found (set by DataAggregator)
+    linkedAddresses?: string[]; // Wallets these metrics were merged from (see mergeWalletMetrics)
+    provenance?: MetricsProvenance; // Where each value came from (set by DataAggregator)
+}
+
+/**
+ * Metric fields that carry provenance
+ */
+export type MetricField =
+    | 'transactionCount'
+    | 'walletAgeMonths'
+    | 'defiScore'
+    | 'repaymentRate'
+    | 'tokenBalance'
+    | 'lastTransactionDate';
+
+/**
+ * How a metric value was obtained
+ * - real: read from the chain for this request
+ * - cached: a real value served from the cache
+ * - stale: a cached value past its TTL, served while it is revalidated
+ * - fallback: estimated because the source failed (or mock data is enabled)
+ */
+export type ProvenanceStatus = 'real' | 'cached' | 'stale' | 'fallback';
+
+/**
+ * Origin of a single metric value
+ */
+export interface FieldProvenance {
+    source: string; // MetricsSource id or 'mock'
+    fetchedAt: number; // Unix timestamp (ms) the value was read or estimated
+    blockHeight: number | null; // Chain height it was read at (null if unknown)
+    status: ProvenanceStatus;
+    partial?: boolean; // Derived from only part of the wallet's history (the source stopped early)
+}
+
+export type MetricsProvenance = Record<MetricField, FieldProvenance>;
+
+/**
+ * A transition a wallet took part in
+ */
+export interface WalletTransition {
+    id: string;
+    transactionId: string;
+    program: string; // e.g. credits.aleo
+    function: string; // e.g. transfer_public
+    blockHeight: number;
+    transfer?: WalletTransfer; // Credits moved, if the source reads the transition's inputs
+}
+
+/**
+ * Public credits moved by a transition, seen from the wallet
+ */
+export interface WalletTransfer {
+    direction: 'in' | 'out';
+    counterparty: string | null; // Other address (null if the inputs do not show it)
+    amount: number; // Microcredits
+}
+
+/**
+ * On-chain activity of a wallet as read by a MetricsSource
+ */
+export interface WalletActivity {
+    address: string;
+    transactionCount: number;
+    firstSeen: number | null; // Unix timestamp (ms) of the first transaction
+    lastActivity: number | null; // Unix timestamp (ms) of the latest transaction
+    balance: number; // Public credits.aleo balance (microcredits)
+    transitions: WalletTransition[];
+    balanceChanges?: BalanceChange[]; // Public balance changes, if the source reads them
+    blockHeight: number; // Chain height the activity was read at
+    truncated?: boolean; // Older transitions were not read (e.g. a page limit was reached)
+}
+
+/**
+ * A change of the public credits.aleo balance made by one transition
+ */
+export interface BalanceChange {
+    transitionId: string;
+    blockHeight: number;
+    delta: number; // Microcredits, negative when credits left the account
+}
+
+/**
+ * Pluggable source of wallet activity consumed by DataAggregator
+ */
+export interface MetricsSource {
+    readonly id: string;
+    fetchActivity: (address: string) => Promise<WalletActivity>;
+}
+
+// ============================================================================
+// DEFI ACTIVITY
+// ============================================================================
+
+export type DefiCategory = 'dex' | 'lending' | 'staking' | 'bridge' | 'liquidity';
+
+/**
+ * A DeFi program known to the classifier
+ * A transition is classified by its function entry, else by the program
+ * category; programs without either (e.g. credits.aleo transfers) are not DeFi.
+ */
+export interface DefiProgram {
+    program: string; // Aleo program id, e.g. pondo_protocol.aleo
+    protocol: string; // Display name
+    category?: DefiCategory; // Category of every function not listed below
+    functions?: Record<string, DefiCategory>; // Per-function categories
+}
+
+/**
+ * A wallet's interactions with one protocol
+ */
+export interface DefiProtocolActivity {
+    protocol: string;
+    programs: string[];
+    categories: DefiCategory[];
+    interactions: number; // Classified transitions
+    lastBlock: number; // Height of the latest interaction
+}
+
+/**
+ * DeFi activity of a wallet, classified from its transitions
+ */
+export interface DefiActivity {
+    score: number; // 0-100, weighted from the components below
+    diversity: number; // 0-100, distinct categories used
+    volume: number; // 0-100, number of DeFi interactions (log-scaled)
+    recency: number; // 0-100, blocks since the latest interaction
+    protocols: DefiProtocolActivity[]; // Most used first
+}
+
+// ============================================================================
+// LOAN LEDGER
+// ============================================================================
+
+export type LoanEventType = 'borrow' | 'repay' | 'liquidation' | 'default';
+
+/**
+ * A lending program known to the loan ledger
+ * Transitions of functions not listed here are ignored.
+ */
+export interface LendingProgram {
+    program: string; // Aleo program id
+    protocol: string; // Display name
+    functions: Record<string, LoanEventType>;
+    termBlocks?: number; // Blocks from borrow to due (default: LOAN_LEDGER.DEFAULT_TERM_BLOCKS)
+}
+
+/**
+ * A loan lifecycle event rebuilt from a transition
+ */
+export interface LoanEvent {
+    type: LoanEventType;
+    program: string;
+    transitionId: string;
+    blockHeight: number;
+}
+
+/**
+ * - open: not yet due
+ * - overdue: past due, not yet defaulted
+ * - repaid / liquidated / defaulted: closed
+ */
+export type LoanStatus = 'open' | 'overdue' | 'repaid' | 'liquidated' | 'defaulted';
+
+/**
+ * A loan in the ledger, keyed by its borrow transition
+ */
+export interface Loan {
+    id: string; // Borrow transition id
+    program: string;
+    protocol: string;
+    borrowedAt: number; // Block height
+    dueBlock: number;
+    closedAt: number | null; // Block height of the closing event (null while unpaid)
+    status: LoanStatus;
+    daysPastDue: number; // Days late at repayment, or so far for unpaid loans
+}
+
+/**
+ * Repayment signals computed from a wallet's loan ledger
+ */
+export interface RepaymentHistory {
+    loans: Loan[]; // Oldest first
+    onTimeRate: number | null; // 0-100, closed loans repaid by their due block (null if none closed)
+    maxDaysPastDue: number; // Worst delinquency over all loans
+    liquidations: number;
+    defaults: number;
+    openLoans: number; // Open or overdue
+    blockHeight?: number; // Chain height the ledger was read at (absent in older caches)
+}
+
+// ============================================================================
+// BALANCE HISTORY
+// ============================================================================
+
+/**
+ * Public balance at a sampled block
+ */
+export interface BalanceSample {
+    blockHeight: number;
+    balance: number; // Credits
+}
+
+/**
+ * Public balance sampled at a fixed block interval
+ */
+export interface BalanceHistory {
+    samples: BalanceSample[]; // Oldest first, the last one at the read height
+    intervalBlocks: number; // Blocks between samples
+    average: number; // Credits
+    minimum: number; // Credits
+    volatility: number; // Standard deviation / average (0 for an empty wallet)
+}
+
+// ============================================================================
+// ACTIVITY ANOMALIES
+// ============================================================================
+
+/**
+ * Patterns of activity that inflate the transaction count
+ * - self-loop: credits sent and returned to the wallet itself
+ * - ping-pong: credits bounced back and forth with a small cluster of addresses
+ * - dust: many transfers of negligible amounts
+ * - burst: many transactions packed into a short span of blocks
+ */
+export type ActivityAnomalyType = 'self-loop' | 'ping-pong' | 'dust' | 'burst';
+
+/**
+ * One detected pattern
+ */
+export interface ActivityAnomaly {
+    type: ActivityAnomalyType;
+    transactionIds: string[]; // Transactions making up the pattern
+    counterparties: string[]; // Other addresses involved, where known
+    fromBlock: number;
+    toBlock: number;
+    discountedTransactions: number; // Of those, no longer counted in transactionCount
+    description: string;
+}
+
+/**
+ * Wash activity found among a wallet's transitions
+ */
+export interface ActivityAnomalyReport {
+    anomalies: ActivityAnomaly[];
+    discountedTransactions: number; // Total over anomalies, each transaction counted once
+    inspectedTransfers: number; // Transitions with transfer details (the rest only feed bursts)
+    blockHeight: number; // Chain height the transitions were read at
+}
+
+/**
+ * Score lost to one type of anomaly
+ */
+export interface ScorePenalty {
+    anomaly: ActivityAnomalyType;
+    metric: 'transactionCount';
+    discount: number; // Transactions taken off the metric
+    points: number; // Final score points lost (0 if no tier was crossed)
+    factors: string[]; // Ids of the factors it lowered
+}
+
+/**
+ * Negative credit events in a loan ledger
+ * - liquidation / default: a loan closed (or aged) into that status
+ * - delinquency: a loan repaid late, or still unpaid, past the model's
+ *   delinquency threshold
+ */
+export type NegativeEventType = 'liquidation' | 'default' | 'delinquency';
+
+/**
+ * Score taken off for one negative credit event
+ */
+export interface EventPenalty {
+    event: NegativeEventType;
+    loanId: string;
+    protocol: string;
+    blockHeight: number; // Block the event happened at
+    ageDays: number; // Whole days before the ledger's read height
+    weight: number; // Recency weight, 0-1, halving every half-life
+    points: number; // Final score points taken off (after the cap)
 }
 
 // ============================================================================
@@ -35,23 +319,555 @@ export interface CreditAssessment {
     metrics: WalletMetrics;
     baseScore: number;
     bonusPoints: number;
-    finalScore: number; // 300-850
+    finalScore: number; // 300-850 (the model's score range)
+    riskLevel: RiskLevel; // On the first requested scale, otherwise the model's risk bands
+    timestamp: number;
+    model: ScoringModelRef; // Model that produced this assessment
+    provenance?: MetricsProvenance; // Provenance of the metrics the score was computed from
+    penalties?: ScorePenalty[]; // Score lost to wash activity (metrics.activityAnomalies)
+    eventPenalties?: EventPenalty[]; // Score taken off for negative credit events (model.recency)
+    reasons?: ScoreReason[]; // Top reasons the score is below the maximum, most points first
+    normalizedScore?: number; // Position of finalScore in the model's score range (0-1)
+    presentations?: ScorePresentation[]; // The score on each requested scale (default: the model's)
+}
+
+// ============================================================================
+// REASON CODES
+// ============================================================================
+
+/**
+ * Stable codes for why a score is below the maximum (adverse-action reasons)
+ * Codes are never renumbered; new reasons get new codes.
+ */
+export type ReasonCode =
+    | 'R01_LOW_TX_COUNT'
+    | 'R02_SHORT_WALLET_HISTORY'
+    | 'R03_LOW_DEFI_ACTIVITY'
+    | 'R04_LOW_REPAYMENT_RATE'
+    | 'R05_LOW_BALANCE'
+    | 'R06_VOLATILE_BALANCE'
+    | 'R07_RECENT_INACTIVITY'
+    | 'R08_WASH_ACTIVITY'
+    | 'R09_LIQUIDATION'
+    | 'R10_DEFAULT'
+    | 'R11_DELINQUENCY'
+    | 'R12_NO_REPAYMENT_HISTORY'
+    | 'R99_OTHER_FACTOR';
+
+/**
+ * One reason a score is below the maximum
+ */
+export interface ScoreReason {
+    code: ReasonCode;
+    factor: string | null; // Factor it lowered (null if only taken off the final score)
+    points: number; // Points lost relative to the maximum (rounded)
+    value: number; // Metric behind the reason, available to messages as {value}
+}
+
+/**
+ * Message template per reason code, for one locale
+ */
+export type ReasonMessages = Record<ReasonCode, string>;
+
+// ============================================================================
+// SCORE HISTORY
+// ============================================================================
+
+/**
+ * Point in the past to score a wallet at
+ */
+export type ScoreAsOf = { blockHeight: number } | { date: number }; // date: Unix ms
+
+/**
+ * Wallet metrics replayed to a past block height
+ */
+export interface HistoricalMetrics {
+    blockHeight: number;
+    timestamp: number; // Unix ms of blockHeight (estimated from the wallet's known blocks)
+    metrics: WalletMetrics;
+}
+
+/**
+ * An assessment kept by a ScoreSnapshotStore
+ */
+export interface ScoreSnapshot {
+    address: string;
+    blockHeight: number | null; // Height the metrics were read at (null for estimates)
+    timestamp: number; // Unix ms the assessment is as of
+    finalScore: number;
     riskLevel: RiskLevel;
+    model: ScoringModelRef;
+    factors: Array<{ id: string; name: string; score: number; points: number }>;
+    assessment: CreditAssessment;
+}
+
+/**
+ * Storage for score snapshots
+ * Adding a snapshot replaces the one with the same address, model and
+ * block height (or timestamp, for snapshots without a height).
+ */
+export interface ScoreSnapshotStore {
+    add(snapshot: ScoreSnapshot): Promise<void>;
+    list(address: string, range?: { from?: number; to?: number }): Promise<ScoreSnapshot[]>;
+    clear(address?: string): Promise<void>;
+}
+
+export interface ScoreTrendPoint {
     timestamp: number;
+    blockHeight: number | null;
+    score: number;
+    riskLevel: RiskLevel;
+    delta: number; // Change from the previous point (0 for the first)
+}
+
+/**
+ * How a factor's contribution moved between the first and last snapshot
+ */
+export interface FactorMovement {
+    id: string;
+    name: string;
+    from: number; // Points contributed at the first snapshot
+    to: number; // Points contributed at the last snapshot
+    change: number;
+}
+
+export interface ScoreTrend {
+    address: string;
+    model: ScoringModelRef;
+    series: ScoreTrendPoint[]; // Oldest first
+    change: number; // Last score minus first score
+    factors: FactorMovement[]; // Largest movement first
+    topMover: FactorMovement | null; // Factor that moved most (null without movement)
+}
+
+// ============================================================================
+// SCORE SIMULATION
+// ============================================================================
+
+/**
+ * Metrics a what-if simulation can change
+ */
+export type SimulatedMetric =
+    | 'transactionCount'
+    | 'walletAgeMonths'
+    | 'defiScore'
+    | 'repaymentRate'
+    | 'tokenBalance';
+
+/**
+ * Hypothetical change to one metric: add to its value or replace it
+ * e.g. { metric: 'transactionCount', add: 30 }, { metric: 'repaymentRate', set: 98 }
+ */
+export type MetricChange =
+    | { metric: SimulatedMetric; add: number }
+    | { metric: SimulatedMetric; set: number };
+
+/**
+ * Nearest value of a metric at which the final score changes
+ */
+export interface TierBoundary {
+    metric: SimulatedMetric;
+    direction: 'up' | 'down';
+    value: number; // Metric value at the boundary (whole units)
+    delta: number; // value minus the current value
+    finalScore: number; // Final score at the boundary
+    points: number; // finalScore minus the current final score
+}
+
+export interface FactorSimulation {
+    id: string;
+    name: string;
+    before: number; // Factor score (0-100) with the current metrics
+    after: number; // Factor score with the changes applied
+    boundaries: TierBoundary[]; // Nearest boundaries of the simulated metrics moving this factor
+}
+
+export interface ScoreSimulation {
+    changes: MetricChange[];
+    metrics: WalletMetrics; // Metrics with the changes applied (no provenance)
+    baseline: CreditAssessment;
+    simulated: CreditAssessment;
+    change: number; // Simulated minus baseline final score
+    factors: FactorSimulation[];
+}
+
+// ============================================================================
+// SCORING MODELS
+// ============================================================================
+
+/**
+ * Identifies a scoring model by id and semantic version
+ */
+export interface ScoringModelRef {
+    id: string;
+    version: string; // semver, e.g. "2.0.0"
+}
+
+/**
+ * Inputs shared by every factor during a single evaluation
+ */
+export interface ScoringContext {
+    now: number; // Unix timestamp (ms) the assessment is computed at
+    blockHeight?: number; // Block height it is computed at (default: the ledger's read height)
+}
+
+/**
+ * A single weighted factor of a scoring model
+ */
+export interface ScoringFactor {
+    id: string;
+    name: string;
+    weight: number; // Fraction of the total, all factors sum to 1
+    score: (metrics: WalletMetrics, context: ScoringContext) => number; // 0-100
+    describe: (metrics: WalletMetrics) => string;
+}
+
+/**
+ * Pluggable scoring model consumed by ScoringEngine
+ */
+export interface ScoringModel extends ScoringModelRef {
+    description: string;
+    factors: readonly ScoringFactor[];
+    // Combine factor scores (in factor order) into 0-550 bonus points.
+    // Defaults to the rounded weighted average; integer models override it.
+    combine?: (factorScores: readonly number[]) => number;
+    recency?: RecencyPolicy; // Negative-event penalties on the final score (none if omitted)
+    scoreRange?: ScoreRange; // Defaults to SCORING_CONFIG (300-850)
+    riskBands?: readonly RiskBand[]; // Defaults to RISK_LEVELS
+}
+
+/**
+ * Lowest and highest final score of a model
+ * Factor scores are mapped onto the points between them.
+ */
+export interface ScoreRange {
+    min: number;
+    max: number;
+}
+
+/**
+ * Lowest final score of a risk level
+ */
+export interface RiskBand {
+    level: RiskLevel;
+    minScore: number;
+}
+
+/**
+ * Penalty for one type of negative event
+ */
+export interface NegativeEventRule {
+    points: number; // Final score points of an event as it happens
+    halfLifeDays: number; // Days after which the event costs half as much
+}
+
+/**
+ * How a model weighs loan ledger events by age
+ */
+export interface RecencyPolicy {
+    repaymentHalfLifeDays: number; // Days after which a closed loan weighs half in the on-time rate
+    delinquencyDays: number; // Days past due that make a loan delinquent
+    events: Record<NegativeEventType, NegativeEventRule>;
+    maxPenaltyPoints: number; // Cap on the points all events take off together
+}
+
+// ============================================================================
+// SCORING POLICIES
+// ============================================================================
+
+/**
+ * Metrics a scoring policy can read
+ * balanceVolatility and the loan ledger metrics are undefined without a
+ * balance history or ledger; adjustments on them are then skipped.
+ */
+export type PolicyMetric =
+    | 'transactionCount'
+    | 'walletAgeMonths'
+    | 'defiScore'
+    | 'repaymentRate'
+    | 'tokenBalance'
+    | 'stableBalance' // Mean of the average and minimum sampled balance (tokenBalance without history)
+    | 'balanceVolatility'
+    | 'daysSinceLastTransaction'
+    | 'liquidations'
+    | 'defaults'
+    | 'maxDaysPastDue';
+
+/**
+ * Factor score from a metric value up
+ */
+export interface PolicyTier {
+    min: number; // Lowest metric value of the tier (inclusive)
+    score: number; // 0-100
+}
+
+/**
+ * Points added to a factor score while a metric is within bounds
+ */
+export interface PolicyAdjustment {
+    metric: PolicyMetric;
+    above?: number; // Exclusive lower bound
+    atMost?: number; // Inclusive upper bound
+    points?: number; // Added once
+    pointsPerUnit?: number; // Added per unit of the metric
+}
+
+/**
+ * One factor of a scoring policy
+ * The factor score is the tier of the metric (below the lowest tier:
+ * belowSlope points per unit) plus the adjustments, clamped to 0-100.
+ */
+export interface PolicyFactor {
+    id: string;
+    name: string;
+    weight: number; // Fraction of the total, all factors sum to 1
+    metric: PolicyMetric;
+    tiers: PolicyTier[]; // Highest first
+    belowSlope: number;
+    adjustments?: PolicyAdjustment[];
+    description?: string; // Shown in factor analyses; {value} is the metric value
+}
+
+/**
+ * Declarative scoring model, read from a JSON or YAML policy file
+ * See lib/sdk/policy/scoring-policy.schema.json.
+ */
+export interface ScoringPolicy {
+    $schema?: string;
+    id: string;
+    version: string; // semver
+    description: string;
+    scoreRange: ScoreRange;
+    riskBands: RiskBand[]; // Lowest risk first, the last starts at scoreRange.min
+    factors: PolicyFactor[];
+}
+
+export type ScoringPolicyFormat = 'json' | 'yaml';
+
+/**
+ * Score of one wallet before and after a policy change
+ */
+export interface PolicyScoreChange {
+    address: string;
+    before: number;
+    after: number;
+    change: number; // after - before
+    riskBefore: RiskLevel;
+    riskAfter: RiskLevel;
+}
+
+/**
+ * How a policy change shifts the scores of a population
+ */
+export interface PolicyDiff {
+    before: ScoringModelRef;
+    after: ScoringModelRef;
+    count: number;
+    meanChange: number;
+    raised: number;
+    lowered: number;
+    unchanged: number;
+    maxRaise: number; // 0 if no score rises
+    maxDrop: number; // 0 if no score drops, otherwise negative
+    riskMigration: Record<RiskLevel, Record<RiskLevel, number>>; // [before][after] wallets
+    wallets: PolicyScoreChange[]; // Largest changes first
 }
 
+export type PolicyDiffFormat = 'json' | 'markdown';
+
+// ============================================================================
+// SCORE SCALES
+// ============================================================================
+
+export type ScaleValue = number | string;
+
+/**
+ * A band of a score scale, e.g. 'A' or 'Very Good'
+ */
+export interface ScaleBand {
+    label: string;
+    minNormalized: number; // Lowest normalised score of the band (0-1)
+    riskLevel: RiskLevel; // Risk level the band counts as (claims, on-chain credit)
+}
+
+/**
+ * Maps normalised scores onto the scale a lender presents them on
+ */
+export interface ScoreScale {
+    id: string;
+    name: string;
+    bands: readonly ScaleBand[]; // Highest first, the last starts at 0
+    project: (normalized: number) => ScaleValue; // e.g. 742 on 0-1000, 'B' for letter grades
+    rank: (value: ScaleValue) => number; // Orders values, higher is better (NaN off the scale)
+}
+
+/**
+ * A score as shown on one scale
+ */
+export interface ScorePresentation {
+    scale: string; // ScoreScale id
+    value: ScaleValue;
+    band: string; // Label of the band the score falls in
+    riskLevel: RiskLevel;
+}
+
+/**
+ * A value on a scale, e.g. "grade B or better"
+ */
+export interface ScaleBound {
+    scale: ScoreScale;
+    value: ScaleValue;
+}
+
+/**
+ * Threshold or range statement in a scale's terms (see ProofStatement)
+ */
+export type ScaledStatement =
+    | { kind: 'threshold'; scale: ScoreScale; threshold: ScaleValue }
+    | { kind: 'range'; scale: ScoreScale; min: ScaleValue; max: ScaleValue };
+
 // ============================================================================
 // ZERO-KNOWLEDGE PROOF
 // ============================================================================
 
+/**
+ * What a proof attests to
+ */
+export type ProofStatement =
+    | { kind: 'score' }
+    | { kind: 'threshold'; threshold: number }
+    | { kind: 'range'; min: number; max: number }
+    | { kind: 'claim'; claim: number; min: number; max: number } // Claim id, see SelectiveDisclosure
+    | { kind: 'identity'; wallets: number }; // Control of linked wallets only
+
+/**
+ * Proof envelope shared by every proving backend and consumer
+ */
 export interface ZKProof {
-    proofHash: string;
+    backend: string; // Id of the ProvingBackend that produced the proof
+    program: string; // Aleo program id, e.g. credit_score.aleo
+    transition: string; // Transition the proof executes
+    statement: ProofStatement;
+    proof: string; // Backend-encoded proof
+    proofHash: string; // SHA-256 of `proof`, used as the on-chain reference
     publicInputs: string[];
-    proof: {
-        a: string[];
-        b: string[][];
-        c: string[];
-    };
+    scoreCommitment: string; // Commitment to the ScoreRecord (or ClaimRecord) the proof is about
+    commitmentScheme: string; // Id of the CommitmentScheme used
+    scoreBlock?: number; // Block the proven ScoreRecord was generated at (public input)
+    owner?: string; // Owner of the proven ScoreRecord (threshold/range: public output; score: opened)
+    opening?: ScoreOpening; // Score proofs: opens scoreCommitment, disclosing the score to the verifier
+    challenge?: ProofChallenge; // Verifier challenge the proof answers (nonce and purpose are public inputs)
+    nullifier?: string; // Threshold/range proofs: per record and purpose, see use_nullifier
+    timestamp: number; // Unix timestamp (ms) the proof was generated at
+}
+
+/**
+ * Verifier-issued challenge a threshold, range or identity proof must answer
+ * Binds the proof to one verifier session and caps its reuse per purpose
+ */
+export interface ProofChallenge {
+    verifier: string; // Verifier identity (e.g. lender address)
+    purpose: string; // What the proof is for, e.g. 'loan-application'
+    nonce: string; // Decimal field element, fresh per challenge
+    maxUses: number; // Accepted uses per score record and purpose (0: unlimited)
+    expiresAt: number; // Unix timestamp (ms)
+}
+
+/**
+ * Integer inputs of the Leo `generate_score` transition
+ * Mirrors `ScoreMetrics` in contract/src/main.leo
+ */
+export interface IntegerModelInputs {
+    txCount: number;
+    walletAgeMonths: number;
+    defiScore: number;
+    repaymentRate: number;
+    balance: number; // Whole credits (tokenBalance, floored)
+    daysSinceLastTx: number;
+    stableBalance: number; // (average + minimum) / 2 of the balance history, else balance
+    volatilityBps: number; // Balance volatility in basis points (0 without a history)
+    penaltyPoints: number; // Event penalty points, at most the recency policy's cap
+}
+
+/**
+ * Values a score commitment opens to
+ * Mirrors `ScoreOpening` in contract/src/main.leo, plus the blinding
+ */
+export interface CommittedScore {
+    owner: string;
+    score: number;
+    timestamp: number; // Block height the score was generated at
+    blinding: string; // Decimal scalar hiding the committed values
+}
+
+/**
+ * The user's private score record
+ * Mirrors `CreditRecord` in contract/src/main.leo; never leaves the device
+ */
+export interface ScoreRecord extends CommittedScore {
+    metrics: IntegerModelInputs; // Inputs the score was computed from
+    claimBlindings: string[]; // One decimal scalar per claim, in claim id order
+}
+
+/**
+ * A disclosed score commitment; the record's metrics stay private
+ */
+export interface ScoreOpening extends CommittedScore {
+    scheme: string;
+    commitment: string;
+}
+
+/**
+ * A single committed assessment value (a factor score, metric or risk level)
+ * Mirrors `ClaimOpening` in contract/src/main.leo
+ */
+export interface ClaimRecord {
+    owner: string;
+    claim: number; // Claim id
+    value: number;
+    blinding: string;
+}
+
+/**
+ * Hiding, binding commitment over (score, owner, timestamp, blinding)
+ */
+export interface CommitmentScheme {
+    readonly id: string;
+    randomBlinding: () => string;
+    commit: (record: CommittedScore) => Promise<string>;
+    commitClaim: (claim: ClaimRecord) => Promise<string>;
+    // Decimal root over claim commitments in claim id order (anchor_claims)
+    claimsRoot: (commitments: string[]) => Promise<string>;
+    nullifier: (blinding: string, purpose: string) => Promise<string>; // Field literal
+    // Field literal keying a verifier's uses of a nullifier (use_nullifier)
+    nullifierKey: (verifier: string, nullifier: string) => Promise<string>;
+}
+
+/**
+ * Transition execution handed to a proving backend
+ */
+export interface ProvingRequest {
+    program: string;
+    transition: string;
+    inputs: string[]; // Leo literals, e.g. ['150u64', ...]
+    publicInputs: string[];
+    commitment: string; // Expected public commitment output
+    nullifier?: string; // Expected public nullifier output (threshold/range)
+    owner?: string; // Expected public owner output (score/threshold/range)
+}
+
+/**
+ * Pluggable proving backend consumed by ProofGenerator
+ */
+export interface ProvingBackend {
+    readonly id: string;
+    // Commitment scheme computed by the backend's circuit
+    readonly commitments: CommitmentScheme;
+    // Execute the transition and return the encoded proof
+    prove: (request: ProvingRequest) => Promise<string>;
+    verify: (proof: ZKProof) => Promise<boolean>;
+    estimateProofTime: () => number; // ms
+    isSupported: () => boolean;
 }
 
 // ============================================================================
@@ -71,8 +887,274 @@ export interface CreditRecord {
     threshold: number;
     issuedBlock: number;
     issuedAt: number; // Unix timestamp
+    scoreCommitment: string; // Commitment of the underlying score record (score_commitments key)
+    scoreBlock: number; // Block the underlying score record was generated at
+    expiresBlock: number; // Last block the credential is valid at
 }
 
+// ============================================================================
+// SELECTIVE DISCLOSURE
+// ============================================================================
+
+/**
+ * A committed claim, as held by the user
+ */
+export interface Claim extends ClaimRecord {
+    name: string; // e.g. 'walletAgeMonths', 'factor.repayment'
+    commitment: string;
+}
+
+/**
+ * All claims of an assessment; the root is anchored on-chain
+ * Private: the blindings open every claim
+ */
+export interface ClaimSet {
+    holder: string;
+    model: ScoringModelRef;
+    scheme: string; // CommitmentScheme id
+    claims: Claim[];
+    root: string; // Decimal field element over all claim commitments
+    record: ScoreRecord; // Record the claims are committed in (anchor_claims input)
+}
+
+/**
+ * A claim the holder proves by predicate: min <= value <= max
+ */
+export interface ClaimPredicate {
+    claim: string;
+    min?: number; // Default: 0
+    max?: number; // Default: Number.MAX_SAFE_INTEGER
+}
+
+/**
+ * Which claims to reveal and which to prove by predicate
+ */
+export interface PresentationRequest {
+    reveal?: string[];
+    prove?: ClaimPredicate[];
+}
+
+/**
+ * A revealed claim with the opening of its commitment
+ */
+export interface ClaimDisclosure {
+    claim: string;
+    value: number;
+    blinding: string;
+}
+
+/**
+ * A predicate over a claim, proven without revealing the value
+ */
+export interface ClaimPredicateProof {
+    claim: string;
+    min: number;
+    max: number;
+    proof: ZKProof;
+}
+
+/**
+ * What a holder hands to a lender
+ */
+export interface CredentialPresentation {
+    holder: string;
+    model: ScoringModelRef;
+    scheme: string;
+    scoreCommitment: string; // Commitment of the score record the claims were anchored from
+    scoreBlock: number; // Block that record was generated at
+    commitments: Record<string, string>; // Every claim's commitment (hashes to the root)
+    disclosures: ClaimDisclosure[];
+    predicates: ClaimPredicateProof[];
+    createdAt: number;
+}
+
+/**
+ * Result of checking a presentation
+ */
+export interface PresentationVerification {
+    isValid: boolean;
+    claims: Record<string, { min: number; max: number }>; // Established value ranges
+    error?: string;
+}
+
+// ============================================================================
+// LINKED WALLETS
+// ============================================================================
+
+/**
+ * One wallet's signature over the link message of a challenge
+ */
+export interface WalletSignature {
+    address: string;
+    signature: string; // sign1..., over linkMessage(challenge)
+}
+
+/**
+ * Signatures from every wallet a holder links, answering one challenge
+ * The first wallet is the primary: it executes the identity proof.
+ */
+export interface WalletLinkRequest {
+    challenge: ProofChallenge; // Issued by the verifier the identity is proven to
+    signatures: WalletSignature[];
+}
+
+/**
+ * Wallets shown to be under one holder's control
+ * Private: an identity proof only discloses how many wallets there are
+ */
+export interface LinkedIdentity {
+    primary: string;
+    addresses: string[]; // Primary first
+    challenge: ProofChallenge;
+    signatures: WalletSignature[]; // Same order as addresses
+    linkedAt: number; // Unix timestamp (ms)
+}
+
+/**
+ * Checks a wallet's signature over an Aleo plaintext
+ */
+export interface WalletSignatureVerifier {
+    readonly id: string;
+    verify: (address: string, message: string, signature: string) => Promise<boolean>;
+}
+
+// ============================================================================
+// METRICS CACHE
+// ============================================================================
+
+/**
+ * Wallet metrics as kept by a MetricsCacheStore
+ * Entries are plain JSON so any store can persist them.
+ */
+export interface CachedMetrics {
+    metrics: WalletMetrics;
+    storedAt: number; // Unix timestamp (ms)
+    lastTransactionId: string | null; // Latest transaction the metrics include
+    estimated?: boolean; // The source read failed; every field ages on CACHE_CONFIG.FALLBACK_TTL
+}
+
+/**
+ * Storage behind the DataAggregator metrics cache
+ * Stores only keep entries; freshness is decided by the aggregator, so
+ * one store can be shared by aggregators with different TTLs.
+ */
+export interface MetricsCacheStore {
+    readonly id: string; // e.g. 'memory', 'indexeddb', 'file', 'sqlite'
+    get(address: string): Promise<CachedMetrics | undefined>;
+    set(address: string, entry: CachedMetrics): Promise<void>;
+    delete(address: string): Promise<void>;
+    clear(): Promise<void>;
+    size(): Promise<number>;
+}
+
+// ============================================================================
+// BATCH SCORING
+// ============================================================================
+
+export interface BatchScoreOptions {
+    concurrency?: number; // Addresses scored at once (default: BATCH_CONFIG.CONCURRENCY)
+    model?: { id: string; version?: string }; // Defaults to config.scoringModel
+}
+
+/**
+ * Outcome for one address of a batch
+ * A failed address does not abort the batch.
+ */
+export type BatchScoreResult =
+    | {
+        address: string;
+        status: 'scored';
+        assessment: CreditAssessment;
+        durationMs: number;
+    }
+    | {
+        address: string;
+        status: 'failed';
+        error: { code: string; message: string };
+        durationMs: number;
+    };
+
+export type BatchExportFormat = 'csv' | 'jsonl';
+
+// ============================================================================
+// CALIBRATION
+// ============================================================================
+
+/**
+ * One scored address of a calibration population
+ */
+export interface CalibrationSample {
+    address: string;
+    score: number;
+    model?: string; // "id@version" of the model that produced the score
+    defaulted?: boolean; // Default label, if known
+}
+
+/**
+ * Minimum scores of the low and medium risk bands (high is below medium)
+ */
+export interface RiskCutoffs {
+    low: number;
+    medium: number;
+}
+
+export interface ScoreDistribution {
+    count: number;
+    mean: number;
+    stdDev: number;
+    min: number;
+    max: number;
+    quantiles: { p10: number; p25: number; p50: number; p75: number; p90: number };
+    histogram: Array<{ from: number; to: number; count: number; share: number }>; // to exclusive
+}
+
+export interface RiskBandOccupancy {
+    riskLevel: RiskLevel;
+    minScore: number;
+    maxScore: number; // Inclusive
+    count: number;
+    share: number; // Fraction of the population
+    defaults: number | null; // Among labeled samples (null without labels)
+    defaultRate: number | null;
+}
+
+/**
+ * Observed and predicted default rate of one score bin
+ */
+export interface CalibrationBin {
+    minScore: number;
+    maxScore: number;
+    count: number;
+    defaults: number;
+    observedRate: number;
+    predictedRate: number; // From the logistic fit of default on score
+}
+
+/**
+ * How well scores separate defaulters from non-defaulters
+ */
+export interface DiscriminationMetrics {
+    labeled: number;
+    defaults: number;
+    auc: number; // Probability a non-defaulter outscores a defaulter (0.5: no skill)
+    ks: number; // Max gap between the score CDFs of defaulters and non-defaulters
+    ksScore: number; // Score at which the KS gap is largest
+    logistic: { intercept: number; slope: number }; // P(default) = 1 / (1 + e^-(a + b·score))
+    calibration: CalibrationBin[]; // Lowest scores first
+}
+
+export interface CalibrationReport {
+    generatedAt: number;
+    models: string[]; // Models found in the samples
+    distribution: ScoreDistribution;
+    percentiles: Array<{ address: string; score: number; percentile: number }>;
+    cutoffs: RiskCutoffs;
+    riskBands: RiskBandOccupancy[]; // Highest risk first
+    discrimination: DiscriminationMetrics | null; // Null without both outcomes labeled
+}
+
+export type CalibrationReportFormat = 'json' | 'html';
+
 // ============================================================================
 // SDK CONFIGURATION
 // ============================================================================
@@ -83,7 +1165,18 @@ export interface SDKConfig {
     contractAddress: string;
     chainId: 'mainnet' | 'testnet';
     enableCache?: boolean;
-    cacheTTL?: number;
+    cacheTTL?: number; // TTL of every metric field (default: CACHE_CONFIG.FIELD_TTLS)
+    cacheStore?: MetricsCacheStore; // Defaults to an in-memory LRU store
+    snapshotStore?: ScoreSnapshotStore; // Keeps every assessment (default: in-memory)
+    scoringModel?: { id: string; version?: string }; // Defaults to the registry default
+    scoreScales?: ScoreScale[]; // Presentation scales (the first sets the risk level)
+    provingBackend?: ProvingBackend; // Defaults to the mock backend
+    metricsSource?: MetricsSource; // Defaults to the Aleo explorer at indexerUrl (or rpcUrl)
+    strictData?: boolean; // Raise RPCError instead of falling back to estimated metrics
+    lendingPrograms?: LendingProgram[]; // Lending programs the loan ledger tracks (default: none; required for a real repaymentRate)
+    washDetection?: boolean; // Discount wash activity from the transaction count (default: true)
+    signatureVerifier?: WalletSignatureVerifier; // Checks linked wallets (default: Aleo signatures)
+    requestsPerSecond?: number; // Explorer requests of the default source (default: 10)
 }
 
 // ============================================================================
@@ -139,3 +1232,17 @@ export class TransactionError extends SDKError {
         this.name = 'TransactionError';
     }
 }
+
+/**
+ * A credential (score record, proof or issued credential) is no longer valid
+ */
+export class CredentialError extends SDKError {
+    constructor(
+        message: string,
+        code: 'CREDENTIAL_EXPIRED' | 'CREDENTIAL_SUPERSEDED' | 'CREDENTIAL_REUSED',
+        details?: unknown
+    ) {
+        super(message, code, details);
+        this.name = 'CredentialError';
+    }
+}
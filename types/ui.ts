@@ -50,6 +50,8 @@ export interface ScoreRingProps {
     riskLevel: import('./sdk').RiskLevel;
     size?: 'sm' | 'md' | 'lg';
     animated?: boolean;
+    scale?: import('./sdk').ScoreScale;
+    normalizedScore?: number;
 }
 
 // ============================================================================